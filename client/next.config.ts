@@ -5,6 +5,10 @@ const nextConfig: NextConfig = {
   compiler: {
     removeConsole: true,
   },
+  // The Socket.IO event contract lives in ../shared, next to the server
+  experimental: {
+    externalDir: true,
+  },
 };
 
 export default nextConfig;
\ No newline at end of file
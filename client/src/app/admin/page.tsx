@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { io } from "socket.io-client";
+import bs58 from "bs58";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
+import type { ArenaSummary } from "@/store/useGameStore";
+import { onAdminEvent, onAdminAck, type AdminSocket } from "@/lib/socketEvents";
+
+/**
+ * @interface AdminPlayer
+ * @description A player as operators see them.
+ */
+interface AdminPlayer {
+  /** The player's wallet address. */
+  id: string;
+  /** Display name. */
+  name: string;
+  /** Confirmed bets for the arena's next (or current) duel, in whole tokens. */
+  betAmount: number;
+  /** Whether the player is fighting in the current round. */
+  isFighter: boolean;
+  /** Whether the player's session has lost its socket. */
+  isDetached: boolean;
+}
+
+/**
+ * @interface AdminFighter
+ * @description A seat in the running duel, as reported by the duel engine.
+ */
+interface AdminFighter {
+  id: string;
+  name: string;
+  /** Lives left in the series. */
+  health: number;
+  /** Games won in the series. */
+  wins: number;
+  connected: boolean;
+  forfeited: boolean;
+  isReady: boolean;
+  hasFired: boolean;
+  shotResult: string | null;
+  isAI: boolean;
+}
+
+/**
+ * @interface AdminArena
+ * @description An arena's live state, as sent with `admin:state`.
+ */
+interface AdminArena extends ArenaSummary {
+  /** Seconds left before the auction closes, or null if it is not running. */
+  countdown: number | null;
+  players: AdminPlayer[];
+  /** The running duel, or null between duels. */
+  duel: {
+    state: string;
+    round: number;
+    game: number;
+    bestOf: number;
+    ruleset: string;
+    zone: { min: number; max: number };
+    fighters: AdminFighter[];
+  } | null;
+}
+
+/**
+ * @interface AdminState
+ * @description Everything the game server reports to operators.
+ */
+interface AdminState {
+  arenas: AdminArena[];
+  bannedWallets: string[];
+}
+
+/**
+ * @interface AuditEvent
+ * @description A money audit event recorded by the game server.
+ */
+interface AuditEvent {
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  /** e.g. 'bet_confirmed', 'pot_computed', 'payout_confirmed', 'stat_delta'. */
+  type: string;
+  roundId: string | null;
+  arenaId: string | null;
+  walletAddress: string | null;
+  /** Whole tokens. */
+  amount: number | null;
+  /** False when the event records a failure. */
+  ok: boolean;
+  error: string | null;
+  details: Record<string, unknown>;
+}
+
+const shortWallet = (wallet: string) => `${wallet.slice(0, 4)}...${wallet.slice(-4)}`;
+
+const ActionButton = ({ label, onClick, tone = "text-subtext0" }: { label: string; onClick: () => void; tone?: string }) => (
+  <button onClick={onClick} className={`text-xs ${tone} opacity-75 hover:opacity-100`}>
+    <span className="text-subtext1">[</span>{label}<span className="text-subtext1">]</span>
+  </button>
+);
+
+/**
+ * @page AdminPage
+ * @description Operator console: signs in on the game server's `/admin`
+ * namespace with an operator wallet, shows every arena's live state and sends
+ * operator actions. The server audit-logs every action.
+ */
+export default function AdminPage() {
+  const wallet = useWallet();
+  const [socket, setSocket] = useState<AdminSocket | null>(null);
+  const [operator, setOperator] = useState<string | null>(null);
+  const [state, setState] = useState<AdminState | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [banTarget, setBanTarget] = useState("");
+  const [auditFilter, setAuditFilter] = useState({ roundId: "", walletAddress: "" });
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[] | null>(null);
+
+  useEffect(() => {
+    const adminSocket: AdminSocket = io(`${process.env.NEXT_PUBLIC_SERVER_URL}/admin`, {
+      transports: ['websocket'],
+      upgrade: false,
+    });
+    onAdminEvent(adminSocket, 'admin:state', setState);
+    onAdminEvent(adminSocket, 'admin:authenticated', ({ walletAddress }) => setOperator(walletAddress));
+    onAdminEvent(adminSocket, 'admin:authFailed', setNotice);
+    onAdminEvent(adminSocket, 'socket:rejected', ({ event, error }) => setNotice(`${event}: ${error}`));
+    adminSocket.on('disconnect', () => setOperator(null));
+    setSocket(adminSocket);
+
+    return () => {
+      adminSocket.disconnect();
+    };
+  }, []);
+
+  const signIn = () => {
+    const { publicKey, signMessage } = wallet;
+    if (!socket || !publicKey || !signMessage) {
+      setNotice('Connect a wallet that supports message signing');
+      return;
+    }
+
+    const stopListening = onAdminEvent(socket, 'admin:authChallenge', async ({ message }) => {
+      stopListening();
+      try {
+        const signature = bs58.encode(await signMessage(new TextEncoder().encode(message)));
+        socket.emit('admin:auth', { walletAddress: publicKey.toBase58(), signature, message });
+      } catch (e) {
+        setNotice(e instanceof Error ? e.message : 'Signature failed');
+      }
+    });
+    socket.emit('admin:requestChallenge');
+  };
+
+  const perform = (action: string, params: Record<string, unknown>, confirmation?: string) => {
+    if (!socket || (confirmation && !confirm(confirmation))) return;
+
+    socket.emit('admin:action', { action, params }, onAdminAck('admin:action', (result) => {
+      setNotice(result.ok ? `${action}: done` : `${action}: ${result.error}`);
+    }));
+  };
+
+  const searchAudit = () => {
+    if (!socket) return;
+
+    socket.emit('admin:audit', auditFilter, onAdminAck('admin:audit', (result) => {
+      if (result.ok) {
+        setAuditEvents(result.events ?? []);
+      } else {
+        setNotice(`audit: ${result.error}`);
+      }
+    }));
+  };
+
+  if (!operator) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center gap-4 font-mono text-subtext0">
+        <h1 className="text-2xl text-text">{'// OPERATOR CONSOLE'}</h1>
+        <WalletMultiButton />
+        <ActionButton label="SIGN IN AS OPERATOR" onClick={signIn} tone="text-success" />
+        {notice && <p className="text-sm text-error">[{notice.toUpperCase()}]</p>}
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 font-mono text-sm text-subtext0">
+      <header className="mb-4 flex items-center justify-between">
+        <h1 className="text-2xl text-text">{'// OPERATOR CONSOLE'}</h1>
+        <span className="text-xs">SIGNED IN AS {shortWallet(operator)} · ALL ACTIONS ARE AUDIT-LOGGED</span>
+      </header>
+      {notice && <p className="mb-4 text-xs text-warning">[{notice.toUpperCase()}]</p>}
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {state?.arenas.map((arena) => (
+          <section key={arena.id} className="border-dashed-ascii bg-ascii-shade p-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-base text-text">{arena.name}</h2>
+              <span className={arena.bettingPaused ? 'text-warning' : 'text-subtext1'}>
+                {arena.phase}{arena.bettingPaused && ' · BETTING PAUSED'}
+                {arena.countdown !== null && ` · T-${arena.countdown}`}
+              </span>
+            </div>
+            <div className="mt-1 text-xs">
+              POT {arena.pot} · {arena.playerCount} PLAYERS · {arena.contenderCount} BETTING
+            </div>
+
+            <div className="mt-2 flex gap-3">
+              {arena.bettingPaused ? (
+                <ActionButton label="RESUME BETTING" tone="text-success" onClick={() => perform('resumeBetting', { arenaId: arena.id })} />
+              ) : (
+                <ActionButton label="PAUSE BETTING" tone="text-warning" onClick={() => perform('pauseBetting', { arenaId: arena.id })} />
+              )}
+              <ActionButton
+                label="CANCEL ROUND + REFUND"
+                tone="text-error"
+                onClick={() => perform('cancelRound', { arenaId: arena.id }, `Cancel the round in ${arena.name} and refund every bet?`)}
+              />
+            </div>
+
+            {arena.duel && (
+              <div className="mt-3">
+                <div className="text-xs text-subtext1">
+                  DUEL {arena.duel.state} · GAME {arena.duel.game}/{arena.duel.bestOf} · ROUND {arena.duel.round} · ZONE{' '}
+                  {(arena.duel.zone.min * 100).toFixed(0)}-{(arena.duel.zone.max * 100).toFixed(0)}%
+                </div>
+                {arena.duel.fighters.map((fighter) => (
+                  <div key={fighter.id} className="flex items-center justify-between text-xs">
+                    <span className={fighter.forfeited ? 'text-error line-through' : 'text-text'}>
+                      {fighter.name} · {fighter.health} LIVES · {fighter.wins} WINS
+                      {!fighter.connected && ' · AWAY'}
+                      {fighter.isAI && ' · AI'}
+                      {fighter.isReady ? ' · READY' : ''}
+                      {fighter.hasFired && ` · ${(fighter.shotResult ?? 'fired').toUpperCase()}`}
+                    </span>
+                    <ActionButton
+                      label="FORCE WIN"
+                      onClick={() => perform('forceWinner', { arenaId: arena.id, playerId: fighter.id }, `Award the duel to ${fighter.name}?`)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="hr-dashed mt-3" role="presentation" />
+            {arena.players.map((player) => (
+              <div key={player.id} className="flex items-center justify-between py-1 text-xs">
+                <span>
+                  <span className="text-text">{player.name}</span> {shortWallet(player.id)}
+                  {player.isFighter && ' · FIGHTING'}
+                  {player.isDetached && ' · AWAY'}
+                  {player.betAmount > 0 && ` · BET ${player.betAmount}`}
+                </span>
+                <span className="flex gap-2">
+                  <ActionButton
+                    label="KICK"
+                    tone="text-warning"
+                    onClick={() => perform('kickWallet', { walletAddress: player.id }, `Kick ${player.name}? Held bets are refunded.`)}
+                  />
+                  <ActionButton
+                    label="BAN"
+                    tone="text-error"
+                    onClick={() => perform('banWallet', { walletAddress: player.id }, `Ban ${player.name}?`)}
+                  />
+                </span>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+
+      <section className="mt-4 border-dashed-ascii bg-ascii-shade p-4">
+        <h2 className="text-base text-text">BANNED WALLETS</h2>
+        <div className="mt-2 flex gap-2">
+          <input
+            value={banTarget}
+            onChange={(e) => setBanTarget(e.target.value.trim())}
+            placeholder="WALLET ADDRESS"
+            className="w-96 bg-transparent text-xs text-text outline-none"
+          />
+          <ActionButton
+            label="BAN"
+            tone="text-error"
+            onClick={() => {
+              perform('banWallet', { walletAddress: banTarget }, `Ban ${banTarget}?`);
+              setBanTarget("");
+            }}
+          />
+        </div>
+        {state?.bannedWallets.map((walletAddress) => (
+          <div key={walletAddress} className="flex items-center justify-between py-1 text-xs">
+            <span>{walletAddress}</span>
+            <ActionButton label="UNBAN" tone="text-success" onClick={() => perform('unbanWallet', { walletAddress })} />
+          </div>
+        ))}
+      </section>
+
+      <section className="mt-4 border-dashed-ascii bg-ascii-shade p-4">
+        <h2 className="text-base text-text">MONEY AUDIT LOG</h2>
+        <div className="mt-2 flex gap-2">
+          <input
+            value={auditFilter.roundId}
+            onChange={(e) => setAuditFilter({ ...auditFilter, roundId: e.target.value.trim() })}
+            placeholder="ROUND ID"
+            className="w-72 bg-transparent text-xs text-text outline-none"
+          />
+          <input
+            value={auditFilter.walletAddress}
+            onChange={(e) => setAuditFilter({ ...auditFilter, walletAddress: e.target.value.trim() })}
+            placeholder="WALLET ADDRESS"
+            className="w-96 bg-transparent text-xs text-text outline-none"
+          />
+          <ActionButton label="SEARCH" onClick={searchAudit} />
+        </div>
+        {auditEvents?.length === 0 && <p className="mt-2 text-xs">[NO EVENTS]</p>}
+        {auditEvents && auditEvents.length > 0 && (
+          <table className="mt-2 w-full text-left text-xs">
+            <tbody>
+              {auditEvents.map((event) => (
+                <tr key={event.id} className={event.ok ? '' : 'text-error'}>
+                  <td className="pr-2">{new Date(event.at).toLocaleString()}</td>
+                  <td className="pr-2 text-text">{event.type}</td>
+                  <td className="pr-2">{event.roundId ?? '-'}</td>
+                  <td className="pr-2">{event.walletAddress ? shortWallet(event.walletAddress) : '-'}</td>
+                  <td className="pr-2">{event.amount ?? '-'}</td>
+                  <td>{event.error ?? JSON.stringify(event.details)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,10 +1,10 @@
-import { verifyBetTransaction } from '@/lib/solanaAdmin';
+import { getChain } from '@/lib/chain';
 import { checkSignatureExists } from '@/lib/db';
 
 export async function POST(req: Request) {
     try {
         const body = await req.json();
-        const { txSignature, amount, socketId, walletAddress } = body;
+        const { txSignature, amount, walletAddress } = body;
 
         // Validate inputs
         if (!txSignature || typeof txSignature !== 'string') {
@@ -31,14 +31,10 @@ export async function POST(req: Request) {
             return Response.json({ error: 'Invalid wallet address' }, { status: 400 });
         }
 
-        if (!socketId || typeof socketId !== 'string') {
-            return Response.json({ error: 'Invalid socket ID' }, { status: 400 });
-        }
-
         console.log(`[BET API] Verifying bet: ${amount} tokens from ${walletAddress}`);
 
         // Verify on blockchain (amount is in tokens)
-        const verification = await verifyBetTransaction(
+        const verification = await getChain().verifyBetTransaction(
             txSignature,
             amount, // ← Whole tokens (e.g., 1000)
             walletAddress
@@ -70,7 +66,6 @@ export async function POST(req: Request) {
                 'Authorization': `Bearer ${internalSecret}`,
             },
             body: JSON.stringify({
-                socketId,
                 walletAddress,
                 amount: verification.verifiedAmountInTokens, // ← Whole tokens
                 txSignature,
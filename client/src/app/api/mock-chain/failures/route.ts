@@ -0,0 +1,37 @@
+import { getMockChain } from '@/lib/chain';
+import type { MockFailure, MockOperation } from '@/lib/mockChain';
+
+const OPERATIONS: MockOperation[] = ['transfer', 'send'];
+const FAILURES: MockFailure[] = ['rpc_error', 'reverted', 'lost_confirmation'];
+
+/**
+ * Makes the next mock chain call of an operation fail, for tests.
+ *
+ * Body: { operation: 'transfer' | 'send', failure: 'rpc_error' | 'reverted' | 'lost_confirmation' }
+ */
+export async function POST(req: Request) {
+    const chain = getMockChain();
+    if (!chain) {
+        return Response.json({ error: 'Mock chain is disabled' }, { status: 404 });
+    }
+
+    // Verify internal secret FIRST
+    const authHeader = req.headers.get('authorization');
+    const internalSecret = process.env.INTERNAL_API_SECRET;
+
+    if (!authHeader || authHeader !== `Bearer ${internalSecret}`) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { operation, failure } = await req.json().catch(() => ({}));
+
+    if (!OPERATIONS.includes(operation) || !FAILURES.includes(failure)) {
+        return Response.json(
+            { error: `Expected operation in ${OPERATIONS.join(', ')} and failure in ${FAILURES.join(', ')}` },
+            { status: 400 }
+        );
+    }
+
+    chain.failNext(operation, failure);
+    return Response.json({ success: true });
+}
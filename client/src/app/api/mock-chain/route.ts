@@ -0,0 +1,59 @@
+import { getMockChain } from '@/lib/chain';
+
+// Only exists while CHAIN_BACKEND=mock; the fake tokens are free, so anyone may move them
+
+/**
+ * Sends a bet's tokens from a wallet to the treasury on the mock chain.
+ *
+ * Body: { walletAddress, amount } (amount in WHOLE TOKENS)
+ * Returns the transaction signature to pass to `/api/bet`.
+ */
+export async function POST(req: Request) {
+    const chain = getMockChain();
+    if (!chain) {
+        return Response.json({ error: 'Mock chain is disabled' }, { status: 404 });
+    }
+
+    try {
+        const { walletAddress, amount } = await req.json();
+
+        if (!walletAddress || typeof walletAddress !== 'string') {
+            return Response.json({ error: 'Invalid wallet address' }, { status: 400 });
+        }
+        if (!amount || !Number.isInteger(amount) || amount <= 0) {
+            return Response.json({ error: 'Invalid amount (must be positive integer tokens)' }, { status: 400 });
+        }
+
+        const signature = await chain.transfer(walletAddress, amount);
+        return Response.json({ signature });
+
+    } catch (error) {
+        console.error('[MOCK CHAIN API] Error:', error);
+        return Response.json(
+            { error: error instanceof Error ? error.message : 'Transfer failed' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Reads the mock ledger: `?wallet=<address>` for one balance, otherwise the
+ * treasury balance and every transaction.
+ */
+export async function GET(req: Request) {
+    const chain = getMockChain();
+    if (!chain) {
+        return Response.json({ error: 'Mock chain is disabled' }, { status: 404 });
+    }
+
+    const wallet = new URL(req.url).searchParams.get('wallet');
+    if (wallet) {
+        return Response.json({ wallet, balance: chain.balanceOf(wallet) });
+    }
+
+    return Response.json({
+        treasury: chain.treasury,
+        treasuryBalance: chain.balanceOf(chain.treasury),
+        transactions: chain.getTransactions(),
+    });
+}
@@ -1,4 +1,4 @@
-import { sendShotTokens } from '@/lib/solanaAdmin';
+import { getChain } from '@/lib/chain';
 
 export async function POST(req: Request) {
     try {
@@ -11,7 +11,7 @@ export async function POST(req: Request) {
         }
 
         const body = await req.json();
-        const { walletAddress, amount } = body;
+        const { walletAddress, amount, idempotencyKey } = body;
 
         // Validate inputs
         if (!walletAddress || typeof walletAddress !== 'string') {
@@ -26,12 +26,30 @@ export async function POST(req: Request) {
             );
         }
 
+        // Unique per payout; a retry reuses it
+        if (!idempotencyKey || typeof idempotencyKey !== 'string') {
+            return Response.json({ error: 'Invalid idempotency key' }, { status: 400 });
+        }
+
+        // A previous attempt may have landed even though it reported an error
+        const existingSignature = await getChain().findPayoutByIdempotencyKey(idempotencyKey);
+        if (existingSignature) {
+            console.log(`[PAYOUT API] ${idempotencyKey} already paid:`, existingSignature);
+            return Response.json({
+                success: true,
+                signature: existingSignature,
+                amount,
+                alreadySent: true
+            });
+        }
+
         console.log(`[PAYOUT API] Sending ${amount} tokens to ${walletAddress}`);
 
         // Send tokens (amount is in tokens)
-        const signature = await sendShotTokens(
+        const signature = await getChain().sendShotTokens(
             walletAddress,
-            amount // ← Whole tokens (e.g., 1000)
+            amount, // ← Whole tokens (e.g., 1000)
+            idempotencyKey
         );
 
         console.log('[PAYOUT API] ✓ Payout successful:', signature);
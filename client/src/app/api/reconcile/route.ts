@@ -0,0 +1,71 @@
+import { getBetTransactionsSince, getPayoutTransactionsSince } from '@/lib/db';
+import {
+    DEFAULT_RECONCILIATION_LIMIT,
+    fetchTreasuryTransfers,
+    reconcile,
+    ReconciliationInput,
+} from '@/lib/reconciliation';
+
+const MAX_RECONCILIATION_LIMIT = 10000;
+
+/**
+ * Reconciles the bet and payout tables against the treasury's on-chain history.
+ *
+ * Body (all optional):
+ *   { limit, record }         - walk the latest `limit` treasury signatures;
+ *                               `record: true` also returns the input as a fixture
+ *   { transfers, bets, payouts } - a recorded fixture, reconciled offline
+ */
+export async function POST(req: Request) {
+    try {
+        // Verify internal secret FIRST
+        const authHeader = req.headers.get('authorization');
+        const internalSecret = process.env.INTERNAL_API_SECRET;
+
+        if (!authHeader || authHeader !== `Bearer ${internalSecret}`) {
+            return Response.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await req.json().catch(() => ({}));
+
+        // Recorded fixture: no RPC or database involved
+        if (Array.isArray(body.transfers)) {
+            if (!Array.isArray(body.bets) || !Array.isArray(body.payouts)) {
+                return Response.json({ error: 'Fixture needs transfers, bets and payouts' }, { status: 400 });
+            }
+            return Response.json({ report: reconcile(body as ReconciliationInput) });
+        }
+
+        const limit = body.limit ?? DEFAULT_RECONCILIATION_LIMIT;
+        if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_RECONCILIATION_LIMIT) {
+            return Response.json(
+                { error: `Invalid limit (must be 1-${MAX_RECONCILIATION_LIMIT})` },
+                { status: 400 }
+            );
+        }
+
+        console.log(`[RECONCILE] Walking the latest ${limit} treasury transactions`);
+
+        const transfers = await fetchTreasuryTransfers(limit);
+        const oldest = Math.min(...transfers.map((t) => t.blockTime ?? Date.now()), Date.now());
+        const since = new Date(oldest);
+
+        const input: ReconciliationInput = {
+            transfers,
+            bets: await getBetTransactionsSince(since),
+            payouts: await getPayoutTransactionsSince(since),
+        };
+        const report = reconcile(input);
+
+        console.log(`[RECONCILE] ${report.transferCount} transfers, ${report.discrepancies.length} discrepancies`);
+
+        return Response.json(body.record ? { report, fixture: input } : { report });
+
+    } catch (error) {
+        console.error('[RECONCILE] Error:', error);
+        return Response.json(
+            { error: error instanceof Error ? error.message : 'Reconciliation failed' },
+            { status: 500 }
+        );
+    }
+}
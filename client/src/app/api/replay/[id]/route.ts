@@ -0,0 +1,16 @@
+import { getReplay } from '@/lib/db';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+        return Response.json({ error: 'Invalid replay ID' }, { status: 400 });
+    }
+
+    const replay = await getReplay(id);
+    if (!replay) {
+        return Response.json({ error: 'Replay not found' }, { status: 404 });
+    }
+
+    return Response.json(replay);
+}
@@ -13,6 +13,8 @@ import { DuelUI } from "@/components/DuelScene";
 import { AsciiRenderer } from "@react-three/drei";
 import { UnifiedMessageDisplay } from "@/components/UnifiedMessageDisplay";
 import { MoneyTransferBreakdown } from "@/components/MoneyTransferBreakdown";
+import { SeriesScoreboard } from "@/components/SeriesScoreboard";
+import { ReconnectGate } from "@/components/ReconnectGate";
 import { formatTokenAmount } from "@/utils/FormatTokenAmount";
 
 const Loader = () => (
@@ -22,7 +24,7 @@ const Loader = () => (
 );
 
 export default function Home() {
-  const { isHydrated, socket, gamePhase, fighters, roundPot } = useGameStore();
+  const { isHydrated, playerId, gamePhase, fighters, roundPot } = useGameStore();
   const { connected } = useWallet();
   const [isLobbyVisible, setLobbyVisible] = useState(false);
   const [isTitleHovered, setTitleHovered] = useState(false);
@@ -52,7 +54,7 @@ export default function Home() {
     };
   }, []);
 
-  const isFighter = fighters?.some((g) => g.id === socket?.id) ?? false;
+  const isFighter = fighters?.some((g) => g.id === playerId) ?? false;
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -136,6 +138,10 @@ export default function Home() {
         </div>
       )}
 
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-30">
+        <SeriesScoreboard />
+      </div>
+
       <MoneyTransferBreakdown />
 
       <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40">
@@ -165,7 +171,11 @@ export default function Home() {
 
       {isLobbyVisible && <Lobby />}
 
-      {gamePhase === "IN_ROUND" && isFighter && <DuelUI />}
+      {gamePhase === "IN_ROUND" && isFighter && (
+        <DuelUI key={fighters.map((f) => f.id).join(':')} />
+      )}
+
+      <ReconnectGate />
 
       <footer className="fixed bottom-0 left-0 right-0 border-t border-gray-700 bg-black/80 p-1 text-center text-xs text-gray-400">
         Top 2 bidders fight. Winner takes 90% of the pot, 10% tax. Press [TAB] to bet.
@@ -0,0 +1,204 @@
+"use client";
+
+import { Canvas, useThree } from "@react-three/fiber";
+import React, { Suspense, useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import { AsciiRenderer } from "@react-three/drei";
+import { DuelStage3D, ShootingBar, useAudio } from "@/components/DuelScene";
+import { Replay, getReplayDuration, getReplayFrame } from "@/utils/replay";
+
+const SPEEDS = [1, 0.5, 0.25];
+
+const Loader = () => (
+  <div className="absolute inset-0 z-50 bg-black flex items-center justify-center text-white text-2xl font-bold">
+    LOADING REPLAY...
+  </div>
+);
+
+/**
+ * Points the camera at the middle of the fighters' circle, like the spectator view.
+ */
+const ReplayCamera = () => {
+  const { camera } = useThree();
+
+  useEffect(() => {
+    camera.position.set(-7, 2, 0);
+    camera.lookAt(0, 1, 0);
+  }, [camera]);
+
+  return null;
+};
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * @page ReplayPage
+ * @description Plays back a recorded duel through the live duel stage and
+ * shooting bar, at normal speed or in slow motion.
+ */
+export default function ReplayPage() {
+  const { id } = useParams<{ id: string }>();
+  const { playClick, playClack, playHammer } = useAudio();
+
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    fetch(`/api/replay/${id}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.json()).error ?? 'Replay not found');
+        setReplay(await res.json());
+      })
+      .catch((e: Error) => setError(e.message));
+  }, [id]);
+
+  const duration = replay ? getReplayDuration(replay) : 0;
+
+  useEffect(() => {
+    if (!replay || !isPlaying) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const step = (time: number) => {
+      const delta = (time - last) * speed;
+      last = time;
+      setElapsed((prev) => Math.min(prev + delta, duration));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [replay, isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (replay && elapsed >= duration) setIsPlaying(false);
+  }, [replay, elapsed, duration]);
+
+  const frame = useMemo(() => (replay ? getReplayFrame(replay, elapsed) : null), [replay, elapsed]);
+
+  if (error) {
+    return (
+      <main className="flex min-h-screen items-center justify-center font-mono text-subtext0">
+        [{error.toUpperCase()}]
+      </main>
+    );
+  }
+
+  if (!replay || !frame) {
+    return <Loader />;
+  }
+
+  const restart = () => {
+    setElapsed(0);
+    setIsPlaying(true);
+  };
+
+  // Bar sounds only make sense at normal speed.
+  const mute = () => {};
+
+  return (
+    <main className="font-body">
+      <div className="fixed inset-0 top-[-10%] z-[-1]">
+        <Suspense fallback={<Loader />}>
+          <Canvas
+            camera={{ fov: 75, position: [-7, 2, 0] }}
+            frameloop="always"
+            gl={{
+              powerPreference: "high-performance",
+              antialias: false,
+            }}
+            dpr={[1, 1.5]}
+          >
+            <color attach="background" args={["#ffffff"]} />
+            <AsciiRenderer
+              fgColor="black"
+              bgColor="white"
+              characters=" .:-+*=%@#"
+              color={false}
+              invert={false}
+              resolution={0.25}
+            />
+            <ReplayCamera />
+            <DuelStage3D replayFighters={frame.fighters} />
+          </Canvas>
+        </Suspense>
+      </div>
+
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-30 border-dashed-ascii bg-ascii-shade px-4 py-2 font-mono text-xs text-center">
+        <div className="text-subtext1">
+          REPLAY · {replay.arenaId.toUpperCase()} · {replay.ruleset.toUpperCase()}
+          {replay.bestOf > 1 && ` · BEST OF ${replay.bestOf} · GAME ${frame.game}`}
+          {` · ROUND ${frame.round}`}
+        </div>
+        <div className="text-text">{replay.fighters.map((f) => f.name).join(' VS ')}</div>
+      </div>
+
+      {frame.message && (
+        <div className="fixed top-1/4 left-1/2 -translate-x-1/2 z-20 font-mono text-2xl text-peach">
+          {frame.message}
+        </div>
+      )}
+
+      <div className="fixed top-24 left-4 z-30 border-dashed-ascii bg-overlay p-2 font-mono text-xs">
+        {replay.fighters.map((fighter) => {
+          const shot = frame.shots[fighter.id];
+          return (
+            <div key={fighter.id} className="flex gap-2">
+              <span className="text-text">{fighter.name}</span>
+              {shot ? (
+                <span className={shot.hit ? 'text-success' : 'text-error'}>
+                  {shot.hit ? 'HIT' : 'MISS'}
+                  {shot.position !== null && ` @ ${(shot.position * 100).toFixed(1)}%`}
+                  {!!shot.compensationMs && ` (+${shot.compensationMs}ms)`}
+                </span>
+              ) : (
+                <span className="text-subtext1">---</span>
+              )}
+            </div>
+          );
+        })}
+        <div className="mt-1 text-subtext1">
+          ZONE {(frame.zone.min * 100).toFixed(0)}-{(frame.zone.max * 100).toFixed(0)}%
+        </div>
+      </div>
+
+      <ShootingBar
+        visible={frame.barVisible}
+        barPosition={frame.barPosition}
+        zone={frame.zone}
+        onTick={speed === 1 && isPlaying ? playClick : mute}
+        onTock={speed === 1 && isPlaying ? playClack : mute}
+        onHammer={speed === 1 && isPlaying ? playHammer : mute}
+      />
+
+      <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 border-dashed-ascii bg-ascii-shade px-4 py-2 font-mono text-xs text-subtext0">
+        <button onClick={() => (elapsed >= duration ? restart() : setIsPlaying((prev) => !prev))} className="hover:text-text">
+          {isPlaying ? '[PAUSE]' : '[PLAY]'}
+        </button>
+        <button onClick={restart} className="hover:text-text">[RESTART]</button>
+        {SPEEDS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            className={option === speed ? 'text-rose' : 'hover:text-text'}
+          >
+            [{option}x]
+          </button>
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={10}
+          value={elapsed}
+          onChange={(e) => setElapsed(Number(e.target.value))}
+          className="w-48"
+        />
+        <span>{formatTime(elapsed)} / {formatTime(duration)}</span>
+      </div>
+    </main>
+  );
+}
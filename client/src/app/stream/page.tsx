@@ -7,7 +7,12 @@ import { useGameStore, Player } from "@/store/useGameStore";
 import { AsciiRenderer } from "@react-three/drei";
 import { MoneyTransferBreakdown } from "@/components/MoneyTransferBreakdown";
 import { TitleOverlay } from "@/components/TitleOverlay";
+import { TournamentBracket } from "@/components/TournamentBracket";
+import { SeriesScoreboard } from "@/components/SeriesScoreboard";
 import { formatTokenAmount } from "@/utils/FormatTokenAmount";
+import { useBarPosition } from "@/utils/useBarPosition";
+import { useTargetZone } from "@/utils/useTargetZone";
+import { onServerEvent, type ServerPayload } from "@/lib/socketEvents";
 
 const Loader = () => (
   <div className="absolute inset-0 z-50 bg-black flex items-center justify-center text-white text-2xl font-bold">
@@ -66,7 +71,7 @@ const StreamAnimationController = () => {
       }, 1200);
     };
 
-    const onShot = ({ shooterId, autoMiss }: { shooterId: string; autoMiss?: boolean }) => {
+    const onShot = ({ shooterId, autoMiss }: ServerPayload<"duel:shot">) => {
       if (autoMiss) {
         return;
       }
@@ -81,25 +86,25 @@ const StreamAnimationController = () => {
     const onNewRound = () => {
       const currentFighters = useGameStore.getState().fighters;
       currentFighters.forEach(f => {
-        useGameStore.getState().updateFighterAnimation(f.id, 'armed');
+        if ((f.health ?? 1) > 0) {
+          useGameStore.getState().updateFighterAnimation(f.id, 'armed');
+        }
       });
     };
 
-    const onRoundEnd = ({ outcome, winnerId, loserId }: {
-      outcome: 'hit' | 'dodge' | 'miss'; 
-      winnerId?: string; 
-      loserId?: string;
-      round: number;
-    }) => {
+    const onRoundEnd = ({ outcome, winnerId, loserId, winnerIds, loserIds }: ServerPayload<"duel:roundEnd">) => {
+      const winners = winnerIds ?? [winnerId];
+      const losers = loserIds ?? [loserId];
+
       setTimeout(() => {
         const currentFighters = useGameStore.getState().fighters;
         
         switch (outcome) {
           case 'hit':
             currentFighters.forEach(f => {
-              if (f.id === winnerId) {
+              if (winners.includes(f.id)) {
                 useGameStore.getState().updateFighterAnimation(f.id, 'shooting');
-              } else if (f.id === loserId) {
+              } else if (losers.includes(f.id)) {
                 useGameStore.getState().updateFighterAnimation(f.id, 'death');
               }
             });
@@ -120,14 +125,14 @@ const StreamAnimationController = () => {
       }, 300);
     };
 
-    const onGamePhaseChange = ({ phase, winnerData }: { 
-      phase: string; 
-      winnerData?: { name: string; isSplit: boolean; };
-    }) => {
-      if (phase === "POST_ROUND" && winnerData) {
+    const onGamePhaseChange = (data: ServerPayload<"game:phaseChange">) => {
+      if (data.phase === "POST_ROUND" && data.winnerData) {
+        const { winnerData } = data;
         const currentFighters = useGameStore.getState().fighters;
         
-        if (winnerData.isSplit) {
+        if (winnerData.refunded !== undefined) {
+          // Called off before the gong: nobody fell.
+        } else if (winnerData.isSplit) {
           currentFighters.forEach(f => {
             useGameStore.getState().updateFighterAnimation(f.id, 'death');
           });
@@ -143,21 +148,16 @@ const StreamAnimationController = () => {
       }
     };
 
-    socket.on("duel:bothReady", onBothReady);
-    socket.on("duel:gong", onGong);
-    socket.on("duel:shot", onShot);
-    socket.on("duel:newRound", onNewRound);
-    socket.on("duel:roundEnd", onRoundEnd);
-    socket.on("game:phaseChange", onGamePhaseChange);
-
-    return () => {
-      socket.off("duel:bothReady", onBothReady);
-      socket.off("duel:gong", onGong);
-      socket.off("duel:shot", onShot);
-      socket.off("duel:newRound", onNewRound);
-      socket.off("duel:roundEnd", onRoundEnd);
-      socket.off("game:phaseChange", onGamePhaseChange);
-    };
+    const unsubscribers = [
+      onServerEvent(socket, "duel:bothReady", onBothReady),
+      onServerEvent(socket, "duel:gong", onGong),
+      onServerEvent(socket, "duel:shot", onShot),
+      onServerEvent(socket, "duel:newRound", onNewRound),
+      onServerEvent(socket, "duel:roundEnd", onRoundEnd),
+      onServerEvent(socket, "game:phaseChange", onGamePhaseChange),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [socket]);
 
   return null;
@@ -255,7 +255,7 @@ const StreamMessageDisplay = () => {
       setCurrentMessage("");
     };
 
-    const handleNewRound = ({ round }: { round: number }) => {
+    const handleNewRound = ({ round }: ServerPayload<"duel:newRound">) => {
       clearAllTimers();
       
       setCurrentMessage(`═══ ROUND ${round} ═══`);
@@ -267,11 +267,13 @@ const StreamMessageDisplay = () => {
       }, 1500);
     };
 
-    const handleBothHit = () => {
+    // A round nobody lost a life in: everyone hit (a dodge) or everyone missed
+    const handleRoundEnd = ({ outcome }: ServerPayload<"duel:roundEnd">) => {
+      if (outcome === "hit") return;
       clearAllTimers();
       
-      setCurrentMessage("BOTH HIT — DODGE!");
-      setIsDramatic(true);
+      setCurrentMessage(outcome === "dodge" ? "BOTH HIT — DODGE!" : "BOTH MISSED!");
+      setIsDramatic(outcome === "dodge");
       setIsVisible(true);
       
       addTimer(() => {
@@ -279,29 +281,13 @@ const StreamMessageDisplay = () => {
       }, 1500);
     };
 
-    const handleBothMiss = () => {
-      clearAllTimers();
-      
-      setCurrentMessage("BOTH MISSED!");
-      setIsDramatic(false);
-      setIsVisible(true);
-      
-      addTimer(() => {
-        setIsVisible(false);
-      }, 1500);
-    };
+    const unsubscribers = [
+      onServerEvent(socket, "duel:gong", handleGong),
+      onServerEvent(socket, "duel:newRound", handleNewRound),
+      onServerEvent(socket, "duel:roundEnd", handleRoundEnd),
+    ];
 
-    socket.on("duel:gong", handleGong);
-    socket.on("duel:newRound", handleNewRound);
-    socket.on("duel:bothHit", handleBothHit);
-    socket.on("duel:bothMiss", handleBothMiss);
-
-    return () => {
-      socket.off("duel:gong", handleGong);
-      socket.off("duel:newRound", handleNewRound);
-      socket.off("duel:bothHit", handleBothHit);
-      socket.off("duel:bothMiss", handleBothMiss);
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [socket]);
 
   useEffect(() => {
@@ -351,7 +337,8 @@ const StreamMessageDisplay = () => {
 };
 
 const SpectatorLobby = () => {
-  const { players, lobbyCountdown, gamePhase } = useGameStore();
+  const { players, lobbyCountdown, gamePhase, bracket, arenas, arenaId } = useGameStore();
+  const fighterCount = arenas.find((arena) => arena.id === arenaId)?.fighterCount ?? 2;
   
   const allPlayers = Object.values(players);
 
@@ -359,7 +346,7 @@ const SpectatorLobby = () => {
     (a, b) => (b.betAmount ?? 0) - (a.betAmount ?? 0) || (a.lastBetTimestamp || 0) - (b.lastBetTimestamp || 0)
   );
   
-  const potentialFighters = sortedByBid.slice(0, 2);
+  const potentialFighters = sortedByBid.slice(0, fighterCount);
   const fighters = potentialFighters.filter(p => p.betAmount > 0);
   const fighterIds = new Set(fighters.map(f => f.id));
 
@@ -439,11 +426,20 @@ const SpectatorLobby = () => {
         <div className="hr-dashed flex-shrink-0" role="presentation" />
 
         <main className="flex flex-col gap-4 p-4 flex-1">
+          {bracket && (
+            <div>
+              <h3 className="mb-2 text-base font-semibold text-subtext1">
+                {`// TOURNAMENT BRACKET [${bracket.size} ENTRANTS]`}
+              </h3>
+              <TournamentBracket bracket={bracket} />
+            </div>
+          )}
+
           <div role="grid">
             <h3 className="mb-2 text-base font-semibold text-subtext1">
               {gamePhase === "IN_ROUND" 
-                ? "{/* CURRENT DUEL: FIGHTERS [TOP 2 BIDS] */}"
-                : "{/* NEXT DUEL: FIGHTERS [TOP 2 BIDS] */}"
+                ? `{/* CURRENT DUEL: FIGHTERS [TOP ${fighterCount} BIDS] */}`
+                : `{/* NEXT DUEL: FIGHTERS [TOP ${fighterCount} BIDS] */}`
               }
             </h3>
             <div className="text-xs text-subtext1" role="row">
@@ -504,7 +500,8 @@ const SpectatorLobby = () => {
 const SpectatorShootingBars = () => {
   const { socket, fighters, gamePhase } = useGameStore();
   const [isDuelActive, setIsDuelActive] = useState<boolean>(false);
-  const [barPosition, setBarPosition] = useState<number>(0);
+  const barPosition = useBarPosition(isDuelActive);
+  const targetZone = useTargetZone(isDuelActive);
   const [shotData, setShotData] = useState<Record<string, { position: number; hit: boolean } | null>>({});
 
   useEffect(() => {
@@ -515,15 +512,9 @@ const SpectatorShootingBars = () => {
       setShotData({});
     };
 
-    const onBarUpdate = ({ position }: { position: number }) => {
-      setBarPosition(position);
-    };
-
-    const onShot = ({ shooterId, hit, barPosition }: { 
-      shooterId: string; 
-      hit: boolean; 
-      barPosition: number;
-    }) => {
+    // Auto-misses carry no bar position: the shooter never pressed.
+    const onShot = ({ shooterId, hit, barPosition }: ServerPayload<"duel:shot">) => {
+      if (barPosition === undefined) return;
       setShotData(prev => ({
         ...prev,
         [shooterId]: { position: barPosition, hit }
@@ -542,41 +533,37 @@ const SpectatorShootingBars = () => {
       setIsDuelActive(true);
     };
 
-    const onPhaseChange = ({ phase }: { phase: string }) => {
+    const onPhaseChange = ({ phase }: ServerPayload<"game:phaseChange">) => {
       if (phase === "LOBBY" || phase === "POST_ROUND") {
         setIsDuelActive(false);
         setShotData({});
       }
     };
 
-    socket.on("duel:gong", onGong);
-    socket.on("duel:barUpdate", onBarUpdate);
-    socket.on("duel:shot", onShot);
-    socket.on("duel:roundEnd", onRoundEnd);
-    socket.on("duel:newRound", onNewRound);
-    socket.on("game:phaseChange", onPhaseChange);
-
-    return () => {
-      socket.off("duel:gong", onGong);
-      socket.off("duel:barUpdate", onBarUpdate);
-      socket.off("duel:shot", onShot);
-      socket.off("duel:roundEnd", onRoundEnd);
-      socket.off("duel:newRound", onNewRound);
-      socket.off("game:phaseChange", onPhaseChange);
-    };
+    const unsubscribers = [
+      onServerEvent(socket, "duel:gong", onGong),
+      // A spectator joining mid-round only receives the aim phase.
+      onServerEvent(socket, "duel:aimPhase", onGong),
+      onServerEvent(socket, "duel:shot", onShot),
+      onServerEvent(socket, "duel:roundEnd", onRoundEnd),
+      onServerEvent(socket, "duel:newRound", onNewRound),
+      onServerEvent(socket, "game:phaseChange", onPhaseChange),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [socket]);
 
   if (gamePhase !== "IN_ROUND" || !isDuelActive || !fighters || fighters.length < 2) {
     return null;
   }
 
-  const [fighter1, fighter2] = fighters;
-  const shot1 = shotData[fighter1.id];
-  const shot2 = shotData[fighter2.id];
+  // Knocked-out fighters of a free-for-all drop their bar.
+  const standingFighters = fighters.filter(f => (f.health ?? 1) > 0);
 
   const rows = 16;
-  const targetZoneStart = Math.floor(rows * 0.20);
-  const targetZoneEnd = Math.floor(rows * 0.40);
+  const targetZoneStart = Math.floor(rows * (1 - targetZone.max));
+  const targetZoneEnd = Math.floor(rows * (1 - targetZone.min));
+  const isInZone = (position: number) => position >= targetZone.min && position <= targetZone.max;
 
   const renderBar = (fighter: Player, shotInfo: { position: number; hit: boolean } | null | undefined) => {
     const displayPosition = shotInfo?.position ?? barPosition;
@@ -619,11 +606,11 @@ const SpectatorShootingBars = () => {
         <div className={`font-mono text-xs font-bold ${
           hasShot
             ? (shotInfo.hit ? 'text-success' : 'text-error')
-            : (displayPosition >= 0.60 && displayPosition <= 0.80 ? 'text-sage' : 'text-subtext1')
+            : (isInZone(displayPosition) ? 'text-sage' : 'text-subtext1')
         }`}>
             {hasShot
             ? (shotInfo.hit ? '✓ HIT!' : '✗ MISS')
-            : (displayPosition >= 0.60 && displayPosition <= 0.80 ? 'SHOOT!' : `${(displayPosition * 100).toFixed(0)}%`)
+            : (isInZone(displayPosition) ? 'SHOOT!' : `${(displayPosition * 100).toFixed(0)}%`)
             }
         </div>
       </div>
@@ -631,9 +618,10 @@ const SpectatorShootingBars = () => {
   };
 
   return (
-    <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-30 flex gap-32 items-end">
-      {renderBar(fighter1, shot1)}
-      {renderBar(fighter2, shot2)}
+    <div className={`absolute bottom-10 left-1/2 -translate-x-1/2 z-30 flex items-end ${standingFighters.length > 2 ? 'gap-12' : 'gap-32'}`}>
+      {standingFighters.map(f => (
+        <div key={f.id}>{renderBar(f, shotData[f.id])}</div>
+      ))}
     </div>
   );
 };
@@ -656,13 +644,21 @@ const ConnectionStatus = () => {
 };
 
 export default function StreamPage() {
-  const { gamePhase, isHydrated, roundPot } = useGameStore();
+  const { gamePhase, isHydrated, roundPot, arenaId, joinArena } = useGameStore();
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Streams follow a single arena, picked with ?arena=<id> (defaults to the server's main arena).
+  useEffect(() => {
+    const requestedArenaId = new URLSearchParams(window.location.search).get("arena");
+    if (requestedArenaId && arenaId && requestedArenaId !== arenaId) {
+      joinArena(requestedArenaId);
+    }
+  }, [arenaId, joinArena]);
+
   if (!mounted) {
     return null;
   }
@@ -707,6 +703,10 @@ export default function StreamPage() {
 
           <SpectatorShootingBars />
 
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20">
+            <SeriesScoreboard />
+          </div>
+
           {gamePhase === "IN_ROUND" && roundPot > 0 && (
             <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-20">
               <div className="border-dashed-ascii bg-ascii-shade px-6 py-3">
@@ -8,9 +8,14 @@
 
 import { useThree } from "@react-three/fiber";
 import { useEffect, useState, useRef, useMemo, useCallback } from "react";
-import { useGameStore, Player } from "@/store/useGameStore";
+import { useGameStore, Player, TargetZone } from "@/store/useGameStore";
 import { Fighter } from "./Fighter";
 import { FighterNameLabel } from "./FighterNameLabel";
+import { getFighterPlacement } from "@/utils/fighterPlacement";
+import { useBarPosition } from "@/utils/useBarPosition";
+import { useTargetZone } from "@/utils/useTargetZone";
+import { createEntropy } from "@/utils/fairness";
+import { onServerEvent, type ServerPayload } from "@/lib/socketEvents";
 
 /**
  * @hook useAudio
@@ -18,7 +23,7 @@ import { FighterNameLabel } from "./FighterNameLabel";
  * Preloads audio assets and provides memoized playback functions.
  * @returns {object} An object containing functions to play various sound effects.
  */
-const useAudio = () => {
+export const useAudio = () => {
   const clickAudioRef = useRef<HTMLAudioElement | null>(null);
   const clackAudioRef = useRef<HTMLAudioElement | null>(null);
   const hammerAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -102,24 +107,29 @@ const useAudio = () => {
  * It also triggers sound effects at specific points of the bar's progression.
  * @param {boolean} visible - Whether the bar is visible.
  * @param {number} barPosition - The current position of the indicator on the bar (0 to 1).
+ * @param {TargetZone} zone - The round's target zone, as sent by the server.
  * @param {() => void} onTick - Callback for the 'tick' sound effect.
  * @param {() => void} onHammer - Callback for the 'hammer' sound effect.
  * @param {() => void} onTock - Callback for the 'tock' sound effect.
  */
-const ShootingBar = ({ 
+export const ShootingBar = ({ 
   visible, 
   barPosition, 
+  zone,
   onTick, 
   onHammer, 
   onTock 
 }: { 
   visible: boolean; 
   barPosition: number; 
+  zone: TargetZone;
   onTick: () => void; 
   onHammer: () => void; 
   onTock: () => void; 
 }) => {
   const lastSoundRef = useRef<'none' | 'tick' | 'hammer' | 'tock'>('none');
+  const zoneCentre = (zone.min + zone.max) / 2;
+  const isInZone = barPosition >= zone.min && barPosition <= zone.max;
   
   useEffect(() => {
     if (!visible) { 
@@ -136,19 +146,19 @@ const ShootingBar = ({
       onHammer(); 
       lastSoundRef.current = 'hammer'; 
     }
-    else if (barPosition >= 0.68 && barPosition < 0.72 && lastSoundRef.current !== 'tock') { 
+    else if (barPosition >= zoneCentre - 0.02 && barPosition < zoneCentre + 0.02 && lastSoundRef.current !== 'tock') { 
       onTock(); 
       lastSoundRef.current = 'tock'; 
     }
-  }, [barPosition, visible, onTick, onHammer, onTock]);
+  }, [barPosition, visible, zoneCentre, onTick, onHammer, onTock]);
   
   if (!visible) return null;
   
   const rows = 20;
   const barPositionRow = Math.floor((1 - barPosition) * rows);
-  // The 'target zone' is where the player is supposed to shoot.
-  const targetZoneStart = Math.floor(rows * 0.20);
-  const targetZoneEnd = Math.floor(rows * 0.40);
+  // The 'target zone' is where the player is supposed to shoot. Row 0 is the top of the bar.
+  const targetZoneStart = Math.floor(rows * (1 - zone.max));
+  const targetZoneEnd = Math.floor(rows * (1 - zone.min));
   
   return (
     <div className="fixed bottom-8 right-8 z-20 flex flex-col items-center gap-2">
@@ -179,9 +189,9 @@ const ShootingBar = ({
       </div>
       
       <div 
-        className={`font-mono text-sm font-bold ${barPosition >= 0.60 && barPosition <= 0.80 ? 'text-sage' : 'text-subtext1'}`}
+        className={`font-mono text-sm font-bold ${isInZone ? 'text-sage' : 'text-subtext1'}`}
       >
-        {barPosition >= 0.60 && barPosition <= 0.80 ? 'NOW!' : `${(barPosition * 100).toFixed(0)}%`}
+        {isInZone ? 'NOW!' : `${(barPosition * 100).toFixed(0)}%`}
       </div>
     </div>
   );
@@ -190,7 +200,7 @@ const ShootingBar = ({
 /**
  * @component DuelSceneContent
  * @description Renders the 3D elements of the duel, including lights and fighters.
- * @param {Player[]} fighters - An array of the two players participating in the duel.
+ * @param {Player[]} fighters - The players participating in the duel.
  */
 const DuelSceneContent = ({ fighters }: { fighters: Player[] }) => {
   const { invalidate } = useThree();
@@ -227,24 +237,26 @@ const DuelSceneContent = ({ fighters }: { fighters: Player[] }) => {
 /**
  * @component DuelStage3D
  * @description Determines which players to display as fighters based on the current game phase.
- * In the LOBBY, it shows the top two bidders. In other phases, it shows the active fighters.
+ * In the LOBBY, it shows the top bidders in a circle. In other phases, it shows the active fighters.
+ * @param {Player[]} [replayFighters] - Fighters driven by a replay instead of the live game.
  */
-export const DuelStage3D = () => {
-  const { socket, fighters, gamePhase, players } = useGameStore();
+export const DuelStage3D = ({ replayFighters }: { replayFighters?: Player[] } = {}) => {
+  const { socket, fighters, gamePhase, players, arenas, arenaId } = useGameStore();
+  const fighterCount = arenas.find((arena) => arena.id === arenaId)?.fighterCount ?? 2;
+  const matchKey = fighters.map((f) => f.id).join(':');
   
   const displayFighters = useMemo(() => {
     if (gamePhase === "LOBBY") {
-      // In the lobby, show the top 2 bidders as a preview of the next duel.
+      // In the lobby, show the top bidders as a preview of the next duel.
       const allPlayers = Object.values(players || {});
       const topBidders = allPlayers
         .filter(p => p.betAmount > 0)
         .sort((a, b) => (b.betAmount ?? 0) - (a.betAmount ?? 0))
-        .slice(0, 2);
+        .slice(0, fighterCount);
       
       return topBidders.map((player, index) => ({
         ...player,
-        position: [index === 0 ? 0 : 0, 0, index === 0 ? -3 : 3],
-        rotation: index === 0 ? 0 : Math.PI,
+        ...getFighterPlacement(index, fighterCount),
         animationState: 'idle' as const
       } as Player));
     } 
@@ -256,45 +268,41 @@ export const DuelStage3D = () => {
       return [];
     }
     return [];
-  }, [gamePhase, players, fighters]);
+  }, [gamePhase, players, fighters, fighterCount]);
 
   // Notify the server that the player is ready to start the duel.
+  // Tournament matches follow each other without leaving IN_ROUND, so a new
+  // pairing of fighters counts as a new duel too.
   useEffect(() => {
-    if (socket && gamePhase === "IN_ROUND") {
-      socket.emit("duel:playerReady");
+    if (socket && gamePhase === "IN_ROUND" && !replayFighters) {
+      socket.emit("duel:playerReady", { entropy: createEntropy() });
     }
-  }, [socket, gamePhase]);
+  }, [socket, gamePhase, matchKey, replayFighters]);
 
-  return <DuelSceneContent fighters={displayFighters} />;
+  return <DuelSceneContent fighters={replayFighters ?? displayFighters} />;
 };
 
-type RoundEndPayload = {
-  outcome: 'hit' | 'dodge' | 'miss';
-  winnerId?: string;
-  loserId?: string;
-  round: number;
-};
+type RoundEndPayload = ServerPayload<"duel:roundEnd">;
 
-type GamePhasePayload = {
-  phase: string;
-  winnerData?: { name: string; isSplit: boolean; };
-};
 /**
  * @component DuelUI
  * @description The main component that manages the duel's UI and client-side logic,
  * including player input, state transitions, and socket event handling.
  */
 export const DuelUI = () => {
-  const { socket, gamePhase } = useGameStore();
+  const { socket, gamePhase, fighters, awayFighters, playerId } = useGameStore();
   const { playClick, playClack, playHammer, playShoot, playGong, playCinematicIntro, stopCinematicIntro } = useAudio();
 
   const [isWaitingForOpponent, setIsWaitingForOpponent] = useState(true);
   const [canClick, setCanClick] = useState<boolean>(false);
   const [actionType, setActionType] = useState<'draw' | 'shoot' | null>(null);
   const [barVisible, setBarVisible] = useState<boolean>(false);
-  const [barPosition, setBarPosition] = useState<number>(0);
+  const barPosition = useBarPosition(barVisible);
+  const targetZone = useTargetZone(barVisible);
   const hasShotThisRound = useRef(false);
   const [isAIMode, setIsAIMode] = useState(false);
+  const hasCheckedResume = useRef(false);
+  const [now, setNow] = useState(() => Date.now());
 
   const shootingStartTime = useRef<number | null>(null);
   const MIN_SHOOTING_DURATION = 500;
@@ -328,11 +336,11 @@ export const DuelUI = () => {
   }, [gamePhase]);
   
   const handleClick = useCallback(() => {
-    if (!canClick || !socket || !socket.id || actionType !== 'shoot' || hasShotThisRound.current) {
+    if (!canClick || !socket || !playerId || actionType !== 'shoot' || hasShotThisRound.current) {
       return;
     }
     
-    const selfId = socket.id;
+    const selfId = playerId;
     
     playShoot();
     
@@ -344,7 +352,7 @@ export const DuelUI = () => {
     socket.emit("duel:shoot");
     hasShotThisRound.current = true;
     setCanClick(false);
-  }, [canClick, socket, actionType, playShoot]);
+  }, [canClick, socket, playerId, actionType, playShoot]);
 
   useEffect(() => {
     const handleWindowClick = () => {
@@ -374,15 +382,12 @@ export const DuelUI = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
 
-    const onShot = ({ shooterId, autoMiss }: {
-      shooterId: string;
-      autoMiss?: boolean;
-    }) => {
+    const onShot = ({ shooterId, autoMiss }: ServerPayload<"duel:shot">) => {
       if (autoMiss) {
         return;
       }
       
-      if (shooterId === socket.id && hasShotThisRound.current) {
+      if (shooterId === useGameStore.getState().playerId && hasShotThisRound.current) {
         return;
       }
       
@@ -418,25 +423,33 @@ export const DuelUI = () => {
       }, 1200);
     };
 
-    const onBarUpdate = ({ position }: { position: number }) => {
-      setBarPosition(position);
-    };
-
     const onNewRound = () => {
+      // Knocked out of a free-for-all: watch the rest of the duel.
+      const { fighters, playerId } = useGameStore.getState();
+      const self = fighters.find(f => f.id === playerId);
+      if ((self?.health ?? 1) <= 0) {
+        setBarVisible(false);
+        setCanClick(false);
+        setActionType(null);
+        return;
+      }
+
       hasShotThisRound.current = false;
       shootingStartTime.current = null;
+      // The bar is hidden after a kill; a series carries on with the next game.
+      setBarVisible(true);
       setCanClick(true);
       setActionType('shoot');
       
       const currentFighters = useGameStore.getState().fighters;
       currentFighters.forEach(f => {
-        if (f.animationState !== 'armed') {
+        if (f.animationState !== 'armed' && (f.health ?? 1) > 0) {
           useGameStore.getState().updateFighterAnimation(f.id, 'armed');
         }
       });
     };
 
-    const onRoundEnd = ({ outcome, winnerId, loserId, round }: RoundEndPayload) => {
+    const onRoundEnd = ({ outcome, winnerId, loserId, winnerIds, loserIds, round, game }: RoundEndPayload) => {
       setCanClick(false);
       
       const weShot = shootingStartTime.current !== null;
@@ -448,13 +461,15 @@ export const DuelUI = () => {
       }
       
       addTimer(() => {
-        applyRoundResult({ outcome, winnerId, loserId, round });
+        applyRoundResult({ outcome, winnerId, loserId, winnerIds, loserIds, round, game });
         shootingStartTime.current = null;
       }, delayNeeded);
     };
     
-    const applyRoundResult = ({ outcome, winnerId, loserId }: RoundEndPayload) => {
+    const applyRoundResult = ({ outcome, winnerId, loserId, winnerIds, loserIds }: RoundEndPayload) => {
       const currentFighters = useGameStore.getState().fighters;
+      const winners = winnerIds ?? [winnerId];
+      const losers = loserIds ?? [loserId];
       
       switch (outcome) {
         case 'hit':
@@ -462,9 +477,9 @@ export const DuelUI = () => {
           setActionType(null);
           
           currentFighters.forEach(f => {
-            if (f.id === winnerId) {
+            if (winners.includes(f.id)) {
               useGameStore.getState().updateFighterAnimation(f.id, 'shooting');
-            } else if (f.id === loserId) {
+            } else if (losers.includes(f.id)) {
               useGameStore.getState().updateFighterAnimation(f.id, 'death');
             }
           });
@@ -484,8 +499,9 @@ export const DuelUI = () => {
       }
     };
 
-    const onGamePhaseChange = ({ phase, winnerData }: GamePhasePayload) => {
-      if (phase === "POST_ROUND" && winnerData) {
+    const onGamePhaseChange = (data: ServerPayload<"game:phaseChange">) => {
+      if (data.phase === "POST_ROUND" && data.winnerData) {
+        const { winnerData } = data;
         setBarVisible(false);
         setCanClick(false);
         setActionType(null);
@@ -493,7 +509,9 @@ export const DuelUI = () => {
         
         const currentFighters = useGameStore.getState().fighters;
         
-        if (winnerData.isSplit) {
+        if (winnerData.refunded !== undefined) {
+          // Called off before the gong: nobody fell.
+        } else if (winnerData.isSplit) {
           currentFighters.forEach(f => {
             useGameStore.getState().updateFighterAnimation(f.id, 'death');
           });
@@ -511,25 +529,42 @@ export const DuelUI = () => {
       }
     };
         
-    socket.on("duel:shot", onShot); 
-    socket.on("duel:bothReady", onBothReady);
-    socket.on("duel:gong", onGong);
-    socket.on("duel:barUpdate", onBarUpdate);
-    socket.on("duel:newRound", onNewRound);
-    socket.on("duel:roundEnd", onRoundEnd);
-    socket.on("game:phaseChange", onGamePhaseChange);
+    // Sent to a fighter who resumed their seat mid-round.
+    const onAimPhase = () => {
+      setIsWaitingForOpponent(false);
+      onNewRound();
+    };
+
+    const unsubscribers = [
+      onServerEvent(socket, "duel:shot", onShot),
+      onServerEvent(socket, "duel:aimPhase", onAimPhase),
+      onServerEvent(socket, "duel:bothReady", onBothReady),
+      onServerEvent(socket, "duel:gong", onGong),
+      onServerEvent(socket, "duel:newRound", onNewRound),
+      onServerEvent(socket, "duel:roundEnd", onRoundEnd),
+      onServerEvent(socket, "game:phaseChange", onGamePhaseChange),
+    ];
+
+    // The round may already be running when a resumed fighter's UI mounts.
+    if (!hasCheckedResume.current) {
+      hasCheckedResume.current = true;
+      if (useGameStore.getState().barTiming) onAimPhase();
+    }
     
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
-      socket.off("duel:shot", onShot);
-      socket.off("duel:bothReady", onBothReady);
-      socket.off("duel:gong", onGong);
-      socket.off("duel:barUpdate", onBarUpdate);
-      socket.off("duel:newRound", onNewRound);
-      socket.off("duel:roundEnd", onRoundEnd);
-      socket.off("game:phaseChange", onGamePhaseChange);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [socket, isAIMode, playGong, playCinematicIntro, stopCinematicIntro, playShoot, handleClick, addTimer]);
+
+  const awayOpponents = fighters.filter((f) => f.id !== playerId && awayFighters[f.id]);
+
+  // Tick the reconnect countdown while an opponent is away.
+  useEffect(() => {
+    if (awayOpponents.length === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [awayOpponents.length]);
   
   return (
     <div 
@@ -550,6 +585,16 @@ export const DuelUI = () => {
         </div>
       )}
 
+      {awayOpponents.length > 0 && (
+        <div className="fixed top-16 left-1/2 -translate-x-1/2 z-20 border-dashed-ascii px-4 py-2 bg-overlay">
+          {awayOpponents.map((f) => (
+            <div key={f.id} className="font-mono text-sm font-normal text-peach">
+              [{f.name} DISCONNECTED · {Math.max(0, Math.ceil((awayFighters[f.id] - now) / 1000))}s TO RECONNECT]
+            </div>
+          ))}
+        </div>
+      )}
+
       {isAIMode && (
         <div className="fixed top-4 left-1/2 -translate-x-1/2 z-20 border-dashed-ascii px-4 py-2 bg-overlay">
           <span className="font-mono text-sm font-normal text-rose">
@@ -569,6 +614,7 @@ export const DuelUI = () => {
       <ShootingBar 
         visible={barVisible} 
         barPosition={barPosition} 
+        zone={targetZone}
         onTick={playClick} 
         onTock={playClack} 
         onHammer={playHammer} 
@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useGameStore } from "@/store/useGameStore";
+import { verifySeedReveal } from "@/utils/fairness";
+
+/**
+ * @component FairnessProof
+ * @description Checks the seeds revealed after a round against the hashes
+ * committed before each duel and shows the result, with the seeds so anyone
+ * can recompute the gong delay and AI rolls.
+ */
+export const FairnessProof = () => {
+  const { seedReveals, seedHashes } = useGameStore();
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (seedReveals.length === 0) {
+      setVerified(null);
+      return;
+    }
+
+    // Without a commitment of our own (joined mid-duel) only the hash itself can be checked.
+    const committed = seedHashes.length > 0 ? seedHashes : null;
+    let cancelled = false;
+    Promise.all(seedReveals.map((reveal) => verifySeedReveal(reveal, committed)))
+      .then((results) => {
+        if (!cancelled) setVerified(results.every(Boolean));
+      })
+      .catch(() => {
+        if (!cancelled) setVerified(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [seedReveals, seedHashes]);
+
+  if (seedReveals.length === 0 || verified === null) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className={verified ? 'text-success' : 'text-error'}>
+        {verified ? '[PROVABLY FAIR ✓]' : '[SEED MISMATCH ✗]'}
+      </div>
+      {seedReveals.map((reveal) => (
+        <div key={reveal.seedHash} className="break-all text-subtext1" title={reveal.seedHash}>
+          SEED {reveal.serverSeed.slice(0, 16)}…
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,28 +1,38 @@
 "use client";
 
-import { useGameStore, Player } from "@/store/useGameStore";
+import { useGameStore, Player, ArenaSummary } from "@/store/useGameStore";
 import { useMemo, useState, useEffect, useRef } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { authenticateWallet } from "@/utils/walletAuth";
+import { sendBetTransfer, isMockChain } from "@/lib/betTransfer";
+import { TournamentBracket } from "@/components/TournamentBracket";
+import { RefundStatus } from "@/components/RefundStatus";
 
 
 const BetControls = ({
   onBet,
   onCancel,
-  isProcessing
+  isProcessing,
+  fixedAmount
 }: {
   onBet: (amount: number) => void;
   onCancel: () => void;
   isProcessing: boolean;
+  /** Tournament buy-ins are not negotiable: the amount is shown, not edited. */
+  fixedAmount?: number;
 }) => {
-  const [amount, setAmount] = useState(1000);
+  const [amount, setAmount] = useState(fixedAmount ?? 1000);
 
   const handleBet = async () => {
-    await onBet(amount);
+    await onBet(fixedAmount ?? amount);
   };
 
   return (
     <div className="flex items-center justify-end gap-2">
+      {isMockChain() && <span className="text-xs text-warning" title="Bets go to the mock chain">MOCK</span>}
+      {fixedAmount !== undefined ? (
+        <span className="text-xs text-text">{fixedAmount}</span>
+      ) : (
       <input
         type="number"
         step="1000" // Increment by 1000 tokens
@@ -35,12 +45,13 @@ const BetControls = ({
         className="w-20 text-center text-xs focus:outline-none blinking-cursor px-1 bg-overlay text-text"
         disabled={isProcessing}
       />
+      )}
       <button
         onClick={handleBet}
         disabled={isProcessing}
         className={`opacity-75 hover:opacity-100 text-xs ${isProcessing ? 'text-subtext1' : 'text-success'}`}
       >
-        <span className="text-subtext1">[</span>BET<span className="text-subtext1">]</span>
+        <span className="text-subtext1">[</span>{fixedAmount !== undefined ? 'BUY IN' : 'BET'}<span className="text-subtext1">]</span>
       </button>
       <button
         onClick={onCancel}
@@ -53,11 +64,47 @@ const BetControls = ({
   );
 };
 
+const ArenaPicker = ({
+  arenas,
+  currentArenaId,
+  onJoin,
+  isLocked
+}: {
+  arenas: ArenaSummary[];
+  currentArenaId: string | null;
+  onJoin: (arenaId: string) => void;
+  isLocked: boolean;
+}) => (
+  <nav className="flex flex-wrap items-center justify-end gap-3 text-xs" aria-label="Arenas">
+    {arenas.map((arena) => {
+      const isCurrent = arena.id === currentArenaId;
+      return (
+        <button
+          key={arena.id}
+          onClick={() => onJoin(arena.id)}
+          disabled={isCurrent || isLocked}
+          title={isLocked && !isCurrent ? "Finish or withdraw from your current arena first" : undefined}
+          className={`whitespace-nowrap ${isCurrent ? 'text-lavender' : isLocked ? 'text-subtext1' : 'text-subtext0 opacity-75 hover:opacity-100'}`}
+        >
+          <span className="text-subtext1">[</span>
+          {arena.name} · {arena.playerCount}
+          {arena.fighterCount > 2 ? ` · FFA${arena.fighterCount}` : ''}
+          {arena.bestOf > 1 ? ` · BO${arena.bestOf}` : ''}
+          {arena.ruleset.id !== "classic" ? ` · ${arena.ruleset.name}` : ''}
+          {arena.mode === "tournament" ? ` · ${arena.entrantCount ?? 0}/${arena.bracketSize}` : ''}
+          {arena.phase === "LOBBY" ? '' : ' · LIVE'}
+          <span className="text-subtext1">]</span>
+        </button>
+      );
+    })}
+  </nav>
+);
+
 export const Lobby = () => {
-  const { socket, players, lobbyCountdown, gamePhase } = useGameStore();
+  const { socket, players, lobbyCountdown, gamePhase, arenas, arenaId, joinArena, bracket, playerId, sessionToken } = useGameStore();
   const { connected, publicKey, signTransaction } = useWallet();
   const { connection } = useConnection();
-  const selfId = socket?.id || null;
+  const selfId = playerId;
 
   const [hasMounted, setHasMounted] = useState(false);
   const [isBettingUiActive, setIsBettingUiActive] = useState(false);
@@ -77,13 +124,13 @@ export const Lobby = () => {
 
   useEffect(() => {
     const attemptAuth = async () => {
-      // FIX 1: Added !selfId. We are not "ready" until the socket has an ID.
-      if (!socket || !selfId || !connected || !publicKey) {
+      // FIX 1: We are not "ready" until the socket has an ID.
+      if (!socket || !socket.id || !connected || !publicKey) {
         return;
       }
 
-      // This check is fine, it just means we're already authenticated
-      if (players[selfId]) {
+      // Already authenticated, or a saved session is being resumed
+      if (playerId || sessionToken) {
         return;
       }
 
@@ -111,7 +158,7 @@ export const Lobby = () => {
     attemptAuth();
   },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [socket, connected, publicKey, players, selfId, wallet]
+    [socket, connected, publicKey, playerId, sessionToken, wallet]
   );
 
   const { playerRanks, self } = useMemo(() => {
@@ -130,7 +177,28 @@ export const Lobby = () => {
     return Object.values(players).sort((a, b) => (b.betAmount ?? 0) - (a.betAmount ?? 0) || (a.lastBetTimestamp || 0) - (b.lastBetTimestamp || 0));
   }, [players]);
 
-  const fighters = sortedByBid.slice(0, 4).filter(p => p.betAmount > 0);
+  const currentArena = arenas.find((arena) => arena.id === arenaId);
+  const isTournament = currentArena?.mode === "tournament";
+  const buyIn = currentArena?.buyIn ?? 0;
+  const bracketSize = currentArena?.bracketSize ?? 0;
+  const fighterCount = currentArena?.fighterCount ?? 2;
+
+  // Tournament entrants are seated in the order they completed the buy-in.
+  const fighters = useMemo(() => {
+    if (isTournament) {
+      return Object.values(players)
+        .filter(p => p.betAmount >= buyIn)
+        .sort((a, b) => (a.lastBetTimestamp || 0) - (b.lastBetTimestamp || 0))
+        .slice(0, bracketSize);
+    }
+    return sortedByBid.slice(0, fighterCount).filter(p => p.betAmount > 0);
+  }, [isTournament, players, buyIn, bracketSize, fighterCount, sortedByBid]);
+
+  // Set by an operator; the countdown will not run until betting resumes.
+  const isBettingPaused = currentArena?.bettingPaused ?? false;
+
+  // A player cannot walk away from a stake or a duel they are in.
+  const isArenaLocked = !!self && (self.betAmount > 0 || (gamePhase !== "LOBBY" && fighters.some(f => f.id === self.id)));
 
   const contenders = useMemo(() => {
     let others = sortedByBid.filter(p => !fighters.some(f => f.id === p.id));
@@ -152,37 +220,13 @@ export const Lobby = () => {
     setBetStatus({ isProcessing: true, message: "CREATING TRANSACTION..." });
 
     try {
-      // Import blockchain service
-      const { createShotTransferTransaction } = await import('@/lib/solanaClient');
-
-      // Create unsigned transaction (amount is in tokens)
-      const transaction = await createShotTransferTransaction(
+      const signature = await sendBetTransfer({
         publicKey,
-        amount // ← Whole tokens (e.g., 1000)
-      );
-
-      // Get recent blockhash
-      const { blockhash } = await connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = publicKey;
-
-      // Request signature from wallet
-      setBetStatus({ isProcessing: true, message: "SIGN IN WALLET" });
-      const signedTransaction = await signTransaction(transaction);
-
-      // Send transaction
-      setBetStatus({ isProcessing: true, message: "SENDING..." });
-      const signature = await connection.sendRawTransaction(
-        signedTransaction.serialize(),
-        {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        }
-      );
-
-      // Wait for confirmation
-      setBetStatus({ isProcessing: true, message: "CONFIRMING..." });
-      await connection.confirmTransaction(signature, 'confirmed');
+        amount, // ← Whole tokens (e.g., 1000)
+        connection,
+        signTransaction,
+        onStatus: (message) => setBetStatus({ isProcessing: true, message }),
+      });
 
       console.log('[LOBBY] ✓ Transaction confirmed:', signature);
 
@@ -193,7 +237,6 @@ export const Lobby = () => {
         body: JSON.stringify({
           txSignature: signature,
           amount, // ← Whole tokens (e.g., 1000)
-          socketId: socket.id,
           walletAddress: publicKey.toBase58()
         })
       });
@@ -249,6 +292,9 @@ export const Lobby = () => {
     if (!isSelf) {
       return <span className="text-subtext0">{player.betAmount > 0 ? player.betAmount : 'SPECTATING'}</span>;
     }
+    if (isBettingPaused && !isBettingUiActive) {
+      return <span className="text-xs text-warning">{player.betAmount > 0 ? player.betAmount : 'PAUSED'}</span>;
+    }
     if (isBettingUiActive) {
       return (
         <BetControls
@@ -258,9 +304,24 @@ export const Lobby = () => {
             setBetStatus({ isProcessing: false, message: "" });
           }}
           isProcessing={betStatus.isProcessing}
+          fixedAmount={isTournament ? buyIn - player.betAmount : undefined}
         />
       );
     }
+    if (isTournament) {
+      if (player.betAmount >= buyIn) {
+        return <span className="text-text">ENTERED</span>;
+      }
+      return (
+        <button
+          onClick={() => setIsBettingUiActive(true)}
+          disabled={gamePhase !== "LOBBY" || fighters.length >= bracketSize}
+          className="w-full text-right opacity-75 hover:opacity-100 text-xs whitespace-nowrap text-success"
+        >
+          <span className="text-subtext1">[</span>BUY IN {buyIn - player.betAmount}<span className="text-subtext1">]</span>
+        </button>
+      );
+    }
     if (player.betAmount > 0) {
       return (
         <div className="flex items-center justify-end gap-2 text-text">
@@ -407,23 +468,44 @@ export const Lobby = () => {
           ) : gamePhase === "POST_ROUND" ? (
             <div className="font-title text-xl text-sage">
             </div>
+          ) : isBettingPaused ? (
+            <div className="font-title text-xl text-warning">
+              BETTING PAUSED
+            </div>
           ) : (
             <div className="font-title text-xl text-subtext1">
             </div>
           )}
+          <ArenaPicker
+            arenas={arenas}
+            currentArenaId={arenaId}
+            onJoin={joinArena}
+            isLocked={isArenaLocked}
+          />
         </header>
         <div className="hr-dashed" role="presentation" />
 
         <main className="flex flex-col gap-4 p-4">
-          <PlayerTable
-            players={fighters}
-            title={
-              gamePhase === "IN_ROUND"
-                ? "// CURRENT DUEL: FIGHTERS [TOP 2 BIDS]"
-                : "// NEXT DUEL: FIGHTERS [TOP 2 BIDS]"
-            }
-            titleClassName="text-subtext1"
-          />
+          {isTournament && bracket ? (
+            <div>
+              <h3 className="mb-2 text-base font-semibold text-subtext1">
+                {`// TOURNAMENT BRACKET [${bracket.size} ENTRANTS]`}
+              </h3>
+              <TournamentBracket bracket={bracket} selfId={selfId} />
+            </div>
+          ) : (
+            <PlayerTable
+              players={fighters}
+              title={
+                isTournament
+                  ? `// NEXT TOURNAMENT: ENTRANTS [${fighters.length}/${bracketSize}] · BUY-IN ${buyIn}`
+                  : gamePhase === "IN_ROUND"
+                    ? `// CURRENT DUEL: FIGHTERS [TOP ${fighterCount} BIDS]`
+                    : `// NEXT DUEL: FIGHTERS [TOP ${fighterCount} BIDS]`
+              }
+              titleClassName="text-subtext1"
+            />
+          )}
 
           <div>
             <h3 className="mb-2 text-base font-semibold text-subtext1">
@@ -451,6 +533,8 @@ export const Lobby = () => {
             </div>
           </div>
 
+          <RefundStatus />
+
           {!connected && (
             <div className="mt-4 text-center text-xs text-subtext0">
               <p>Connect your wallet to participate in the auction.</p>
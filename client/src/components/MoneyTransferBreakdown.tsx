@@ -4,6 +4,7 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { Player, useGameStore } from "@/store/useGameStore";
 import { formatTokenAmount, formatTokenChange } from "@/utils/FormatTokenAmount";
 import gsap from "gsap";
+import { FairnessProof } from "./FairnessProof";
 
 // Custom scramble text effect
 const scrambleText = (
@@ -40,7 +41,7 @@ const scrambleText = (
 };
 
 export const MoneyTransferBreakdown = () => {
-  const { gamePhase, roundWinner, socket, fighters, roundPot } = useGameStore();
+  const { gamePhase, roundWinner, fighters, roundPot, playerId } = useGameStore();
   const breakdownRef = useRef<HTMLDivElement>(null);
   const totalRef = useRef<HTMLDivElement>(null);
   const winnerAmountRef = useRef<HTMLDivElement>(null);
@@ -69,7 +70,7 @@ export const MoneyTransferBreakdown = () => {
     setTimeout(() => {
       if (winnerAmountRef.current && roundWinner) {
         const winnerAmount = roundWinner.isSplit 
-          ? Math.floor((roundPot * 0.9) / 2)
+          ? Math.floor((roundPot * 0.9) / (roundWinner.splitCount ?? 2))
           : Math.floor(roundPot * 0.9);
         scrambleText(winnerAmountRef.current, formatTokenAmount(winnerAmount, false), 0.8, "0123456789KM.");
       }
@@ -119,11 +120,11 @@ export const MoneyTransferBreakdown = () => {
     }
   }, [gamePhase, roundWinner, roundPot, animateBreakdown]);
 
-  if (!isVisible || gamePhase !== "POST_ROUND" || !roundWinner || roundPot <= 0) {
+  if (!isVisible || gamePhase !== "POST_ROUND" || !roundWinner || roundPot <= 0 || roundWinner.refunded !== undefined) {
     return null;
   }
 
-  const selfId = socket?.id;
+  const selfId = playerId;
   const wasFighter = fighters.some((f: Player) => f.id === selfId);
   const selfFighter = fighters.find((f: Player) => f.id === selfId);
   
@@ -133,9 +134,15 @@ export const MoneyTransferBreakdown = () => {
   let playerResultColor = "text-subtext1";
   let winnerAmount = 0;
 
+  const splitCount = roundWinner.splitCount ?? 2;
+
   if (roundWinner.isSplit) {
-    winnerAmount = Math.floor((roundPot * 0.9) / 2);
-    if (wasFighter) {
+    winnerAmount = Math.floor((roundPot * 0.9) / splitCount);
+    // Fighters knocked out of a free-for-all before the timeout get no share.
+    if (wasFighter && (selfFighter?.health ?? 1) <= 0) {
+      playerResultText = formatTokenChange(-(selfFighter?.betAmount || 0), true);
+      playerResultColor = "text-error";
+    } else if (wasFighter) {
       playerResultText = formatTokenChange(winnerAmount - (selfFighter?.betAmount || 0), true);
       playerResultColor = winnerAmount > (selfFighter?.betAmount || 0) ? "text-success" : "text-error";
     }
@@ -175,7 +182,7 @@ export const MoneyTransferBreakdown = () => {
           {/* Breakdown */}
           <div className="text-subtext0 text-xs space-y-1 mb-3">
             <div>
-              <span>├─ WINNER ({roundWinner.isSplit ? '45' : '90'}%): </span>
+              <span>├─ WINNER ({roundWinner.isSplit ? +(90 / splitCount).toFixed(1) : 90}%): </span>
               <span ref={winnerAmountRef}>
                 {formatTokenAmount(winnerAmount, false)}
               </span>
@@ -201,6 +208,19 @@ export const MoneyTransferBreakdown = () => {
               </div>
             </>
           )}
+
+          {roundWinner.replayId && (
+            <a
+              href={`/replay/${roundWinner.replayId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-2 block text-xs text-subtext1 hover:text-text"
+            >
+              [WATCH REPLAY]
+            </a>
+          )}
+
+          <FairnessProof />
         </div>
       </div>
     </div>
@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useGameStore } from "@/store/useGameStore";
+import { authenticateWallet } from "@/utils/walletAuth";
+
+/**
+ * @component ReconnectGate
+ * @description Shown when the connection drops mid-duel. The server holds the
+ * seat for a short grace window; once the socket is back, the store resumes the
+ * session with its token. If the token is no longer valid, the wallet signs in
+ * again instead.
+ */
+export const ReconnectGate = () => {
+  const { socket, isConnected, resumingSeat, sessionToken, abandonSeat } = useGameStore();
+  const wallet = useWallet();
+  const [error, setError] = useState<string | null>(null);
+  const attemptedSocketId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!resumingSeat || sessionToken || !socket?.id || !isConnected || !wallet.connected) return;
+
+    // One attempt per connection; a failed signature should not loop.
+    if (attemptedSocketId.current === socket.id) return;
+    attemptedSocketId.current = socket.id;
+
+    setError(null);
+    authenticateWallet(socket, wallet).catch((e: Error) => setError(e.message));
+  }, [resumingSeat, sessionToken, socket, isConnected, wallet]);
+
+  if (!resumingSeat) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-base/90">
+      <div className="border-dashed-ascii p-6 bg-surface font-mono text-center">
+        <h1 className="text-2xl font-normal text-subtext0">
+          {!isConnected || sessionToken ? 'CONNECTION LOST - RECONNECTING...' : 'SIGN WITH YOUR WALLET TO RESUME THE DUEL'}
+        </h1>
+        {error && <p className="mt-2 text-sm text-error">[{error.toUpperCase()}]</p>}
+        <button onClick={abandonSeat} className="mt-4 text-sm text-subtext1 hover:text-text">
+          [WATCH AS SPECTATOR]
+        </button>
+      </div>
+    </div>
+  );
+};
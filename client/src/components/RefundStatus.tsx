@@ -0,0 +1,50 @@
+"use client";
+
+import { Refund, useGameStore } from "@/store/useGameStore";
+
+const REASON_LABELS: Record<Refund['reason'], string> = {
+  left_arena: 'LEFT ARENA',
+  no_contest: 'NO CONTEST',
+  server_restart: 'SERVER RESTART',
+  cancelled: 'ROUND CANCELLED',
+  invalid_buy_in: 'WRONG BUY-IN',
+  bracket_full: 'BRACKET FULL',
+};
+
+const STATUS_LABELS: Record<Refund['status'], { label: string; className: string }> = {
+  refunding: { label: 'SENDING...', className: 'text-warning' },
+  refunded: { label: 'REFUNDED', className: 'text-success' },
+  refund_failed: { label: 'FAILED - CONTACT SUPPORT', className: 'text-error' },
+};
+
+/**
+ * @component RefundStatus
+ * @description Lists the local player's bets that were refunded because they
+ * never reached a duel, and where each refund stands.
+ */
+export const RefundStatus = () => {
+  const { refunds } = useGameStore();
+
+  if (refunds.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="mb-2 text-base font-semibold text-subtext1">{'// YOUR REFUNDS'}</h3>
+      <div className="hr-dashed" role="presentation" />
+      <div className="max-h-[120px] overflow-y-auto text-xs">
+        {refunds.map((refund) => {
+          const status = STATUS_LABELS[refund.status];
+          return (
+            <div key={refund.signature} className="grid grid-cols-12 gap-2 p-2 text-subtext0">
+              <div className="col-span-3">{new Date(refund.createdAt).toLocaleString()}</div>
+              <div className="col-span-2 text-subtext1">{refund.arenaId.toUpperCase()}</div>
+              <div className="col-span-3">{REASON_LABELS[refund.reason]}</div>
+              <div className="col-span-1 text-right text-text">{refund.amount}</div>
+              <div className={`col-span-3 text-right ${status.className}`}>{status.label}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -6,13 +6,13 @@ import * as THREE from "three";
 
 export const Scene3D = () => {
     const { camera } = useThree();
-    const { gamePhase, socket, fighters } = useGameStore();
+    const { gamePhase, playerId, fighters } = useGameStore();
     
     const targetPosition = useRef(new THREE.Vector3(-10, 2, 0));
     const targetLookAt = useRef(new THREE.Vector3(0, 1, 0));
     const isAnimating = useRef(false);
     
-    const isFighter = fighters?.some((f) => f.id === socket?.id) ?? false;
+    const isFighter = fighters?.some((f) => f.id === playerId) ?? false;
 
     // Camera positioning logic
     useEffect(() => {
@@ -22,14 +22,15 @@ export const Scene3D = () => {
             newPosition = new THREE.Vector3(-10, 2, 0);
         } else if (gamePhase === "IN_ROUND" || gamePhase === "POST_ROUND") {
             if (isFighter && fighters && fighters.length >= 2) {
-                const yourFighter = fighters.find(f => f.id === socket?.id);
+                const yourFighter = fighters.find(f => f.id === playerId);
                 
                 if (yourFighter) {
-                    if (yourFighter.position[2] < 0) {
-                        newPosition = new THREE.Vector3(-2, 2, -7);
-                    } else {
-                        newPosition = new THREE.Vector3(2, 2, 7);
-                    }
+                    // Over the shoulder: behind your fighter, looking through the circle's centre.
+                    const [x, , z] = yourFighter.position;
+                    const outward = new THREE.Vector3(x, 0, z).normalize();
+                    newPosition = outward.clone().multiplyScalar(7)
+                        .add(new THREE.Vector3(outward.z, 0, -outward.x).multiplyScalar(2))
+                        .setY(2);
                 } else {
                     newPosition = new THREE.Vector3(2, 2, 7);
                 }
@@ -42,7 +43,7 @@ export const Scene3D = () => {
 
         targetPosition.current.copy(newPosition);
         isAnimating.current = true;
-    }, [gamePhase, isFighter, socket?.id, fighters]);
+    }, [gamePhase, isFighter, playerId, fighters]);
 
     // Simple camera animation
     useFrame(() => {
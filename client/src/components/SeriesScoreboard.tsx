@@ -0,0 +1,39 @@
+"use client";
+
+import { useGameStore } from "@/store/useGameStore";
+
+/**
+ * @component SeriesScoreboard
+ * @description Shows kills and remaining lives during a best-of-N series or a
+ * free-for-all. Renders nothing for a plain single-game duel.
+ */
+export const SeriesScoreboard = ({ className = "" }: { className?: string }) => {
+  const { series, gamePhase } = useGameStore();
+
+  if (!series || gamePhase === "LOBBY" || (series.bestOf <= 1 && series.fighters.length <= 2)) {
+    return null;
+  }
+
+  const maxLives = Math.ceil(series.bestOf / 2);
+  const lives = (health: number) => "♥".repeat(health) + "·".repeat(maxLives - health);
+
+  return (
+    <div className={`border-dashed-ascii bg-ascii-shade px-4 py-2 font-mono text-xs ${className}`}>
+      <div className="mb-1 text-center text-subtext1">
+        {series.bestOf > 1 ? `BEST OF ${series.bestOf} · GAME ${series.game}` : `FREE-FOR-ALL · ${series.fighters.length} FIGHTERS`}
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-1">
+        {series.fighters.map((fighter) => (
+          <div
+            key={fighter.id}
+            className={`flex items-center gap-2 ${fighter.health > 0 ? 'text-text' : 'text-subtext1 line-through'}`}
+          >
+            <span>{fighter.name}</span>
+            <span className="text-rose">{lives(fighter.health)}</span>
+            <span className="text-lavender">{fighter.wins}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+"use client";
+
+import { Bracket, BracketMatch } from "@/store/useGameStore";
+
+const getRoundLabel = (roundIndex: number, roundCount: number) => {
+  const fromFinal = roundCount - 1 - roundIndex;
+  if (fromFinal === 0) return "FINAL";
+  if (fromFinal === 1) return "SEMIS";
+  if (fromFinal === 2) return "QUARTERS";
+  return `ROUND ${roundIndex + 1}`;
+};
+
+const MatchCard = ({ match, selfId }: { match: BracketMatch; selfId: string | null }) => (
+  <div
+    className={`border-dashed-ascii px-2 py-1 text-xs ${match.status === 'LIVE' ? 'text-rose' : 'text-subtext0'}`}
+  >
+    {match.entrants.map((entrant, index) => {
+      const isWinner = !!entrant && entrant.id === match.winnerId;
+      const isOut = match.status === 'DONE' && !isWinner;
+      return (
+        <div
+          key={entrant?.id ?? index}
+          className={`flex justify-between gap-2 whitespace-nowrap ${isWinner ? 'text-sage' : isOut ? 'text-subtext1 line-through' : ''}`}
+        >
+          <span>
+            {entrant ? `#${entrant.seed} ${entrant.name}` : '---'}
+            {entrant?.id === selfId && <span className="ml-1 text-subtext1">(YOU)</span>}
+          </span>
+          {match.status === 'LIVE' && index === 0 && <span>LIVE</span>}
+          {match.replayId && index === 0 && (
+            <a href={`/replay/${match.replayId}`} target="_blank" rel="noopener noreferrer" className="hover:text-text">
+              REPLAY
+            </a>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+/**
+ * @component TournamentBracket
+ * @description Renders a single-elimination bracket, one column per round,
+ * with the rules for matches no duel decides.
+ */
+export const TournamentBracket = ({ bracket, selfId = null }: { bracket: Bracket; selfId?: string | null }) => {
+  const champion = bracket.rounds[bracket.rounds.length - 1][0].entrants
+    .find((entrant) => entrant?.id === bracket.championId);
+
+  return (
+    <div>
+      <div className="flex gap-4 overflow-x-auto">
+        {bracket.rounds.map((matches, roundIndex) => (
+          <div key={roundIndex} className="flex min-w-[140px] flex-col justify-around gap-2">
+            <div className="text-xs text-subtext1">{getRoundLabel(roundIndex, bracket.rounds.length)}</div>
+            {matches.map((match) => (
+              <MatchCard key={match.id} match={match} selfId={selfId} />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 text-xs text-subtext1">
+        NO-SHOWS LOSE BY WALKOVER. TIMEOUTS ARE SETTLED BY A FAIR DRAW, NOT BY SEED.
+      </div>
+      {champion && (
+        <div className="mt-2 text-xs text-sage">CHAMPION: {champion.name}</div>
+      )}
+    </div>
+  );
+};
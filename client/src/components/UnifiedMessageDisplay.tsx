@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import { useGameStore } from "@/store/useGameStore";
+import { onServerEvent, type ServerPayload } from "@/lib/socketEvents";
 import { formatTokenAmount } from '@/utils/FormatTokenAmount';
 
 interface Message {
@@ -20,7 +21,7 @@ const NARRATOR_MESSAGES: Message[] = [
 ];
 
 export const UnifiedMessageDisplay = () => {
-  const { gamePhase, roundWinner, socket, fighters } = useGameStore();
+  const { gamePhase, roundWinner, socket, fighters, playerId } = useGameStore();
   const [currentMessage, setCurrentMessage] = useState<string>("");
   const [isDramatic, setIsDramatic] = useState(false);
   const [isVisible, setIsVisible] = useState(false);
@@ -100,7 +101,7 @@ export const UnifiedMessageDisplay = () => {
       setCurrentMessage("");
     };
 
-    const handleNewRound = ({ round }: { round: number }) => {
+    const handleNewRound = ({ round }: ServerPayload<"duel:newRound">) => {
       clearAllTimers();
       
       setCurrentMessage(`═══ ROUND ${round} ═══`);
@@ -112,23 +113,13 @@ export const UnifiedMessageDisplay = () => {
       }, 1500);
     };
 
-    const handleBothHit = () => {
+    // A round nobody lost a life in: everyone hit (a dodge) or everyone missed
+    const handleRoundEnd = ({ outcome }: ServerPayload<"duel:roundEnd">) => {
+      if (outcome === "hit") return;
       clearAllTimers();
       
-      setCurrentMessage("BOTH HIT — DODGE!");
-      setIsDramatic(true);
-      setIsVisible(true);
-      
-      addTimer(() => {
-        setIsVisible(false);
-      }, 1500);
-    };
-
-    const handleBothMiss = () => {
-      clearAllTimers();
-      
-      setCurrentMessage("BOTH MISSED!");
-      setIsDramatic(false);
+      setCurrentMessage(outcome === "dodge" ? "BOTH HIT — DODGE!" : "BOTH MISSED!");
+      setIsDramatic(outcome === "dodge");
       setIsVisible(true);
       
       addTimer(() => {
@@ -136,17 +127,13 @@ export const UnifiedMessageDisplay = () => {
       }, 1500);
     };
 
-    socket.on("duel:gong", handleGong);
-    socket.on("duel:newRound", handleNewRound);
-    socket.on("duel:bothHit", handleBothHit);
-    socket.on("duel:bothMiss", handleBothMiss);
+    const unsubscribers = [
+      onServerEvent(socket, "duel:gong", handleGong),
+      onServerEvent(socket, "duel:newRound", handleNewRound),
+      onServerEvent(socket, "duel:roundEnd", handleRoundEnd),
+    ];
 
-    return () => {
-      socket.off("duel:gong", handleGong);
-      socket.off("duel:newRound", handleNewRound);
-      socket.off("duel:bothHit", handleBothHit);
-      socket.off("duel:bothMiss", handleBothMiss);
-    };
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [socket]);
 
   // === WINNER/LOSER DISPLAY (POST_ROUND) ===
@@ -156,11 +143,23 @@ export const UnifiedMessageDisplay = () => {
       setShowingNarrator(false);
       
       // Check if current player won or lost
-      const selfId = socket?.id;
+      const selfId = playerId;
       const wasFighter = fighters.some(f => f.id === selfId);
       const selfFighter = fighters.find(f => f.id === selfId);
       
-      if (roundWinner.isSplit) {
+      if (roundWinner.refunded !== undefined) {
+        // NO CONTEST - the duel never started, an operator cancelled the round, or the server is restarting
+        setCurrentMessage(roundWinner.restarting ? `SERVER RESTARTING` : roundWinner.cancelled ? `ROUND CANCELLED` : `NO CONTEST`);
+        setIsDramatic(false);
+        setIsVisible(true);
+
+        addTimer(() => {
+          setCurrentMessage(`All bets refunded`);
+          setIsDramatic(false);
+          setIsVisible(true);
+        }, 2000);
+
+      } else if (roundWinner.isSplit) {
         // DRAW - POT SPLIT
         const individualPayout = roundWinner.pot / 2;
         setCurrentMessage(`DRAW — POT SPLIT`);
@@ -222,7 +221,7 @@ export const UnifiedMessageDisplay = () => {
         }
       }
     }
-  }, [gamePhase, roundWinner, socket, fighters]);
+  }, [gamePhase, roundWinner, socket, fighters, playerId]);
 
   if (gamePhase === "LOBBY") return null;
 
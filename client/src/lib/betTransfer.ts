@@ -0,0 +1,93 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * BET TRANSFER - PUBLIC FUNCTIONS
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Moves a bet's tokens from the player's wallet to the treasury and returns
+ * the signature `/api/bet` verifies. With NEXT_PUBLIC_CHAIN_BACKEND=mock the
+ * transfer goes to the mock chain through `/api/mock-chain` instead, without
+ * a wallet signature or any tokens.
+ */
+
+import type { Connection, PublicKey, Transaction } from '@solana/web3.js';
+
+export interface BetTransferOptions {
+    /** Bettor's wallet */
+    publicKey: PublicKey;
+    /** WHOLE TOKENS */
+    amount: number;
+    /** RPC connection the transaction is sent through */
+    connection: Connection;
+    /** The wallet adapter's `signTransaction` */
+    signTransaction: (transaction: Transaction) => Promise<Transaction>;
+    /** Called with a short status line at each step */
+    onStatus: (message: string) => void;
+}
+
+export const isMockChain = () => process.env.NEXT_PUBLIC_CHAIN_BACKEND === 'mock';
+
+/**
+ * Sends a bet transfer and waits for its confirmation
+ *
+ * @returns The transaction signature
+ */
+export async function sendBetTransfer(options: BetTransferOptions): Promise<string> {
+    return isMockChain() ? sendMockTransfer(options) : sendSolanaTransfer(options);
+}
+
+async function sendSolanaTransfer({
+    publicKey,
+    amount,
+    connection,
+    signTransaction,
+    onStatus,
+}: BetTransferOptions): Promise<string> {
+    // Import blockchain service
+    const { createShotTransferTransaction } = await import('@/lib/solanaClient');
+
+    // Create unsigned transaction (amount is in tokens)
+    const transaction = await createShotTransferTransaction(
+        publicKey,
+        amount // ← Whole tokens (e.g., 1000)
+    );
+
+    // Get recent blockhash
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = publicKey;
+
+    // Request signature from wallet
+    onStatus("SIGN IN WALLET");
+    const signedTransaction = await signTransaction(transaction);
+
+    // Send transaction
+    onStatus("SENDING...");
+    const signature = await connection.sendRawTransaction(
+        signedTransaction.serialize(),
+        {
+            skipPreflight: false,
+            preflightCommitment: 'confirmed',
+        }
+    );
+
+    // Wait for confirmation
+    onStatus("CONFIRMING...");
+    await connection.confirmTransaction(signature, 'confirmed');
+
+    return signature;
+}
+
+async function sendMockTransfer({ publicKey, amount, onStatus }: BetTransferOptions): Promise<string> {
+    onStatus("SENDING...");
+    const response = await fetch('/api/mock-chain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress: publicKey.toBase58(), amount }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+        throw new Error(result.error || 'Mock transfer failed');
+    }
+    return result.signature;
+}
@@ -0,0 +1,94 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CHAIN - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The on-chain operations the API routes rely on, independent of the chain
+ * behind them. CHAIN_BACKEND picks the implementation: `solana` (the default,
+ * `solanaAdmin.ts`) or `mock` (`mockChain.ts`), an in-process ledger that
+ * needs no RPC, tokens or treasury key. The browser side of a bet follows
+ * NEXT_PUBLIC_CHAIN_BACKEND (see `betTransfer.ts`), which is shipped to every
+ * client and so is never read here.
+ */
+
+import {
+    verifyBetTransaction,
+    findPayoutByIdempotencyKey,
+    sendShotTokens,
+} from './solanaAdmin';
+import { createMockChain, type MockChain } from './mockChain';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ChainBackend = 'solana' | 'mock';
+
+export interface BetVerification {
+    /** Whether the transaction is a confirmed transfer of the expected amount to the treasury */
+    valid: boolean;
+    /** Why it is not, or a confirmation */
+    message: string;
+    /** Verified amount in WHOLE TOKENS */
+    verifiedAmountInTokens?: number;
+    /** Wallet that signed the transfer */
+    verifiedSender?: string;
+}
+
+export interface ChainAdapter {
+    /** Checks that a bet transaction sent the expected amount (WHOLE TOKENS) from the sender to the treasury */
+    verifyBetTransaction(
+        txSignature: string,
+        expectedAmountInTokens: number,
+        expectedSender: string
+    ): Promise<BetVerification>;
+    /** Signature of a successful payout sent with this idempotency key, or null if none landed */
+    findPayoutByIdempotencyKey(idempotencyKey: string): Promise<string | null>;
+    /** Sends WHOLE TOKENS from the treasury and returns the confirmed signature; throws if it may not have landed */
+    sendShotTokens(walletAddress: string, amountInTokens: number, idempotencyKey: string): Promise<string>;
+}
+
+// ============================================
+// BACKEND SELECTION
+// ============================================
+
+const solanaChain: ChainAdapter = {
+    verifyBetTransaction,
+    findPayoutByIdempotencyKey,
+    sendShotTokens,
+};
+
+export const getChainBackend = (): ChainBackend =>
+    process.env.CHAIN_BACKEND === 'mock' ? 'mock' : 'solana';
+
+// Route modules can be evaluated more than once (e.g. by the dev server), but
+// they must all see the same fake ledger
+const globalForChain = globalThis as typeof globalThis & { mockChain?: MockChain };
+
+/**
+ * The mock ledger, created from the MOCK_CHAIN_* variables on first use
+ *
+ * @returns The ledger, or null when CHAIN_BACKEND is not `mock`
+ */
+export function getMockChain(): MockChain | null {
+    if (getChainBackend() !== 'mock') return null;
+
+    if (!globalForChain.mockChain) {
+        globalForChain.mockChain = createMockChain({
+            seed: process.env.MOCK_CHAIN_SEED,
+            treasury: process.env.TREASURY_WALLET_ADDRESS || process.env.NEXT_PUBLIC_TREASURY_WALLET_ADDRESS,
+            startingBalance: Number(process.env.MOCK_CHAIN_STARTING_BALANCE || 100_000),
+            latencyMs: Number(process.env.MOCK_CHAIN_LATENCY_MS || 0),
+            failureRate: Number(process.env.MOCK_CHAIN_FAILURE_RATE || 0),
+        });
+        console.warn('[CHAIN] Using the mock chain; no tokens move on Solana');
+    }
+    return globalForChain.mockChain;
+}
+
+/**
+ * The chain the routes verify bets on and pay out from
+ */
+export function getChain(): ChainAdapter {
+    return getMockChain() ?? solanaChain;
+}
@@ -1,55 +1,27 @@
-import { createClient } from '@supabase/supabase-js';
+import type { Replay } from '@/utils/replay';
+import type { BetRecord, PayoutRecord } from '@/lib/reconciliation';
+import type { DatabaseBackend, Repository } from '@/lib/repository';
+import { createSupabaseRepository } from '@/lib/supabaseRepository';
+import { createMemoryRepository } from '@/lib/memoryRepository';
 
-// Initialize the Supabase client with SERVICE ROLE KEY
-// This bypasses RLS - server has full database access
-// ⚠️ NEVER expose this key to clients (browser)
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+// DATABASE_BACKEND=memory runs without a Supabase project; see repository.ts
+const backend: DatabaseBackend = process.env.DATABASE_BACKEND === 'memory' ? 'memory' : 'supabase';
 
-if (!supabaseUrl || !supabaseServiceKey) {
-    // We don't throw here to allow build time to pass if envs are missing,
-    // but runtime will fail if used.
-    console.warn('SUPABASE_URL or SUPABASE_SERVICE_KEY not found in environment variables');
+if (process.env.DATABASE_BACKEND && process.env.DATABASE_BACKEND !== backend) {
+    console.warn(`Unknown DATABASE_BACKEND "${process.env.DATABASE_BACKEND}", using supabase`);
 }
 
-const supabase = createClient(
-    supabaseUrl || '',
-    supabaseServiceKey || '',
-    {
-        auth: {
-            autoRefreshToken: false,
-            persistSession: false
-        }
-    }
-);
+const repository: Repository = backend === 'memory'
+    ? createMemoryRepository(process.env.GAME_SERVER_URL, process.env.INTERNAL_API_SECRET)
+    : createSupabaseRepository(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
 
 /**
  * Checks if a bet transaction signature has already been used.
  * @param {string} signature The transaction signature.
  * @returns {Promise<boolean>} True if the signature exists, false otherwise.
  */
-export async function checkSignatureExists(signature: string): Promise<boolean> {
-    if (!supabaseUrl || !supabaseServiceKey) {
-        console.error('Database not configured, skipping signature check (FAIL OPEN/CLOSED?)');
-        // If DB is not configured, we should probably fail closed for security,
-        // but for now let's log error and return false to not break dev if envs missing?
-        // NO, security first: fail closed.
-        return true;
-    }
-
-    const { data, error } = await supabase
-        .from('bet_transactions')
-        .select('signature')
-        .eq('signature', signature)
-        .single();
-
-    if (error && error.code !== 'PGRST116') { // PGRST116 is "Row not found"
-        console.error('Error checking signature:', error);
-        // Fail closed: if DB error, assume it exists to prevent replay
-        return true;
-    }
-
-    return !!data;
+export function checkSignatureExists(signature: string): Promise<boolean> {
+    return repository.bets.exists(signature);
 }
 
 /**
@@ -58,19 +30,33 @@ export async function checkSignatureExists(signature: string): Promise<boolean>
  * @param {string} walletAddress The player's wallet address.
  * @param {number} amount The amount of the bet.
  */
-export async function logBetTransaction(signature: string, walletAddress: string, amount: number) {
-    if (!supabaseUrl || !supabaseServiceKey) return;
+export function logBetTransaction(signature: string, walletAddress: string, amount: number): Promise<void> {
+    return repository.bets.log(signature, walletAddress, amount);
+}
 
-    const { error } = await supabase
-        .from('bet_transactions')
-        .insert([{ signature, wallet_address: walletAddress, amount }]);
+/**
+ * Loads a recorded duel replay.
+ * @param {string} id The replay ID.
+ * @returns {Promise<Replay | null>} The replay, or null if it does not exist.
+ */
+export function getReplay(id: string): Promise<Replay | null> {
+    return repository.replays.get(id);
+}
 
-    if (error) {
-        console.error('Failed to log bet transaction:', error);
-        // We throw here because if we can't log it, we shouldn't process it?
-        // Or maybe we just log the error.
-        // If we don't throw, the bet proceeds.
-        // Ideally we want to ensure it's logged.
-        throw new Error('Failed to log bet transaction');
-    }
+/**
+ * Loads the bets recorded since a given time, for reconciliation.
+ * @param {Date} since Earliest `created_at` to include.
+ * @returns {Promise<BetRecord[]>} The bets; empty on error.
+ */
+export function getBetTransactionsSince(since: Date): Promise<BetRecord[]> {
+    return repository.bets.listSince(since);
+}
+
+/**
+ * Loads the payouts and protocol fees recorded since a given time, for reconciliation.
+ * @param {Date} since Earliest `created_at` to include.
+ * @returns {Promise<PayoutRecord[]>} The payout rows; empty on error.
+ */
+export function getPayoutTransactionsSince(since: Date): Promise<PayoutRecord[]> {
+    return repository.payouts.listSince(since);
 }
@@ -0,0 +1,71 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * MEMORY REPOSITORY - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Keeps the tables in the memory of the Next.js process, for running without
+ * a Supabase project. The game server has its own in-memory tables, so
+ * payouts it records are not visible here, and replays are read from it over
+ * `GET /internal/replays/:id`; bets logged through this repository are,
+ * which keeps the bet route's replay check working.
+ */
+
+import type { Replay } from '@/utils/replay';
+import type { BetRecord } from '@/lib/reconciliation';
+import type { Repository } from '@/lib/repository';
+
+const createdSince = (since: Date) => (row: { created_at: string }) => Date.parse(row.created_at) >= since.getTime();
+
+export function createMemoryRepository(gameServerUrl?: string, internalSecret?: string): Repository {
+    const betTransactions = new Map<string, BetRecord>();
+
+    return {
+        bets: {
+            async exists(signature) {
+                return betTransactions.has(signature);
+            },
+            async log(signature, walletAddress, amount) {
+                if (betTransactions.has(signature)) {
+                    console.error(`Failed to log bet transaction: ${signature} is already recorded`);
+                    throw new Error('Failed to log bet transaction');
+                }
+                betTransactions.set(signature, {
+                    signature,
+                    wallet_address: walletAddress,
+                    amount,
+                    created_at: new Date().toISOString(),
+                });
+            },
+            async listSince(since) {
+                return Array.from(betTransactions.values()).filter(createdSince(since));
+            },
+        },
+        // Only the game server writes payouts and replays
+        payouts: {
+            async listSince() {
+                return [];
+            },
+        },
+        replays: {
+            async get(id) {
+                if (!gameServerUrl || !internalSecret) return null;
+
+                try {
+                    const response = await fetch(`${gameServerUrl}/internal/replays/${id}`, {
+                        headers: { 'Authorization': `Bearer ${internalSecret}` },
+                    });
+                    if (!response.ok) {
+                        if (response.status !== 404) {
+                            console.error('Failed to load replay:', response.status, await response.text());
+                        }
+                        return null;
+                    }
+                    return await response.json() as Replay;
+                } catch (error) {
+                    console.error('Failed to load replay:', error);
+                    return null;
+                }
+            },
+        },
+    };
+}
@@ -0,0 +1,240 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * MOCK CHAIN - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * A fake $SHOT ledger kept in process memory, for developing and testing the
+ * bet and payout flow without Solana. Balances are in WHOLE TOKENS; every
+ * wallet starts with `startingBalance` except the treasury, which starts
+ * empty. Given the same seed and the same calls it produces the same
+ * signatures and the same random failures, so a test run can be repeated.
+ *
+ * Failures can be scripted with `failNext()` or left to `failureRate`:
+ * - `rpc_error`: the call throws and nothing lands
+ * - `reverted`: the transaction lands with an error and moves no tokens
+ * - `lost_confirmation`: the transfer lands but the call throws, as when
+ *   confirmation times out (exercises payout idempotency)
+ */
+
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import type { ChainAdapter } from './chain';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MockFailure = 'rpc_error' | 'reverted' | 'lost_confirmation';
+
+/** `transfer` is a wallet sending tokens (a bet); `send` is the treasury paying out */
+export type MockOperation = 'transfer' | 'send';
+
+export interface MockChainOptions {
+    /** Seeds signatures and random failures; defaults to 'potshot' */
+    seed?: string;
+    /** Treasury wallet address */
+    treasury?: string;
+    /** WHOLE TOKENS every other wallet starts with */
+    startingBalance?: number;
+    /** Delay added to every call, in ms */
+    latencyMs?: number;
+    /** Chance (0-1) that a transfer or payout fails with `rpc_error` */
+    failureRate?: number;
+}
+
+export interface MockTransaction {
+    signature: string;
+    from: string;
+    to: string;
+    /** WHOLE TOKENS */
+    amount: number;
+    memo: string | null;
+    /** Why the transaction failed on chain, or null if it succeeded */
+    err: string | null;
+    /** Ledger time in ms */
+    blockTime: number;
+}
+
+export interface MockChain extends ChainAdapter {
+    /** The treasury wallet address */
+    readonly treasury: string;
+    /** Sends WHOLE TOKENS from a wallet to the treasury, as a bet, and returns the signature */
+    transfer(from: string, amountInTokens: number): Promise<string>;
+    /** Current balance in WHOLE TOKENS */
+    balanceOf(walletAddress: string): number;
+    /** Sets a wallet's balance, e.g. to fund a test player */
+    setBalance(walletAddress: string, amountInTokens: number): void;
+    /** Makes the next call of an operation fail */
+    failNext(operation: MockOperation, failure: MockFailure): void;
+    /** Every transaction so far, oldest first */
+    getTransactions(): MockTransaction[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const DEFAULT_TREASURY = 'MockTreasury1111111111111111111111111111111';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Seeded PRNG (mulberry32) for reproducible failures
+ */
+function createRandom(seed: string): () => number {
+    let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+export function createMockChain({
+    seed = 'potshot',
+    treasury = DEFAULT_TREASURY,
+    startingBalance = 100_000,
+    latencyMs = 0,
+    failureRate = 0,
+}: MockChainOptions = {}): MockChain {
+    const balances = new Map<string, number>([[treasury, 0]]);
+    const transactions = new Map<string, MockTransaction>();
+    const scripted: Record<MockOperation, MockFailure[]> = { transfer: [], send: [] };
+    const random = createRandom(seed);
+    let clock = 0;
+
+    const balanceOf = (walletAddress: string) => balances.get(walletAddress) ?? startingBalance;
+
+    // Real signatures are base58 ed25519 signatures: 64 bytes
+    const nextSignature = () =>
+        bs58.encode(createHash('sha512').update(`${seed}:${transactions.size}`).digest());
+
+    const nextFailure = (operation: MockOperation): MockFailure | null => {
+        const failure = scripted[operation].shift();
+        if (failure) return failure;
+        return failureRate > 0 && random() < failureRate ? 'rpc_error' : null;
+    };
+
+    /**
+     * Records a transaction, moving the tokens unless it reverted or the
+     * sender cannot cover it
+     */
+    const execute = async (
+        operation: MockOperation,
+        from: string,
+        to: string,
+        amount: number,
+        memo: string | null
+    ): Promise<string> => {
+        if (!Number.isInteger(amount) || amount <= 0) {
+            throw new Error(`Amount must be a positive integer, got: ${amount}`);
+        }
+        await delay(latencyMs);
+
+        const failure = nextFailure(operation);
+        if (failure === 'rpc_error') {
+            throw new Error(`Mock chain: ${operation} failed (rpc_error)`);
+        }
+
+        let err = failure === 'reverted' ? 'reverted' : null;
+        if (!err && balanceOf(from) < amount) {
+            err = 'insufficient funds';
+        }
+
+        const signature = nextSignature();
+        transactions.set(signature, { signature, from, to, amount, memo, err, blockTime: ++clock });
+
+        if (!err) {
+            balances.set(from, balanceOf(from) - amount);
+            balances.set(to, balanceOf(to) + amount);
+        }
+
+        if (failure === 'lost_confirmation') {
+            throw new Error(`Mock chain: ${operation} sent as ${signature} but not confirmed`);
+        }
+        return signature;
+    };
+
+    return {
+        treasury,
+
+        async transfer(from, amountInTokens) {
+            const signature = await execute('transfer', from, treasury, amountInTokens, null);
+            console.log(`[MOCK CHAIN] ${from} sent ${amountInTokens} tokens to the treasury (${signature})`);
+            return signature;
+        },
+
+        balanceOf,
+
+        setBalance(walletAddress, amountInTokens) {
+            balances.set(walletAddress, amountInTokens);
+        },
+
+        failNext(operation, failure) {
+            scripted[operation].push(failure);
+        },
+
+        getTransactions() {
+            return Array.from(transactions.values()).map((tx) => ({ ...tx }));
+        },
+
+        // Same checks, in the same order and with the same messages, as the Solana implementation
+        async verifyBetTransaction(txSignature, expectedAmountInTokens, expectedSender) {
+            await delay(latencyMs);
+
+            const tx = transactions.get(txSignature);
+            if (!tx) {
+                return { valid: false, message: 'Transaction not found' };
+            }
+            if (tx.err) {
+                return { valid: false, message: `Transaction failed: ${JSON.stringify(tx.err)}` };
+            }
+            if (tx.from !== expectedSender) {
+                return {
+                    valid: false,
+                    message: `Sender mismatch: expected ${expectedSender}, got ${tx.from}`,
+                };
+            }
+            if (tx.to !== treasury) {
+                return { valid: false, message: 'Treasury did not receive tokens' };
+            }
+            if (tx.amount !== expectedAmountInTokens) {
+                return {
+                    valid: false,
+                    message: `Amount mismatch: expected ${expectedAmountInTokens} tokens, received ${tx.amount} tokens`,
+                };
+            }
+
+            return {
+                valid: true,
+                message: 'Transaction verified successfully',
+                verifiedAmountInTokens: tx.amount,
+                verifiedSender: tx.from,
+            };
+        },
+
+        async findPayoutByIdempotencyKey(idempotencyKey) {
+            await delay(latencyMs);
+
+            const payout = Array.from(transactions.values()).find(
+                (tx) => !tx.err && tx.from === treasury && tx.memo === idempotencyKey
+            );
+            return payout?.signature ?? null;
+        },
+
+        async sendShotTokens(walletAddress, amountInTokens, idempotencyKey) {
+            const signature = await execute('send', treasury, walletAddress, amountInTokens, idempotencyKey);
+            const tx = transactions.get(signature)!;
+            if (tx.err) {
+                throw new Error(`Payout ${signature} failed: ${tx.err}`);
+            }
+            console.log(`[MOCK CHAIN] Sent ${amountInTokens} tokens to ${walletAddress} (${signature})`);
+            return signature;
+        },
+    };
+}
@@ -0,0 +1,382 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * RECONCILIATION - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Checks the `bet_transactions` and `payout_transactions` tables against the
+ * treasury token account's on-chain history.
+ *
+ * The chain is read through `getConnection()`, so pointing SOLANA_RPC_URL at a
+ * local validator reconciles against it. The check itself (`reconcile`) only
+ * sees plain data, so a recorded `ReconciliationInput` can be replayed
+ * without any RPC or database.
+ */
+
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from '@solana/spl-token';
+import type { TokenBalance } from '@solana/web3.js';
+import {
+    getConnection,
+    getShotMintAddress,
+    getTreasuryAddress,
+    baseUnitsToTokens,
+} from './solanaClient';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TreasuryTransfer {
+    /** Transaction signature */
+    signature: string;
+    /** Block time in ms, or null if the node did not report one */
+    blockTime: number | null;
+    /** Change in the treasury balance in WHOLE TOKENS: positive for deposits, negative for payouts */
+    amount: number;
+    /** Wallet on the other side of the transfer, if one could be identified */
+    counterparty: string | null;
+    /** Memo texts attached to the transaction */
+    memos: string[];
+}
+
+export interface BetRecord {
+    /** Bet transaction signature */
+    signature: string;
+    /** Bettor */
+    wallet_address: string;
+    /** Whole tokens */
+    amount: number;
+    /** When the bet was recorded */
+    created_at: string;
+}
+
+export interface PayoutRecord {
+    /** Round the payout belongs to; refunds use `refund_<bet signature>` */
+    round_id: string;
+    /** e.g. 'payout', 'payout_split', 'payout_finalist', 'refund', 'protocol_fee' */
+    transaction_type: string;
+    /** Recipient wallet */
+    recipient_wallet: string;
+    /** Whole tokens */
+    amount: number;
+    /** The round's whole pot; only on 'protocol_fee' rows */
+    round_pot?: number | null;
+    /** 'pending', 'confirmed' or 'dead_letter' ('failed' on older rows) */
+    status: string;
+    /** The transfer, once confirmed ('N/A' for protocol fees) */
+    signature: string | null;
+    /** Written to the transfer's memo by the payout queue */
+    idempotency_key?: string | null;
+    /** When the payout was queued */
+    created_at: string;
+}
+
+/** Everything reconciliation looks at; also the format of recorded fixtures */
+export interface ReconciliationInput {
+    transfers: TreasuryTransfer[];
+    bets: BetRecord[];
+    payouts: PayoutRecord[];
+}
+
+export type DiscrepancyKind =
+    | 'unrecorded_deposit'   // tokens arrived with no matching bet
+    | 'missing_deposit'      // a recorded bet has no deposit on-chain
+    | 'unrecorded_payout'    // tokens left with no matching confirmed payout
+    | 'missing_payout'       // a confirmed payout has no transfer on-chain
+    | 'amount_mismatch'      // matched by signature, but the amounts differ
+    | 'pot_mismatch';        // a round's payouts do not add up to its pot
+
+export interface Discrepancy {
+    kind: DiscrepancyKind;
+    /** The transaction concerned, if any */
+    signature?: string;
+    /** The round concerned, for payouts */
+    roundId?: string;
+    /** What the records say, in whole tokens */
+    expected?: number;
+    /** What was found, in whole tokens */
+    actual?: number;
+    message: string;
+}
+
+export interface ReconciliationReport {
+    /** Oldest block time covered, in ms */
+    from: number | null;
+    /** Newest block time covered, in ms */
+    to: number | null;
+    /** Transfers examined */
+    transferCount: number;
+    /** Whole tokens deposited in the window */
+    depositTotal: number;
+    /** Whole tokens paid out in the window */
+    payoutTotal: number;
+    discrepancies: Discrepancy[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PROTOCOL_FEE_PERCENT = 10;
+const SIGNATURE_PAGE_SIZE = 1000;
+export const DEFAULT_RECONCILIATION_LIMIT = 1000;
+
+// ============================================
+// CHAIN HISTORY
+// ============================================
+
+/**
+ * RPC nodes report memos as "[<length>] <memo>", joined with "; "
+ */
+const parseMemos = (memo: string | null | undefined): string[] =>
+    memo ? memo.split('; ').map((part) => part.replace(/^\[\d+\] /, '')) : [];
+
+const getOwnerBalance = (balances: TokenBalance[], owner: string, mint: string): bigint =>
+    BigInt(balances.find((b) => b.owner === owner && b.mint === mint)?.uiTokenAmount.amount ?? '0');
+
+/**
+ * Walks the treasury token account's signatures, newest first, and turns each
+ * successful transaction into the change it made to the treasury balance
+ *
+ * @param limit - How many signatures to walk at most
+ * @returns The transfers, newest first
+ */
+export async function fetchTreasuryTransfers(
+    limit: number = DEFAULT_RECONCILIATION_LIMIT
+): Promise<TreasuryTransfer[]> {
+    const connection = getConnection();
+    const mint = getShotMintAddress().toBase58();
+    const treasury = getTreasuryAddress().toBase58();
+    const treasuryAta = await getAssociatedTokenAddress(
+        getShotMintAddress(),
+        getTreasuryAddress(),
+        false,
+        TOKEN_PROGRAM_ID
+    );
+
+    const transfers: TreasuryTransfer[] = [];
+    let before: string | undefined;
+    let walked = 0;
+
+    while (walked < limit) {
+        const page = await connection.getSignaturesForAddress(
+            treasuryAta,
+            { before, limit: Math.min(SIGNATURE_PAGE_SIZE, limit - walked) },
+            'confirmed'
+        );
+        if (page.length === 0) break;
+
+        walked += page.length;
+        before = page[page.length - 1].signature;
+
+        for (const info of page) {
+            if (info.err) continue;
+
+            const tx = await connection.getTransaction(info.signature, {
+                maxSupportedTransactionVersion: 0,
+            });
+            const pre = tx?.meta?.preTokenBalances ?? [];
+            const post = tx?.meta?.postTokenBalances ?? [];
+
+            const change = getOwnerBalance(post, treasury, mint) - getOwnerBalance(pre, treasury, mint);
+            if (change === BigInt(0)) continue;
+
+            // The other side is whichever owner's balance moved the opposite way
+            const counterparty = post.find(
+                (b) =>
+                    b.owner !== treasury &&
+                    b.mint === mint &&
+                    (getOwnerBalance(post, b.owner!, mint) - getOwnerBalance(pre, b.owner!, mint)) * change < BigInt(0)
+            )?.owner ?? null;
+
+            const tokens = baseUnitsToTokens(change < BigInt(0) ? -change : change);
+            transfers.push({
+                signature: info.signature,
+                blockTime: info.blockTime ? info.blockTime * 1000 : null,
+                amount: change < BigInt(0) ? -tokens : tokens,
+                counterparty,
+                memos: parseMemos(info.memo),
+            });
+        }
+
+        if (page.length < SIGNATURE_PAGE_SIZE) break;
+    }
+
+    return transfers;
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+
+/**
+ * Checks each round's payouts against its pot. Prizes are 90% of the pot,
+ * floored per recipient, so a round may come up short by one token per
+ * payout but never over. Refund rounds must pay back exactly the bet.
+ */
+function checkRoundPots(
+    payouts: PayoutRecord[],
+    betsBySignature: Map<string, BetRecord>
+): Discrepancy[] {
+    const rounds = new Map<string, PayoutRecord[]>();
+    payouts.forEach((row) => rounds.set(row.round_id, [...(rounds.get(row.round_id) ?? []), row]));
+
+    const discrepancies: Discrepancy[] = [];
+    rounds.forEach((rows, roundId) => {
+        const paid = rows.filter((row) => row.transaction_type !== 'protocol_fee');
+        const paidTotal = sum(paid.map((row) => row.amount));
+
+        if (roundId.startsWith('refund_')) {
+            const bet = betsBySignature.get(roundId.slice('refund_'.length));
+            if (bet && bet.amount !== paidTotal) {
+                discrepancies.push({
+                    kind: 'pot_mismatch',
+                    roundId,
+                    expected: bet.amount,
+                    actual: paidTotal,
+                    message: `Refund of ${paidTotal} tokens for a ${bet.amount}-token bet`,
+                });
+            }
+            return;
+        }
+
+        const fee = rows.find((row) => row.transaction_type === 'protocol_fee');
+        if (!fee) {
+            discrepancies.push({
+                kind: 'pot_mismatch',
+                roundId,
+                actual: paidTotal,
+                message: `${paidTotal} tokens paid out for a round with no recorded pot`,
+            });
+            return;
+        }
+
+        // Rows logged before the pot was recorded only give the fee, which pins the pot to within 9 tokens
+        const knownPot = fee.round_pot ?? null;
+        const pot = knownPot ?? fee.amount * (100 / PROTOCOL_FEE_PERCENT);
+        const prize = Math.floor((pot * (100 - PROTOCOL_FEE_PERCENT)) / 100);
+        const slack = knownPot === null ? 9 : 0;
+
+        if (paidTotal > prize + slack || paidTotal < prize - paid.length - slack) {
+            discrepancies.push({
+                kind: 'pot_mismatch',
+                roundId,
+                expected: prize,
+                actual: paidTotal,
+                message: `${paidTotal} tokens paid out of a ${pot}-token pot (prize ${prize})`,
+            });
+        }
+    });
+
+    return discrepancies;
+}
+
+/**
+ * Matches the treasury's transfers against the recorded bets and payouts
+ *
+ * Deposits are matched to bets, and payouts to confirmed payout rows, by
+ * signature. A payout that landed while its row is still pending or
+ * dead-lettered is found through its idempotency-key memo. Records older than
+ * the oldest transfer are outside the window and are not reported missing.
+ */
+export function reconcile({ transfers, bets, payouts }: ReconciliationInput): ReconciliationReport {
+    const blockTimes = transfers.map((t) => t.blockTime).filter((time): time is number => time !== null);
+    const from = blockTimes.length > 0 ? Math.min(...blockTimes) : null;
+    const to = blockTimes.length > 0 ? Math.max(...blockTimes) : null;
+    const inWindow = (createdAt: string) => from !== null && new Date(createdAt).getTime() >= from;
+
+    const deposits = transfers.filter((t) => t.amount > 0);
+    const withdrawals = transfers.filter((t) => t.amount < 0);
+    const transfersBySignature = new Map(transfers.map((t) => [t.signature, t]));
+    const betsBySignature = new Map(bets.map((bet) => [bet.signature, bet]));
+    const confirmedPayouts = payouts.filter(
+        (row) => row.transaction_type !== 'protocol_fee' && row.status === 'confirmed' && row.signature
+    );
+    const payoutsBySignature = new Map(confirmedPayouts.map((row) => [row.signature!, row]));
+
+    const discrepancies: Discrepancy[] = [];
+
+    for (const deposit of deposits) {
+        const bet = betsBySignature.get(deposit.signature);
+        if (!bet) {
+            discrepancies.push({
+                kind: 'unrecorded_deposit',
+                signature: deposit.signature,
+                actual: deposit.amount,
+                message: `${deposit.amount} tokens deposited by ${deposit.counterparty ?? 'an unknown wallet'} with no recorded bet`,
+            });
+        } else if (bet.amount !== deposit.amount) {
+            discrepancies.push({
+                kind: 'amount_mismatch',
+                signature: deposit.signature,
+                expected: bet.amount,
+                actual: deposit.amount,
+                message: `Bet recorded as ${bet.amount} tokens, ${deposit.amount} deposited`,
+            });
+        }
+    }
+
+    for (const bet of bets) {
+        if (inWindow(bet.created_at) && !transfersBySignature.has(bet.signature)) {
+            discrepancies.push({
+                kind: 'missing_deposit',
+                signature: bet.signature,
+                expected: bet.amount,
+                message: `Bet of ${bet.amount} tokens by ${bet.wallet_address} has no deposit on-chain`,
+            });
+        }
+    }
+
+    for (const withdrawal of withdrawals) {
+        const paid = -withdrawal.amount;
+        const row = payoutsBySignature.get(withdrawal.signature);
+        if (!row) {
+            const unconfirmed = payouts.find(
+                (p) => p.idempotency_key && withdrawal.memos.includes(p.idempotency_key)
+            );
+            discrepancies.push({
+                kind: 'unrecorded_payout',
+                signature: withdrawal.signature,
+                roundId: unconfirmed?.round_id,
+                expected: unconfirmed?.amount,
+                actual: paid,
+                message: unconfirmed
+                    ? `${paid} tokens paid to ${withdrawal.counterparty ?? 'an unknown wallet'} but the payout is still ${unconfirmed.status}`
+                    : `${paid} tokens paid to ${withdrawal.counterparty ?? 'an unknown wallet'} with no recorded payout`,
+            });
+        } else if (row.amount !== paid) {
+            discrepancies.push({
+                kind: 'amount_mismatch',
+                signature: withdrawal.signature,
+                roundId: row.round_id,
+                expected: row.amount,
+                actual: paid,
+                message: `Payout recorded as ${row.amount} tokens, ${paid} sent`,
+            });
+        }
+    }
+
+    for (const row of confirmedPayouts) {
+        if (inWindow(row.created_at) && !transfersBySignature.has(row.signature!)) {
+            discrepancies.push({
+                kind: 'missing_payout',
+                signature: row.signature!,
+                roundId: row.round_id,
+                expected: row.amount,
+                message: `Payout of ${row.amount} tokens to ${row.recipient_wallet} has no transfer on-chain`,
+            });
+        }
+    }
+
+    discrepancies.push(...checkRoundPots(payouts, betsBySignature));
+
+    return {
+        from,
+        to,
+        transferCount: transfers.length,
+        depositTotal: sum(deposits.map((t) => t.amount)),
+        payoutTotal: -sum(withdrawals.map((t) => t.amount)),
+        discrepancies,
+    };
+}
@@ -0,0 +1,47 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * REPOSITORY - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * What the API routes read from and write to the database, independent of
+ * where it lives. `db.ts` picks the implementation with DATABASE_BACKEND:
+ * `supabase` (the default, `supabaseRepository.ts`) or `memory`
+ * (`memoryRepository.ts`), which needs no Supabase project.
+ */
+
+import type { Replay } from '@/utils/replay';
+import type { BetRecord, PayoutRecord } from '@/lib/reconciliation';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DatabaseBackend = 'supabase' | 'memory';
+
+export interface BetRepository {
+    /** True if the signature is recorded, or if that cannot be checked (fail closed) */
+    exists(signature: string): Promise<boolean>;
+    /** Records a bet; throws if it cannot be recorded */
+    log(signature: string, walletAddress: string, amount: number): Promise<void>;
+    /** Bets recorded at or after `since`; empty on error */
+    listSince(since: Date): Promise<BetRecord[]>;
+}
+
+export interface PayoutRepository {
+    /** Payouts, refunds and protocol fees recorded at or after `since`; empty on error */
+    listSince(since: Date): Promise<PayoutRecord[]>;
+}
+
+export interface ReplayRepository {
+    /** The replay, or null if it does not exist or on error */
+    get(id: string): Promise<Replay | null>;
+}
+
+export interface Repository {
+    /** `bet_transactions`, the replay protection for bets */
+    bets: BetRepository;
+    /** `payout_transactions` */
+    payouts: PayoutRepository;
+    /** `duel_replays` */
+    replays: ReplayRepository;
+}
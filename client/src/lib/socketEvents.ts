@@ -0,0 +1,102 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SOCKET EVENTS - TYPED GAME SERVER CONNECTION
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * Types for the Socket.IO connection to the game server, derived from the
+ * event contract in `shared/socketEvents.js` that the server validates
+ * against too. Listen through `onServerEvent` rather than `socket.on`: it
+ * checks each payload against the contract and drops (and warns about) any
+ * that does not match, so handlers only ever see well-formed data.
+ */
+
+import type { Socket } from 'socket.io-client';
+import { listen, validate, type Infer, type Schema } from '@shared/schema';
+import {
+    SERVER_EVENTS,
+    CLIENT_EVENTS,
+    ADMIN_SERVER_EVENTS,
+    ADMIN_CLIENT_EVENTS,
+    ADMIN_ACKS,
+} from '@shared/socketEvents';
+
+// ============================================
+// TYPES
+// ============================================
+
+type Contract = Record<string, Schema<unknown>>;
+
+/** Socket.IO listener signatures for a contract; events without a payload take no argument. */
+type Signatures<M extends Contract> = {
+    [E in keyof M]: [Infer<M[E]>] extends [void] ? () => void : (payload: Infer<M[E]>) => void;
+};
+
+type Acks = typeof ADMIN_ACKS;
+
+/** Admin events answered through an acknowledgement take the ack callback last. */
+type AdminClientSignatures = {
+    [E in keyof typeof ADMIN_CLIENT_EVENTS]: E extends keyof Acks
+        ? (payload: Infer<(typeof ADMIN_CLIENT_EVENTS)[E]>, ack: (result: Infer<Acks[E]>) => void) => void
+        : Signatures<typeof ADMIN_CLIENT_EVENTS>[E];
+};
+
+export type ServerEvents = Signatures<typeof SERVER_EVENTS>;
+export type ClientEvents = Signatures<typeof CLIENT_EVENTS>;
+export type ServerEventName = keyof typeof SERVER_EVENTS;
+export type ServerPayload<E extends ServerEventName> = Infer<(typeof SERVER_EVENTS)[E]>;
+
+export type AdminServerEventName = keyof typeof ADMIN_SERVER_EVENTS;
+export type AdminServerPayload<E extends AdminServerEventName> = Infer<(typeof ADMIN_SERVER_EVENTS)[E]>;
+export type AdminAck<E extends keyof Acks> = Infer<Acks[E]>;
+
+/** The connection to the game server's default namespace. */
+export type GameSocket = Socket<ServerEvents, ClientEvents>;
+/** The connection to the operator console's `/admin` namespace. */
+export type AdminSocket = Socket<Signatures<typeof ADMIN_SERVER_EVENTS>, AdminClientSignatures>;
+
+// ============================================
+// LISTENERS
+// ============================================
+
+const warnInvalid = (event: string, error: string) => {
+    console.warn(`[socket] Dropped malformed ${event}: ${error}`);
+};
+
+/**
+ * Subscribes to a game server event, calling `handler` only with payloads
+ * that match the contract.
+ * @returns A function that unsubscribes.
+ */
+export const onServerEvent = <E extends ServerEventName>(
+    socket: GameSocket,
+    event: E,
+    handler: (payload: ServerPayload<E>) => void,
+): (() => void) => listen(socket, SERVER_EVENTS, event, handler, warnInvalid);
+
+/**
+ * Subscribes to an operator console event, calling `handler` only with
+ * payloads that match the contract.
+ * @returns A function that unsubscribes.
+ */
+export const onAdminEvent = <E extends AdminServerEventName>(
+    socket: AdminSocket,
+    event: E,
+    handler: (payload: AdminServerPayload<E>) => void,
+): (() => void) => listen(socket, ADMIN_SERVER_EVENTS, event, handler, warnInvalid);
+
+/**
+ * Wraps an acknowledgement callback of an operator console event so it only
+ * runs with answers that match the contract.
+ */
+export const onAdminAck = <E extends keyof Acks>(
+    event: E,
+    handler: (result: AdminAck<E>) => void,
+): ((result: unknown) => void) => (result) => {
+    const acks: { [K in keyof Acks]: Schema<AdminAck<K>> } = ADMIN_ACKS;
+    const checked = validate(acks[event], result);
+    if (checked.ok) {
+        handler(checked.value);
+    } else {
+        warnInvalid(`${event} acknowledgement`, checked.error);
+    }
+};
@@ -9,6 +9,7 @@
 
 import {
     Transaction,
+    TransactionInstruction,
     Keypair,
     PublicKey,
 } from '@solana/web3.js';
@@ -26,6 +27,7 @@ import {
     baseUnitsToTokens,
     getOrCreateAtaInstruction,
 } from './solanaClient';
+import type { BetVerification } from './chain';
 
 // ============================================
 // SERVER-SIDE: TRANSACTION VERIFICATION
@@ -48,12 +50,7 @@ export async function verifyBetTransaction(
     txSignature: string,
     expectedAmountInTokens: number,
     expectedSender: string
-): Promise<{
-    valid: boolean;
-    message: string;
-    verifiedAmountInTokens?: number;
-    verifiedSender?: string;
-}> {
+): Promise<BetVerification> {
     try {
         console.log(`[VERIFY] Verifying transaction for ${expectedAmountInTokens} tokens`);
 
@@ -154,6 +151,54 @@ export async function verifyBetTransaction(
     }
 }
 
+// ============================================
+// SERVER-SIDE: PAYOUT IDEMPOTENCY
+// ============================================
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// How many of the treasury's latest transactions are searched for a payout's memo
+const PAYOUT_LOOKBACK_LIMIT = 1000;
+
+/**
+ * Creates a memo instruction tagging a payout with its idempotency key
+ */
+function createMemoInstruction(memo: string): TransactionInstruction {
+    return new TransactionInstruction({
+        keys: [],
+        programId: MEMO_PROGRAM_ID,
+        data: Buffer.from(memo, 'utf8'),
+    });
+}
+
+/**
+ * Looks for a successful payout tagged with an idempotency key among the
+ * treasury's recent transactions
+ *
+ * @param idempotencyKey - The key the payout was sent with
+ * @returns The payout's signature, or null if it never landed
+ *
+ * RPC nodes report memos as "[<length>] <memo>", joined with "; " when a
+ * transaction has several.
+ */
+export async function findPayoutByIdempotencyKey(
+    idempotencyKey: string
+): Promise<string | null> {
+    const signatures = await getConnection().getSignaturesForAddress(
+        getTreasuryAddress(),
+        { limit: PAYOUT_LOOKBACK_LIMIT },
+        'confirmed'
+    );
+
+    const payout = signatures.find(
+        (info) =>
+            !info.err &&
+            info.memo?.split('; ').some((memo) => memo.replace(/^\[\d+\] /, '') === idempotencyKey)
+    );
+
+    return payout?.signature ?? null;
+}
+
 // ============================================
 // SERVER-SIDE: PAYOUT EXECUTION
 // ============================================
@@ -163,6 +208,7 @@ export async function verifyBetTransaction(
  *
  * @param winnerWalletAddress - Winner's wallet address
  * @param amountInTokens - Amount in WHOLE TOKENS (e.g., 1000)
+ * @param idempotencyKey - Written to the transfer's memo so a retry can find it
  * @returns Transaction signature
  *
  * Example:
@@ -171,7 +217,8 @@ export async function verifyBetTransaction(
  */
 export async function sendShotTokens(
     winnerWalletAddress: string,
-    amountInTokens: number
+    amountInTokens: number,
+    idempotencyKey: string
 ): Promise<string> {
     console.log(`[PAYOUT] Sending ${amountInTokens} tokens to ${winnerWalletAddress}`);
 
@@ -231,10 +278,12 @@ export async function sendShotTokens(
         )
     );
 
+    transaction.add(createMemoInstruction(idempotencyKey));
+
     console.log(`[PAYOUT] Transaction created with ${baseUnits} base units`);
 
     // Set blockhash and fee payer
-    const { blockhash } = await getConnection().getLatestBlockhash('confirmed');
+    const { blockhash, lastValidBlockHeight } = await getConnection().getLatestBlockhash('confirmed');
     transaction.recentBlockhash = blockhash;
     transaction.feePayer = treasuryKeypair.publicKey;
 
@@ -249,7 +298,11 @@ export async function sendShotTokens(
         }
     );
 
-    await getConnection().confirmTransaction(signature, 'confirmed');
+    // Throws once the blockhash expires, after which the transfer can no longer land
+    await getConnection().confirmTransaction(
+        { signature, blockhash, lastValidBlockHeight },
+        'confirmed'
+    );
 
     console.log(`[PAYOUT] ✓ Sent ${amountInTokens} tokens (signature: ${signature})`);
 
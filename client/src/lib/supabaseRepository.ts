@@ -0,0 +1,131 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SUPABASE REPOSITORY - SERVER SIDE ONLY
+ * ═══════════════════════════════════════════════════════════════
+ *
+ * The production repository. Uses the SERVICE ROLE KEY, which bypasses RLS.
+ * ⚠️ NEVER expose this key to clients (browser)
+ *
+ * Without SUPABASE_URL and SUPABASE_SERVICE_KEY nothing can be read or
+ * written: signature checks fail closed and every other read comes back empty.
+ * Set DATABASE_BACKEND=memory to run without a Supabase project instead.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Repository } from '@/lib/repository';
+
+export function createSupabaseRepository(url: string | undefined, serviceKey: string | undefined): Repository {
+    const configured = Boolean(url && serviceKey);
+    if (!configured) {
+        // We don't throw here to allow build time to pass if envs are missing
+        console.warn('SUPABASE_URL or SUPABASE_SERVICE_KEY not found in environment variables');
+    }
+
+    const supabase = createClient(url || '', serviceKey || '', {
+        auth: {
+            autoRefreshToken: false,
+            persistSession: false
+        }
+    });
+
+    return {
+        bets: {
+            async exists(signature) {
+                if (!configured) {
+                    console.error('Database not configured, treating signature as used');
+                    return true;
+                }
+
+                const { data, error } = await supabase
+                    .from('bet_transactions')
+                    .select('signature')
+                    .eq('signature', signature)
+                    .single();
+
+                if (error && error.code !== 'PGRST116') { // PGRST116 is "Row not found"
+                    console.error('Error checking signature:', error);
+                    // Fail closed: if DB error, assume it exists to prevent replay
+                    return true;
+                }
+
+                return !!data;
+            },
+
+            async log(signature, walletAddress, amount) {
+                if (!configured) return;
+
+                const { error } = await supabase
+                    .from('bet_transactions')
+                    .insert([{ signature, wallet_address: walletAddress, amount }]);
+
+                if (error) {
+                    console.error('Failed to log bet transaction:', error);
+                    throw new Error('Failed to log bet transaction');
+                }
+            },
+
+            async listSince(since) {
+                if (!configured) return [];
+
+                const { data, error } = await supabase
+                    .from('bet_transactions')
+                    .select('signature, wallet_address, amount, created_at')
+                    .gte('created_at', since.toISOString());
+
+                if (error) {
+                    console.error('Failed to load bet transactions:', error);
+                    return [];
+                }
+                return data;
+            },
+        },
+
+        payouts: {
+            async listSince(since) {
+                if (!configured) return [];
+
+                const { data, error } = await supabase
+                    .from('payout_transactions')
+                    .select('round_id, transaction_type, recipient_wallet, amount, round_pot, status, signature, idempotency_key, created_at')
+                    .gte('created_at', since.toISOString());
+
+                if (error) {
+                    console.error('Failed to load payout transactions:', error);
+                    return [];
+                }
+                return data;
+            },
+        },
+
+        replays: {
+            async get(id) {
+                if (!configured) return null;
+
+                const { data, error } = await supabase
+                    .from('duel_replays')
+                    .select('*')
+                    .eq('id', id)
+                    .single();
+
+                if (error) {
+                    if (error.code !== 'PGRST116') {
+                        console.error('Failed to load replay:', error);
+                    }
+                    return null;
+                }
+
+                return {
+                    id: data.id,
+                    arenaId: data.arena_id,
+                    startedAt: data.started_at,
+                    endedAt: data.ended_at,
+                    bestOf: data.best_of,
+                    ruleset: data.ruleset,
+                    fighters: data.fighters,
+                    events: data.events,
+                    result: data.result,
+                };
+            },
+        },
+    };
+}
@@ -6,7 +6,23 @@
  */
 
 import { create } from 'zustand';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
+import { getClockSample, ClockSample } from '@/utils/serverClock';
+import { onServerEvent, type GameSocket } from '@/lib/socketEvents';
+
+/** Clock samples kept; the one with the shortest round trip sets the offset. */
+const TIME_SYNC_SAMPLES = 5;
+/** How often the clock offset is re-measured, in milliseconds. */
+const TIME_SYNC_INTERVAL = 30000;
+/** Where the session token is kept, so a refresh resumes the same player. */
+const SESSION_TOKEN_KEY = 'potshot:sessionToken';
+
+const loadSessionToken = () =>
+  typeof window === 'undefined' ? null : window.localStorage.getItem(SESSION_TOKEN_KEY);
+const saveSessionToken = (token: string | null) => {
+  if (token) window.localStorage.setItem(SESSION_TOKEN_KEY, token);
+  else window.localStorage.removeItem(SESSION_TOKEN_KEY);
+};
 
 /**
  * @interface Player
@@ -14,7 +30,7 @@ import { io, Socket } from 'socket.io-client';
  * state, and in-game attributes.
  */
 export interface Player {
-  /** The player's unique socket ID. */
+  /** The player's unique ID: their wallet address, stable across reconnects. */
   id: string;
   /** The player's Solana wallet address. */
   walletAddress: string;
@@ -44,13 +60,160 @@ export interface Player {
   };
 }
 
+/**
+ * @interface TargetZone
+ * @description The part of the shooting bar that counts as a hit this round.
+ */
+export interface TargetZone {
+  /** Lower edge, from 0 to 1. */
+  min: number;
+  /** Upper edge, from 0 to 1. */
+  max: number;
+}
+
+/**
+ * @interface BarTiming
+ * @description What a client needs to animate the shooting bar on its own.
+ */
+export interface BarTiming {
+  /** Server time at which the bar started moving this round. */
+  startTime: number;
+  /** Duration of one bar cycle this round, in milliseconds. */
+  barCycleDuration: number;
+  /** How far the target zone slides along the bar per second this round; 0 keeps it still. */
+  zoneDrift: number;
+}
+
+/** The classic ruleset's zone, used until the server sends the real one. */
+export const DEFAULT_TARGET_ZONE: TargetZone = { min: 0.6, max: 0.8 };
+
+/**
+ * @interface ArenaSummary
+ * @description Public summary of an arena, as listed in the arena browser.
+ */
+export interface ArenaSummary {
+  /** The arena's unique ID. */
+  id: string;
+  /** The arena's display name. */
+  name: string;
+  /** How the arena picks its fighters. */
+  mode: 'auction' | 'tournament';
+  /** Tournament only: number of entrants in the bracket. */
+  bracketSize?: number;
+  /** Tournament only: fixed entry fee in whole tokens. */
+  buyIn?: number;
+  /** Tournament only: players who have paid the buy-in so far. */
+  entrantCount?: number;
+  /** The arena's current game phase. */
+  phase: 'LOBBY' | 'IN_ROUND' | 'POST_ROUND';
+  /** Set by an operator: the auction will not close until betting resumes. */
+  bettingPaused: boolean;
+  /** How many fighters take part in each duel; more than two is a free-for-all. */
+  fighterCount: number;
+  /** Duels in this arena are best-of-N series. */
+  bestOf: number;
+  /** The bar speed and target-zone rules the arena plays with. */
+  ruleset: { id: string; name: string; maxRounds: number | null };
+  /** Number of authenticated players seated in the arena. */
+  playerCount: number;
+  /** Number of players with a bet placed. */
+  contenderCount: number;
+  /** Current bets in the lobby, or the locked pot once a duel has started. */
+  pot: number;
+}
+
+/**
+ * @interface BracketMatch
+ * @description One match of a tournament bracket, as broadcast by the server.
+ */
+export interface BracketMatch {
+  /** Stable match ID, e.g. "r1m0". */
+  id: string;
+  /** 1-based round number. */
+  round: number;
+  /** Whether the match is waiting, being played or decided. */
+  status: 'PENDING' | 'LIVE' | 'DONE';
+  /** The entrant who advanced, once decided. */
+  winnerId: string | null;
+  /** Replay of the duel, once played; null for walkovers. */
+  replayId: string | null;
+  /** The two entrants; null while still undecided. */
+  entrants: ({ id: string; name: string; seed: number } | null)[];
+}
+
+/**
+ * @interface SeriesScore
+ * @description Scoreboard of a best-of-N duel series.
+ */
+export interface SeriesScore {
+  /** Series length (1, 3 or 5). */
+  bestOf: number;
+  /** The game currently being played, starting at 1. */
+  game: number;
+  /** Each fighter's kills and remaining lives, in seat order. */
+  fighters: { id: string; name: string; wins: number; health: number }[];
+}
+
+/**
+ * @interface SeedReveal
+ * @description The seed behind a finished duel's random draws (gong delay, AI
+ * rolls), revealed with POST_ROUND so anyone can recompute them.
+ */
+export interface SeedReveal {
+  /** The commitment published in `duel:state` before the duel. */
+  seedHash: string;
+  /** The secret seed; its SHA-256 must equal `seedHash`. */
+  serverSeed: string;
+  /** Each fighter's entropy, in seat order. */
+  entropy: { fighterId: string; entropy: string }[];
+  /** How many random values the duel used. */
+  drawCount: number;
+  /** Replay of the duel. */
+  replayId: string;
+}
+
+/**
+ * @interface Refund
+ * @description A bet of the local player that was refunded because it never
+ * reached a duel.
+ */
+export interface Refund {
+  /** The bet's transaction signature. */
+  signature: string;
+  /** The arena the bet was placed in. */
+  arenaId: string;
+  /** Whole tokens. */
+  amount: number;
+  /** Where the refund stands. */
+  status: 'refunding' | 'refunded' | 'refund_failed';
+  /** Why the bet was refunded. */
+  reason: 'left_arena' | 'no_contest' | 'server_restart' | 'cancelled' | 'invalid_buy_in' | 'bracket_full';
+  /** The refund transfer, once sent. */
+  refundSignature: string | null;
+  /** When the bet was confirmed. */
+  createdAt: number;
+}
+
+/**
+ * @interface Bracket
+ * @description A single-elimination tournament bracket.
+ */
+export interface Bracket {
+  /** Number of entrants (4, 8 or 16). */
+  size: number;
+  /** The tournament winner, once the final is played. */
+  championId: string | null;
+  /** Matches grouped by round, first round first. */
+  rounds: BracketMatch[][];
+}
+
 /**
  * @interface StoreState
  * @description Defines the shape of the Zustand store's state.
  */
 interface StoreState {
   /** The active Socket.IO client instance. */
-  socket: Socket | null;
+  socket: GameSocket | null;
   /** Connection status of the WebSocket. */
   isConnected: boolean;
   /** The current high-level phase of the game. */
@@ -59,6 +222,10 @@ interface StoreState {
   lobbyPhase: 'GATE' | 'NAME_INPUT' | 'BETTING';
   /** The name of the current local player. */
   playerName: string;
+  /** The local player's ID once signed in; null for spectators. */
+  playerId: string | null;
+  /** Token that lets a new connection resume this player's session without signing again. */
+  sessionToken: string | null;
   /** Whether the player's bet for the upcoming round is verified. */
   isVerified: boolean;
   /** A record of all players in the game, keyed by their socket ID. */
@@ -66,13 +233,49 @@ interface StoreState {
   /** The countdown timer for the start of a duel. */
   lobbyCountdown: number | null;
   /** Data about the winner of the last round. */
-  roundWinner: { name: string; pot: number; isSplit?: boolean } | null;
-  /** The two players currently fighting in the duel. */
+  roundWinner: {
+    name: string;
+    pot: number;
+    isSplit?: boolean;
+    splitCount?: number;
+    /** Set when the duel was called off: the total refunded to the bettors. */
+    refunded?: number;
+    /** Set when an operator cancelled the round. */
+    cancelled?: boolean;
+    /** Set when the round was called off because the server is shutting down. */
+    restarting?: boolean;
+    replayId?: string | null;
+  } | null;
+  /** The players currently fighting in the duel. */
   fighters: Player[];
   /** Flag to prevent UI rendering until the store is properly hydrated from the server. */
   isHydrated: boolean;
   /** The total pot for the current round. */
   roundPot: number;
+  /** All arenas running on the server. */
+  arenas: ArenaSummary[];
+  /** The arena this client is currently watching or playing in. */
+  arenaId: string | null;
+  /** The running tournament's bracket, in tournament arenas. */
+  bracket: Bracket | null;
+  /** Scoreboard of the current duel series. */
+  series: SeriesScore | null;
+  /** The current round's target zone on the shooting bar, where it was when the bar started. */
+  targetZone: TargetZone;
+  /** Timing of the running round's bar; null between rounds. */
+  barTiming: BarTiming | null;
+  /** Server clock minus local clock, in milliseconds, as measured by `time:sync`. */
+  clockOffset: number;
+  /** Hashes of this round's duel seeds, as committed in `duel:state`. */
+  seedHashes: string[];
+  /** The seeds of the round's duels, revealed with POST_ROUND. */
+  seedReveals: SeedReveal[];
+  /** The seat this client lost mid-duel and can reclaim by re-authenticating; null otherwise. */
+  resumingSeat: { fighterId: string; arenaId: string } | null;
+  /** Fighters who dropped mid-duel, mapped to the local time their seat is given up. */
+  awayFighters: Record<string, number>;
+  /** The local player's recent refunds, newest first. */
+  refunds: Refund[];
 }
 
 /**
@@ -94,6 +297,10 @@ interface StoreActions {
   setHydrated: (hydrated: boolean) => void;
   /** Updates the animation state for a specific fighter. */
   updateFighterAnimation: (fighterId: string, animationState: Player['animationState']) => void;
+  /** Asks the server to move this client into another arena. */
+  joinArena: (arenaId: string) => void;
+  /** Gives up a seat lost mid-duel and keeps watching as a spectator. */
+  abandonSeat: () => void;
 }
 
 type GameState = StoreState & StoreActions;
@@ -104,6 +311,8 @@ const initialState: StoreState = {
   gamePhase: 'LOBBY',
   lobbyPhase: 'GATE',
   playerName: '',
+  playerId: null,
+  sessionToken: null,
   isVerified: false,
   players: {},
   lobbyCountdown: null,
@@ -111,6 +320,18 @@ const initialState: StoreState = {
   fighters: [],
   isHydrated: false,
   roundPot: 0,
+  arenas: [],
+  arenaId: null,
+  bracket: null,
+  series: null,
+  targetZone: DEFAULT_TARGET_ZONE,
+  barTiming: null,
+  clockOffset: 0,
+  seedHashes: [],
+  seedReveals: [],
+  resumingSeat: null,
+  awayFighters: {},
+  refunds: [],
 };
 
 export const useGameStore = create<GameState>((set, get) => ({
@@ -120,60 +341,192 @@ export const useGameStore = create<GameState>((set, get) => ({
 
   connectSocket: () => {
     if (get().socket) return;
-    const newSocket = io(process.env.NEXT_PUBLIC_SERVER_URL!, {
+    const newSocket: GameSocket = io(process.env.NEXT_PUBLIC_SERVER_URL!, {
       transports: ['websocket'],
       upgrade: false,
     });
-    newSocket.on('connect', () =>
-      set({ isConnected: true, socket: newSocket }),
-    );
-    newSocket.on('disconnect', () => get().reset());
+    // NTP-style clock sync, so the bar can be animated from server timestamps.
+    let clockSamples: ClockSample[] = [];
+    const requestTimeSync = () => newSocket.emit('time:sync', { clientSentAt: Date.now() });
+
+    set({ sessionToken: loadSessionToken() });
 
-    newSocket.on('lobby:state', (players) => set({ players }));
+    newSocket.on('connect', () => {
+      set({ isConnected: true, socket: newSocket });
+      clockSamples = [];
+      requestTimeSync();
 
-    newSocket.on('lobby:joined', ({ name, isVerified }) =>
+      // Pick our session back up (after a refresh or a dropped connection).
+      const { sessionToken, resumingSeat } = get();
+      if (resumingSeat) newSocket.emit('arena:join', resumingSeat.arenaId);
+      if (sessionToken) newSocket.emit('session:resume', { token: sessionToken });
+    });
+    onServerEvent(newSocket, 'session:invalid', () => {
+      saveSessionToken(null);
+      set({ sessionToken: null });
+    });
+    // An operator took this wallet out of play; the server disconnects us next.
+    onServerEvent(newSocket, 'session:kicked', ({ banned }) => {
+      saveSessionToken(null);
+      set({ sessionToken: null });
+      alert(banned ? 'This wallet has been banned.' : 'You were removed from the game by an operator.');
+    });
+    // The server holds a fighter's seat for a grace window, so a fighter who
+    // drops mid-duel keeps the duel on screen instead of resetting.
+    newSocket.on('disconnect', (reason) => {
+      const { gamePhase, fighters, arenaId, playerId } = get();
+      const seat = fighters.find((f) => f.id === playerId && (f.health ?? 1) > 0);
+      // A disconnect by the server (a kick) is final.
+      if (reason !== 'io server disconnect' && gamePhase === 'IN_ROUND' && seat && arenaId) {
+        set({ isConnected: false, resumingSeat: { fighterId: seat.id, arenaId } });
+      } else {
+        get().reset();
+      }
+    });
+
+    onServerEvent(newSocket, 'time:sync', ({ clientSentAt, serverReceivedAt, serverSentAt }) => {
+      const sample = getClockSample(clientSentAt, serverReceivedAt, serverSentAt, Date.now());
+      clockSamples = [...clockSamples, sample].slice(-TIME_SYNC_SAMPLES);
+      const best = clockSamples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+      set({ clockOffset: best.offset });
+
+      // Take a quick burst of samples after connecting, then refresh slowly.
+      if (clockSamples.length < TIME_SYNC_SAMPLES) requestTimeSync();
+    });
+    setInterval(() => {
+      if (newSocket.connected) requestTimeSync();
+    }, TIME_SYNC_INTERVAL);
+    // Echo pings straight back so the server can measure our round trip.
+    onServerEvent(newSocket, 'latency:ping', ({ seq }) => newSocket.emit('latency:pong', { seq }));
+
+    onServerEvent(newSocket, 'arena:list', (arenas) => set({ arenas }));
+
+    onServerEvent(newSocket, 'arena:joined', ({ arenaId }) =>
       set({
-        playerName: name,
-        isVerified: isVerified,
-        lobbyPhase: 'BETTING',
+        arenaId,
+        players: {},
+        lobbyCountdown: null,
+        roundWinner: null,
+        fighters: [],
+        roundPot: 0,
+        bracket: null,
+        series: null,
+        barTiming: null,
       }),
     );
 
-    newSocket.on('lobby:betVerified', () => {
-      set({ isVerified: true });
+    onServerEvent(newSocket, 'arena:joinFailed', (message) => {
+      alert(`Cannot switch arena: ${message}`);
+    });
+
+    onServerEvent(newSocket, 'lobby:state', (players) => set({ players }));
+
+    onServerEvent(newSocket, 'tournament:bracket', (bracket) => set({ bracket }));
+
+    // Every round restarts the bar and can move or shrink the zone, depending
+    // on the arena's ruleset.
+    const onRoundTiming = ({ zone, startTime, barCycleDuration, zoneDrift }: { zone?: TargetZone } & BarTiming) => {
+      set({ barTiming: { startTime, barCycleDuration, zoneDrift } });
+      if (zone) set({ targetZone: zone });
+    };
+    onServerEvent(newSocket, 'duel:aimPhase', onRoundTiming);
+    onServerEvent(newSocket, 'duel:newRound', onRoundTiming);
+    onServerEvent(newSocket, 'duel:roundEnd', () => set({ barTiming: null }));
+
+    onServerEvent(newSocket, 'duel:fighterDisconnected', ({ fighterId, graceMs }) =>
+      set((state) => ({ awayFighters: { ...state.awayFighters, [fighterId]: Date.now() + graceMs } })),
+    );
+
+    onServerEvent(newSocket, 'duel:fighterReconnected', ({ fighterId }) =>
+      set((state) => {
+        const awayFighters = { ...state.awayFighters };
+        delete awayFighters[fighterId];
+        return {
+          awayFighters,
+          resumingSeat: state.resumingSeat?.fighterId === fighterId ? null : state.resumingSeat,
+        };
+      }),
+    );
+
+    onServerEvent(newSocket, 'duel:state', ({ seedHash }) => {
+      set((state) => ({ seedHashes: [...state.seedHashes, seedHash] }));
     });
 
-    newSocket.on('lobby:betFailed', (message) => {
-      alert(`Bet Failed: ${message}`);
+    onServerEvent(newSocket, 'duel:series', (series) =>
+      set((state) => ({
+        series,
+        fighters: state.fighters.map((f) => ({
+          ...f,
+          health: series.fighters.find((s) => s.id === f.id)?.health ?? f.health,
+        })),
+      })),
+    );
+
+    onServerEvent(newSocket, 'lobby:joined', ({ name, playerId, sessionToken, resumed }) => {
+      saveSessionToken(sessionToken);
+      set((state) => ({
+        playerName: name,
+        playerId,
+        sessionToken,
+        // A fresh sign-in has no bet yet; `lobby:betVerified` sets this once one lands.
+        isVerified: resumed ? state.isVerified : false,
+        lobbyPhase: 'BETTING',
+        // Signing in after the grace window joins the lobby instead of the duel.
+        resumingSeat: resumed ? state.resumingSeat : null,
+      }));
     });
 
-    newSocket.on('lobby:countdown', (countdown) =>
-      set({ lobbyCountdown: countdown }),
+    onServerEvent(newSocket, 'escrow:refunds', (refunds) => set({ refunds }));
+    onServerEvent(newSocket, 'escrow:refund', (refund) =>
+      set((state) => ({
+        refunds: [refund, ...state.refunds.filter((r) => r.signature !== refund.signature)],
+      })),
     );
 
-    newSocket.on('game:state', (gamePlayers) =>
-      set((state) => ({ players: { ...state.players, ...gamePlayers } })),
+    onServerEvent(newSocket, 'lobby:betVerified', () => {
+      set({ isVerified: true });
+    });
+
+    onServerEvent(newSocket, 'lobby:countdown', (countdown) =>
+      set({ lobbyCountdown: countdown }),
     );
 
-    newSocket.on('game:phaseChange', (data) => {
-      const phase = data.phase as StoreState['gamePhase'];
+    onServerEvent(newSocket, 'game:phaseChange', (data) => {
+      const { phase } = data;
       set({ gamePhase: phase });
 
       if (!get().isHydrated) {
         set({ isHydrated: true });
       }
 
-      if (phase === 'IN_ROUND') {
+      if (data.phase === 'IN_ROUND') {
         set({
           fighters: data.fighters,
           roundWinner: null,
-          roundPot: data.roundPot || 0,
+          roundPot: data.roundPot,
         });
-      } else if (phase === 'POST_ROUND') {
-        set({ roundWinner: data.winnerData });
-      } else if (phase === 'LOBBY') {
-        const { socket, isConnected, isHydrated } = get();
-        set({ ...initialState, socket, isConnected, isHydrated, lobbyPhase: 'BETTING' });
+      } else if (data.phase === 'POST_ROUND') {
+        set({ roundWinner: data.winnerData ?? null, barTiming: null, seedReveals: data.fairness ?? [] });
+      } else {
+        const { socket, isConnected, isHydrated, arenas, arenaId, clockOffset, playerId, sessionToken, refunds } = get();
+        set({
+          ...initialState,
+          socket,
+          isConnected,
+          isHydrated,
+          arenas,
+          arenaId,
+          clockOffset,
+          playerId,
+          sessionToken,
+          refunds,
+          lobbyPhase: 'BETTING',
+        });
+      }
+
+      // A duel that ended while we were away can no longer be resumed.
+      if (phase !== 'IN_ROUND') {
+        set({ resumingSeat: null, awayFighters: {} });
       }
     });
   },
@@ -191,13 +544,22 @@ export const useGameStore = create<GameState>((set, get) => ({
     }));
   },
 
+  joinArena: (arenaId: string) => {
+    if (arenaId === get().arenaId) return;
+    get().socket?.emit('arena:join', arenaId);
+  },
+
+  abandonSeat: () => {
+    set({ resumingSeat: null });
+  },
+
   clearWinner: () => {
     set({ roundWinner: null });
   },
 
   reset: () => {
-    const { socket } = get();
-    set({ ...initialState, socket, isConnected: false });
+    const { socket, clockOffset, sessionToken } = get();
+    set({ ...initialState, socket, clockOffset, sessionToken, isConnected: false });
   },
 
   reconnectSocket: () => {
@@ -0,0 +1,28 @@
+import type { SeedReveal } from '@/store/useGameStore';
+
+/**
+ * Random entropy a fighter adds to the duel's draws when they send
+ * `duel:playerReady`, as 32 hex characters.
+ */
+export function createEntropy(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a string, in hex.
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text).buffer as ArrayBuffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks a revealed seed against its commitment: the seed must hash to
+ * `seedHash`, and that hash must be one we received in `duel:state` before
+ * the duel. Pass `committedHashes` as null if we joined too late to see it.
+ */
+export async function verifySeedReveal(reveal: SeedReveal, committedHashes: string[] | null): Promise<boolean> {
+  if (committedHashes && !committedHashes.includes(reveal.seedHash)) return false;
+  return (await sha256Hex(reveal.serverSeed)) === reveal.seedHash;
+}
@@ -0,0 +1,22 @@
+/**
+ * Radius of the circle fighters stand on. Mirrors `FIGHTER_CIRCLE_RADIUS` in
+ * the server's duel engine.
+ */
+export const FIGHTER_CIRCLE_RADIUS = 3;
+
+/**
+ * Returns the arena spot for the fighter in a given seat. Fighters stand
+ * evenly spaced on a circle, facing its centre; with two fighters this is the
+ * classic face-off along the z axis. Mirrors `getFighterPlacement` on the server.
+ */
+export function getFighterPlacement(index: number, count: number = 2): {
+  position: [number, number, number];
+  rotation: number;
+} {
+  const angle = (index / count) * Math.PI * 2;
+  const round = (value: number) => Math.round(value * 1000) / 1000 + 0;
+  return {
+    position: [round(-FIGHTER_CIRCLE_RADIUS * Math.sin(angle)), 0, round(-FIGHTER_CIRCLE_RADIUS * Math.cos(angle))],
+    rotation: angle,
+  };
+}
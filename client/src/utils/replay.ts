@@ -0,0 +1,236 @@
+import { DEFAULT_TARGET_ZONE, BarTiming, Player, TargetZone } from '@/store/useGameStore';
+import { getBarPosition, getTargetZoneAt } from '@/utils/serverClock';
+
+/**
+ * Payload fields of the recorded duel events the replay viewer reads.
+ */
+export interface ReplayPayload {
+  phase?: string;
+  startTime?: number;
+  barCycleDuration?: number;
+  zone?: TargetZone;
+  zoneDrift?: number;
+  round?: number;
+  game?: number;
+  message?: string;
+  shooterId?: string;
+  hit?: boolean;
+  barPosition?: number;
+  autoMiss?: boolean;
+  compensationMs?: number;
+  latencyMs?: number;
+  outcome?: 'hit' | 'dodge' | 'miss';
+  winnerIds?: string[];
+  loserIds?: string[];
+  fighters?: { id: string; health: number }[];
+  reason?: 'WINNER' | 'TIMEOUT' | 'NO_CONTEST' | 'FORCED' | 'CANCELLED';
+  winnerId?: string | null;
+  survivorIds?: string[];
+}
+
+/**
+ * One event of a recorded duel, as it was sent to the arena's room.
+ */
+export interface ReplayEvent {
+  /** Socket.IO event name, e.g. "duel:shot". */
+  event: string;
+  /** Server clock when the event was sent, in milliseconds. */
+  serverTime: number;
+  /** The event payload. */
+  payload: ReplayPayload | null;
+}
+
+/**
+ * A recorded duel, as stored by the game server.
+ */
+export interface Replay {
+  /** Replay ID. */
+  id: string;
+  /** The arena the duel was fought in. */
+  arenaId: string;
+  /** Server clock when the duel was announced. */
+  startedAt: number;
+  /** Server clock when the duel was decided. */
+  endedAt: number | null;
+  /** Series length (1, 3 or 5). */
+  bestOf: number;
+  /** Ruleset ID. */
+  ruleset: string;
+  /** The fighters, in seat order. */
+  fighters: { id: string; name: string; position: [number, number, number]; rotation: number }[];
+  /** Every event of the duel, oldest first. */
+  events: ReplayEvent[];
+  /** How the duel ended. */
+  result: { reason: 'WINNER' | 'TIMEOUT' | 'NO_CONTEST' | 'FORCED' | 'CANCELLED'; winnerId: string | null; survivorIds: string[] } | null;
+}
+
+/**
+ * A fighter's shot in the round being shown.
+ */
+export interface ReplayShot {
+  /** Bar position the shot was judged at; null for an automatic miss. */
+  position: number | null;
+  hit: boolean;
+  /** Milliseconds of latency compensation applied by the server. */
+  compensationMs?: number;
+}
+
+/**
+ * Everything the replay viewer draws at one moment of a replay.
+ */
+export interface ReplayFrame {
+  fighters: Player[];
+  barVisible: boolean;
+  barPosition: number;
+  zone: TargetZone;
+  round: number;
+  game: number;
+  message: string | null;
+  shots: Record<string, ReplayShot>;
+}
+
+/** Fighters go from 'draw' to 'armed' this long after the gong, as in the live duel UI. */
+const GONG_DRAW_DURATION = 1200;
+
+/**
+ * How long a replay lasts, in milliseconds from the start of the duel.
+ */
+export function getReplayDuration(replay: Replay): number {
+  const lastEvent = replay.events[replay.events.length - 1];
+  return (replay.endedAt ?? lastEvent?.serverTime ?? replay.startedAt) - replay.startedAt;
+}
+
+/**
+ * Rebuilds the state of the duel at a moment of the replay by folding every
+ * event up to that moment. Cheap enough to run every frame, and makes seeking
+ * and slow motion trivial.
+ */
+export function getReplayFrame(replay: Replay, elapsed: number): ReplayFrame {
+  const now = replay.startedAt + elapsed;
+  const lives = Math.ceil(replay.bestOf / 2);
+  const fighters = new Map<string, Player>(replay.fighters.map((f) => [f.id, {
+    ...f,
+    walletAddress: '',
+    role: 'CONTENDER',
+    betAmount: 0,
+    lastBetTimestamp: null,
+    health: lives,
+    animationState: 'idle',
+  }]));
+
+  let timing: BarTiming | null = null;
+  let frozenAt: number | null = null;
+  let gongAt: number | null = null;
+  let barVisible = false;
+  let zone = DEFAULT_TARGET_ZONE;
+  let round = 1;
+  let game = 1;
+  let message: string | null = null;
+  let shots: Record<string, ReplayShot> = {};
+
+  const animate = (ids: string[], animationState: Player['animationState']) => {
+    ids.forEach((id) => {
+      const fighter = fighters.get(id);
+      if (fighter) fighter.animationState = animationState;
+    });
+  };
+  const standingIds = () =>
+    Array.from(fighters.values()).filter((f) => (f.health ?? 1) > 0).map((f) => f.id);
+
+  for (const { event, serverTime, payload } of replay.events) {
+    if (serverTime > now) break;
+    const data = payload ?? {};
+
+    switch (event) {
+      case 'duel:bothReady':
+        message = 'READY...';
+        break;
+
+      case 'duel:gong':
+        message = 'DRAW!';
+        gongAt = serverTime;
+        animate(standingIds(), 'draw');
+        break;
+
+      case 'duel:aimPhase':
+      case 'duel:newRound':
+        timing = {
+          startTime: data.startTime ?? serverTime,
+          barCycleDuration: data.barCycleDuration ?? 1,
+          zoneDrift: data.zoneDrift ?? 0,
+        };
+        frozenAt = null;
+        barVisible = true;
+        shots = {};
+        zone = data.zone ?? zone;
+        round = data.round ?? round;
+        game = data.game ?? game;
+        if (event === 'duel:newRound') {
+          message = data.message ?? null;
+          animate(standingIds(), 'armed');
+        }
+        break;
+
+      case 'duel:shot':
+        if (!data.shooterId) break;
+        shots[data.shooterId] = {
+          position: data.autoMiss ? null : data.barPosition ?? null,
+          hit: !!data.hit,
+          compensationMs: data.compensationMs,
+        };
+        if (!data.autoMiss) animate([data.shooterId], 'shooting');
+        break;
+
+      case 'duel:roundEnd':
+        frozenAt = serverTime;
+        message = data.outcome === 'hit' ? 'HIT!' : data.outcome === 'dodge' ? 'DODGE!' : 'MISS!';
+        if (data.outcome === 'hit') {
+          barVisible = false;
+          animate(data.winnerIds ?? [], 'shooting');
+          animate(data.loserIds ?? [], 'death');
+        } else if (data.outcome === 'dodge') {
+          animate(standingIds(), 'dodging');
+        }
+        break;
+
+      case 'duel:series':
+        data.fighters?.forEach(({ id, health }) => {
+          const fighter = fighters.get(id);
+          if (fighter) fighter.health = health;
+        });
+        break;
+
+      case 'duel:finish':
+        barVisible = false;
+        if (data.reason === 'NO_CONTEST' || data.reason === 'CANCELLED') {
+          message = data.reason === 'CANCELLED' ? 'ROUND CANCELLED' : 'NO CONTEST';
+          break;
+        }
+        animate(Array.from(fighters.keys()), 'death');
+        if ((data.reason === 'WINNER' || data.reason === 'FORCED') && data.winnerId) {
+          animate([data.winnerId], 'victory');
+          message = `${fighters.get(data.winnerId)?.name ?? '???'} WINS`;
+        } else {
+          message = 'DRAW - POT SPLIT';
+        }
+        break;
+    }
+  }
+
+  if (gongAt !== null && now - gongAt >= GONG_DRAW_DURATION) {
+    fighters.forEach((f) => {
+      if (f.animationState === 'draw') f.animationState = 'armed';
+    });
+  }
+
+  return {
+    fighters: Array.from(fighters.values()),
+    barVisible,
+    barPosition: timing ? getBarPosition(timing, frozenAt ?? now) : 0,
+    zone: timing ? getTargetZoneAt(zone, timing, frozenAt ?? now) : zone,
+    round,
+    game,
+    message,
+    shots,
+  };
+}
@@ -0,0 +1,55 @@
+import type { BarTiming, TargetZone } from '@/store/useGameStore';
+
+/**
+ * One NTP-style measurement against the game server's clock.
+ */
+export interface ClockSample {
+  /** Server time minus client time, in milliseconds. */
+  offset: number;
+  /** Network round trip, not counting the server's processing time. */
+  rtt: number;
+}
+
+/**
+ * Turns the four timestamps of a `time:sync` exchange into a clock sample.
+ * Assumes the request and the reply spend the same time on the wire.
+ */
+export function getClockSample(
+  clientSentAt: number,
+  serverReceivedAt: number,
+  serverSentAt: number,
+  clientReceivedAt: number,
+): ClockSample {
+  return {
+    offset: ((serverReceivedAt - clientSentAt) + (serverSentAt - clientReceivedAt)) / 2,
+    rtt: (clientReceivedAt - clientSentAt) - (serverSentAt - serverReceivedAt),
+  };
+}
+
+/**
+ * Where the shooting bar is at a given server time, from 0 to 1. Mirrors
+ * `getBarPosition` on the server.
+ */
+export function getBarPosition(timing: BarTiming, serverNow: number): number {
+  const elapsed = Math.max(0, serverNow - timing.startTime);
+  return (elapsed / timing.barCycleDuration) % 1;
+}
+
+/**
+ * Where the round's target zone is at a given server time, once it has slid
+ * `zoneDrift` along the bar every second, bouncing off either end. Mirrors
+ * `getDriftedZone` on the server.
+ */
+export function getTargetZoneAt(zone: TargetZone, timing: BarTiming, serverNow: number): TargetZone {
+  const elapsed = serverNow - timing.startTime;
+  if (!timing.zoneDrift || elapsed <= 0) return zone;
+
+  const width = zone.max - zone.min;
+  const travel = 1 - width;
+  if (travel <= 0) return zone;
+
+  const raw = zone.min + (timing.zoneDrift * elapsed) / 1000;
+  const min = travel - Math.abs((((raw % (2 * travel)) + 2 * travel) % (2 * travel)) - travel);
+  const round3 = (value: number) => Math.round(value * 1000) / 1000;
+  return { min: round3(min), max: round3(min + width) };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { useGameStore } from '@/store/useGameStore';
+import { getBarPosition } from '@/utils/serverClock';
+
+/**
+ * Animates the shooting bar locally at display refresh rate from the round's
+ * bar timing and the synced clock offset. The position holds still while no
+ * round is running.
+ */
+export function useBarPosition(active: boolean): number {
+  const [position, setPosition] = useState(0);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let frame = 0;
+    const step = () => {
+      const { barTiming, clockOffset } = useGameStore.getState();
+      if (barTiming) {
+        setPosition(getBarPosition(barTiming, Date.now() + clockOffset));
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [active]);
+
+  return position;
+}
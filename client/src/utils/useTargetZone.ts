@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { useGameStore, TargetZone } from '@/store/useGameStore';
+import { getTargetZoneAt } from '@/utils/serverClock';
+
+/**
+ * The target zone as it slides along the bar during the running round, at
+ * display refresh rate, like `useBarPosition`. It holds still between rounds;
+ * in rulesets whose zone does not drift it is the zone the server sent.
+ */
+export function useTargetZone(active: boolean): TargetZone {
+  const targetZone = useGameStore((state) => state.targetZone);
+  const [zone, setZone] = useState(targetZone);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let frame = 0;
+    const step = () => {
+      const { targetZone: roundZone, barTiming, clockOffset } = useGameStore.getState();
+      if (barTiming) {
+        setZone(getTargetZoneAt(roundZone, barTiming, Date.now() + clockOffset));
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(frame);
+  }, [active]);
+
+  return active ? zone : targetZone;
+}
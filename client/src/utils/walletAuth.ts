@@ -5,14 +5,14 @@
 
 import { useWallet } from '@solana/wallet-adapter-react';
 import bs58 from 'bs58';
-import type { Socket } from 'socket.io-client';
+import { onServerEvent, type GameSocket, type ServerPayload } from '@/lib/socketEvents';
 
 /**
  * Authenticates a wallet with the server using cryptographic signatures
  * This prevents wallet address spoofing/impersonation
  */
 export async function authenticateWallet(
-  socket: Socket,
+  socket: GameSocket,
   wallet: ReturnType<typeof useWallet>
 ): Promise<void> {
   return new Promise((resolve, reject) => {
@@ -25,21 +25,14 @@ export async function authenticateWallet(
     const publicKey = wallet.publicKey;
 
     let isResolved = false;
-    // eslint-disable-next-line prefer-const
-    let challengeListener: (payload: { message: string }) => Promise<void>;
-    // eslint-disable-next-line prefer-const
-    let joinedListener: () => void;
-    // eslint-disable-next-line prefer-const
-    let failedListener: (errorMessage: string) => void;
+    let unsubscribers: (() => void)[] = [];
     // eslint-disable-next-line prefer-const
     let timeoutId: NodeJS.Timeout;
     
     // Cleanup function
     const cleanup = () => {
-      // You must check if they've been assigned before cleaning up
-      if (challengeListener) socket.off('player:authChallenge', challengeListener);
-      if (joinedListener) socket.off('lobby:joined', joinedListener);
-      if (failedListener) socket.off('lobby:joinFailed', failedListener);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribers = [];
       if (timeoutId) clearTimeout(timeoutId);
     };
 
@@ -53,7 +46,7 @@ export async function authenticateWallet(
     }, 30000);
 
     // Challenge handler
-    challengeListener = async ({ message }: { message: string }) => {
+    const challengeListener = async ({ message }: ServerPayload<'player:authChallenge'>) => {
       console.log('📨 Received auth challenge from server');
       
       try {
@@ -82,7 +75,7 @@ export async function authenticateWallet(
     };
 
     // Success handler
-    joinedListener = () => {
+    const joinedListener = () => {
       console.log('✅ Authentication successful!');
       if (!isResolved) {
         isResolved = true;
@@ -92,7 +85,7 @@ export async function authenticateWallet(
     };
 
     // Failure handler
-    failedListener = (errorMessage: string) => {
+    const failedListener = (errorMessage: string) => {
       console.error('❌ Authentication failed:', errorMessage);
       if (!isResolved) {
         isResolved = true;
@@ -101,10 +94,18 @@ export async function authenticateWallet(
       }
     };
 
-    // Register all listeners
-    socket.once('player:authChallenge', challengeListener);
-    socket.once('lobby:joined', joinedListener);
-    socket.once('lobby:joinFailed', failedListener);
+    // The server drops a sign-in that does not match the event contract
+    const rejectedListener = ({ event, error }: ServerPayload<'socket:rejected'>) => {
+      if (event === 'player:joinWithWallet') failedListener(`Invalid sign-in: ${error}`);
+    };
+
+    // Register all listeners; the first answer cleans them all up
+    unsubscribers = [
+      onServerEvent(socket, 'player:authChallenge', challengeListener),
+      onServerEvent(socket, 'lobby:joined', joinedListener),
+      onServerEvent(socket, 'lobby:joinFailed', failedListener),
+      onServerEvent(socket, 'socket:rejected', rejectedListener),
+    ];
 
     // Request challenge
     console.log('🚀 Requesting authentication challenge...');
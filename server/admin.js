@@ -0,0 +1,207 @@
+/**
+ * @file admin.js
+ * @description Operator controls for PotShot.gg. Operators sign in on the
+ * `/admin` Socket.IO namespace with a wallet listed in `ADMIN_WALLETS`, or call
+ * the `/admin` REST routes with `ADMIN_API_SECRET`; both end up in the console
+ * created here. Every action, carried out or refused, is written to the
+ * `admin_audit_log` table along with the operator who asked for it.
+ */
+
+import { logAdminAction, getBannedWallets, saveBan, deleteBan } from './database.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const ADMIN_STATE_INTERVAL = 1000; // How often signed-in operators get `admin:state`
+export const ADMIN_ROOM = 'operators';
+
+/**
+ * @function parseAdminWallets
+ * @param {string} [value] - Comma-separated wallet addresses, e.g. `process.env.ADMIN_WALLETS`.
+ * @returns {Set<string>} The operator wallets.
+ */
+export const parseAdminWallets = (value = '') =>
+  new Set(value.split(',').map((wallet) => wallet.trim()).filter(Boolean));
+
+/**
+ * @function createBanList
+ * @description Creates the list of banned wallets, kept in memory and mirrored
+ * to the `banned_wallets` table.
+ * @param {object} [options]
+ * @param {(walletAddress: string, banned: boolean) => void} [options.onChange] - Called when an operator
+ *   bans or unbans a wallet here, e.g. to tell the other instances.
+ */
+export const createBanList = ({ onChange = () => {} } = {}) => {
+  const banned = new Set();
+
+  return {
+    /**
+     * Loads the bans saved by previous runs.
+     */
+    async load() {
+      (await getBannedWallets()).forEach((walletAddress) => banned.add(walletAddress));
+    },
+
+    /**
+     * @param {string} walletAddress
+     * @returns {boolean}
+     */
+    has(walletAddress) {
+      return banned.has(walletAddress);
+    },
+
+    /**
+     * @param {string} walletAddress
+     * @param {string} bannedBy - The operator.
+     * @param {string|null} [reason]
+     */
+    add(walletAddress, bannedBy, reason = null) {
+      banned.add(walletAddress);
+      saveBan(walletAddress, bannedBy, reason);
+      onChange(walletAddress, true);
+    },
+
+    /**
+     * @param {string} walletAddress
+     * @returns {boolean} False if the wallet was not banned.
+     */
+    remove(walletAddress) {
+      if (!banned.delete(walletAddress)) return false;
+      deleteBan(walletAddress);
+      onChange(walletAddress, false);
+      return true;
+    },
+
+    /**
+     * Applies a ban or unban made on another instance, which already saved it.
+     * @param {string} walletAddress
+     * @param {boolean} isBanned
+     */
+    mirror(walletAddress, isBanned) {
+      if (isBanned) {
+        banned.add(walletAddress);
+      } else {
+        banned.delete(walletAddress);
+      }
+    },
+
+    /**
+     * @returns {string[]}
+     */
+    list() {
+      return Array.from(banned);
+    },
+  };
+};
+
+/**
+ * @function createAdminConsole
+ * @description Creates the operator console: a snapshot of live state and the
+ * actions operators can take on it.
+ * @param {object} options
+ * @param {string[]} options.arenaIds - Every arena.
+ * @param {(arenaId: string, method: string, ...args: any[]) => Promise<any>} options.callArena - Calls an
+ *   arena method on the instance that runs the arena (cluster.js).
+ * @param {ReturnType<typeof createBanList>} options.bans
+ * @param {(walletAddress: string) => Promise<boolean>} options.kickWallet - Takes a wallet out of play and
+ *   disconnects its sockets; false if it was not signed in.
+ * @param {ReturnType<typeof import('./auditLog.js').createAuditLog>} options.audit - The money audit log.
+ */
+export const createAdminConsole = ({ arenaIds, callArena, bans, kickWallet, audit }) => {
+  const callKnownArena = (arenaId, method, ...args) => {
+    if (!arenaIds.includes(arenaId)) throw new Error(`Unknown arena: ${arenaId}`);
+    return callArena(arenaId, method, ...args);
+  };
+
+  const requireWallet = (walletAddress) => {
+    if (typeof walletAddress !== 'string' || !walletAddress) throw new Error('A wallet address is required');
+    return walletAddress;
+  };
+
+  // Each action throws with the reason it could not be carried out.
+  const actions = {
+    pauseBetting: ({ arenaId }) => callKnownArena(arenaId, 'setBettingPaused', true),
+
+    resumeBetting: ({ arenaId }) => callKnownArena(arenaId, 'setBettingPaused', false),
+
+    cancelRound: async ({ arenaId }) => {
+      if (!(await callKnownArena(arenaId, 'cancelRound'))) throw new Error('There is no round to cancel');
+    },
+
+    forceWinner: async ({ arenaId, playerId }) => {
+      if (!(await callKnownArena(arenaId, 'forceWinner', playerId))) throw new Error('No running duel with that fighter');
+    },
+
+    kickWallet: async ({ walletAddress }) => {
+      if (!(await kickWallet(requireWallet(walletAddress)))) throw new Error('That wallet is not signed in');
+    },
+
+    banWallet: async ({ walletAddress, reason }, actor) => {
+      bans.add(requireWallet(walletAddress), actor, typeof reason === 'string' ? reason : null);
+      await kickWallet(walletAddress);
+    },
+
+    unbanWallet: ({ walletAddress }) => {
+      if (!bans.remove(requireWallet(walletAddress))) throw new Error('That wallet is not banned');
+    },
+  };
+
+  return {
+    /**
+     * Returns the live state operators see: every arena (phase, players,
+     * bets, pot, running duel) and the banned wallets. An arena whose instance
+     * does not answer is left out.
+     * @returns {Promise<{ arenas: object[], bannedWallets: string[] }>}
+     */
+    async getState() {
+      const arenaStates = await Promise.all(arenaIds.map((arenaId) =>
+        callArena(arenaId, 'getAdminState').catch((error) => {
+          console.error(`[ADMIN] Reading arena ${arenaId} failed: ${error.message}`);
+          return null;
+        })));
+      return {
+        arenas: arenaStates.filter(Boolean),
+        bannedWallets: bans.list(),
+      };
+    },
+
+    /**
+     * Looks up money audit events by round and/or wallet, newest first.
+     * @param {{ roundId?: string, walletAddress?: string, limit?: number }} [filter]
+     * @returns {Promise<import('./auditLog.js').AuditEvent[]>}
+     */
+    queryAudit(filter) {
+      const { roundId, walletAddress, limit } = filter && typeof filter === 'object' ? filter : {};
+      return audit.query({
+        roundId: typeof roundId === 'string' ? roundId : undefined,
+        walletAddress: typeof walletAddress === 'string' ? walletAddress : undefined,
+        limit,
+      });
+    },
+
+    /**
+     * Carries out an operator action and audit-logs it.
+     * @param {string} actor - The operator's wallet, or 'api' for the REST routes.
+     * @param {string} action - One of `pauseBetting`, `resumeBetting`, `cancelRound`,
+     *   `forceWinner`, `kickWallet`, `banWallet`, `unbanWallet`.
+     * @param {object} [params] - e.g. `{ arenaId }`, `{ arenaId, playerId }` or `{ walletAddress, reason }`.
+     * @returns {Promise<{ ok: boolean, error?: string }>}
+     */
+    async perform(actor, action, params) {
+      const safeParams = params && typeof params === 'object' ? params : {};
+      let result;
+
+      try {
+        if (!Object.hasOwn(actions, action)) throw new Error(`Unknown action: ${action}`);
+        await actions[action](safeParams, actor);
+        result = { ok: true };
+      } catch (error) {
+        result = { ok: false, error: error.message };
+      }
+
+      console.log(`[ADMIN] ${actor} ${action} ${JSON.stringify(safeParams)}: ${result.ok ? 'done' : result.error}`);
+      logAdminAction({ actor, action, params: safeParams, ...result });
+      return result;
+    },
+  };
+};
@@ -0,0 +1,1238 @@
+/**
+ * @file arena.js
+ * @description A self-contained PotShot.gg arena: one betting lobby and one duel.
+ * Each arena owns its players, countdown, pot and duel engine, and only talks
+ * to the sockets in its own Socket.IO room, so several arenas can run side by side.
+ * An arena runs either the classic auction (top two bidders fight) or a
+ * single-elimination tournament between entrants who paid a fixed buy-in.
+ */
+
+import {
+  getPlayerStats,
+  updatePlayerStats,
+  incrementPlayerStat,
+  logTransaction,
+  saveReplay,
+} from "./database.js";
+import { createDuelEngine, getFighterPlacement, getSeriesLives, getTimingOverride } from './duelEngine.js';
+import {
+  BRACKET_SIZES,
+  createBracket,
+  findMatch,
+  getNextMatch,
+  recordMatchWinner,
+  drawMatchWinner,
+  getChampionId,
+  getRunnerUpId,
+  toPublicBracket,
+} from './tournament.js';
+import { resolveRuleset, toPublicRuleset } from './rulesets.js';
+import { createReplayRecorder } from './replay.js';
+import { getPlayerRoom } from './sessions.js';
+import { REFUND_REASONS } from './escrow.js';
+import { duelRounds, duelRoundDuration, duelsFinished, duelDuration, shots } from './metrics.js';
+import { AUDIT_EVENTS } from './auditLog.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+const MAIN_COUNTDOWN_SECONDS = 1;
+const OVERTIME_SECONDS = 10;
+const DEFAULT_FIGHTER_COUNT = 2;
+const POST_ROUND_DURATION = getTimingOverride('POST_ROUND_DURATION', 10000);
+const MATCH_BREAK_DURATION = 5000;
+const RECONNECT_GRACE_PERIOD = 15000;
+const TREASURY_WALLET_ADDRESS = process.env.TREASURY_WALLET_ADDRESS;
+
+// What the room is told when a round is called off, by refund reason
+const CALLED_OFF_TITLES = {
+  [REFUND_REASONS.NO_CONTEST]: "NO CONTEST - BETS REFUNDED",
+  [REFUND_REASONS.CANCELLED]: "ROUND CANCELLED - BETS REFUNDED",
+  [REFUND_REASONS.SERVER_RESTART]: "SERVER RESTARTING - BETS REFUNDED",
+};
+
+/**
+ * @function recordProtocolFee
+ * @description Logs the protocol's cut of a round's pot, along with the pot
+ * itself so reconciliation can check the round's payouts against it.
+ * @param {string} roundId
+ * @param {number} protocolFee - Whole tokens.
+ * @param {number} pot - The round's whole pot, in whole tokens.
+ * @returns {Promise<boolean>} True if the fee was recorded.
+ */
+async function recordProtocolFee(roundId, protocolFee, pot) {
+  const transactionId = await logTransaction({
+    round_id: roundId,
+    transaction_type: 'protocol_fee',
+    recipient_wallet: TREASURY_WALLET_ADDRESS,
+    amount: protocolFee,
+    round_pot: pot,
+    status: 'confirmed',
+    signature: 'N/A',
+    confirmed_at: new Date()
+  });
+  return transactionId !== null;
+}
+
+/**
+ * @function createArena
+ * @description Creates an arena bound to its own Socket.IO room.
+ * @param {object} options
+ * @param {string} options.id - Unique arena ID, also used for the room name.
+ * @param {string} options.name - Display name shown in the arena list.
+ * @param {import('socket.io').Server} options.io - The Socket.IO server.
+ * @param {ReturnType<typeof import('./escrow.js').createEscrow>} options.escrow - Ledger of the bets placed in the arena.
+ * @param {ReturnType<typeof import('./payouts.js').createPayoutQueue>} options.payouts - Queue the winnings are paid through.
+ * @param {ReturnType<typeof import('./auditLog.js').createAuditLog>} options.audit - Records bets, pots, fees and stat deltas.
+ * @param {() => void} [options.onChange] - Called whenever the arena's summary may have changed.
+ * @param {(playerId: string, seated: boolean) => void} [options.onSeatChange] - Called when a player sits
+ *   down in the arena or leaves it.
+ * @param {(snapshot: import('./snapshots.js').ArenaSnapshot) => void} [options.onSnapshot] - Called with
+ *   a snapshot of the arena on every transition, to restore it after a restart.
+ * @param {number} [options.fighterCount] - Auction only: how many top bidders fight; more than two makes a free-for-all.
+ * @param {number} [options.bestOf] - Duels are best-of-N series (1, 3 or 5); the pot is only paid once a fighter clinches.
+ * @param {string|object} [options.ruleset] - Bar speed and target-zone rules: a preset ID from rulesets.js or overrides.
+ * @param {'auction'|'tournament'} [options.mode] - How fighters are picked.
+ * @param {number} [options.bracketSize] - Tournament only: 4, 8 or 16 entrants.
+ * @param {number} [options.buyIn] - Tournament only: whole tokens each entrant pays.
+ * @param {number[]} [options.payoutShares] - Tournament only: percentage of the prize for the champion, then the runner-up.
+ */
+export const createArena = ({
+  id,
+  name,
+  io,
+  escrow,
+  payouts,
+  audit,
+  onChange = () => {},
+  onSeatChange = () => {},
+  onSnapshot = () => {},
+  fighterCount = DEFAULT_FIGHTER_COUNT,
+  bestOf = 1,
+  ruleset: rulesetOption = "classic",
+  mode = "auction",
+  bracketSize = 4,
+  buyIn = 0,
+  payoutShares = [100],
+}) => {
+  const isTournament = mode === "tournament";
+  const ruleset = resolveRuleset(rulesetOption);
+  if (isTournament && !BRACKET_SIZES.includes(bracketSize)) {
+    throw new Error(`Arena ${id}: bracket size must be one of ${BRACKET_SIZES.join('/')}`);
+  }
+
+  const room = `arena:${id}`;
+  const players = {};
+  const requiredContenders = isTournament ? bracketSize : fighterCount;
+
+  // ============================================
+  // GAME STATE
+  // ============================================
+  let gamePhase = "LOBBY";
+  let phaseStartedAt = Date.now();
+  let lobbyCountdown = null;
+  let lobbyCountdownIntervalId = null;
+  const activeFighterIds = new Set();
+  let roundPot = 0;
+  let roundId = null; // Set when the auction closes; ties the round's money events together
+  let bettingPaused = false; // Set by an operator: the auction does not close while paused
+  let draining = false; // Set when the server shuts down: no auction closes again
+  let payingOut = Promise.resolve(); // The last round's payout, until its payouts are queued
+
+  // ============================================
+  // DUEL STATE
+  // ============================================
+  let duelEngine = null;
+  let duelRecorder = null;
+  let lastReplayId = null;
+  let lastDuelEventAt = null; // When the running duel last emitted, to spot stuck duels
+  let seedReveals = []; // The seeds of this round's duels, revealed with POST_ROUND
+
+  // ============================================
+  // RECONNECT STATE
+  // ============================================
+  // Players whose session has no socket; fighters among them get a grace timer
+  const detachedPlayers = new Map(); // Map<playerId, timeoutId|null>
+  // Bettors seated again after a restart; no auction closes until they are back or gone
+  const awaitingReturn = new Set(); // Set<playerId>
+
+  // ============================================
+  // TOURNAMENT STATE
+  // ============================================
+  let bracket = null;
+  let currentMatchId = null;
+  let matchBreakTimeoutId = null;
+  const entryTimes = new Map(); // Map<playerId, timestamp the buy-in was completed>
+
+  // ============================================
+  // HELPER FUNCTIONS
+  // ============================================
+  const emitToRoom = (event, payload) => io.to(room).emit(event, payload);
+  const emitDuelEvent = (event, payload) => {
+    duelRecorder?.record(event, payload);
+    emitToRoom(event, payload);
+  };
+  const getContendersWithBets = () => Object.values(players).filter((p) => p.betAmount > 0);
+  const getTopFighterIds = () => {
+    if (isTournament) {
+      return Array.from(entryTimes.entries())
+        .filter(([playerId]) => players[playerId])
+        .sort(([, a], [, b]) => a - b)
+        .slice(0, bracketSize)
+        .map(([playerId]) => playerId);
+    }
+    return getContendersWithBets().sort((a, b) => b.betAmount - a.betAmount || (a.lastBetTimestamp || 0) - (b.lastBetTimestamp || 0)).slice(0, fighterCount).map((p) => p.id);
+  };
+  const broadcastLobbyCountdown = () => emitToRoom("lobby:countdown", lobbyCountdown);
+  const notifyChange = () => {
+    onChange();
+    onSnapshot(getSnapshot());
+  };
+  const broadcastLobbyState = () => {
+    emitToRoom("lobby:state", players);
+    notifyChange();
+  };
+  const broadcastBracket = () => emitToRoom("tournament:bracket", bracket ? toPublicBracket(bracket) : null);
+
+  const setPhase = (phase, payload = {}) => {
+    gamePhase = phase;
+    phaseStartedAt = Date.now();
+    emitToRoom("game:phaseChange", { phase, ...payload });
+    notifyChange();
+  };
+
+  /**
+   * @function applyStatDelta
+   * @description Increments a player stat and audits the delta, including when it fails.
+   * @param {string} walletAddress
+   * @param {string} field - e.g. 'net_winnings', 'wins', 'deaths'.
+   * @param {number} delta
+   * @param {string|null} [statRoundId] - The round the delta belongs to; the current one by default.
+   */
+  const applyStatDelta = async (walletAddress, field, delta, statRoundId = roundId) => {
+    let error = null;
+    try {
+      if (!(await incrementPlayerStat(walletAddress, field, delta))) {
+        error = `increment_stat ${field} failed`;
+      }
+    } catch (e) {
+      error = e.message;
+    }
+
+    audit.record(AUDIT_EVENTS.STAT_DELTA, {
+      roundId: statRoundId,
+      arenaId: id,
+      walletAddress,
+      amount: field === "net_winnings" ? delta : null,
+      ok: !error,
+      error,
+      details: { field, delta },
+    });
+  };
+
+  /**
+   * @function chargeProtocolFee
+   * @description Records the protocol's cut of the round's pot and audits it.
+   * @param {number} protocolFee - Whole tokens.
+   */
+  const chargeProtocolFee = async (protocolFee) => {
+    const ok = await recordProtocolFee(roundId, protocolFee, roundPot);
+    audit.record(AUDIT_EVENTS.PROTOCOL_FEE, {
+      roundId,
+      arenaId: id,
+      walletAddress: TREASURY_WALLET_ADDRESS ?? null,
+      amount: protocolFee,
+      ok,
+      error: ok ? null : 'payout_transactions insert failed',
+      details: { pot: roundPot },
+    });
+  };
+
+  /**
+   * @function storeReplay
+   * @description Saves a finished duel's replay in the background and audits a write that fails.
+   * @param {object} replay - As returned by the recorder.
+   */
+  const storeReplay = (replay) => {
+    saveReplay(replay)
+      .then((saved) => {
+        if (!saved) throw new Error('duel_replays insert failed');
+      })
+      .catch((error) => audit.record(AUDIT_EVENTS.REPLAY_SAVE_FAILED, {
+        roundId,
+        arenaId: id,
+        ok: false,
+        error: error.message,
+        details: { replayId: replay.id },
+      }));
+  };
+
+  const stopLobbyCountdown = () => {
+    if (lobbyCountdownIntervalId) {
+      clearInterval(lobbyCountdownIntervalId);
+      lobbyCountdownIntervalId = null;
+      lobbyCountdown = null;
+      broadcastLobbyCountdown();
+    }
+  };
+
+  /**
+   * @function startDuel
+   * @description Creates the duel engine for the active fighters and forwards
+   * its events to the arena's room. Every event is also recorded, and the
+   * replay is stored once the duel is decided.
+   */
+  const startDuel = () => {
+    const fighters = Array.from(activeFighterIds)
+      .map((fighterId) => players[fighterId])
+      .filter(Boolean)
+      .map((p) => ({ id: p.id, name: p.name }));
+
+    const recorder = createReplayRecorder({
+      arenaId: id,
+      fighters: fighters.map((fighter) => players[fighter.id]),
+      bestOf,
+      ruleset: ruleset.id,
+    });
+    duelRecorder = recorder;
+
+    const duelStartedAt = Date.now();
+    let roundStartedAt = null;
+    lastDuelEventAt = duelStartedAt;
+
+    const recordDuelMetrics = (event, payload) => {
+      if (event === "duel:aimPhase" || event === "duel:newRound") {
+        roundStartedAt = lastDuelEventAt;
+      } else if (event === "duel:shot") {
+        shots.inc({ arena: id, result: payload.hit ? "hit" : payload.autoMiss ? "auto_miss" : "miss" });
+      } else if (event === "duel:roundEnd") {
+        duelRounds.inc({ arena: id, outcome: payload.outcome });
+        if (roundStartedAt !== null) {
+          duelRoundDuration.observe({ arena: id }, (lastDuelEventAt - roundStartedAt) / 1000);
+        }
+      }
+    };
+
+    const syncFighterHealth = () => {
+      for (const fighter of engine.getState().fighters) {
+        if (players[fighter.id]) {
+          players[fighter.id].health = fighter.health;
+        }
+      }
+    };
+
+    const engine = createDuelEngine({
+      fighters,
+      bestOf,
+      ruleset,
+      tiebreak: isTournament,
+      emit: (event, payload) => {
+        lastDuelEventAt = Date.now();
+        recordDuelMetrics(event, payload);
+        if (event === "duel:series") {
+          syncFighterHealth();
+        }
+        emitDuelEvent(event, payload);
+      },
+      onFinish: ({ reason, winnerId, survivorIds, tiebreakId }) => {
+        syncFighterHealth();
+        duelEngine = null;
+        duelsFinished.inc({ arena: id, reason });
+        duelDuration.observe({ arena: id }, (Date.now() - duelStartedAt) / 1000);
+
+        const replay = recorder.finish({ reason, winnerId, survivorIds });
+        lastReplayId = replay.id;
+        storeReplay(replay);
+        seedReveals.push({ ...engine.revealSeed(), replayId: replay.id });
+
+        if (reason === "CANCELLED") {
+          callOffRound(draining ? REFUND_REASONS.SERVER_RESTART : REFUND_REASONS.CANCELLED);
+        } else if (isTournament) {
+          finishMatch(reason, winnerId ?? tiebreakId);
+        } else {
+          endDuel(reason, winnerId ? players[winnerId] ?? null : null, survivorIds);
+        }
+      },
+    });
+
+    duelEngine = engine;
+    engine.start();
+
+    // A fighter picked while away starts the duel on the grace clock.
+    fighters.forEach(({ id: fighterId }) => {
+      if (detachedPlayers.has(fighterId)) {
+        holdSeat(fighterId);
+      }
+    });
+  };
+
+  /**
+   * @function startMatch
+   * @description Seats the given fighters, announces the duel and starts it.
+   * @param {string[]} fighterIds - The fighters, in seat order.
+   * @param {object} [payload] - Extra fields for the IN_ROUND phase change.
+   */
+  const startMatch = (fighterIds, payload = {}) => {
+    activeFighterIds.clear();
+    const finalFighters = [];
+
+    fighterIds.forEach((fighterId, index) => {
+      const player = players[fighterId];
+      if (player) {
+        activeFighterIds.add(player.id);
+        const { position, rotation } = getFighterPlacement(index, fighterIds.length);
+        player.position = position;
+        player.rotation = rotation;
+        player.health = getSeriesLives(bestOf);
+        finalFighters.push(player);
+      }
+    });
+
+    setPhase("IN_ROUND", {
+      fighters: finalFighters,
+      roundPot: roundPot,
+      bestOf,
+      ...payload
+    });
+
+    broadcastLobbyState();
+    startDuel();
+  };
+
+  /**
+   * @function endDuel
+   * @description Ends the current duel.
+   * @param {string} reason - The reason the duel ended (e.g., "WINNER", "TIMEOUT", "FORCED").
+   * @param {object|null} winner - The winning player object, if any.
+   * @param {string[]} [survivorIds] - On a timeout, the fighters who share the pot.
+   */
+  const endDuel = (reason, winner = null, survivorIds = []) => {
+    if (reason === "NO_CONTEST") {
+      callOffRound(REFUND_REASONS.NO_CONTEST);
+      return;
+    }
+    const isSplit = reason === "TIMEOUT";
+    payingOut = endRound(winner, isSplit, survivorIds);
+  };
+
+  /**
+   * @function callOffRound
+   * @description Ends a round without a winner, either because its duel never
+   * started (the fighters were not all ready in time), because an operator
+   * cancelled it or because the server is shutting down: every bet in the pot
+   * is refunded.
+   * @param {string} reason - One of `REFUND_REASONS`.
+   */
+  const callOffRound = (reason) => {
+    gamePhase = "POST_ROUND";
+    clearTimeout(matchBreakTimeoutId);
+    const refunded = escrow.refundPot(id, reason);
+    audit.record(AUDIT_EVENTS.ROUND_CALLED_OFF, { roundId, arenaId: id, amount: refunded, details: { reason } });
+    const isFighter = (playerId) =>
+      isTournament && bracket ? Boolean(bracket.entrants[playerId]) : activeFighterIds.has(playerId);
+
+    // Losing bidders were charged their bet when the auction closed.
+    getContendersWithBets().forEach((p) => {
+      if (!isFighter(p.id)) {
+        applyStatDelta(p.walletAddress, "net_winnings", p.betAmount);
+      }
+    });
+
+    setPhase("POST_ROUND", {
+      winnerData: {
+        name: CALLED_OFF_TITLES[reason],
+        pot: 0,
+        refunded,
+        ...(reason === REFUND_REASONS.CANCELLED && { cancelled: true }),
+        ...(reason === REFUND_REASONS.SERVER_RESTART && { restarting: true }),
+        replayId: lastReplayId,
+      },
+      fairness: seedReveals,
+    });
+
+    returnToLobby();
+  };
+
+  /**
+   * @function finalizeAuction
+   * @description Finalizes the betting auction and starts the duel (or the
+   * tournament). Calculates the total pot and sets the initial state for the duel.
+   */
+  const finalizeAuction = () => {
+    stopLobbyCountdown();
+    const fighterIds = getTopFighterIds();
+    const fighterIdSet = new Set(fighterIds);
+    // An auction's pot takes every bid, losing ones included; a tournament's
+    // takes only its entrants' buy-ins
+    const bettors = isTournament
+      ? fighterIds.map((fighterId) => players[fighterId])
+      : getContendersWithBets();
+
+    if (isTournament) {
+      // Anyone else still holding a buy-in did not get a seat and is not charged
+      getContendersWithBets()
+        .filter((p) => !fighterIdSet.has(p.id))
+        .forEach((p) => {
+          escrow.refundHeld(id, p.walletAddress, REFUND_REASONS.BRACKET_FULL);
+          p.betAmount = 0;
+          p.lastBetTimestamp = null;
+        });
+    }
+
+    roundPot = bettors.reduce((sum, player) => sum + player.betAmount, 0);
+    roundId = `round_${id}_${Date.now()}`;
+    escrow.commit(id, bettors.map((p) => p.walletAddress));
+
+    audit.record(AUDIT_EVENTS.POT_COMPUTED, {
+      roundId,
+      arenaId: id,
+      amount: roundPot,
+      details: {
+        fighters: fighterIds.map((fighterId) => players[fighterId].walletAddress),
+        bets: bettors.map((p) => ({ walletAddress: p.walletAddress, amount: p.betAmount })),
+      },
+    });
+
+    bettors.forEach(p => {
+      applyStatDelta(p.walletAddress, "total_games_played", 1);
+      if (!fighterIdSet.has(p.id)) {
+        applyStatDelta(p.walletAddress, "net_winnings", -p.betAmount);
+      }
+    });
+
+    if (isTournament) {
+      startTournament(fighterIds);
+    } else {
+      startMatch(fighterIds);
+    }
+  };
+
+  const startLobbyCountdown = (duration) => {
+    stopLobbyCountdown();
+    lobbyCountdown = duration;
+    lobbyCountdownIntervalId = setInterval(() => {
+      broadcastLobbyCountdown();
+      if (lobbyCountdown > 0) {
+        lobbyCountdown--;
+      } else {
+        finalizeAuction();
+      }
+    }, 1000);
+  };
+
+  const checkAndManageCountdown = (previousTopFighterIds = []) => {
+    if (gamePhase !== "LOBBY") return;
+
+    const contenders = isTournament ? getTopFighterIds() : getContendersWithBets();
+    if (bettingPaused || draining || awaitingReturn.size > 0 || contenders.length < requiredContenders) {
+      stopLobbyCountdown();
+    } else {
+      if (!lobbyCountdownIntervalId) {
+        startLobbyCountdown(MAIN_COUNTDOWN_SECONDS);
+      } else {
+        const currentTopFighterIds = getTopFighterIds();
+        if (JSON.stringify(previousTopFighterIds) !== JSON.stringify(currentTopFighterIds)) {
+          lobbyCountdown += OVERTIME_SECONDS;
+        }
+      }
+    }
+  };
+
+  /**
+   * @function returnToLobby
+   * @description After the post-round pause, refreshes everyone's stats,
+   * clears the round and reopens betting.
+   */
+  const returnToLobby = () => {
+    setTimeout(async () => {
+      for (const p of Object.values(players)) {
+        // Bets placed after the auction closed carry over to the next one.
+        p.betAmount = escrow.getHeldAmount(id, p.walletAddress);
+        if (p.betAmount === 0) {
+          p.lastBetTimestamp = null;
+        }
+
+        try {
+          const latestStats = await getPlayerStats(p.walletAddress);
+          if (latestStats && players[p.id]) {
+            players[p.id].stats = {
+              kills: latestStats.kills,
+              deaths: latestStats.deaths,
+              wins: latestStats.wins,
+              totalGamesPlayed: latestStats.total_games_played,
+              netWinnings: latestStats.net_winnings
+            };
+          }
+        } catch (error) {
+        }
+      }
+
+      activeFighterIds.clear();
+      duelEngine = null;
+      lastReplayId = null;
+      roundId = null;
+      seedReveals = [];
+      bracket = null;
+      currentMatchId = null;
+      entryTimes.clear();
+      setPhase("LOBBY");
+      broadcastLobbyState();
+      checkAndManageCountdown();
+    }, POST_ROUND_DURATION);
+  };
+
+  /**
+   * @function endRound
+   * @description Handles the end of a round, including payouts and state reset.
+   * @param {object|null} winner - The winning player object.
+   * @param {boolean} isSplitPot - Whether the pot should be split.
+   * @param {string[]} [splitIds] - The fighters sharing a split pot; defaults to every fighter.
+   */
+  const endRound = async (winner, isSplitPot = false, splitIds = Array.from(activeFighterIds)) => {
+    gamePhase = "POST_ROUND";
+    escrow.settle(id);
+
+    const protocolFee = Math.floor(roundPot * 0.1);
+
+    if (isSplitPot) {
+      const splitAmount = Math.floor((roundPot * 0.9) / splitIds.length);
+
+      await chargeProtocolFee(protocolFee);
+
+      for (const fighterId of splitIds) {
+        const fighter = players[fighterId];
+        if (!fighter || splitAmount <= 0) continue;
+
+        payouts.enqueue({ roundId, walletAddress: fighter.walletAddress, amount: splitAmount, transactionType: 'payout_split' });
+        applyStatDelta(fighter.walletAddress, "net_winnings", splitAmount - fighter.betAmount);
+      }
+
+      // Fighters eliminated before the timeout get nothing.
+      activeFighterIds.forEach((fighterId) => {
+        const fighter = players[fighterId];
+        if (fighter && !splitIds.includes(fighterId)) {
+          applyStatDelta(fighter.walletAddress, "deaths", 1);
+          applyStatDelta(fighter.walletAddress, "net_winnings", -fighter.betAmount);
+        }
+      });
+
+      setPhase("POST_ROUND", {
+        winnerData: {
+          name: "DRAW - POT SPLIT",
+          pot: splitAmount * splitIds.length,
+          isSplit: true,
+          splitCount: splitIds.length,
+          replayId: lastReplayId,
+        },
+        fairness: seedReveals,
+      });
+
+    } else {
+      const winnerPayout = Math.floor(roundPot * 0.9);
+
+      await chargeProtocolFee(protocolFee);
+
+      if (winner && winnerPayout > 0) {
+        payouts.enqueue({ roundId, walletAddress: winner.walletAddress, amount: winnerPayout, transactionType: 'payout' });
+      }
+
+      if (winner) {
+        applyStatDelta(winner.walletAddress, "wins", 1);
+        applyStatDelta(winner.walletAddress, "net_winnings", winnerPayout - winner.betAmount);
+      }
+
+      const fighterIdsAtStart = new Set(activeFighterIds);
+      fighterIdsAtStart.forEach((fighterId) => {
+        const fighter = Object.values(players).find(p => p.id === fighterId);
+        if (fighter && (!winner || fighter.id !== winner.id)) {
+          applyStatDelta(fighter.walletAddress, "deaths", 1);
+          applyStatDelta(fighter.walletAddress, "net_winnings", -fighter.betAmount);
+        }
+      });
+
+      setPhase("POST_ROUND", {
+        winnerData: { name: winner ? winner.name : "DRAW", pot: winnerPayout, replayId: lastReplayId },
+        fairness: seedReveals,
+      });
+    }
+
+    returnToLobby();
+  };
+
+  // ============================================
+  // TOURNAMENT FLOW
+  // ============================================
+
+  /**
+   * @function getBuyInRefusal
+   * @description Checks a tournament bet before it is credited. A bet enters
+   * its player only if it is exactly the buy-in, the player has not bought in
+   * yet, and the lobby is open with a free seat in the bracket.
+   * @param {object} player
+   * @param {number} amount - Whole tokens.
+   * @returns {string|null} The reason the bet is refunded, or null if it enters the player.
+   */
+  const getBuyInRefusal = (player, amount) => {
+    if (amount !== buyIn || player.betAmount > 0) return REFUND_REASONS.INVALID_BUY_IN;
+    if (gamePhase !== "LOBBY" || getTopFighterIds().length >= bracketSize) return REFUND_REASONS.BRACKET_FULL;
+    return null;
+  };
+
+  /**
+   * @function startTournament
+   * @description Draws the bracket from the entrants and plays the first match.
+   * @param {string[]} entrantIds - Entrants in the order they bought in.
+   */
+  const startTournament = (entrantIds) => {
+    bracket = createBracket(entrantIds.map((entrantId) => {
+      const { name: entrantName, walletAddress, betAmount } = players[entrantId];
+      return { id: entrantId, name: entrantName, walletAddress, betAmount };
+    }));
+    broadcastBracket();
+    playNextMatch();
+  };
+
+  /**
+   * @function playNextMatch
+   * @description Starts the next playable match. Entrants who have left
+   * forfeit by walkover; when no match is left the tournament is paid out.
+   */
+  const playNextMatch = () => {
+    let match = getNextMatch(bracket);
+    while (match) {
+      const present = match.entrantIds.filter((entrantId) => players[entrantId]);
+      if (present.length === 2) break;
+
+      recordMatchWinner(bracket, match.id, present[0] ?? drawMatchWinner(match));
+      match = getNextMatch(bracket);
+    }
+
+    if (!match) {
+      broadcastBracket();
+      payingOut = finishTournament();
+      return;
+    }
+
+    match.status = 'LIVE';
+    currentMatchId = match.id;
+    broadcastBracket();
+    startMatch(match.entrantIds, { match: { id: match.id, round: match.round } });
+  };
+
+  /**
+   * @function finishMatch
+   * @description Records a tournament duel's result and queues the next match.
+   * A timed-out match goes to the fighter the duel's tiebreak draw picked; a
+   * match with no result at all is decided by lot.
+   * @param {string} reason - The reason the duel ended.
+   * @param {string|null} winnerId - The duel winner or tiebreak pick, if any.
+   */
+  const finishMatch = (reason, winnerId) => {
+    const match = findMatch(bracket, currentMatchId);
+    const advancingId = winnerId ?? drawMatchWinner(match);
+    const loser = bracket.entrants[match.entrantIds.find((entrantId) => entrantId !== advancingId)];
+
+    applyStatDelta(loser.walletAddress, "deaths", 1);
+
+    recordMatchWinner(bracket, match.id, advancingId);
+    match.replayId = lastReplayId;
+    currentMatchId = null;
+    activeFighterIds.clear();
+    broadcastBracket();
+
+    matchBreakTimeoutId = setTimeout(playNextMatch, MATCH_BREAK_DURATION);
+  };
+
+  /**
+   * @function finishTournament
+   * @description Pays the champion (and the runner-up, if configured) from the pooled pot.
+   */
+  const finishTournament = async () => {
+    gamePhase = "POST_ROUND";
+    escrow.settle(id);
+
+    const protocolFee = Math.floor(roundPot * 0.1);
+    const prizePool = Math.floor(roundPot * 0.9);
+    const placings = [getChampionId(bracket), getRunnerUpId(bracket)];
+    const prizes = {};
+
+    await chargeProtocolFee(protocolFee);
+
+    for (let place = 0; place < payoutShares.length; place++) {
+      const entrant = bracket.entrants[placings[place]];
+      const amount = Math.floor((prizePool * payoutShares[place]) / 100);
+      if (!entrant || amount <= 0) continue;
+
+      prizes[entrant.id] = amount;
+      payouts.enqueue({
+        roundId,
+        walletAddress: entrant.walletAddress,
+        amount,
+        transactionType: place === 0 ? 'payout' : 'payout_finalist',
+      });
+    }
+
+    const champion = bracket.entrants[placings[0]];
+    Object.values(bracket.entrants).forEach((entrant) => {
+      if (entrant.id === champion.id) {
+        applyStatDelta(entrant.walletAddress, "wins", 1);
+      }
+      applyStatDelta(entrant.walletAddress, "net_winnings", (prizes[entrant.id] ?? 0) - entrant.betAmount);
+    });
+
+    setPhase("POST_ROUND", {
+      winnerData: { name: champion.name, pot: prizes[champion.id] ?? 0, replayId: lastReplayId },
+      fairness: seedReveals,
+    });
+
+    returnToLobby();
+  };
+
+  // ============================================
+  // PLAYERS
+  // ============================================
+
+  /**
+   * @function holdSeat
+   * @description Holds an away fighter's seat for `RECONNECT_GRACE_PERIOD`
+   * instead of forfeiting their duel right away. While they are away the duel
+   * carries on and their shots are auto-missed; if they are not back in time
+   * they are removed and forfeit.
+   * @param {string} playerId
+   */
+  const holdSeat = (playerId) => {
+    if (!duelEngine?.isFighter(playerId) || !duelEngine.suspend(playerId)) return;
+
+    const timeoutId = setTimeout(() => removePlayer(playerId), RECONNECT_GRACE_PERIOD);
+    detachedPlayers.set(playerId, timeoutId);
+    emitDuelEvent("duel:fighterDisconnected", { fighterId: playerId, graceMs: RECONNECT_GRACE_PERIOD });
+  };
+
+  /**
+   * @function removePlayer
+   * @description Removes a player, forfeiting their duel if they are fighting.
+   * Bets they placed for a duel that has not started yet are refunded.
+   * @param {string} playerId
+   * @returns {object|null} The removed player, if they were in this arena.
+   */
+  const removePlayer = (playerId) => {
+    const player = players[playerId];
+    if (!player) return null;
+
+    const previousTopFighterIds = getTopFighterIds();
+
+    if (duelEngine?.isFighter(playerId)) {
+      duelEngine.disconnect(playerId);
+    }
+
+    clearTimeout(detachedPlayers.get(playerId));
+    detachedPlayers.delete(playerId);
+    awaitingReturn.delete(playerId);
+    escrow.refundHeld(id, player.walletAddress, REFUND_REASONS.LEFT_ARENA);
+
+    delete players[playerId];
+    onSeatChange(playerId, false);
+    if (gamePhase === "LOBBY") {
+      entryTimes.delete(playerId);
+    }
+    broadcastLobbyState();
+    checkAndManageCountdown(previousTopFighterIds);
+    return player;
+  };
+
+  /**
+   * @function getSummary
+   * @description Returns the public summary shown in the arena browser.
+   */
+  const getSummary = () => {
+    const contenders = getContendersWithBets();
+    return {
+      id,
+      name,
+      mode,
+      fighterCount: isTournament ? 2 : fighterCount,
+      bestOf,
+      ruleset: toPublicRuleset(ruleset),
+      ...(isTournament && { bracketSize, buyIn, entrantCount: getTopFighterIds().length }),
+      phase: gamePhase,
+      bettingPaused: bettingPaused || draining,
+      playerCount: Object.keys(players).length,
+      contenderCount: contenders.length,
+      pot: gamePhase === "LOBBY"
+        ? contenders.reduce((sum, p) => sum + p.betAmount, 0)
+        : roundPot,
+    };
+  };
+
+  /**
+   * @function getSnapshot
+   * @description Returns what a restarted arena resumes from. Stakes are left
+   * out: they are read back from the escrow ledger.
+   * @returns {import('./snapshots.js').ArenaSnapshot}
+   */
+  const getSnapshot = () => ({
+    arenaId: id,
+    takenAt: Date.now(),
+    phase: gamePhase,
+    roundId,
+    roundPot,
+    bettingPaused,
+    fighterIds: isTournament && bracket ? Object.keys(bracket.entrants) : Array.from(activeFighterIds),
+    players: Object.values(players).map((p) => ({
+      id: p.id,
+      walletAddress: p.walletAddress,
+      name: p.name,
+      lastBetTimestamp: p.lastBetTimestamp,
+      stats: p.stats,
+    })),
+    entryTimes: Object.fromEntries(entryTimes),
+  });
+
+  return {
+    id,
+    name,
+    room,
+    players,
+
+    /**
+     * Sends the arena's current state to a socket that just entered the room.
+     * @param {string} socketId - The socket, on whichever instance it is connected to.
+     */
+    syncSocket(socketId) {
+      const socket = io.to(socketId);
+      if (gamePhase === "IN_ROUND") {
+        socket.emit("game:phaseChange", {
+          phase: gamePhase,
+          fighters: Array.from(activeFighterIds).map((fighterId) => players[fighterId]).filter(Boolean),
+          roundPot,
+          bestOf,
+        });
+      } else {
+        socket.emit("game:phaseChange", { phase: gamePhase });
+      }
+      socket.emit("lobby:state", players);
+      socket.emit("lobby:countdown", lobbyCountdown);
+      if (bracket) {
+        socket.emit("tournament:bracket", toPublicBracket(bracket));
+      }
+      if (duelEngine) {
+        socket.emit("duel:series", duelEngine.getSeries());
+
+        // Late joiners get the bar timing so they can animate the running round.
+        const aimPhase = duelEngine.getAimPhase();
+        if (aimPhase) {
+          socket.emit("duel:aimPhase", aimPhase);
+        }
+      }
+    },
+
+    /**
+     * Seats an authenticated player in this arena's lobby.
+     * @param {object} player - The player record, keyed by its wallet address.
+     */
+    addPlayer(player) {
+      players[player.id] = player;
+      onSeatChange(player.id, true);
+      broadcastLobbyState();
+    },
+
+    removePlayer,
+
+    /**
+     * Marks a player whose session lost its socket. They keep their place in
+     * the lobby (and their bet) until the session expires; a fighter gets
+     * `RECONNECT_GRACE_PERIOD` to come back before forfeiting.
+     * @param {string} playerId
+     */
+    detachPlayer(playerId) {
+      if (!players[playerId] || detachedPlayers.has(playerId)) return;
+      detachedPlayers.set(playerId, null);
+      holdSeat(playerId);
+    },
+
+    /**
+     * Marks a player as back, e.g. after a refresh. A fighter whose seat was
+     * held takes it back.
+     * @param {string} playerId
+     * @returns {object|null} The player, if they are in this arena.
+     */
+    attachPlayer(playerId) {
+      const player = players[playerId];
+      if (!player) return null;
+
+      const timeoutId = detachedPlayers.get(playerId);
+      detachedPlayers.delete(playerId);
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+        duelEngine?.resume(playerId);
+        emitDuelEvent("duel:fighterReconnected", { fighterId: playerId });
+      }
+      if (awaitingReturn.delete(playerId)) {
+        checkAndManageCountdown();
+      }
+      return player;
+    },
+
+    /**
+     * Whether a player can walk out of this arena without abandoning a stake.
+     * @param {string} playerId
+     * @returns {boolean}
+     */
+    canLeave(playerId) {
+      const player = players[playerId];
+      if (!player) return true;
+      return player.betAmount === 0 && !activeFighterIds.has(playerId);
+    },
+
+    /**
+     * Credits a verified bet to a player in this arena.
+     * In a tournament arena, the bet must be the buy-in and enters the player;
+     * any other bet is refunded (see `getBuyInRefusal`).
+     * @param {string} playerId
+     * @param {number} amount - Whole tokens.
+     * @param {string} txSignature
+     */
+    confirmBet(playerId, amount, txSignature) {
+      const player = players[playerId];
+      if (!player) return;
+
+      const previousTopFighterIds = getTopFighterIds();
+      const refusal = isTournament ? getBuyInRefusal(player, amount) : null;
+
+      escrow.hold({ signature: txSignature, walletAddress: player.walletAddress, arenaId: id, amount });
+      audit.record(AUDIT_EVENTS.BET_CONFIRMED, {
+        arenaId: id,
+        walletAddress: player.walletAddress,
+        amount,
+        details: { signature: txSignature, phase: gamePhase, ...(refusal && { refused: refusal }) },
+      });
+      if (refusal) {
+        escrow.refundBet(txSignature, refusal);
+        return;
+      }
+
+      player.betAmount += amount;
+      player.lastBetTimestamp = Date.now();
+
+      if (isTournament) {
+        entryTimes.set(playerId, player.lastBetTimestamp);
+      }
+
+      io.to(getPlayerRoom(playerId)).emit("lobby:betVerified", { signature: txSignature });
+
+      broadcastLobbyState();
+      checkAndManageCountdown(previousTopFighterIds);
+    },
+
+    setPlayerName(playerId, playerName) {
+      const player = players[playerId];
+      if (player) {
+        try {
+          player.name = playerName;
+          updatePlayerStats(player.walletAddress, { username: playerName });
+          broadcastLobbyState();
+        } catch (error) {
+        }
+      }
+    },
+
+    /**
+     * @param {string} playerId
+     * @param {{ latencyMs?: number }} [options] - Estimated one-way latency, used to judge the shot at press time.
+     */
+    shoot(playerId, options) {
+      duelEngine?.shoot(playerId, options);
+    },
+
+    /**
+     * @param {string} playerId
+     * @param {{ entropy?: string }} [options] - The fighter's entropy for the duel's random draws.
+     */
+    playerReady(playerId, options) {
+      duelEngine?.ready(playerId, options);
+    },
+
+    /**
+     * @param {string} playerId
+     * @returns {boolean} True if the player's trigger is now AI-controlled.
+     */
+    requestAIMode(playerId) {
+      return duelEngine?.enableAI(playerId) ?? false;
+    },
+
+    getSummary,
+
+    // ============================================
+    // OPERATOR CONTROLS
+    // ============================================
+
+    /**
+     * Pauses or resumes betting. While paused, the lobby countdown does not
+     * run, so no auction closes; bets confirmed meanwhile are still held.
+     * Clients see the flag in the arena summary.
+     * @param {boolean} paused
+     */
+    setBettingPaused(paused) {
+      bettingPaused = paused;
+      notifyChange();
+      checkAndManageCountdown();
+    },
+
+    /**
+     * Cancels the current round and refunds its bets: in the lobby, every
+     * held bet; during a duel (or a tournament), the whole pot.
+     * @returns {boolean} False if there was nothing to cancel.
+     */
+    cancelRound() {
+      if (gamePhase === "LOBBY") {
+        const bettors = getContendersWithBets();
+        if (bettors.length === 0) return false;
+
+        stopLobbyCountdown();
+        bettors.forEach((p) => {
+          escrow.refundHeld(id, p.walletAddress, REFUND_REASONS.CANCELLED);
+          p.betAmount = 0;
+          p.lastBetTimestamp = null;
+        });
+        entryTimes.clear();
+        broadcastLobbyState();
+        return true;
+      }
+
+      if (gamePhase !== "IN_ROUND") return false;
+      if (duelEngine) return duelEngine.cancel();
+
+      // A tournament between matches
+      callOffRound(REFUND_REASONS.CANCELLED);
+      return true;
+    },
+
+    /**
+     * Awards the running duel to one of its fighters, e.g. to resolve a dispute.
+     * @param {string} playerId
+     * @returns {boolean} False if no duel is running or the player is not fighting in it.
+     */
+    forceWinner(playerId) {
+      return duelEngine?.forceWinner(playerId) ?? false;
+    },
+
+    /**
+     * Returns everything an operator sees about the arena: its summary, every
+     * player with their stake and connection, and the running duel's state.
+     */
+    getAdminState() {
+      return {
+        ...getSummary(),
+        countdown: lobbyCountdown,
+        players: Object.values(players).map((p) => ({
+          id: p.id,
+          name: p.name,
+          betAmount: p.betAmount,
+          isFighter: activeFighterIds.has(p.id),
+          isDetached: detachedPlayers.has(p.id),
+        })),
+        duel: duelEngine?.getState() ?? null,
+        bracket: bracket ? toPublicBracket(bracket) : null,
+      };
+    },
+
+    /**
+     * Returns the timings `/metrics` reports: how long the arena has been in
+     * its phase and how long its running duel has been silent.
+     */
+    getTimings() {
+      const now = Date.now();
+      return {
+        phase: gamePhase,
+        phaseSeconds: (now - phaseStartedAt) / 1000,
+        duel: duelEngine
+          ? { state: duelEngine.getState().state, idleSeconds: (now - lastDuelEventAt) / 1000 }
+          : null,
+      };
+    },
+
+    // ============================================
+    // RESTARTS
+    // ============================================
+
+    /**
+     * Winds the arena down before the server stops: no auction closes again,
+     * and a round being fought is called off with its pot refunded. Bets
+     * confirmed meanwhile are still held, and carried over by the restarted arena.
+     * @returns {Promise<void>} Settles once the last round's payouts are queued.
+     */
+    drain() {
+      draining = true;
+      stopLobbyCountdown();
+      notifyChange();
+
+      if (gamePhase === "IN_ROUND") {
+        if (duelEngine) {
+          duelEngine.cancel();
+        } else {
+          // A tournament between matches
+          callOffRound(REFUND_REASONS.SERVER_RESTART);
+        }
+      }
+      return payingOut;
+    },
+
+    /**
+     * Resumes the lobby of a previous run from its last snapshot. Its players
+     * are seated again as away, with the bets the escrow still holds for them,
+     * until they reconnect or their session expires; the auction does not close
+     * until every bettor among them has done one or the other. A round that was being
+     * fought is not resumed: its pot has been refunded (`voided`), and the
+     * bidders who were charged for it when the auction closed are credited back.
+     * @param {import('./snapshots.js').ArenaSnapshot} snapshot
+     * @param {object} [options]
+     * @param {import('./escrow.js').EscrowEntry[]} [options.voided] - The bets of the
+     *   interrupted round, being refunded.
+     * @returns {string[]} The players seated again.
+     */
+    restore(snapshot, { voided = [] } = {}) {
+      bettingPaused = snapshot.bettingPaused;
+
+      for (const saved of snapshot.players) {
+        const betAmount = escrow.getHeldAmount(id, saved.walletAddress);
+        players[saved.id] = {
+          id: saved.id,
+          walletAddress: saved.walletAddress,
+          name: saved.name,
+          role: "CONTENDER",
+          betAmount,
+          lastBetTimestamp: betAmount > 0 ? saved.lastBetTimestamp : null,
+          position: [0, 0, 0],
+          rotation: 0,
+          stats: saved.stats,
+        };
+        detachedPlayers.set(saved.id, null);
+        if (betAmount > 0) awaitingReturn.add(saved.id);
+        onSeatChange(saved.id, true);
+
+        if (isTournament && betAmount >= buyIn) {
+          entryTimes.set(saved.id, snapshot.entryTimes[saved.id] ?? saved.lastBetTimestamp);
+        }
+      }
+
+      if (voided.length > 0) {
+        const refunded = voided.reduce((sum, entry) => sum + entry.amount, 0);
+        audit.record(AUDIT_EVENTS.ROUND_CALLED_OFF, {
+          roundId: snapshot.roundId,
+          arenaId: id,
+          amount: refunded,
+          details: { reason: REFUND_REASONS.SERVER_RESTART },
+        });
+
+        const fighterIdSet = new Set(snapshot.fighterIds);
+        voided
+          .filter((entry) => !fighterIdSet.has(entry.walletAddress))
+          .forEach((entry) => applyStatDelta(entry.walletAddress, "net_winnings", entry.amount, snapshot.roundId));
+      }
+
+      broadcastLobbyState();
+      checkAndManageCountdown();
+      return snapshot.players.map((saved) => saved.id);
+    },
+  };
+};
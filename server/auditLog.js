@@ -0,0 +1,149 @@
+/**
+ * @file auditLog.js
+ * @description Append-only audit log of every event that moves or accounts for
+ * money: bet confirmations, pot computations, protocol fees, payouts and
+ * refunds (queued, failed, confirmed, dead-lettered), player stat deltas and
+ * called-off rounds. Each event is appended as one JSON line to a local file
+ * first, so the evidence survives even when Supabase is the thing failing,
+ * and then inserted into the `audit_log` table, where operators query it by
+ * round or wallet.
+ */
+
+import { createWriteStream, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { saveAuditEvent, getAuditEvents } from './database.js';
+import { systemClock } from './duelEngine.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const DEFAULT_AUDIT_LOG_PATH = 'logs/audit.jsonl';
+export const AUDIT_QUERY_LIMIT = 500;
+
+export const AUDIT_EVENTS = {
+  BET_CONFIRMED: 'bet_confirmed', // A verified bet was credited (or could not be recorded)
+  POT_COMPUTED: 'pot_computed', // An auction closed and its bets became the round's pot
+  PROTOCOL_FEE: 'protocol_fee', // The protocol's cut of a round's pot was recorded
+  PAYOUT_QUEUED: 'payout_queued', // A payout or refund entered the queue
+  PAYOUT_FAILED: 'payout_failed', // A transfer attempt failed and will be retried
+  PAYOUT_CONFIRMED: 'payout_confirmed',
+  PAYOUT_DEAD_LETTERED: 'payout_dead_lettered', // A payout ran out of attempts and needs an operator
+  PAYOUT_REQUEUED: 'payout_requeued',
+  STAT_DELTA: 'stat_delta', // A player stat (e.g. net_winnings) was incremented
+  ROUND_CALLED_OFF: 'round_called_off', // A round ended without a winner and its pot was refunded
+  REPLAY_SAVE_FAILED: 'replay_save_failed', // A duel's replay, its record of what was paid for, could not be stored
+};
+
+/**
+ * @typedef {object} AuditEvent
+ * @property {string} id
+ * @property {string} at - ISO timestamp.
+ * @property {string} type - One of `AUDIT_EVENTS`.
+ * @property {string|null} roundId
+ * @property {string|null} arenaId
+ * @property {string|null} walletAddress
+ * @property {number|null} amount - Whole tokens.
+ * @property {boolean} ok - False when the event records a failure.
+ * @property {string|null} error - What failed.
+ * @property {object} details - Event-specific fields, e.g. `{ signature }` or `{ field, delta }`.
+ */
+
+const fromRow = (row) => ({
+  id: row.id,
+  at: row.created_at,
+  type: row.type,
+  roundId: row.round_id,
+  arenaId: row.arena_id,
+  walletAddress: row.wallet_address,
+  amount: row.amount,
+  ok: row.ok,
+  error: row.error,
+  details: row.details ?? {},
+});
+
+/**
+ * @function createAuditLog
+ * @description Creates the audit log. The file is opened on the first event.
+ * @param {object} [options]
+ * @param {string} [options.path] - The JSON lines file, defaults to `AUDIT_LOG_PATH` or `logs/audit.jsonl`.
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ */
+export const createAuditLog = ({
+  path = process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_PATH,
+  clock = systemClock,
+} = {}) => {
+  let stream = null;
+
+  const append = (event) => {
+    if (!stream) {
+      mkdirSync(dirname(path), { recursive: true });
+      stream = createWriteStream(path, { flags: 'a' });
+      stream.on('error', (error) => console.error(`[AUDIT] Cannot write ${path}:`, error));
+    }
+    stream.write(`${JSON.stringify(event)}\n`);
+  };
+
+  return {
+    /**
+     * Appends an event to the file and the `audit_log` table.
+     * @param {string} type - One of `AUDIT_EVENTS`.
+     * @param {object} [fields]
+     * @param {string|null} [fields.roundId]
+     * @param {string|null} [fields.arenaId]
+     * @param {string|null} [fields.walletAddress]
+     * @param {number|null} [fields.amount]
+     * @param {boolean} [fields.ok]
+     * @param {string|null} [fields.error]
+     * @param {object} [fields.details]
+     * @returns {AuditEvent}
+     */
+    record(type, { roundId = null, arenaId = null, walletAddress = null, amount = null, ok = true, error = null, details = {} } = {}) {
+      const event = {
+        id: randomUUID(),
+        at: new Date(clock.now()).toISOString(),
+        type,
+        roundId,
+        arenaId,
+        walletAddress,
+        amount,
+        ok,
+        error,
+        details,
+      };
+
+      try {
+        append(event);
+      } catch (appendError) {
+        console.error(`[AUDIT] Cannot write ${path}:`, appendError);
+      }
+      if (!ok) {
+        console.error(`[AUDIT] ${type} failed${roundId ? ` in ${roundId}` : ''}${walletAddress ? ` for ${walletAddress}` : ''}: ${error}`);
+      }
+      saveAuditEvent(event);
+      return event;
+    },
+
+    /**
+     * Fetches audit events from the `audit_log` table, newest first.
+     * @param {{ roundId?: string, walletAddress?: string, limit?: number }} [filter]
+     * @returns {Promise<AuditEvent[]>}
+     */
+    async query({ roundId, walletAddress, limit = 100 } = {}) {
+      const rows = await getAuditEvents({
+        roundId: roundId || null,
+        walletAddress: walletAddress || null,
+        limit: Math.min(Math.max(1, Number(limit) || 100), AUDIT_QUERY_LIMIT),
+      });
+      return rows.map(fromRow);
+    },
+
+    /**
+     * Flushes and closes the file, e.g. on shutdown.
+     * @returns {Promise<void>}
+     */
+    close() {
+      return new Promise((resolve) => (stream ? stream.end(resolve) : resolve()));
+    },
+  };
+};
@@ -0,0 +1,241 @@
+/**
+ * @file cluster.js
+ * @description Running the game server on several instances at once. Every
+ * arena is owned by exactly one instance, through a lease in the shared store
+ * (store.js) renewed every few seconds: only the owner runs the arena's lobby
+ * countdown and duels, so only it sets their timers. The other instances relay
+ * what their sockets do in that arena to the owner (`arena:call`, sent over
+ * the Socket.IO adapter), and the owner's broadcasts reach their sockets
+ * through the same adapter. One instance also holds the leader lease and runs
+ * the chores nobody owns, such as payouts left behind by an instance that died.
+ *
+ * An arena whose owner stops renewing is taken over by another instance once
+ * the lease runs out (`LEASE_TTL`), or right away when its owner shut down and
+ * released it; the new owner resumes it from its last snapshot (snapshots.js).
+ * With the memory store there is no adapter and a single instance,
+ * which owns every arena and leads.
+ */
+
+import { hostname } from 'os';
+import { systemClock, systemScheduler } from './duelEngine.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const INSTANCE_ID = process.env.FLY_MACHINE_ID || `${hostname()}-${process.pid}`;
+export const LEASE_TTL = 15 * 1000;
+export const LEASE_RENEW_INTERVAL = 5 * 1000;
+
+const LEADER_LEASE_KEY = 'lease:leader';
+export const getArenaLeaseKey = (arenaId) => `lease:arena:${arenaId}`;
+
+// Arena methods other instances may call; everything they take and return is plain data
+const RELAYED_METHODS = new Set([
+  'syncSocket',
+  'addPlayer',
+  'removePlayer',
+  'detachPlayer',
+  'attachPlayer',
+  'canLeave',
+  'confirmBet',
+  'setPlayerName',
+  'shoot',
+  'playerReady',
+  'requestAIMode',
+  'getSummary',
+  'setBettingPaused',
+  'cancelRound',
+  'forceWinner',
+  'getAdminState',
+]);
+
+/**
+ * @function createCluster
+ * @description Creates this instance's view of the cluster.
+ * @param {object} options
+ * @param {import('socket.io').Server} options.io - The Socket.IO server, with the store's adapter if there is one.
+ * @param {import('./store.js').Store} options.store
+ * @param {Map<string, object>} options.arenas - Every arena, by ID; each instance creates them all.
+ * @param {boolean} options.clustered - Whether other instances can exist (an adapter is installed).
+ * @param {(arenaId: string) => void|Promise<void>} options.onArenaAcquired - Called when this instance
+ *   becomes an arena's owner.
+ * @param {() => void|Promise<void>} options.onLeadership - Called when this instance becomes the leader.
+ * @param {(lease: string) => void} options.onLeaseLost - Called when a lease this instance held went to
+ *   another one, or could not be renewed before it ran out.
+ * @param {string} [options.instanceId]
+ * @param {import('./duelEngine.js').Clock} [options.clock]
+ * @param {import('./duelEngine.js').Scheduler} [options.scheduler]
+ */
+export const createCluster = ({
+  io,
+  store,
+  arenas,
+  clustered,
+  onArenaAcquired,
+  onLeadership,
+  onLeaseLost,
+  instanceId = INSTANCE_ID,
+  clock = systemClock,
+  scheduler = systemScheduler,
+}) => {
+  const held = new Map(); // Map<lease key, when the last renewal was sent>
+  let renewIntervalId = null;
+  let renewing = false;
+
+  // ============================================
+  // LEASES
+  // ============================================
+
+  /**
+   * Takes or extends one lease. A renewal that fails on a store error keeps
+   * the lease while it is certain not to run out before the next renewal,
+   * since nobody else can take it before then.
+   */
+  const renew = async (key, onAcquired) => {
+    const sentAt = clock.now();
+    let acquired;
+    try {
+      acquired = await store.acquireLease(key, instanceId, LEASE_TTL);
+    } catch (error) {
+      console.error(`[CLUSTER] Renewing ${key} failed: ${error.message}`);
+      if (!held.has(key) || sentAt - held.get(key) < LEASE_TTL - LEASE_RENEW_INTERVAL) return;
+      acquired = false;
+    }
+
+    if (!acquired) {
+      if (held.delete(key)) onLeaseLost(key);
+      return;
+    }
+
+    const isNew = !held.has(key);
+    held.set(key, sentAt);
+    if (isNew) {
+      console.log(`[CLUSTER] ${instanceId} acquired ${key}`);
+      try {
+        await onAcquired();
+      } catch (error) {
+        console.error(`[CLUSTER] Taking over ${key} failed:`, error);
+      }
+    }
+  };
+
+  const renewAll = async () => {
+    if (renewing) return;
+    renewing = true;
+    try {
+      await renew(LEADER_LEASE_KEY, onLeadership);
+      for (const arenaId of arenas.keys()) {
+        await renew(getArenaLeaseKey(arenaId), () => onArenaAcquired(arenaId));
+      }
+    } finally {
+      renewing = false;
+    }
+  };
+
+  // ============================================
+  // RELAY
+  // ============================================
+  const ownsArena = (arenaId) => held.has(getArenaLeaseKey(arenaId));
+
+  // Every other instance answers, within the adapter's request timeout (5 s by
+  // default); only the owner handles the call
+  const relay = (arenaId, method, args) => new Promise((resolve, reject) => {
+    io.serverSideEmit('arena:call', { arenaId, method, args, sentAt: Date.now() }, (error, responses = []) => {
+      const response = responses.find((r) => r?.handled);
+      if (!response) {
+        return reject(new Error(`No instance answered for arena ${arenaId}${error ? ` (${error.message})` : ''}`));
+      }
+      if (response.error) return reject(new Error(response.error));
+      resolve(response.result);
+    });
+  });
+
+  // Calls relayed by other instances, for the arenas this one owns
+  io.on('arena:call', ({ arenaId, method, args, sentAt }, ack) => {
+    if (!ownsArena(arenaId)) return ack({ handled: false });
+    if (!RELAYED_METHODS.has(method)) return ack({ handled: true, error: `${method} cannot be relayed` });
+
+    // A shot is judged at its press time; the hop between instances is part of its latency
+    if (method === 'shoot' && args[1]) {
+      args[1].latencyMs = (args[1].latencyMs ?? 0) + Math.max(0, Date.now() - sentAt);
+    }
+
+    try {
+      ack({ handled: true, result: arenas.get(arenaId)[method](...args) ?? null });
+    } catch (error) {
+      ack({ handled: true, error: error.message });
+    }
+  });
+
+  return {
+    instanceId,
+    clustered,
+
+    /**
+     * Takes every free lease, then keeps renewing them (and taking the ones
+     * other instances drop) every `LEASE_RENEW_INTERVAL`.
+     */
+    async start() {
+      await renewAll();
+      renewIntervalId = scheduler.setInterval(renewAll, LEASE_RENEW_INTERVAL);
+    },
+
+    /**
+     * Stops renewing and frees every lease this instance holds, so the others
+     * can take its arenas over without waiting for the leases to run out.
+     */
+    async stop() {
+      scheduler.clearInterval(renewIntervalId);
+      const keys = Array.from(held.keys());
+      held.clear();
+      await Promise.all(keys.map((key) => store.releaseLease(key, instanceId)));
+    },
+
+    /**
+     * @param {string} arenaId
+     * @returns {boolean} Whether this instance runs the arena.
+     */
+    ownsArena,
+
+    /**
+     * @returns {boolean}
+     */
+    isLeader() {
+      return held.has(LEADER_LEASE_KEY);
+    },
+
+    /**
+     * Calls a method of an arena on the instance that owns it: right here, or
+     * relayed to its owner.
+     * @param {string} arenaId
+     * @param {string} method - One of the relayed arena methods.
+     * @param {...any} args - Plain data only.
+     * @returns {Promise<any>} What the method returned.
+     */
+    async call(arenaId, method, ...args) {
+      const arena = arenas.get(arenaId);
+      if (!arena) throw new Error(`Unknown arena: ${arenaId}`);
+      if (ownsArena(arenaId)) return arena[method](...args);
+      if (!clustered) throw new Error(`Arena ${arenaId} is not running`);
+      return relay(arenaId, method, args);
+    },
+
+    /**
+     * Sends an event to the other instances; a no-op without them.
+     * @param {string} event
+     * @param {...any} args
+     */
+    publish(event, ...args) {
+      if (clustered) io.serverSideEmit(event, ...args);
+    },
+
+    /**
+     * Handles an event published by another instance.
+     * @param {string} event
+     * @param {(...args: any[]) => void} handler
+     */
+    subscribe(event, handler) {
+      io.on(event, handler);
+    },
+  };
+};
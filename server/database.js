@@ -1,60 +1,102 @@
-import { createClient } from '@supabase/supabase-js';
+/**
+ * @file database.js
+ * @description Data access for the game server. The functions below are what
+ * the rest of the server calls; they delegate to the repository picked by
+ * `DATABASE_BACKEND`: `supabase` (the default, supabaseRepository.js) or
+ * `memory` (memoryRepository.js), which runs the whole game loop offline.
+ */
+
 import 'dotenv/config';
+import { createSupabaseRepository } from './supabaseRepository.js';
+import { createMemoryRepository } from './memoryRepository.js';
 
-// Initialize the Supabase client with SERVICE ROLE KEY
-// This bypasses RLS - server has full database access
-// ⚠️ NEVER expose this key to clients
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
-
-if (!supabaseServiceKey) {
-  console.error('FATAL: SUPABASE_SERVICE_KEY not found in environment variables');
-  process.exit(1);
-}
-
-const supabase = createClient(supabaseUrl, supabaseServiceKey, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false
+/**
+ * @typedef {object} PlayerRepository
+ * @property {(walletAddress: string) => Promise<object|null>} getOrCreate - The `players` row, created with a default username on first sight.
+ * @property {(walletAddress: string, updates: object) => Promise<object|null>} update - Returns the updated row.
+ * @property {(walletAddress: string, field: string, value: number) => Promise<boolean>} incrementStat - Adds `value` to a stat column.
+ */
+
+/**
+ * @typedef {object} BetRepository
+ * @property {(signature: string) => Promise<boolean>} exists - True if the bet is recorded, or if that cannot be checked (fail closed).
+ * @property {(signature: string, walletAddress: string, amount: number) => Promise<void>} log - Throws if the bet cannot be recorded.
+ */
+
+/**
+ * @typedef {object} PayoutRepository
+ * @property {(row: object) => Promise<number|string|null>} insert - Adds a `payout_transactions` row and returns its ID.
+ * @property {(id: number|string, updates: object) => Promise<void>} update
+ * @property {(idempotencyKey: string) => Promise<object|null>} getByKey
+ * @property {(statuses: string[]) => Promise<object[]>} listQueued - Rows with an idempotency key and one of the statuses, soonest due first.
+ */
+
+/**
+ * @typedef {object} EscrowRepository
+ * @property {(entry: import('./escrow.js').EscrowEntry) => Promise<boolean>} save
+ * @property {(signature: string, updates: object) => Promise<void>} update
+ * @property {(statuses: string[]) => Promise<object[]>} listByStatus
+ * @property {(walletAddress: string, limit: number) => Promise<object[]>} listRefunds - Newest first.
+ */
+
+/**
+ * @typedef {object} Repository
+ * @description Everything the game server stores. Reads return rows with the
+ * Supabase column names; failures are logged and reported through the return
+ * value rather than thrown, except by `bets.log`.
+ * @property {PlayerRepository} players - Player profiles and stats.
+ * @property {BetRepository} bets - `bet_transactions`, the replay protection for bets.
+ * @property {PayoutRepository} payouts - `payout_transactions`: payouts, refunds and protocol fees.
+ * @property {EscrowRepository} escrow - `bet_escrow`.
+ * @property {{ save: (replay: import('./replay.js').Replay) => Promise<boolean>, get: (id: string) => Promise<import('./replay.js').Replay|null> }} replays - `duel_replays`.
+ * @property {{ save: (snapshot: import('./snapshots.js').ArenaSnapshot) => Promise<boolean>, get: (arenaId: string) => Promise<import('./snapshots.js').ArenaSnapshot|null> }} snapshots - `arena_snapshots`, the latest one per arena.
+ * @property {{ list: () => Promise<string[]>, save: (walletAddress: string, bannedBy: string, reason: string|null) => Promise<void>, remove: (walletAddress: string) => Promise<void> }} bans - `banned_wallets`.
+ * @property {{ log: (entry: object) => Promise<void> }} adminActions - `admin_audit_log`.
+ * @property {{ save: (event: import('./auditLog.js').AuditEvent) => Promise<boolean>, query: (filter: { roundId: string|null, walletAddress: string|null, limit: number }) => Promise<object[]> }} audit - `audit_log`.
+ */
+
+// ============================================
+// BACKEND SELECTION
+// ============================================
+export const DATABASE_BACKENDS = ['supabase', 'memory'];
+
+/**
+ * @function createRepository
+ * @description Creates the repository for a backend.
+ * @param {string} backend - One of `DATABASE_BACKENDS`.
+ * @returns {Repository}
+ */
+export const createRepository = (backend) => {
+  if (backend === 'memory') {
+    console.warn('[DATABASE] Using the in-memory backend; nothing is persisted');
+    return createMemoryRepository();
+  }
+  if (backend !== 'supabase') {
+    console.error(`FATAL: Unknown DATABASE_BACKEND "${backend}" (expected ${DATABASE_BACKENDS.join(' or ')})`);
+    process.exit(1);
   }
-});
+
+  // The service role key bypasses RLS - server has full database access
+  // ⚠️ NEVER expose this key to clients
+  if (!process.env.SUPABASE_SERVICE_KEY) {
+    console.error('FATAL: SUPABASE_SERVICE_KEY not found in environment variables');
+    process.exit(1);
+  }
+  return createSupabaseRepository({ url: process.env.SUPABASE_URL, serviceKey: process.env.SUPABASE_SERVICE_KEY });
+};
+
+export const repository = createRepository(process.env.DATABASE_BACKEND || 'supabase');
+
+// ============================================
+// PLAYERS
+// ============================================
 
 /**
  * Retrieves a player's stats from the database or creates a new entry if one doesn't exist.
  * @param {string} walletAddress The player's Solana wallet address.
  * @returns {Promise<object|null>} The player's data object or null on error.
  */
-export const getPlayerStats = async (walletAddress) => {
-  let { data: player, error } = await supabase
-    .from('players')
-    .select('*')
-    .eq('wallet_address', walletAddress)
-    .single();
-
-  if (error && error.code === 'PGRST116') {
-    console.log(`Player not found for ${walletAddress}. Creating new entry.`);
-
-    // Default username is shortened wallet address
-    const defaultUsername = `${walletAddress.substring(0, 4)}...${walletAddress.substring(walletAddress.length - 4)}`;
-
-    const { data: newPlayer, error: insertError } = await supabase
-      .from('players')
-      .insert({ wallet_address: walletAddress, username: defaultUsername })
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error('Error creating new player:', insertError);
-      return null;
-    }
-    return newPlayer;
-  } else if (error) {
-    console.error('Error fetching player stats:', error);
-    return null;
-  }
-
-  return player;
-};
+export const getPlayerStats = (walletAddress) => repository.players.getOrCreate(walletAddress);
 
 /**
  * Updates a specific player's stats in the database.
@@ -62,88 +104,42 @@ export const getPlayerStats = async (walletAddress) => {
  * @param {object} updates An object containing the fields to update.
  * @returns {Promise<object|null>} The updated player data or null on error.
  */
-export const updatePlayerStats = async (walletAddress, updates) => {
-  const { data, error } = await supabase
-    .from('players')
-    .update(updates)
-    .eq('wallet_address', walletAddress)
-    .select()
-    .single();
-
-  if (error) {
-    console.error(`Error updating stats for ${walletAddress}:`, error);
-    return null;
-  }
-  return data;
-};
+export const updatePlayerStats = (walletAddress, updates) => repository.players.update(walletAddress, updates);
 
 /**
  * Atomically increments a numeric field for a player.
  * @param {string} walletAddress The player's Solana wallet address.
  * @param {string} field The name of the field to increment (e.g., 'kills', 'wins').
  * @param {number} value The value to increment by.
+ * @returns {Promise<boolean>} True if the stat was incremented.
  */
-export const incrementPlayerStat = async (walletAddress, field, value) => {
-  const { error } = await supabase.rpc('increment_stat', {
-    p_wallet_address: walletAddress,
-    p_field: field,
-    p_value: value,
-  });
-
-  if (error) {
-    console.error(
-      `Error incrementing ${field} for ${walletAddress}:`,
-      error,
-    );
-  }
-};
-
-export async function logTransaction(transactionData) {
-  const { data, error } = await supabase
-    .from('payout_transactions')
-    .insert([transactionData])
-    .select()
-    .single();
-
-  if (error) {
-    console.error('Failed to log transaction:', error);
-    return null;
-  }
+export const incrementPlayerStat = (walletAddress, field, value) =>
+  repository.players.incrementStat(walletAddress, field, value);
 
-  return data.id;
-}
+// ============================================
+// BETS AND PAYOUTS
+// ============================================
 
-export async function updateTransaction(txId, updates) {
-  const { error } = await supabase
-    .from('payout_transactions')
-    .update(updates)
-    .eq('id', txId);
+/**
+ * Records a payout, refund or protocol fee.
+ * @param {object} transactionData A `payout_transactions` row.
+ * @returns {Promise<number|string|null>} The row's ID, or null on error.
+ */
+export const logTransaction = (transactionData) => repository.payouts.insert(transactionData);
 
-  if (error) {
-    console.error('Failed to update transaction:', error);
-  }
-}
+/**
+ * Updates a recorded payout.
+ * @param {number|string} txId The row's ID.
+ * @param {object} updates Columns to update.
+ */
+export const updateTransaction = (txId, updates) => repository.payouts.update(txId, updates);
 
 /**
  * Checks if a bet transaction signature has already been used.
  * @param {string} signature The transaction signature.
  * @returns {Promise<boolean>} True if the signature exists, false otherwise.
  */
-export async function checkSignatureExists(signature) {
-  const { data, error } = await supabase
-    .from('bet_transactions')
-    .select('signature')
-    .eq('signature', signature)
-    .single();
-
-  if (error && error.code !== 'PGRST116') { // PGRST116 is "Row not found"
-    console.error('Error checking signature:', error);
-    // Fail closed: if DB error, assume it exists to prevent replay
-    return true;
-  }
-
-  return !!data;
-}
+export const checkSignatureExists = (signature) => repository.bets.exists(signature);
 
 /**
  * Logs a bet transaction to prevent replay attacks.
@@ -151,13 +147,132 @@ export async function checkSignatureExists(signature) {
  * @param {string} walletAddress The player's wallet address.
  * @param {number} amount The amount of the bet.
  */
-export async function logBetTransaction(signature, walletAddress, amount) {
-  const { error } = await supabase
-    .from('bet_transactions')
-    .insert([{ signature, wallet_address: walletAddress, amount }]);
+export const logBetTransaction = (signature, walletAddress, amount) =>
+  repository.bets.log(signature, walletAddress, amount);
 
-  if (error) {
-    console.error('Failed to log bet transaction:', error);
-    throw new Error('Failed to log bet transaction');
-  }
-}
\ No newline at end of file
+/**
+ * Fetches the payout with the given idempotency key.
+ * @param {string} idempotencyKey
+ * @returns {Promise<object|null>} The `payout_transactions` row, or null if there is none or on error.
+ */
+export const getPayoutJob = (idempotencyKey) => repository.payouts.getByKey(idempotencyKey);
+
+/**
+ * Fetches queued payouts with one of the given statuses, soonest due first.
+ * @param {string[]} statuses
+ * @returns {Promise<object[]>} The matching rows; empty on error.
+ */
+export const getPayoutJobs = (statuses) => repository.payouts.listQueued(statuses);
+
+// ============================================
+// REPLAYS AND ESCROW
+// ============================================
+
+/**
+ * Stores a finished duel replay.
+ * @param {import('./replay.js').Replay} replay The recorded duel.
+ * @returns {Promise<boolean>} True if the replay was saved.
+ */
+export const saveReplay = (replay) => repository.replays.save(replay);
+
+/**
+ * Loads a stored duel replay.
+ * @param {string} id The replay ID.
+ * @returns {Promise<import('./replay.js').Replay|null>} The replay, or null if it does not exist or on error.
+ */
+export const getReplay = (id) => repository.replays.get(id);
+
+/**
+ * Adds a confirmed bet to the refund escrow ledger.
+ * @param {import('./escrow.js').EscrowEntry} entry The escrowed bet.
+ * @returns {Promise<boolean>} True if the entry was saved.
+ */
+export const saveEscrowEntry = (entry) => repository.escrow.save(entry);
+
+/**
+ * Updates the status of an escrowed bet.
+ * @param {string} signature The bet's transaction signature.
+ * @param {object} updates Columns to update, e.g. `{ status, reason, refund_signature }`.
+ */
+export const updateEscrowEntry = (signature, updates) => repository.escrow.update(signature, updates);
+
+/**
+ * Fetches escrowed bets with one of the given statuses.
+ * @param {string[]} statuses
+ * @returns {Promise<object[]>} The matching rows; empty on error.
+ */
+export const getEscrowEntries = (statuses) => repository.escrow.listByStatus(statuses);
+
+/**
+ * Fetches a player's most recent refunds.
+ * @param {string} walletAddress The player's wallet address.
+ * @param {number} [limit] How many refunds to return.
+ * @returns {Promise<object[]>} The refund rows, newest first; empty on error.
+ */
+export const getRefunds = (walletAddress, limit = 10) => repository.escrow.listRefunds(walletAddress, limit);
+
+// ============================================
+// ARENA SNAPSHOTS
+// ============================================
+
+/**
+ * Stores an arena's latest snapshot, replacing the previous one.
+ * @param {import('./snapshots.js').ArenaSnapshot} snapshot
+ * @returns {Promise<boolean>} True if the snapshot was saved.
+ */
+export const saveArenaSnapshot = (snapshot) => repository.snapshots.save(snapshot);
+
+/**
+ * Fetches an arena's latest snapshot.
+ * @param {string} arenaId
+ * @returns {Promise<import('./snapshots.js').ArenaSnapshot|null>} Null if there is none, or on error.
+ */
+export const getArenaSnapshot = (arenaId) => repository.snapshots.get(arenaId);
+
+// ============================================
+// OPERATORS
+// ============================================
+
+/**
+ * Records an operator action in the admin audit log.
+ * @param {{ actor: string, action: string, params: object, ok: boolean, error?: string }} entry
+ */
+export const logAdminAction = (entry) => repository.adminActions.log(entry);
+
+/**
+ * Fetches every banned wallet.
+ * @returns {Promise<string[]>} The banned wallet addresses; empty on error.
+ */
+export const getBannedWallets = () => repository.bans.list();
+
+/**
+ * Bans a wallet.
+ * @param {string} walletAddress
+ * @param {string} bannedBy The operator who banned it.
+ * @param {string|null} reason
+ */
+export const saveBan = (walletAddress, bannedBy, reason) => repository.bans.save(walletAddress, bannedBy, reason);
+
+/**
+ * Lifts a wallet's ban.
+ * @param {string} walletAddress
+ */
+export const deleteBan = (walletAddress) => repository.bans.remove(walletAddress);
+
+// ============================================
+// MONEY AUDIT LOG
+// ============================================
+
+/**
+ * Stores a money audit event.
+ * @param {import('./auditLog.js').AuditEvent} event
+ * @returns {Promise<boolean>} True if the event was saved.
+ */
+export const saveAuditEvent = (event) => repository.audit.save(event);
+
+/**
+ * Fetches money audit events for a round and/or a wallet, newest first.
+ * @param {{ roundId: string|null, walletAddress: string|null, limit: number }} filter
+ * @returns {Promise<object[]>} The matching rows; empty on error.
+ */
+export const getAuditEvents = (filter) => repository.audit.query(filter);
@@ -0,0 +1,829 @@
+/**
+ * @file duelEngine.js
+ * @description Server-authoritative duel rules for PotShot.gg.
+ * The engine owns a single duel: it consumes fighter inputs (ready, shoot,
+ * disconnect), drives the synchronized shooting bar and reports everything
+ * that happens through callbacks. Time and randomness are injected so a duel
+ * can be played deterministically without Socket.IO or real timers. Bar speed
+ * and target zones come from the arena's ruleset (rulesets.js), random draws
+ * from a committed seed (fairness.js).
+ */
+
+import {
+  CLASSIC_RULESET,
+  resolveRuleset,
+  getCycleDuration,
+  getTargetZone,
+  getDriftedZone,
+} from './rulesets.js';
+import { createServerSeed, hashSeed, sanitizeEntropy, createSeededRandom } from './fairness.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * @typedef {object} Clock
+ * @property {() => number} now - Returns the current time in milliseconds.
+ */
+
+/**
+ * @typedef {object} Scheduler
+ * @property {(callback: () => void, delay: number) => unknown} setTimeout
+ * @property {(handle: unknown) => void} clearTimeout
+ * @property {(callback: () => void, interval: number) => unknown} setInterval
+ * @property {(handle: unknown) => void} clearInterval
+ */
+
+/**
+ * @typedef {object} DuelFighter
+ * @property {string} id - The fighter's player ID.
+ * @property {string} name - The fighter's display name.
+ */
+
+/**
+ * @typedef {'WAITING'|'CINEMATIC'|'AIM_PHASE'|'EVALUATING'|'FINISHED'} DuelState
+ */
+
+/**
+ * @typedef {object} DuelResult
+ * @property {'WINNER'|'TIMEOUT'|'NO_CONTEST'|'FORCED'|'CANCELLED'} reason - Why the duel ended; NO_CONTEST if the
+ *   fighters were never all ready, FORCED or CANCELLED if an operator decided or called off the duel.
+ * @property {string|null} winnerId - The winning fighter's ID, if any.
+ * @property {string[]} survivorIds - On a timeout, the fighters who share the pot.
+ * @property {string} [tiebreakId] - On a timeout with the `tiebreak` option, the
+ *   survivor picked by the duel's next fair draw.
+ */
+
+/**
+ * @typedef {object} FairnessReveal
+ * @property {string} seedHash - The commitment published in `duel:state`.
+ * @property {string} serverSeed - The seed behind it.
+ * @property {{ fighterId: string, entropy: string }[]} entropy - Each fighter's entropy, in seat order.
+ * @property {number} drawCount - How many random values the duel used.
+ */
+
+/**
+ * @typedef {object} DuelEngineOptions
+ * @property {DuelFighter[]} fighters - The fighters taking part, in seat order.
+ * @property {(event: string, payload?: object) => void} emit - Receives every client-facing duel event.
+ * @property {(result: DuelResult) => void} onFinish - Called once when the duel is decided.
+ * @property {Clock} [clock] - Time source, defaults to `Date.now`.
+ * @property {Scheduler} [scheduler] - Timer source, defaults to the global timers.
+ * @property {string} [serverSeed] - Secret seed every random draw comes from; a fresh one by default.
+ * @property {() => number} [random] - Random source in [0, 1) that replaces the seeded draws, for tests.
+ * @property {number} [bestOf] - Series length (1, 3 or 5); a fighter loses once their lives run out.
+ * @property {string|object} [ruleset] - Ruleset preset ID or overrides, defaults to the classic rules.
+ * @property {boolean} [tiebreak] - Whether a timeout between level fighters also draws a single winner.
+ */
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * @function getTimingOverride
+ * @description Reads a delay from the environment, in milliseconds. Only the
+ * end-to-end tests set these (test/harness.js), so a round plays in seconds.
+ * @param {string} name - The environment variable, named after the constant.
+ * @param {number} fallback - The delay used in production.
+ * @returns {number}
+ */
+export const getTimingOverride = (name, fallback) =>
+  process.env[name] === undefined ? fallback : Number(process.env[name]);
+
+export const BAR_TICK_INTERVAL = 1000 / 60;
+export const GONG_DELAY_MIN = getTimingOverride('GONG_DELAY_MIN', 27000);
+export const GONG_DELAY_SPREAD = getTimingOverride('GONG_DELAY_SPREAD', 5000);
+export const DUEL_MAX_DURATION = getTimingOverride('DUEL_MAX_DURATION', 30000);
+export const READY_CHECK_TIMEOUT = 30000;
+export const WINNER_REVEAL_DELAY = 800;
+export const NEXT_ROUND_DELAY = 1200;
+export const NEXT_GAME_DELAY = 3000;
+export const AI_HIT_CHANCE = 0.8;
+export const MAX_SHOT_COMPENSATION = 150;
+export const FIGHTER_CIRCLE_RADIUS = 3;
+
+/** @type {Clock} */
+export const systemClock = { now: () => Date.now() };
+
+/** @type {Scheduler} */
+export const systemScheduler = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: (handle) => clearInterval(handle),
+};
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * @function getBarCycleDuration
+ * @description Calculates the duration of the shooting bar cycle for a given round.
+ * The duration shrinks each round according to the ruleset's curve, making it harder.
+ * @param {number} round - The current duel round number.
+ * @param {object} [ruleset] - The resolved ruleset, defaults to the classic rules.
+ * @returns {number} The duration of the bar cycle in milliseconds.
+ */
+export const getBarCycleDuration = (round, ruleset = CLASSIC_RULESET) =>
+  getCycleDuration(ruleset, round);
+
+/**
+ * @function getBarPosition
+ * @description Computes where the shooting bar is at a given moment.
+ * @param {number} startTime - When the bar started moving this round.
+ * @param {number} now - The moment to evaluate.
+ * @param {number} round - The current duel round number.
+ * @param {object} [ruleset] - The resolved ruleset, defaults to the classic rules.
+ * @returns {number} The bar position, from 0 to 1.
+ */
+export const getBarPosition = (startTime, now, round, ruleset = CLASSIC_RULESET) => {
+  const elapsed = now - startTime;
+  const cycles = elapsed / getBarCycleDuration(round, ruleset);
+  return cycles % 1;
+};
+
+/**
+ * @function isInTargetZone
+ * @description Whether a bar position counts as a hit.
+ * @param {number} position - The bar position, from 0 to 1.
+ * @param {{ min: number, max: number }} zone - The round's target zone.
+ * @returns {boolean} True if the position is inside the target zone.
+ */
+export const isInTargetZone = (position, zone) =>
+  position >= zone.min && position <= zone.max;
+
+/**
+ * @function getSeriesLives
+ * @description Number of kills needed to clinch a best-of-N series, which is
+ * also how many lives each fighter starts with.
+ * @param {number} bestOf - Series length.
+ * @returns {number}
+ */
+export const getSeriesLives = (bestOf) => Math.ceil(bestOf / 2);
+
+/**
+ * @function getFighterPlacement
+ * @description Returns the arena spot for the fighter in a given seat.
+ * Fighters stand evenly spaced on a circle, facing its centre; with two
+ * fighters this is the classic face-off along the z axis.
+ * @param {number} index - The fighter's seat index.
+ * @param {number} [count] - How many fighters share the circle.
+ * @returns {{ position: [number, number, number], rotation: number }}
+ */
+export const getFighterPlacement = (index, count = 2) => {
+  const angle = (index / count) * Math.PI * 2;
+  const round = (value) => Math.round(value * 1000) / 1000 + 0;
+  return {
+    position: [round(-FIGHTER_CIRCLE_RADIUS * Math.sin(angle)), 0, round(-FIGHTER_CIRCLE_RADIUS * Math.cos(angle))],
+    rotation: angle,
+  };
+};
+
+// ============================================
+// ENGINE
+// ============================================
+
+/**
+ * @function createDuelEngine
+ * @description Creates the state machine for a single duel.
+ * Nothing happens until `start()` is called; the duel then waits for every
+ * fighter to be ready, plays the cinematic, rings the gong and runs rounds
+ * until one fighter is left standing or the duel times out. Every fighter
+ * shoots at once: whoever misses while someone else hits loses a life, and a
+ * fighter with no lives left is out. In a best-of-N series a kill that does
+ * not eliminate anyone starts a new game.
+ * @param {DuelEngineOptions} options
+ */
+export const createDuelEngine = ({
+  fighters,
+  emit,
+  onFinish,
+  clock = systemClock,
+  scheduler = systemScheduler,
+  serverSeed = createServerSeed(),
+  random = null,
+  bestOf = 1,
+  ruleset: rulesetOption,
+  tiebreak = false,
+}) => {
+  const ruleset = resolveRuleset(rulesetOption);
+  const fighterIds = fighters.map((f) => f.id);
+  const lives = getSeriesLives(bestOf);
+
+  /** @type {DuelState} */
+  let state = "WAITING";
+  let currentRound = 1;
+  let currentGame = 1;
+  let gongTime = null;
+  let barStartTime = null;
+  let pendingWinnerId = null;
+
+  const seedHash = hashSeed(serverSeed);
+  let seededRandom = null;
+  const draw = () => (random ? random() : seededRandom.random());
+
+  let barLoopHandle = null;
+  let duelTimeoutHandle = null;
+  const pendingTimeouts = new Set();
+
+  const seats = {};
+  const duelData = {};
+  fighters.forEach((fighter, index) => {
+    seats[fighter.id] = {
+      id: fighter.id,
+      name: fighter.name,
+      ...getFighterPlacement(index, fighters.length),
+      health: lives,
+      wins: 0,
+      connected: true,
+      forfeited: false,
+    };
+
+    duelData[fighter.id] = {
+      hasDrawn: false,
+      drawTime: null,
+      hasFired: false,
+      shotResult: null,
+      isAI: false,
+      aiShotAttempted: false,
+      isReady: false,
+      entropy: "",
+    };
+  });
+
+  const later = (callback, delay) => {
+    const handle = scheduler.setTimeout(() => {
+      pendingTimeouts.delete(handle);
+      callback();
+    }, delay);
+    pendingTimeouts.add(handle);
+    return handle;
+  };
+
+  const stopBarLoop = () => {
+    if (barLoopHandle !== null) {
+      scheduler.clearInterval(barLoopHandle);
+      barLoopHandle = null;
+    }
+  };
+
+  const clearAllTimers = () => {
+    stopBarLoop();
+    if (duelTimeoutHandle !== null) {
+      scheduler.clearTimeout(duelTimeoutHandle);
+      duelTimeoutHandle = null;
+    }
+    pendingTimeouts.forEach((handle) => scheduler.clearTimeout(handle));
+    pendingTimeouts.clear();
+  };
+
+  const cycleDuration = () => getBarCycleDuration(currentRound, ruleset);
+  // The zone at a moment of the running round; it slides if the ruleset drifts it
+  const targetZone = (at = barStartTime) => getDriftedZone(
+    getTargetZone(ruleset, currentRound),
+    ruleset.zone.driftPerSecond,
+    barStartTime === null ? 0 : at - barStartTime,
+  );
+
+  const isAlive = (id) => seats[id].health > 0;
+  const getAliveIds = () => fighterIds.filter(isAlive);
+  const allFired = () => getAliveIds().every((id) => duelData[id].hasFired);
+
+  const resetShots = () => {
+    getAliveIds().forEach((id) => {
+      duelData[id].hasFired = false;
+      duelData[id].shotResult = null;
+      duelData[id].aiShotAttempted = false;
+    });
+  };
+
+  const getSeries = () => ({
+    bestOf,
+    game: currentGame,
+    fighters: fighterIds.map((id) => {
+      const { name, wins, health } = seats[id];
+      return { id, name, wins, health };
+    }),
+  });
+
+  /**
+   * @function getAimPhase
+   * @description Everything a client needs to animate the bar on its own:
+   * the bar position is a pure function of `startTime` and `barCycleDuration`.
+   * @returns {object|null} The `duel:aimPhase` payload, or null outside the aim phase.
+   */
+  const getAimPhase = () => {
+    if (state !== "AIM_PHASE" || barStartTime === null) return null;
+    return {
+      startTime: barStartTime,
+      round: currentRound,
+      barCycleDuration: cycleDuration(),
+      zone: targetZone(),
+      zoneDrift: ruleset.zone.driftPerSecond,
+      maxRounds: ruleset.maxRounds,
+    };
+  };
+
+  /**
+   * @function finish
+   * @description Stops every timer and reports the duel result exactly once.
+   * @param {DuelResult['reason']} reason
+   * @param {string|null} winnerId
+   * @param {string[]} [survivorIds]
+   * @param {string|null} [tiebreakId]
+   */
+  const finish = (reason, winnerId = null, survivorIds = winnerId ? [winnerId] : [], tiebreakId = null) => {
+    if (state === "FINISHED") return;
+    clearAllTimers();
+    state = "FINISHED";
+    barStartTime = null;
+    onFinish({ reason, winnerId, survivorIds, ...(tiebreakId && { tiebreakId }) });
+  };
+
+  /**
+   * @function sendGong
+   * @description Initiates the aiming phase of the duel.
+   * Emits the 'gong' event and starts the bar loop. Clients animate the bar
+   * themselves from the `duel:aimPhase` timing.
+   */
+  const sendGong = () => {
+    state = "AIM_PHASE";
+    gongTime = clock.now();
+    barStartTime = gongTime;
+
+    fighterIds.forEach((id) => {
+      duelData[id].hasDrawn = true;
+      duelData[id].drawTime = 0;
+    });
+
+    emit("duel:gong", {
+      barCycleDuration: cycleDuration(),
+      zone: targetZone(),
+      zoneDrift: ruleset.zone.driftPerSecond,
+    });
+
+    emit("duel:aimPhase", getAimPhase());
+
+    startBarLoop();
+    startGameTimer();
+  };
+
+  /**
+   * @function startGameTimer
+   * @description (Re)starts the time limit for the current game.
+   */
+  const startGameTimer = () => {
+    if (duelTimeoutHandle !== null) {
+      scheduler.clearTimeout(duelTimeoutHandle);
+    }
+
+    duelTimeoutHandle = scheduler.setTimeout(() => {
+      duelTimeoutHandle = null;
+      callTime();
+    }, DUEL_MAX_DURATION);
+  };
+
+  /**
+   * @function callTime
+   * @description Ends a game that ran out of time or rounds: the fighter with
+   * the most lives left wins; if several are level, they share the pot. With
+   * the `tiebreak` option the next fair draw also picks one of them.
+   */
+  const callTime = () => {
+    const aliveIds = getAliveIds();
+    const mostLives = Math.max(...aliveIds.map((id) => seats[id].health));
+    const leaderIds = aliveIds.filter((id) => seats[id].health === mostLives);
+
+    if (leaderIds.length === 1) {
+      finish("WINNER", leaderIds[0]);
+    } else if (tiebreak) {
+      finish("TIMEOUT", null, leaderIds, leaderIds[Math.floor(draw() * leaderIds.length)]);
+    } else {
+      finish("TIMEOUT", null, leaderIds);
+    }
+  };
+
+  /**
+   * @function tick
+   * @description One step of the bar loop: lets AI fighters shoot and
+   * registers automatic misses. The position itself is never broadcast.
+   */
+  const tick = () => {
+    if (state !== "AIM_PHASE" || barStartTime === null) {
+      stopBarLoop();
+      return;
+    }
+
+    const position = getBarPosition(barStartTime, clock.now(), currentRound, ruleset);
+    const zone = targetZone(clock.now());
+
+    getAliveIds().forEach((id) => {
+      const playerData = duelData[id];
+      if (playerData.isAI && !playerData.hasFired && !playerData.aiShotAttempted) {
+        if (position >= zone.min) {
+          playerData.aiShotAttempted = true;
+          if (draw() < AI_HIT_CHANCE) {
+            shoot(id);
+          }
+        }
+      }
+    });
+
+    if (state !== "AIM_PHASE") return;
+
+    // A shot may still arrive for a press made up to MAX_SHOT_COMPENSATION ago,
+    // so only call a miss once the bar had left the zone that long ago. The
+    // sweep is measured without wrapping, so a zone reaching the end of the
+    // bar (max 1) is left when the first sweep ends.
+    const graceStart = clock.now() - MAX_SHOT_COMPENSATION;
+    const settledSweep = graceStart >= barStartTime
+      ? (graceStart - barStartTime) / getBarCycleDuration(currentRound, ruleset)
+      : 0;
+
+    if (settledSweep > targetZone(graceStart).max) {
+      getAliveIds().forEach((id) => {
+        const playerData = duelData[id];
+        if (!playerData.hasFired) {
+          playerData.hasFired = true;
+          playerData.shotResult = "miss";
+          emit("duel:shot", {
+            shooterId: id,
+            hit: false,
+            autoMiss: true,
+          });
+        }
+      });
+    }
+
+    if (allFired()) {
+      evaluateRoundResults();
+    }
+  };
+
+  const startBarLoop = () => {
+    stopBarLoop();
+    barLoopHandle = scheduler.setInterval(tick, BAR_TICK_INTERVAL);
+  };
+
+  /**
+   * @function evaluateRoundResults
+   * @description Evaluates the results of a round after every fighter still
+   * standing has acted. If some fighters hit and others did not, each one who
+   * did not loses a life; if everyone hit it is a dodge, if nobody did a miss.
+   */
+  const evaluateRoundResults = () => {
+    if (state !== "AIM_PHASE") return;
+    state = "EVALUATING";
+    stopBarLoop();
+
+    const aliveIds = getAliveIds();
+    const winnerIds = aliveIds.filter((id) => duelData[id].shotResult === "hit");
+    const loserIds = aliveIds.filter((id) => duelData[id].shotResult !== "hit");
+
+    if (winnerIds.length > 0 && loserIds.length > 0) {
+      loserIds.forEach((id) => {
+        seats[id].health = Math.max(0, seats[id].health - 1);
+      });
+      winnerIds.forEach((id) => {
+        seats[id].wins++;
+      });
+
+      const eliminatedIds = loserIds.filter((id) => !isAlive(id));
+      const standingIds = getAliveIds();
+
+      emit("duel:roundEnd", {
+        outcome: "hit",
+        winnerId: winnerIds.length === 1 ? winnerIds[0] : null,
+        loserId: loserIds.length === 1 ? loserIds[0] : null,
+        winnerIds,
+        loserIds,
+        eliminatedIds,
+        round: currentRound,
+        game: currentGame,
+      });
+      emit("duel:series", getSeries());
+
+      if (standingIds.length === 1) {
+        pendingWinnerId = standingIds[0];
+        later(() => finish("WINNER", standingIds[0]), WINNER_REVEAL_DELAY);
+      } else if (eliminatedIds.length < loserIds.length) {
+        later(advanceGame, NEXT_GAME_DELAY);
+      } else {
+        later(advanceRound, NEXT_ROUND_DELAY);
+      }
+      return;
+    }
+
+    emit("duel:roundEnd", {
+      outcome: winnerIds.length > 0 ? "dodge" : "miss",
+      round: currentRound,
+      game: currentGame,
+    });
+
+    later(advanceRound, NEXT_ROUND_DELAY);
+  };
+
+  /**
+   * @function advanceRound
+   * @description Advances the duel to the next, faster round, or calls time
+   * once the ruleset's round limit is reached.
+   */
+  const advanceRound = () => {
+    if (ruleset.maxRounds && currentRound >= ruleset.maxRounds) {
+      callTime();
+      return;
+    }
+
+    currentRound++;
+    resetShots();
+
+    state = "AIM_PHASE";
+    barStartTime = clock.now();
+
+    emit("duel:newRound", {
+      startTime: barStartTime,
+      round: currentRound,
+      game: currentGame,
+      barCycleDuration: cycleDuration(),
+      zone: targetZone(),
+      zoneDrift: ruleset.zone.driftPerSecond,
+      message: `ROUND ${currentRound}!`,
+    });
+    startBarLoop();
+  };
+
+  /**
+   * @function advanceGame
+   * @description Starts the next game of a series: the bar drops back to
+   * round-one speed and the game clock restarts.
+   */
+  const advanceGame = () => {
+    currentGame++;
+    currentRound = 1;
+    resetShots();
+
+    state = "AIM_PHASE";
+    barStartTime = clock.now();
+
+    emit("duel:newRound", {
+      startTime: barStartTime,
+      round: currentRound,
+      game: currentGame,
+      barCycleDuration: cycleDuration(),
+      zone: targetZone(),
+      zoneDrift: ruleset.zone.driftPerSecond,
+      message: `GAME ${currentGame}!`,
+    });
+    startBarLoop();
+    startGameTimer();
+  };
+
+  /**
+   * @function startIfAllReady
+   * @description Plays the cinematic and schedules the gong once every
+   * fighter still in the duel is ready. The fighters' entropy is final from
+   * here on, so this is where the seeded random source is created.
+   */
+  const startIfAllReady = () => {
+    if (state !== "WAITING") return;
+    const allReady = getAliveIds().every((id) => duelData[id].isReady);
+    if (!allReady) return;
+
+    state = "CINEMATIC";
+    emit("duel:bothReady");
+
+    seededRandom = createSeededRandom(serverSeed, fighterIds.map((id) => duelData[id].entropy).join(":"));
+    const gongDelay = GONG_DELAY_MIN + draw() * GONG_DELAY_SPREAD;
+    later(sendGong, gongDelay);
+  };
+
+  /**
+   * @function shoot
+   * @description Processes a shot from a fighter and judges it against the bar.
+   * The shot is judged at the estimated moment the fighter pressed: the
+   * reported one-way latency is subtracted from the arrival time, capped at
+   * `MAX_SHOT_COMPENSATION` and never earlier than the start of the round.
+   * @param {string} fighterId - The fighter who shot.
+   * @param {{ latencyMs?: number }} [options]
+   */
+  const shoot = (fighterId, { latencyMs = 0 } = {}) => {
+    const playerData = duelData[fighterId];
+    if (!playerData || !playerData.hasDrawn || playerData.hasFired || !isAlive(fighterId)) return;
+    if (state !== "AIM_PHASE") return;
+
+    const receivedAt = clock.now();
+    const pressedAt = Math.max(
+      receivedAt - Math.min(Math.max(latencyMs, 0), MAX_SHOT_COMPENSATION),
+      barStartTime,
+    );
+    const compensationMs = receivedAt - pressedAt;
+
+    const barPosition = getBarPosition(barStartTime, pressedAt, currentRound, ruleset);
+    const isHit = isInTargetZone(barPosition, targetZone(pressedAt));
+
+    playerData.hasFired = true;
+    playerData.shotResult = isHit ? "hit" : "miss";
+
+    emit("duel:shot", {
+      shooterId: fighterId,
+      hit: isHit,
+      barPosition,
+      compensationMs,
+      latencyMs,
+    });
+
+    if (allFired()) {
+      evaluateRoundResults();
+    }
+  };
+
+  return {
+    /**
+     * Announces the duel to clients; the duel then waits for every fighter to
+     * be ready, and is called off as NO_CONTEST after `READY_CHECK_TIMEOUT`.
+     */
+    start() {
+      later(() => {
+        if (state === "WAITING") {
+          finish("NO_CONTEST");
+        }
+      }, READY_CHECK_TIMEOUT);
+
+      emit("duel:state", {
+        state: "WAITING",
+        seedHash,
+        fighters: fighterIds.map((id) => {
+          const { name, position, rotation, health } = seats[id];
+          return { id, name, position, rotation, health };
+        }),
+      });
+      emit("duel:series", getSeries());
+    },
+
+    /**
+     * Marks a fighter as ready. Once all are, the cinematic plays and the gong is scheduled.
+     * @param {string} fighterId
+     * @param {{ entropy?: string }} [options] - The fighter's contribution to the duel's random draws.
+     */
+    ready(fighterId, { entropy } = {}) {
+      const playerData = duelData[fighterId];
+      if (!playerData || playerData.isReady) return;
+      if (state === "WAITING") {
+        playerData.entropy = sanitizeEntropy(entropy);
+      }
+      playerData.isReady = true;
+      startIfAllReady();
+    },
+
+    shoot,
+
+    /**
+     * Marks a fighter as temporarily away. Their seat is kept: the duel waits
+     * for them to be ready, and every round they do not shoot is auto-missed.
+     * @param {string} fighterId
+     * @returns {boolean} True if the fighter is still in the duel.
+     */
+    suspend(fighterId) {
+      const seat = seats[fighterId];
+      if (!seat || seat.forfeited || state === "FINISHED") return false;
+      seat.connected = false;
+      return true;
+    },
+
+    /**
+     * Marks a suspended fighter as back.
+     * @param {string} fighterId
+     * @returns {boolean} True if the fighter is still in the duel.
+     */
+    resume(fighterId) {
+      const seat = seats[fighterId];
+      if (!seat || seat.forfeited) return false;
+      seat.connected = true;
+      return true;
+    },
+
+    /**
+     * Removes a fighter from the duel; they are out for the rest of it.
+     * Unless the duel has already been decided, the last fighter still
+     * standing wins by forfeit.
+     * @param {string} fighterId
+     */
+    disconnect(fighterId) {
+      const seat = seats[fighterId];
+      if (!seat || seat.forfeited) return;
+      seat.connected = false;
+      seat.forfeited = true;
+
+      if (state === "FINISHED" || pendingWinnerId || !isAlive(fighterId)) return;
+
+      seat.health = 0;
+      duelData[fighterId].hasFired = true;
+      duelData[fighterId].shotResult = "forfeit";
+
+      const remaining = getAliveIds();
+      if (remaining.length === 1) {
+        finish("WINNER", remaining[0]);
+      } else if (state === "WAITING") {
+        startIfAllReady();
+      } else if (state === "AIM_PHASE" && allFired()) {
+        evaluateRoundResults();
+      }
+    },
+
+    /**
+     * Hands a fighter's trigger over to the server-side AI.
+     * @param {string} fighterId
+     * @returns {boolean} True if the fighter is now AI-controlled.
+     */
+    enableAI(fighterId) {
+      if (!duelData[fighterId]) return false;
+      duelData[fighterId].isAI = true;
+      return true;
+    },
+
+    /**
+     * Calls the duel off on an operator's decision; it is reported as CANCELLED.
+     * @returns {boolean} False if the duel was already over.
+     */
+    cancel() {
+      if (state === "FINISHED") return false;
+      finish("CANCELLED");
+      return true;
+    },
+
+    /**
+     * Awards the duel to a fighter on an operator's decision, e.g. to resolve
+     * a dispute; it is reported as FORCED.
+     * @param {string} fighterId
+     * @returns {boolean} False if the duel was already over or the ID is not one of its fighters.
+     */
+    forceWinner(fighterId) {
+      if (state === "FINISHED" || !seats[fighterId]) return false;
+      finish("FORCED", fighterId);
+      return true;
+    },
+
+    /**
+     * Cancels every pending timer without reporting a result.
+     */
+    stop() {
+      clearAllTimers();
+      state = "FINISHED";
+    },
+
+    /**
+     * @param {string} id
+     * @returns {boolean} True if the ID belongs to one of this duel's fighters.
+     */
+    isFighter(id) {
+      return Boolean(seats[id]);
+    },
+
+    /**
+     * Returns the series scoreboard, as sent with `duel:series`.
+     */
+    getSeries,
+
+    /**
+     * Returns the current bar timing, as sent with `duel:aimPhase`, or null
+     * outside the aim phase.
+     */
+    getAimPhase,
+
+    /**
+     * Returns the seed and entropy behind the duel's random draws once it is
+     * finished, or null while the seed must stay secret.
+     * @returns {FairnessReveal|null}
+     */
+    revealSeed() {
+      if (state !== "FINISHED") return null;
+      return {
+        seedHash,
+        serverSeed,
+        entropy: fighterIds.map((id) => ({ fighterId: id, entropy: duelData[id].entropy })),
+        drawCount: seededRandom?.getDrawCount() ?? 0,
+      };
+    },
+
+    /**
+     * Returns a read-only snapshot of the duel for inspection.
+     */
+    getState() {
+      return {
+        state,
+        round: currentRound,
+        game: currentGame,
+        bestOf,
+        gongTime,
+        barStartTime,
+        barCycleDuration: cycleDuration(),
+        zone: targetZone(clock.now()),
+        ruleset: ruleset.id,
+        fighters: fighterIds.map((id) => ({ ...seats[id], ...duelData[id] })),
+      };
+    },
+  };
+};
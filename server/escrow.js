@@ -0,0 +1,264 @@
+/**
+ * @file escrow.js
+ * @description Refund escrow for PotShot.gg bets. Every confirmed bet is
+ * recorded in the `bet_escrow` ledger before it counts in a lobby, and moves
+ * through these states:
+ *
+ *   held ──► in_pot ──► settled                  (the bet played in a duel)
+ *   held / in_pot ──► refunding ──► refunded      (the bet never reached a duel)
+ *                                 └─► refund_failed
+ *
+ * A held bet is refunded when its player leaves the arena, or right away when
+ * a tournament arena turns it away; bets in the pot are refunded when the duel
+ * is called off (NO_CONTEST); an operator cancelling a round refunds both; and
+ * bets left open by a server restart are refunded on the next start, unless
+ * the arena resumes its lobby from a snapshot (snapshots.js), in which case its
+ * held bets stay held. Refunds are jobs on the payout queue (payouts.js): an
+ * entry stays `refunding` while its job is retried and becomes `refund_failed`
+ * only if the job is dead-lettered. Every status change is pushed to the
+ * player's sockets as `escrow:refund`.
+ */
+
+import {
+  saveEscrowEntry,
+  updateEscrowEntry,
+  getEscrowEntries,
+  getRefunds,
+} from './database.js';
+import { getPlayerRoom } from './sessions.js';
+import { systemClock } from './duelEngine.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const REFUND_REASONS = {
+  LEFT_ARENA: 'left_arena',
+  NO_CONTEST: 'no_contest',
+  SERVER_RESTART: 'server_restart',
+  CANCELLED: 'cancelled',
+  INVALID_BUY_IN: 'invalid_buy_in',
+  BRACKET_FULL: 'bracket_full',
+};
+
+/**
+ * @typedef {'held'|'in_pot'|'settled'|'refunding'|'refunded'|'refund_failed'} EscrowStatus
+ */
+
+/**
+ * @typedef {object} EscrowEntry
+ * @property {string} signature - The bet's transaction signature.
+ * @property {string} walletAddress - The bettor.
+ * @property {string} arenaId - The arena the bet was placed in.
+ * @property {number} amount - Whole tokens.
+ * @property {EscrowStatus} status
+ * @property {string|null} reason - Why the bet was refunded, one of `REFUND_REASONS`.
+ * @property {string|null} refundSignature - The refund transfer, once sent.
+ * @property {number} createdAt - When the bet was confirmed.
+ */
+
+const fromRow = (row) => ({
+  signature: row.signature,
+  walletAddress: row.wallet_address,
+  arenaId: row.arena_id,
+  amount: row.amount,
+  status: row.status,
+  reason: row.reason ?? null,
+  refundSignature: row.refund_signature ?? null,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+/**
+ * @function toPublicRefund
+ * @param {EscrowEntry} entry
+ * @returns {object} The fields of a refund shown to its player.
+ */
+export const toPublicRefund = ({ signature, arenaId, amount, status, reason, refundSignature, createdAt }) =>
+  ({ signature, arenaId, amount, status, reason, refundSignature, createdAt });
+
+/**
+ * @function createEscrow
+ * @description Creates the escrow ledger shared by every arena.
+ * @param {object} options
+ * @param {import('socket.io').Server} options.io - The Socket.IO server, used to notify players.
+ * @param {ReturnType<typeof import('./payouts.js').createPayoutQueue>} options.payouts - The queue refunds are sent through.
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ */
+export const createEscrow = ({ io, payouts, clock = systemClock }) => {
+  const openEntries = new Map(); // Map<signature, EscrowEntry>, held and in_pot bets only
+  const refunding = new Map(); // Map<refundRoundId, EscrowEntry>, refunds waiting on their payout job
+
+  const getRefundRoundId = (entry) => `refund_${entry.signature}`;
+
+  const findOpen = (arenaId, status, walletAddress = null) =>
+    Array.from(openEntries.values()).filter((entry) =>
+      entry.arenaId === arenaId && entry.status === status && (!walletAddress || entry.walletAddress === walletAddress),
+    );
+
+  const notify = (entry) => io.to(getPlayerRoom(entry.walletAddress)).emit("escrow:refund", toPublicRefund(entry));
+
+  const setStatus = (entry, status) => {
+    entry.status = status;
+    updateEscrowEntry(entry.signature, {
+      status,
+      reason: entry.reason,
+      refund_signature: entry.refundSignature,
+    });
+  };
+
+  // Queuing the same refund twice returns its existing job, so this is also how
+  // a refund interrupted by a restart is picked back up.
+  const sendRefund = (entry) => {
+    refunding.set(getRefundRoundId(entry), entry);
+    payouts.enqueue({
+      roundId: getRefundRoundId(entry),
+      walletAddress: entry.walletAddress,
+      amount: entry.amount,
+      transactionType: 'refund',
+    });
+  };
+
+  const refund = (entry, reason) => {
+    openEntries.delete(entry.signature);
+    entry.reason = reason;
+    setStatus(entry, 'refunding');
+    notify(entry);
+    sendRefund(entry);
+  };
+
+  payouts.onSettled((job) => {
+    const entry = job.transactionType === 'refund' ? refunding.get(job.roundId) : null;
+    if (!entry) return;
+
+    refunding.delete(job.roundId);
+    entry.refundSignature = job.signature;
+    setStatus(entry, job.status === 'confirmed' ? 'refunded' : 'refund_failed');
+    notify(entry);
+  });
+
+  const refundAll = (entries, reason) => {
+    entries.forEach((entry) => refund(entry, reason));
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  };
+
+  return {
+    /**
+     * Records a confirmed bet as held for its arena's next duel.
+     * @param {{ signature: string, walletAddress: string, arenaId: string, amount: number }} bet
+     */
+    hold({ signature, walletAddress, arenaId, amount }) {
+      const entry = {
+        signature,
+        walletAddress,
+        arenaId,
+        amount,
+        status: 'held',
+        reason: null,
+        refundSignature: null,
+        createdAt: clock.now(),
+      };
+      openEntries.set(signature, entry);
+      saveEscrowEntry(entry);
+    },
+
+    /**
+     * Moves an arena's held bets into the pot when its auction closes.
+     * @param {string} arenaId
+     * @param {string[]} [walletAddresses] - Only these bettors' bets, e.g. a
+     *   tournament's entrants; the others stay held. Every bettor's by default.
+     */
+    commit(arenaId, walletAddresses = null) {
+      findOpen(arenaId, 'held')
+        .filter((entry) => !walletAddresses || walletAddresses.includes(entry.walletAddress))
+        .forEach((entry) => setStatus(entry, 'in_pot'));
+    },
+
+    /**
+     * Closes an arena's pot once its duel has been paid out.
+     * @param {string} arenaId
+     */
+    settle(arenaId) {
+      findOpen(arenaId, 'in_pot').forEach((entry) => {
+        openEntries.delete(entry.signature);
+        setStatus(entry, 'settled');
+      });
+    },
+
+    /**
+     * Refunds a player's held bets in an arena, e.g. when they leave it.
+     * @param {string} arenaId
+     * @param {string} walletAddress
+     * @param {string} reason - One of `REFUND_REASONS`.
+     * @returns {number} The amount being refunded.
+     */
+    refundHeld(arenaId, walletAddress, reason) {
+      return refundAll(findOpen(arenaId, 'held', walletAddress), reason);
+    },
+
+    /**
+     * Refunds a single held bet, e.g. a buy-in a tournament arena turned away.
+     * @param {string} signature
+     * @param {string} reason - One of `REFUND_REASONS`.
+     * @returns {number} The amount being refunded.
+     */
+    refundBet(signature, reason) {
+      const entry = openEntries.get(signature);
+      return entry?.status === 'held' ? refundAll([entry], reason) : 0;
+    },
+
+    /**
+     * Refunds every bet in an arena's pot, e.g. when its duel is called off.
+     * @param {string} arenaId
+     * @param {string} reason - One of `REFUND_REASONS`.
+     * @returns {number} The amount being refunded.
+     */
+    refundPot(arenaId, reason) {
+      return refundAll(findOpen(arenaId, 'in_pot'), reason);
+    },
+
+    /**
+     * @param {string} arenaId
+     * @param {string} walletAddress
+     * @returns {number} The total of a player's bets still held for the arena's next duel.
+     */
+    getHeldAmount(arenaId, walletAddress) {
+      return findOpen(arenaId, 'held', walletAddress).reduce((sum, entry) => sum + entry.amount, 0);
+    },
+
+    /**
+     * @param {string} walletAddress
+     * @returns {Promise<object[]>} The player's recent refunds, newest first.
+     */
+    async getRefunds(walletAddress) {
+      return (await getRefunds(walletAddress)).map((row) => toPublicRefund(fromRow(row)));
+    },
+
+    /**
+     * Takes over the bets a previous run left open, and picks up the refunds it
+     * left in flight. Run for each arena as this instance takes it over (at
+     * startup, or from an instance that stopped or died). Held bets the arena
+     * resumes stay held; every other open bet is refunded, including the pot
+     * of a round that was interrupted.
+     * @param {(entry: EscrowEntry) => boolean} [belongs] - Which entries to take over; all by default.
+     * @param {object} [options]
+     * @param {(entry: EscrowEntry) => boolean} [options.resume] - Which held bets stay held.
+     * @returns {Promise<{ resumed: EscrowEntry[], voided: EscrowEntry[] }>} The bets held again, and
+     *   the bets of interrupted rounds being refunded.
+     */
+    async recover(belongs = () => true, { resume = () => false } = {}) {
+      const rows = await getEscrowEntries(['held', 'in_pot', 'refunding']);
+      const orphaned = rows.map(fromRow).filter((entry) => !openEntries.has(entry.signature) && belongs(entry));
+      const inFlight = orphaned.filter((entry) => entry.status === 'refunding');
+      const resumed = orphaned.filter((entry) => entry.status === 'held' && resume(entry));
+      const unpaid = orphaned.filter((entry) => entry.status !== 'refunding' && !resumed.includes(entry));
+      const voided = unpaid.filter((entry) => entry.status === 'in_pot');
+
+      resumed.forEach((entry) => openEntries.set(entry.signature, entry));
+      inFlight.forEach(sendRefund);
+      const amount = refundAll(unpaid, REFUND_REASONS.SERVER_RESTART);
+      if (orphaned.length > 0) {
+        console.log(`[ESCROW] Resuming ${resumed.length} held bets left by the previous run, refunding ${amount} tokens; ${inFlight.length} refunds still in flight`);
+      }
+      return { resumed, voided };
+    },
+  };
+};
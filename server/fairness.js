@@ -0,0 +1,75 @@
+/**
+ * @file fairness.js
+ * @description Provably fair randomness for PotShot.gg duels (commit–reveal).
+ * Before a duel the server picks a secret seed and publishes its SHA-256 hash
+ * in `duel:state`. Every fighter then adds their own entropy when they send
+ * `duel:playerReady`. All random values of the duel (the gong delay, AI hit
+ * rolls) are drawn from the seed and the combined entropy, and the seed is
+ * revealed in the POST_ROUND `game:phaseChange`, so anyone can check the hash
+ * and recompute every draw:
+ *
+ *   draw n = first 52 bits of HMAC-SHA256(key = serverSeed, message = `${entropy}:${n}`) / 2^52
+ *
+ * where `entropy` is the fighters' entropy strings in seat order, joined with
+ * ":", and n counts draws from 0 (draw 0 is always the gong delay).
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const MAX_ENTROPY_LENGTH = 64;
+const DRAW_BITS = 52;
+
+/**
+ * @function createServerSeed
+ * @returns {string} A fresh secret seed, as 64 hex characters.
+ */
+export const createServerSeed = () => randomBytes(32).toString('hex');
+
+/**
+ * @function hashSeed
+ * @param {string} serverSeed
+ * @returns {string} The public commitment to the seed: its SHA-256 hash in hex.
+ */
+export const hashSeed = (serverSeed) => createHash('sha256').update(serverSeed).digest('hex');
+
+/**
+ * @function sanitizeEntropy
+ * @description Accepts whatever a client sent as entropy, keeping at most
+ * `MAX_ENTROPY_LENGTH` alphanumeric characters.
+ * @param {unknown} entropy
+ * @returns {string} The usable entropy; empty if none was sent.
+ */
+export const sanitizeEntropy = (entropy) =>
+  typeof entropy === 'string' ? entropy.replace(/[^a-zA-Z0-9]/g, '').slice(0, MAX_ENTROPY_LENGTH) : '';
+
+/**
+ * @function getDraw
+ * @description Computes draw number `n`; see the file header for the formula.
+ * @param {string} serverSeed
+ * @param {string} entropy - Combined fighter entropy.
+ * @param {number} n - Draw index, from 0.
+ * @returns {number} A number in [0, 1).
+ */
+export const getDraw = (serverSeed, entropy, n) => {
+  const digest = createHmac('sha256', serverSeed).update(`${entropy}:${n}`).digest('hex');
+  return parseInt(digest.slice(0, DRAW_BITS / 4), 16) / 2 ** DRAW_BITS;
+};
+
+/**
+ * @function createSeededRandom
+ * @description A random source for the duel engine that walks through the
+ * draws of a seed and entropy in order.
+ * @param {string} serverSeed
+ * @param {string} entropy - Combined fighter entropy.
+ * @returns {{ random: () => number, getDrawCount: () => number }}
+ */
+export const createSeededRandom = (serverSeed, entropy) => {
+  let n = 0;
+  return {
+    random: () => getDraw(serverSeed, entropy, n++),
+    getDrawCount: () => n,
+  };
+};
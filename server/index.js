@@ -2,27 +2,65 @@
  * @file index.js
  * @description Main server file for the PotShot.gg game.
  * This file sets up the Express server, Socket.IO connection, and handles all
- * server-authoritative game logic, including lobby management, betting, and duels.
+ * server-authoritative game logic, including authentication and betting.
+ * Lobbies and duels run inside arenas (arena.js); this file routes sockets to them.
+ * Players are keyed by wallet address through sessions (sessions.js), so a
+ * refresh or a dropped connection does not create a new identity.
+ * Operators drive the game through the `/admin` namespace and routes (admin.js).
+ * Every client event is checked against the contract in shared/socketEvents.js
+ * before its handler runs.
+ * Several instances can run side by side (cluster.js): what they share lives in
+ * the store (store.js), and arena calls go to the instance that owns the arena.
+ * On SIGINT or SIGTERM the instance drains its arenas before exiting, and the
+ * next owner of each arena resumes it from its last snapshot (snapshots.js).
  */
 
 import express from "express";
 import http from "http";
 import { Server } from "socket.io";
 import "dotenv/config";
+import { listen } from "../shared/schema.js";
+import { CLIENT_EVENTS, ADMIN_CLIENT_EVENTS } from "../shared/socketEvents.js";
 import {
   getPlayerStats,
-  updatePlayerStats,
-  incrementPlayerStat,
-  logTransaction,
-  updateTransaction,
   checkSignatureExists,
   logBetTransaction,
+  getReplay,
 } from "./database.js";
 import {
   verifyWalletSignature,
   generateChallengeMessage,
   isChallengeFresh,
 } from './walletVerification.js';
+import { createArena } from './arena.js';
+import { createLatencyTracker, PING_INTERVAL } from './latency.js';
+import { createSessionRegistry, getPlayerRoom, SESSION_SWEEP_INTERVAL, SESSION_TTL } from './sessions.js';
+import { createEscrow } from './escrow.js';
+import { createPayoutQueue, PAYOUT_STALE_AFTER } from './payouts.js';
+import { store } from './store.js';
+import { createCluster } from './cluster.js';
+import { createSnapshotWriter } from './snapshots.js';
+import { createAuditLog, AUDIT_EVENTS } from './auditLog.js';
+import {
+  createAdminConsole,
+  createBanList,
+  parseAdminWallets,
+  ADMIN_ROOM,
+  ADMIN_STATE_INTERVAL,
+} from './admin.js';
+import {
+  registry as metricsRegistry,
+  METRICS_CONTENT_TYPE,
+  socketsConnected,
+  playerSessions,
+  arenaPlayers,
+  lobbyBets,
+  potTokens,
+  arenaPhaseSeconds,
+  duelIdleSeconds,
+  payoutsPending,
+  invalidPayloads,
+} from './metrics.js';
 
 const app = express();
 const server = http.createServer(app);
@@ -36,17 +74,15 @@ app.post('/internal/confirm-bet', async (req, res) => {
     return res.status(401).send('Unauthorized');
   }
 
-  const { socketId, walletAddress, amount, txSignature } = req.body;
-  const player = players[socketId];
+  // Bets are credited to the wallet's seat, whichever socket (if any) and
+  // instance its session has now
+  const { walletAddress, amount, txSignature } = req.body;
+  const arenaId = await findPlayerArena(walletAddress);
 
-  if (!player) {
+  if (!arenaId) {
     return res.status(404).send('Player not found');
   }
 
-  if (player.walletAddress !== walletAddress) {
-    return res.status(403).send('Wallet address mismatch');
-  }
-
   // REPLAY PROTECTION
   const isReplay = await checkSignatureExists(txSignature);
   if (isReplay) {
@@ -59,23 +95,95 @@ app.post('/internal/confirm-bet', async (req, res) => {
     await logBetTransaction(txSignature, walletAddress, amount);
   } catch (error) {
     console.error('Failed to log bet transaction:', error);
+    audit.record(AUDIT_EVENTS.BET_CONFIRMED, {
+      arenaId,
+      walletAddress,
+      amount,
+      ok: false,
+      error: error.message,
+      details: { signature: txSignature },
+    });
     return res.status(500).send('Internal server error');
   }
 
-  const previousTopFighterIds = getTopFighterIds();
+  // The signature is spent from here on, so a bet its arena never credits is
+  // refunded. The job shares its key with the escrow's refund of the same bet,
+  // so a bet the arena did hold is still paid back at most once.
+  try {
+    await cluster.call(arenaId, 'confirmBet', walletAddress, amount, txSignature);
+  } catch (error) {
+    console.error('Failed to credit bet:', error);
+    audit.record(AUDIT_EVENTS.BET_CONFIRMED, {
+      arenaId,
+      walletAddress,
+      amount,
+      ok: false,
+      error: error.message,
+      details: { signature: txSignature, refunded: true },
+    });
+    await payouts.enqueue({
+      roundId: `refund_${txSignature}`,
+      walletAddress,
+      amount,
+      transactionType: 'refund',
+    });
+    return res.status(500).send('Internal server error');
+  }
 
-  player.betAmount += amount;
-  player.lastBetTimestamp = Date.now();
+  res.status(200).send({ success: true });
+});
 
-  const socket = io.sockets.sockets.get(socketId);
-  if (socket) {
-    socket.emit("lobby:betVerified", { signature: txSignature });
+// Stored duel replays, for the Next.js replay route. On the memory backend the
+// game server's tables are the only place replays exist.
+app.get('/internal/replays/:id', async (req, res) => {
+  const internalSecret = process.env.INTERNAL_API_SECRET;
+  if (!internalSecret || req.headers.authorization !== `Bearer ${internalSecret}`) {
+    return res.status(401).send('Unauthorized');
   }
 
-  broadcastLobbyState();
-  checkAndManageCountdown(previousTopFighterIds);
+  const replay = await getReplay(req.params.id);
+  if (!replay) {
+    return res.status(404).send('Replay not found');
+  }
+  res.send(replay);
+});
 
-  res.status(200).send({ success: true });
+// ============================================
+// ADMIN REST API
+// ============================================
+const requireAdminSecret = (req, res, next) => {
+  const adminSecret = process.env.ADMIN_API_SECRET;
+  if (!adminSecret || req.headers.authorization !== `Bearer ${adminSecret}`) {
+    return res.status(401).send('Unauthorized');
+  }
+  next();
+};
+
+app.get('/admin/state', requireAdminSecret, async (req, res) => {
+  res.send(await adminConsole.getState());
+});
+
+// Money audit events for a round and/or a wallet, e.g. /admin/audit?roundId=round_main_1700000000000
+app.get('/admin/audit', requireAdminSecret, async (req, res) => {
+  const { roundId, walletAddress, limit } = req.query;
+  res.send(await adminConsole.queryAudit({ roundId, walletAddress, limit }));
+});
+
+app.post('/admin/actions/:action', requireAdminSecret, async (req, res) => {
+  const result = await adminConsole.perform('api', req.params.action, req.body);
+  res.status(result.ok ? 200 : 400).send(result);
+});
+
+// ============================================
+// METRICS
+// ============================================
+// Prometheus scrape endpoint; protected by METRICS_TOKEN when it is set
+app.get('/metrics', (req, res) => {
+  const metricsToken = process.env.METRICS_TOKEN;
+  if (metricsToken && req.headers.authorization !== `Bearer ${metricsToken}`) {
+    return res.status(401).send('Unauthorized');
+  }
+  res.type(METRICS_CONTENT_TYPE).send(metricsRegistry.render());
 });
 
 const CLIENT_URL = process.env.CLIENT_URL;
@@ -100,1065 +208,792 @@ const io = new Server(server, {
   allowUpgrades: true,
 });
 
-const PORT = process.env.PORT || 3001;
-let players = {};
+// Broadcasts reach the sockets of every instance through the store's adapter;
+// without one (the memory store) this is the only instance
+const adapter = await store.createAdapter();
+if (adapter) io.adapter(adapter);
 
-// Track challenge messages per socket to prevent replay attacks
-const socketChallenges = new Map(); // Map<socketId, { message: string, timestamp: number }>
+const PORT = process.env.PORT || 3001;
 
-// ============================================
-// GAME STATE
-// ============================================
-let gamePhase = "LOBBY";
-let lobbyCountdown = null;
-let lobbyCountdownIntervalId = null;
-let activeFighterIds = new Set();
-let roundPot = 0;
+// Sign-in challenges and auth rate limits live in the store, since a client may
+// reconnect to another instance. Every key expires by itself.
+const CHALLENGE_TTL = 5 * 60 * 1000;
+const AUTH_ATTEMPTS_TTL = 10 * 60 * 1000;
+const MAX_AUTH_ATTEMPTS = 10;
+const getChallengeKey = (socketId) => `challenge:${socketId}`;
+const getAuthCooldownKey = (socketId) => `auth:cooldown:${socketId}`;
+const getAuthAttemptsKey = (socketId) => `auth:attempts:${socketId}`;
 
-// ============================================
-// DUEL STATE
-// ============================================
-let duelState = "WAITING";
-let gongTime = null;
-let duelTimerIntervalId = null;
-let duelMaxDuration = 30000;
+// Round-trip times per socket, used to judge shots at the moment they were fired
+const latency = createLatencyTracker();
 
-let currentRound = 1;
-let synchronizedBarStartTime = null;
+// Authenticated players, keyed by wallet address; sockets attach to and detach from them
+const sessions = createSessionRegistry();
 
-let duelData = {};
+// Append-only record of everything that moves money, in logs/audit.jsonl and the audit_log table
+const audit = createAuditLog();
 
-/**
- * @function getBarCycleDuration
- * @description Calculates the duration of the shooting bar cycle for a given round.
- * The duration decreases exponentially with each round, making it harder.
- * @param {number} round - The current duel round number.
- * @returns {number} The duration of the bar cycle in milliseconds.
- */
-const getBarCycleDuration = (round) => {
-  const baseDuration = 2200;
-  const speedFactor = 0.65;
-  const duration = baseDuration * Math.pow(speedFactor, round - 1);
-  const minimumDuration = 500;
-  return Math.max(duration, minimumDuration);
-};
+// Every transfer out of the treasury, retried until it lands or needs an operator
+const payouts = createPayoutQueue({ audit });
 
-const BAR_TARGET_MIN = 0.60;
-const BAR_TARGET_MAX = 0.80;
-const DRAW_WINDOW = 1500;
+// Every confirmed bet until it is settled in a duel or refunded
+const escrow = createEscrow({ io, payouts });
 
-// ============================================
-// CONSTANTS
-// ============================================
-const MAIN_COUNTDOWN_SECONDS = 1;
-const OVERTIME_SECONDS = 10;
-const MIN_PLAYERS_TO_START = 2;
-const TREASURY_WALLET_ADDRESS = process.env.TREASURY_WALLET_ADDRESS;
+// The latest state of every arena this instance runs, saved for the next owner
+const snapshots = createSnapshotWriter();
 
 // ============================================
-// HELPER FUNCTIONS
+// ARENAS
 // ============================================
-const getContendersWithBets = () => Object.values(players).filter((p) => p.betAmount > 0);
-const getTopFighterIds = () => getContendersWithBets().sort((a, b) => b.betAmount - a.betAmount || (a.lastBetTimestamp || 0) - (b.lastBetTimestamp || 0)).slice(0, MIN_PLAYERS_TO_START).map((p) => p.id);
-const broadcastLobbyState = () => io.emit("lobby:state", players);
-const broadcastLobbyCountdown = () => io.emit("lobby:countdown", lobbyCountdown);
-
-const stopLobbyCountdown = () => {
-  if (lobbyCountdownIntervalId) {
-    clearInterval(lobbyCountdownIntervalId);
-    lobbyCountdownIntervalId = null;
-    lobbyCountdown = null;
-    broadcastLobbyCountdown();
-  }
+const DEFAULT_ARENAS = [
+  { id: "main", name: "MAIN STREET" },
+  { id: "saloon", name: "SALOON", fighterCount: 4, ruleset: "easy" },
+  { id: "canyon", name: "CANYON", bestOf: 3, ruleset: "hardcore" },
+  { id: "bracket", name: "BRACKET", mode: "tournament", bracketSize: 4, buyIn: 5000, payoutShares: [70, 30] },
+];
+const DEFAULT_ARENA_ID = DEFAULT_ARENAS[0].id;
+
+// Every instance creates every arena, but only an arena's owner runs it
+const arenas = new Map(); // Map<arenaId, Arena>
+const socketArenas = new Map(); // Map<socketId, arenaId>, for this instance's sockets
+
+// The players seated in each arena and each arena's summary, as its owner last published them
+const ARENA_SUMMARIES_KEY = 'arenas:summaries';
+const getArenaSeatsKey = (arenaId) => `arena:${arenaId}:seats`;
+
+const getArenaSummaries = async () => {
+  const published = await store.hashGetAll(ARENA_SUMMARIES_KEY);
+  return Array.from(arenas.values()).map((arena) => published[arena.id] ?? arena.getSummary());
 };
-
-/**
- * @function startDuel
- * @description Initializes the state for a new duel between the top two bidders.
- * Sets up player positions, health, and duel-specific data.
- */
-const startDuel = () => {
-  duelState = "WAITING";
-  gongTime = null;
-  duelData = {};
-  currentRound = 1;
-  synchronizedBarStartTime = null;
-
-  const fighterIds = Array.from(activeFighterIds);
-  fighterIds.forEach((id, index) => {
-    const player = players[id];
-    if (player) {
-      player.position = [0, 0, index === 0 ? -3 : 3];
-      player.rotation = index === 0 ? 0 : Math.PI;
-      player.health = 1;
-    }
-
-    duelData[id] = {
-      hasDrawn: false,
-      drawTime: null,
-      hasFired: false,
-      shotResult: null,
-      isAI: false,
-      aiShotAttempted: false,
-      isReady: false,
-    };
-  });
-
-  io.emit("duel:state", {
-    state: "WAITING",
-    fighters: fighterIds.map(id => ({
-      id: players[id].id,
-      name: players[id].name,
-      position: players[id].position,
-      rotation: players[id].rotation,
-      health: players[id].health
-    }))
-  });
+const publishArenaSummary = async (arenaId) => {
+  await store.hashSet(ARENA_SUMMARIES_KEY, arenaId, arenas.get(arenaId).getSummary());
+  io.emit("arena:list", await getArenaSummaries());
 };
+const logStoreError = (error) => console.error('[STORE]', error.message);
+
+for (const config of DEFAULT_ARENAS) {
+  const seatsKey = getArenaSeatsKey(config.id);
+  arenas.set(config.id, createArena({
+    ...config,
+    io,
+    escrow,
+    payouts,
+    audit,
+    onChange: () => publishArenaSummary(config.id).catch(logStoreError),
+    onSeatChange: (playerId, seated) => {
+      const update = seated ? store.hashSet(seatsKey, playerId, true) : store.hashDelete(seatsKey, playerId);
+      update.catch(logStoreError);
+    },
+    onSnapshot: (snapshot) => snapshots.write(snapshot),
+  }));
+}
 
-/**
- * @function sendGong
- * @description Initiates the aiming phase of the duel.
- * Emits the 'gong' event to clients and starts the synchronized bar update loop.
- */
-const sendGong = () => {
-  duelState = "AIM_PHASE";
-  gongTime = Date.now();
-  synchronizedBarStartTime = Date.now();
-
-  const fighterIds = Array.from(activeFighterIds);
-  fighterIds.forEach(id => {
-    if (duelData[id]) {
-      duelData[id].hasDrawn = true;
-      duelData[id].drawTime = 0;
-    }
-  });
+const cluster = createCluster({
+  io,
+  store,
+  arenas,
+  clustered: Boolean(adapter),
+  onArenaAcquired: (arenaId) => takeOverArena(arenaId),
+  onLeadership: () => takeOverLeadership(),
+  onLeaseLost: (lease) => {
+    // Another instance now runs what this one was running; carrying on would run it twice
+    console.error(`FATAL: Lost ${lease} to another instance`);
+    process.exit(1);
+  },
+});
 
-  io.emit("duel:gong", {
-    barCycleDuration: getBarCycleDuration(currentRound)
-  });
+const getOwnedArenas = () => Array.from(arenas.values()).filter((arena) => cluster.ownsArena(arena.id));
 
-  io.emit("duel:aimPhase", {
-    startTime: synchronizedBarStartTime,
-    barCycleDuration: getBarCycleDuration(currentRound)
+// Live state read on every /metrics scrape; each instance reports the arenas it runs
+socketsConnected.setCollector((gauge) => gauge.set({}, io.engine.clientsCount));
+playerSessions.setCollector((gauge) => {
+  const { attached, detached } = sessions.getCounts();
+  gauge.set({ state: 'attached' }, attached);
+  gauge.set({ state: 'detached' }, detached);
+});
+payoutsPending.setCollector((gauge) => gauge.set({}, payouts.getPendingCount()));
+arenaPlayers.setCollector((gauge) => {
+  gauge.reset();
+  getOwnedArenas().forEach((arena) => gauge.set({ arena: arena.id }, arena.getSummary().playerCount));
+});
+lobbyBets.setCollector((gauge) => {
+  gauge.reset();
+  getOwnedArenas().forEach((arena) => gauge.set({ arena: arena.id }, arena.getSummary().contenderCount));
+});
+potTokens.setCollector((gauge) => {
+  gauge.reset();
+  getOwnedArenas().forEach((arena) => gauge.set({ arena: arena.id }, arena.getSummary().pot));
+});
+arenaPhaseSeconds.setCollector((gauge) => {
+  gauge.reset();
+  getOwnedArenas().forEach((arena) => {
+    const { phase, phaseSeconds } = arena.getTimings();
+    gauge.set({ arena: arena.id, phase }, phaseSeconds);
   });
-
-  fighterIds.forEach(id => {
-    if (duelData[id]?.isAI) {
-      const aiDrawDelay = 200 + Math.random() * 300;
-      setTimeout(() => {
-      }, aiDrawDelay);
-    }
+});
+duelIdleSeconds.setCollector((gauge) => {
+  gauge.reset();
+  getOwnedArenas().forEach((arena) => {
+    const { duel } = arena.getTimings();
+    if (duel) gauge.set({ arena: arena.id, state: duel.state }, duel.idleSeconds);
   });
+});
 
-  startBarUpdateLoop();
-
-  if (duelTimerIntervalId) {
-    clearTimeout(duelTimerIntervalId);
-  }
-  duelTimerIntervalId = setTimeout(() => {
-    endDuel("TIMEOUT");
-  }, duelMaxDuration);
+// ============================================
+// SESSIONS ACROSS INSTANCES
+// ============================================
+// A session lives on the instance its socket connected to. Its presence in the
+// store lets the other instances refuse a second sign-in, take the session over
+// when its client reconnects to them, and tell when the instance holding a
+// seated player's session died. The session sweep keeps it alive.
+const SESSION_PRESENCE_TTL = 3 * SESSION_SWEEP_INTERVAL;
+const getSessionKey = (walletAddress) => `session:${walletAddress}`;
+const getSessionTokenKey = (token) => `session-token:${token}`;
+
+const getPresence = (walletAddress) => store.get(getSessionKey(walletAddress));
+
+const savePresence = async (session, { ttl = SESSION_PRESENCE_TTL } = {}) => {
+  const { walletAddress, token, socketId } = session;
+  const presence = { instanceId: cluster.instanceId, token, attached: Boolean(socketId) };
+  await store.set(getSessionKey(walletAddress), presence, { ttl });
+  await store.set(getSessionTokenKey(token), walletAddress, { ttl });
 };
 
-let barUpdateIntervalId = null;
-
 /**
- * @function startBarUpdateLoop
- * @description Starts a loop that broadcasts the synchronized position of the shooting bar to all clients.
- * Also handles AI shooting logic and auto-miss conditions.
+ * @function openSession
+ * @description Opens a session on this instance, closing the copy another
+ * instance holds if there is one.
+ * @param {string} walletAddress
+ * @param {string} socketId
+ * @param {object|null} presence - The wallet's presence before this.
+ * @param {string} [token] - Keeps the session's token instead of issuing a new one.
+ * @returns {Promise<import('./sessions.js').Session>}
  */
-const startBarUpdateLoop = () => {
-  if (barUpdateIntervalId) {
-    clearInterval(barUpdateIntervalId);
+const openSession = async (walletAddress, socketId, presence, token) => {
+  if (presence && presence.instanceId !== cluster.instanceId) {
+    cluster.publish("cluster:closeSession", walletAddress);
   }
-
-  barUpdateIntervalId = setInterval(() => {
-    if (duelState !== "AIM_PHASE" || !synchronizedBarStartTime) {
-      clearInterval(barUpdateIntervalId);
-      barUpdateIntervalId = null;
-      return;
-    }
-
-    const now = Date.now();
-    const elapsed = now - synchronizedBarStartTime;
-    const cycleDuration = getBarCycleDuration(currentRound);
-    const cycles = elapsed / cycleDuration;
-    const position = cycles % 1;
-
-    io.emit("duel:barUpdate", { position });
-
-    const fighterIds = Array.from(activeFighterIds);
-
-    fighterIds.forEach(id => {
-      const playerData = duelData[id];
-      if (playerData?.isAI && !playerData.hasFired && !playerData.aiShotAttempted) {
-        if (position >= BAR_TARGET_MIN) {
-          playerData.aiShotAttempted = true;
-
-          if (Math.random() < 0.8) {
-            handleShoot(id);
-          } else {
-          }
-        }
-      }
-    });
-
-    if (position > BAR_TARGET_MAX) {
-      fighterIds.forEach(id => {
-        const playerData = duelData[id];
-        if (playerData && !playerData.hasFired) {
-          playerData.hasFired = true;
-          playerData.shotResult = 'miss';
-          io.emit("duel:shot", {
-            shooterId: id,
-            hit: false,
-            autoMiss: true
-          });
-        }
-      });
-    }
-
-    const bothFired = fighterIds.every(id => duelData[id]?.hasFired);
-    if (bothFired) {
-      evaluateRoundResults();
-    }
-
-  }, 1000 / 60);
+  const session = sessions.open(walletAddress, socketId, token);
+  await savePresence(session);
+  return session;
 };
 
 /**
- * @function handleShoot
- * @description Processes a 'shoot' action from a player.
- * Validates the shot, determines if it was a hit or miss, and broadcasts the result.
- * @param {string} socketId - The socket ID of the player who shot.
+ * @function resumeSession
+ * @description Attaches a socket to the session its token belongs to, on this
+ * instance or moved over from the one the client was connected to.
+ * @param {string} token
+ * @param {string} socketId
+ * @returns {Promise<import('./sessions.js').Session|null>} Null if the token is unknown or another socket holds the session.
  */
-const handleShoot = (socketId) => {
-  const player = players[socketId];
-  const playerData = duelData[socketId];
-
-  if (!player || !playerData || !activeFighterIds.has(socketId)) {
-    return;
+const resumeSession = async (token, socketId) => {
+  const session = sessions.resume(token, socketId);
+  if (session) {
+    await savePresence(session);
+    return session;
   }
+  if (typeof token !== 'string') return null;
 
-  if (!playerData.hasDrawn) {
-    return;
-  }
-
-  if (duelState !== "AIM_PHASE") {
-    return;
-  }
-
-  if (playerData.isPickingUpGun) {
-    return;
-  }
-
-  if (playerData.hasFired) {
-    return;
-  }
-
-  const now = Date.now();
-  const elapsed = now - synchronizedBarStartTime;
-  const cycleDuration = getBarCycleDuration(currentRound);
-  const cycles = elapsed / cycleDuration;
-  const barPosition = cycles % 1;
-
-  const isHit = barPosition >= BAR_TARGET_MIN && barPosition <= BAR_TARGET_MAX;
-
-  playerData.hasFired = true;
-  playerData.shotResult = isHit ? 'hit' : 'miss';
+  const walletAddress = await store.get(getSessionTokenKey(token));
+  const presence = walletAddress && await getPresence(walletAddress);
+  if (!presence || presence.token !== token || presence.attached) return null;
+  return openSession(walletAddress, socketId, presence, token);
+};
 
-  io.emit("duel:shot", {
-    shooterId: socketId,
-    hit: isHit,
-    barPosition
-  });
+// ============================================
+// OPERATORS
+// ============================================
+const ADMIN_WALLETS = parseAdminWallets(process.env.ADMIN_WALLETS);
+const bans = createBanList({
+  onChange: (walletAddress, banned) => cluster.publish("cluster:banChanged", walletAddress, banned),
+});
+bans.load();
 
-  const fighterIds = Array.from(activeFighterIds);
-  const bothFired = fighterIds.every(id => duelData[id]?.hasFired);
+const getSocketPlayerId = (socketId) => sessions.getBySocket(socketId)?.walletAddress ?? null;
 
-  if (bothFired) {
-    evaluateRoundResults();
+/**
+ * @function findPlayerArena
+ * @param {string} playerId
+ * @returns {Promise<string|null>} The arena the player is seated in, on any instance.
+ */
+const findPlayerArena = async (playerId) => {
+  for (const arenaId of arenas.keys()) {
+    if (await store.hashGet(getArenaSeatsKey(arenaId), playerId)) return arenaId;
   }
+  return null;
 };
 
 /**
- * @function evaluateRoundResults
- * @description Evaluates the results of a duel round after both players have acted.
- * Determines the outcome (win, loss, dodge, miss) and triggers the next state.
+ * @function callPlayerArena
+ * @description Calls an arena method that takes only the player, in the arena
+ * the player is seated in.
+ * @returns {Promise<string|null>} The arena, or null if the player is not seated.
  */
-const evaluateRoundResults = () => {
-  if (duelState !== "AIM_PHASE") return;
-  duelState = "EVALUATING";
-
-  if (barUpdateIntervalId) {
-    clearInterval(barUpdateIntervalId);
-    barUpdateIntervalId = null;
-  }
-
-  const fighterIds = Array.from(activeFighterIds);
-  const [p1Id, p2Id] = fighterIds;
-  const p1Result = duelData[p1Id]?.shotResult;
-  const p2Result = duelData[p2Id]?.shotResult;
-
-  let outcome = null;
-
-  if (p1Result === 'forfeit') {
-    outcome = (p2Result === 'hit') ? 'p2_wins' : 'advance';
-  } else if (p2Result === 'forfeit') {
-    outcome = (p1Result === 'hit') ? 'p1_wins' : 'advance';
-  }
-  else if (p1Result === 'hit' && p2Result === 'hit') {
-    outcome = 'dodge';
-  } else if (p1Result === 'hit' && p2Result === 'miss') {
-    outcome = 'p1_wins';
-  } else if (p1Result === 'miss' && p2Result === 'hit') {
-    outcome = 'p2_wins';
-  } else if (p1Result === 'miss' && p2Result === 'miss') {
-    outcome = 'advance_miss';
-  }
-
-  switch (outcome) {
-    case 'p1_wins':
-      players[p2Id].health = 0;
-
-      io.emit("duel:roundEnd", {
-        outcome: 'hit',
-        winnerId: p1Id,
-        loserId: p2Id,
-        round: currentRound
-      });
-
-      setTimeout(() => endDuel("WINNER", players[p1Id]), 800);
-      break;
-
-    case 'p2_wins':
-      players[p1Id].health = 0;
-
-      io.emit("duel:roundEnd", {
-        outcome: 'hit',
-        winnerId: p2Id,
-        loserId: p1Id,
-        round: currentRound
-      });
-
-      setTimeout(() => endDuel("WINNER", players[p2Id]), 800);
-      break;
-
-    case 'dodge':
-      io.emit("duel:roundEnd", {
-        outcome: 'dodge',
-        round: currentRound
-      });
-
-      setTimeout(advanceRound, 1200);
-      break;
-
-    case 'advance_miss':
-      io.emit("duel:roundEnd", {
-        outcome: 'miss',
-        round: currentRound
-      });
-
-      setTimeout(advanceRound, 1200);
-      break;
-
-    case 'advance':
-      io.emit("duel:roundEnd", {
-        outcome: 'miss',
-        round: currentRound
-      });
-
-      setTimeout(advanceRound, 1200);
-      break;
-  }
+const callPlayerArena = async (playerId, method) => {
+  const arenaId = await findPlayerArena(playerId);
+  if (arenaId) await cluster.call(arenaId, method, playerId);
+  return arenaId;
 };
 
 /**
- * @function advanceRound
- * @description Advances the duel to the next round.
- * Resets round-specific state and notifies clients.
+ * @function callSocketArena
+ * @description Calls a method of the arena a socket is in. Event handlers have
+ * nobody to report a failed relay to, so it is logged and resolves to null.
  */
-const advanceRound = () => {
-  currentRound++;
-
-  const fighterIds = Array.from(activeFighterIds);
-  fighterIds.forEach(id => {
-    if (duelData[id]) {
-      duelData[id].hasFired = false;
-      duelData[id].shotResult = null;
-      duelData[id].aiShotAttempted = false;
-    }
-  });
-
-  io.emit("duel:newRound", {
-    round: currentRound,
-    barCycleDuration: getBarCycleDuration(currentRound),
-    message: `ROUND ${currentRound}!`
+const callSocketArena = (socketId, method, ...args) => {
+  const arenaId = socketArenas.get(socketId);
+  if (!arenaId) return Promise.resolve(null);
+  return cluster.call(arenaId, method, ...args).catch((error) => {
+    console.error(`[CLUSTER] ${method} in ${arenaId} failed: ${error.message}`);
+    return null;
   });
+};
 
-  duelState = "AIM_PHASE";
-  synchronizedBarStartTime = Date.now();
-  startBarUpdateLoop();
+/**
+ * @function kickWallet
+ * @description Takes a wallet out of play: its session is closed on every
+ * instance, its sockets are told why and disconnected, and it leaves its arena
+ * (forfeiting a duel, with its held bets refunded).
+ * @param {string} walletAddress
+ * @returns {Promise<boolean>} False if the wallet was not signed in.
+ */
+const kickWallet = async (walletAddress) => {
+  const presence = await getPresence(walletAddress);
+  const session = sessions.close(walletAddress);
+  cluster.publish("cluster:closeSession", walletAddress);
+  await store.delete(getSessionKey(walletAddress));
+
+  const room = getPlayerRoom(walletAddress);
+  io.to(room).emit("session:kicked", { banned: bans.has(walletAddress) });
+  io.in(room).disconnectSockets(true);
+
+  const arenaId = await callPlayerArena(walletAddress, "removePlayer");
+  return Boolean(arenaId || presence || session);
 };
 
+const adminConsole = createAdminConsole({
+  arenaIds: Array.from(arenas.keys()),
+  callArena: cluster.call,
+  bans,
+  kickWallet,
+  audit,
+});
+
 /**
- * @function endDuel
- * @description Ends the current duel.
- * @param {string} reason - The reason the duel ended (e.g., "WINNER", "TIMEOUT").
- * @param {object|null} winner - The winning player object, if any.
+ * @function enterArena
+ * @description Moves a socket (and its player, if authenticated) into an arena's room.
+ * @param {import('socket.io').Socket} socket - The socket to move.
+ * @param {string} arenaId - The destination arena.
  */
-const endDuel = (reason, winner = null) => {
-  if (duelTimerIntervalId) {
-    clearTimeout(duelTimerIntervalId);
-    duelTimerIntervalId = null;
-  }
-  if (barUpdateIntervalId) {
-    clearInterval(barUpdateIntervalId);
-    barUpdateIntervalId = null;
+const enterArena = async (socket, arenaId) => {
+  const previousArenaId = socketArenas.get(socket.id);
+  const playerId = getSocketPlayerId(socket.id);
+  let player = null;
+
+  if (previousArenaId) {
+    player = playerId && await cluster.call(previousArenaId, "removePlayer", playerId);
+    socket.leave(arenas.get(previousArenaId).room);
   }
 
-  duelState = "FINISHED";
-  synchronizedBarStartTime = null;
+  socketArenas.set(socket.id, arenaId);
+  socket.join(arenas.get(arenaId).room);
+  socket.emit("arena:joined", { arenaId });
+  await cluster.call(arenaId, "syncSocket", socket.id);
 
-  let isSplit = false;
-
-  if (reason === "TIMEOUT") {
-    isSplit = true;
+  if (player) {
+    await cluster.call(arenaId, "addPlayer", player);
   }
-
-  endRound(winner, isSplit);
 };
 
 /**
- * @function finalizeAuction
- * @description Finalizes the betting auction and starts the duel.
- * Calculates the total pot and sets the initial state for the duel.
+ * @function seatSession
+ * @description Puts the player of a session a socket just attached to back in
+ * play. A player still seated somewhere (in a lobby, or in a duel whose seat is
+ * being held) is picked up where they were; otherwise a new player record is
+ * created in the socket's current arena.
+ * @param {import('socket.io').Socket} socket
+ * @param {import('./sessions.js').Session} session
  */
-const finalizeAuction = () => {
-  stopLobbyCountdown();
-  gamePhase = "IN_ROUND";
-  const fighterIds = getTopFighterIds();
-  activeFighterIds.clear();
-  const finalFighters = [];
-
-  roundPot = Object.values(players).reduce((sum, player) => sum + player.betAmount, 0);
-
-  for (const id of fighterIds) {
-    const player = players[id];
-    if (player) {
-      activeFighterIds.add(player.id);
+const seatSession = async (socket, session) => {
+  const { walletAddress, token } = session;
+  socket.join(getPlayerRoom(walletAddress));
+
+  const playerArenaId = await findPlayerArena(walletAddress);
+  const seatedPlayer = playerArenaId && await cluster.call(playerArenaId, "attachPlayer", walletAddress);
+  if (seatedPlayer) {
+    if (socketArenas.get(socket.id) !== playerArenaId) {
+      await enterArena(socket, playerArenaId);
+    } else {
+      await cluster.call(playerArenaId, "syncSocket", socket.id);
     }
+    socket.emit("lobby:joined", { name: seatedPlayer.name, playerId: walletAddress, sessionToken: token, resumed: true });
+    socket.emit("escrow:refunds", await escrow.getRefunds(walletAddress));
+    return;
   }
 
-  fighterIds.forEach((id, index) => {
-    const player = players[id];
-    if (player) {
-      player.position = [0, 0, index === 0 ? -3 : 3];
-      player.rotation = index === 0 ? 0 : Math.PI;
-      player.health = 1;
-      finalFighters.push(player);
-    }
-  });
+  const playerData = await getPlayerStats(walletAddress);
+  if (!playerData) {
+    return socket.emit("lobby:joinFailed", "Failed to fetch player data");
+  }
 
-  getContendersWithBets().forEach(p => {
-    try {
-      incrementPlayerStat(p.walletAddress, "total_games_played", 1);
-      if (!activeFighterIds.has(p.id)) {
-        incrementPlayerStat(p.walletAddress, "net_winnings", -p.betAmount);
-      }
-    } catch (error) {
+  let playerName = playerData.username || "unknown player";
+
+  const player = {
+    id: walletAddress,
+    walletAddress: walletAddress,
+    name: playerName,
+    role: "CONTENDER",
+    betAmount: 0,
+    lastBetTimestamp: null,
+    position: [0, 0, 0],
+    rotation: 0,
+    stats: {
+      kills: playerData.kills,
+      deaths: playerData.deaths,
+      wins: playerData.wins,
+      totalGamesPlayed: playerData.total_games_played,
+      netWinnings: playerData.net_winnings
     }
-  });
+  };
 
-  io.emit("game:phaseChange", {
-    phase: "IN_ROUND",
-    fighters: finalFighters,
-    roundPot: roundPot
-  });
+  const arenaId = socketArenas.get(socket.id);
+  if (!arenaId) return;
 
-  broadcastLobbyState();
-  startDuel();
+  await cluster.call(arenaId, "addPlayer", player);
+  socket.emit("lobby:joined", { name: player.name, playerId: walletAddress, sessionToken: token });
+  socket.emit("escrow:refunds", await escrow.getRefunds(walletAddress));
 };
 
-const startLobbyCountdown = (duration) => {
-  stopLobbyCountdown();
-  lobbyCountdown = duration;
-  lobbyCountdownIntervalId = setInterval(() => {
-    broadcastLobbyCountdown();
-    if (lobbyCountdown > 0) {
-      lobbyCountdown--;
-    } else {
-      finalizeAuction();
-    }
-  }, 1000);
-};
-
-const checkAndManageCountdown = (previousTopFighterIds = []) => {
-  const contendersWithBets = getContendersWithBets();
-  if (contendersWithBets.length < MIN_PLAYERS_TO_START) {
-    stopLobbyCountdown();
-  } else {
-    if (!lobbyCountdownIntervalId) {
-      startLobbyCountdown(MAIN_COUNTDOWN_SECONDS);
-    } else {
-      const currentTopFighterIds = getTopFighterIds();
-      if (JSON.stringify(previousTopFighterIds) !== JSON.stringify(currentTopFighterIds)) {
-        lobbyCountdown += OVERTIME_SECONDS;
-      }
-    }
-  }
-};
-
-async function handlePayout(walletAddress, amount, roundId, transactionType, payoutTxId) {
-  const VERCEL_API_URL = process.env.VERCEL_API_URL;
-  const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
+// ============================================
+// OWNERSHIP
+// ============================================
 
-  const response = await fetch(`${VERCEL_API_URL}/api/payout`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${INTERNAL_API_SECRET}`
-    },
-    body: JSON.stringify({ walletAddress, amount })
+/**
+ * @function takeOverArena
+ * @description Starts an arena this instance just became the owner of (every
+ * arena, at startup on a single instance). It resumes from the last snapshot
+ * its previous owner saved: the lobby's players are seated again with the bets
+ * they still have held, and a round that was being fought is voided, its pot
+ * refunded. Other bets left open are refunded, and the players connected to
+ * any instance are seated again.
+ * @param {string} arenaId
+ */
+const takeOverArena = async (arenaId) => {
+  await store.delete(getArenaSeatsKey(arenaId));
+  const snapshot = await snapshots.load(arenaId);
+  const snapshotWallets = new Set(snapshot?.players.map((p) => p.walletAddress));
+  const { voided } = await escrow.recover((entry) => entry.arenaId === arenaId, {
+    resume: (entry) => snapshotWallets.has(entry.walletAddress),
   });
 
-  if (!response.ok) {
-    throw new Error(`Payout API failed: ${await response.text()}`);
+  if (snapshot) {
+    const restoredIds = arenas.get(arenaId).restore(snapshot, { voided });
+    console.log(`[SNAPSHOT] Resumed arena ${arenaId} from ${new Date(snapshot.takenAt).toISOString()} with ${restoredIds.length} players`);
+
+    // Players whose session died with the previous run get SESSION_TTL to sign back in
+    const presence = { instanceId: cluster.instanceId, token: null, attached: false };
+    await Promise.all(restoredIds.map((playerId) =>
+      store.setIfAbsent(getSessionKey(playerId), presence, { ttl: SESSION_TTL })));
   }
 
-  const payoutResult = await response.json();
-  const payoutSignature = payoutResult.signature;
+  await publishArenaSummary(arenaId);
+  reseatArena(arenaId);
+  cluster.publish("cluster:arenaRestarted", arenaId);
+};
 
-  await updateTransaction(payoutTxId, {
-    status: 'confirmed',
-    signature: payoutSignature,
-    confirmed_at: new Date()
+/**
+ * @function reseatArena
+ * @description Seats this instance's signed-in sockets in an arena that
+ * restarted under a new owner, and resyncs the others.
+ * @param {string} arenaId
+ */
+const reseatArena = (arenaId) => {
+  socketArenas.forEach((socketArenaId, socketId) => {
+    const socket = io.sockets.sockets.get(socketId);
+    if (socketArenaId !== arenaId || !socket) return;
+
+    const session = sessions.getBySocket(socketId);
+    const reseat = session ? seatSession(socket, session) : cluster.call(arenaId, "syncSocket", socketId);
+    reseat.catch((error) => console.error(`[CLUSTER] Reseating ${socketId} in ${arenaId} failed:`, error));
   });
-}
+};
 
 /**
- * @function endRound
- * @description Handles the end of a round, including payouts and state reset.
- * @param {object|null} winner - The winning player object.
- * @param {boolean} isSplitPot - Whether the pot should be split.
+ * @function takeOverLeadership
+ * @description Picks up what no arena owner does: payouts and refunds left
+ * unfinished by instances that stopped, and bets left in arenas that no longer
+ * exist. While other instances may be running, only payouts overdue by
+ * `PAYOUT_STALE_AFTER` count as left behind.
  */
-const endRound = async (winner, isSplitPot = false) => {
-  gamePhase = "POST_ROUND";
-  const roundId = `round_${Date.now()}`;
+const takeOverLeadership = async () => {
+  await payouts.recover({ staleAfter: cluster.clustered ? PAYOUT_STALE_AFTER : 0 });
+  await escrow.recover((entry) => !arenas.has(entry.arenaId));
+};
 
-  const protocolFee = Math.floor(roundPot * 0.1);
+cluster.subscribe("cluster:closeSession", (walletAddress) => sessions.close(walletAddress));
+cluster.subscribe("cluster:arenaRestarted", reseatArena);
+cluster.subscribe("cluster:banChanged", (walletAddress, banned) => bans.mirror(walletAddress, banned));
 
-  if (isSplitPot) {
-    const splitAmount = Math.floor((roundPot * 0.9) / 2);
+/**
+ * @function rejectInvalid
+ * @description Reports a client event dropped for breaking the event contract:
+ * it is logged and counted, and the sender gets `socket:rejected` so a UI
+ * waiting on an answer can give up.
+ * @param {import('socket.io').Socket} socket
+ */
+const rejectInvalid = (socket) => (event, error) => {
+  console.warn(`[SOCKET] Rejected ${event} from ${socket.id}: ${error}`);
+  invalidPayloads.inc({ event });
+  socket.emit("socket:rejected", { event, error });
+};
 
-    try {
-      await logTransaction({
-        round_id: roundId,
-        transaction_type: 'protocol_fee',
-        recipient_wallet: TREASURY_WALLET_ADDRESS,
-        amount: protocolFee,
-        status: 'confirmed',
-        signature: 'N/A',
-        confirmed_at: new Date()
-      });
-    } catch (error) {
-    }
+/**
+ * @function onClientEvent
+ * @description Subscribes to a player event; the handler only sees payloads
+ * that match `CLIENT_EVENTS`.
+ * @param {import('socket.io').Socket} socket
+ * @param {keyof typeof CLIENT_EVENTS} event
+ * @param {Function} handler
+ */
+const onClientEvent = (socket, event, handler) =>
+  listen(socket, CLIENT_EVENTS, event, handler, rejectInvalid(socket));
 
-    const fighterIds = Array.from(activeFighterIds);
-    for (const fighterId of fighterIds) {
-      const fighter = players[fighterId];
-      if (!fighter || splitAmount <= 0) continue;
-
-      let payoutTxId = null;
-      try {
-        payoutTxId = await logTransaction({
-          round_id: roundId,
-          transaction_type: 'payout_split',
-          recipient_wallet: fighter.walletAddress,
-          amount: splitAmount,
-          status: 'pending'
-        });
+const BET_REQUEST_COOLDOWN = 3000;
+const MIN_BET = 1000;
+const MAX_BET = 1000000000;
 
-        await handlePayout(fighter.walletAddress, splitAmount, roundId, 'payout_split', payoutTxId);
+io.on("connection", (socket) => {
+  const sendPing = () => socket.emit("latency:ping", { seq: latency.recordPing(socket.id) });
+  sendPing();
+  const pingIntervalId = setInterval(sendPing, PING_INTERVAL);
 
-        const netGain = splitAmount - fighter.betAmount;
-        incrementPlayerStat(fighter.walletAddress, "net_winnings", netGain);
+  onClientEvent(socket, "latency:pong", ({ seq }) => {
+    latency.recordPong(socket.id, seq);
+  });
 
-      } catch (error) {
-        if (payoutTxId) {
-          await updateTransaction(payoutTxId, {
-            status: 'failed',
-            error_message: error.message
-          });
-        }
-      }
-    }
+  // NTP-style clock sync: the client works out its offset from these timestamps.
+  onClientEvent(socket, "time:sync", ({ clientSentAt }) => {
+    const serverReceivedAt = Date.now();
+    socket.emit("time:sync", { clientSentAt, serverReceivedAt, serverSentAt: Date.now() });
+  });
 
-    io.emit("game:phaseChange", {
-      phase: "POST_ROUND",
-      winnerData: {
-        name: "DRAW - POT SPLIT",
-        pot: splitAmount * 2,
-        isSplit: true
-      },
-    });
+  getArenaSummaries()
+    .then((summaries) => socket.emit("arena:list", summaries))
+    .catch(logStoreError);
+  enterArena(socket, DEFAULT_ARENA_ID).catch((error) => console.error('Entering the default arena failed:', error));
 
-  } else {
-    const winnerPayout = Math.floor(roundPot * 0.9);
+  onClientEvent(socket, "arena:join", async (arenaId) => {
+    const currentArenaId = socketArenas.get(socket.id);
+    if (!arenas.has(arenaId) || arenaId === currentArenaId) return;
 
     try {
-      await logTransaction({
-        round_id: roundId,
-        transaction_type: 'protocol_fee',
-        recipient_wallet: TREASURY_WALLET_ADDRESS,
-        amount: protocolFee,
-        status: 'confirmed',
-        signature: 'N/A',
-        confirmed_at: new Date()
-      });
+      const playerId = getSocketPlayerId(socket.id);
+      if (playerId && currentArenaId && !(await cluster.call(currentArenaId, "canLeave", playerId))) {
+        return socket.emit("arena:joinFailed", "You have a bet or a duel in progress in this arena");
+      }
+
+      await enterArena(socket, arenaId);
     } catch (error) {
+      console.error('Arena join error:', error);
+      socket.emit("arena:joinFailed", "That arena is not available right now");
     }
+  });
 
-    if (winner && winnerPayout > 0) {
-      let payoutTxId = null;
-      try {
-        payoutTxId = await logTransaction({
-          round_id: roundId,
-          transaction_type: 'payout',
-          recipient_wallet: winner.walletAddress,
-          amount: winnerPayout,
-          status: 'pending'
+  onClientEvent(socket, "player:requestChallenge", async () => {
+    try {
+      // The cooldown key holds the time of the last attempt
+      const now = Date.now();
+      const cooldownKey = getAuthCooldownKey(socket.id);
+      if (!(await store.setIfAbsent(cooldownKey, now, { ttl: BET_REQUEST_COOLDOWN }))) {
+        const timeSinceLastAttempt = now - ((await store.get(cooldownKey)) ?? now);
+        socket.emit("auth:rateLimited", {
+          message: `Wait ${Math.ceil((BET_REQUEST_COOLDOWN - timeSinceLastAttempt) / 1000)}s`
         });
-
-        await handlePayout(winner.walletAddress, winnerPayout, roundId, 'payout', payoutTxId);
-
-      } catch (error) {
-        if (payoutTxId) {
-          await updateTransaction(payoutTxId, {
-            status: 'failed',
-            error_message: error.message
-          });
-        }
+        return;
       }
-    }
 
-    if (winner) {
-      try {
-        incrementPlayerStat(winner.walletAddress, "wins", 1);
-        const netGain = winnerPayout - winner.betAmount;
-        incrementPlayerStat(winner.walletAddress, "net_winnings", netGain);
-      } catch (error) {
+      const authAttemptCount = await store.increment(getAuthAttemptsKey(socket.id), { ttl: AUTH_ATTEMPTS_TTL });
+      if (authAttemptCount > MAX_AUTH_ATTEMPTS) {
+        socket.disconnect(true);
+        return;
       }
+
+      const message = generateChallengeMessage(socket.id);
+      await store.set(getChallengeKey(socket.id), message, { ttl: CHALLENGE_TTL });
+
+      socket.emit("player:authChallenge", { message });
+    } catch (error) {
+      console.error('Challenge error:', error);
+      socket.emit("lobby:joinFailed", "Authentication failed");
     }
+  });
 
-    const fighterIdsAtStart = new Set(activeFighterIds);
-    fighterIdsAtStart.forEach((fighterId) => {
-      const fighter = Object.values(players).find(p => p.id === fighterId);
-      if (fighter && (!winner || fighter.id !== winner.id)) {
-        try {
-          incrementPlayerStat(fighter.walletAddress, "deaths", 1);
-          incrementPlayerStat(fighter.walletAddress, "net_winnings", -fighter.betAmount);
-        } catch (error) {
-        }
+  onClientEvent(socket, "player:joinWithWallet", async ({ walletAddress, signature, message }) => {
+    try {
+      // 1. Verify all required fields are present
+      if (!walletAddress || !signature || !message) {
+        return socket.emit("lobby:joinFailed", "Missing authentication data");
       }
-    });
 
-    io.emit("game:phaseChange", {
-      phase: "POST_ROUND",
-      winnerData: { name: winner ? winner.name : "DRAW", pot: winnerPayout },
-      const VERCEL_API_URL = process.env.VERCEL_API_URL;
-      const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
-
-      const response = await fetch(`${VERCEL_API_URL}/api/payout`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${INTERNAL_API_SECRET}`
-        },
-        body: JSON.stringify({
-          walletAddress: fighter.walletAddress,
-          amount: splitAmount
-        })
-      });
-
-      if(payoutTxId) {
-        await updateTransaction(payoutTxId, {
-          status: 'confirmed',
-          signature: payoutSignature,
-          confirmed_at: new Date()
-        });
+      // 2. Check if this wallet is already connected on another socket, on
+      // any instance; a session without a socket (after a refresh) can be taken over
+      const existingSession = sessions.get(walletAddress);
+      const presence = await getPresence(walletAddress);
+      const attachedElsewhere = presence?.attached && presence.instanceId !== cluster.instanceId;
+      if (attachedElsewhere || (existingSession?.socketId && existingSession.socketId !== socket.id)) {
+        return socket.emit("lobby:joinFailed", "This wallet is already connected");
+      }
+      if (getSocketPlayerId(socket.id)) {
+        return socket.emit("lobby:joinFailed", "Already signed in");
       }
 
-        const netGain = splitAmount - fighter.betAmount;
-      incrementPlayerStat(fighter.walletAddress, "net_winnings", netGain);
+      // 3. Verify the challenge exists and matches
+      const challengeKey = getChallengeKey(socket.id);
+      const challenge = await store.get(challengeKey);
+      if (!challenge || challenge !== message) {
+        return socket.emit("lobby:joinFailed", "Invalid challenge");
+      }
 
-  } catch (error) {
-    if (payoutTxId) {
-      await updateTransaction(payoutTxId, {
-        status: 'failed',
-        error_message: error.message
-      });
-    }
-  }
-}
+      // 4. Verify the challenge is fresh (not a replay attack)
+      if (!isChallengeFresh(message)) {
+        await store.delete(challengeKey);
+        return socket.emit("lobby:joinFailed", "Challenge expired");
+      }
 
-io.emit("game:phaseChange", {
-  phase: "POST_ROUND",
-  winnerData: {
-    name: "DRAW - POT SPLIT",
-    pot: splitAmount * 2,
-    isSplit: true
-  },
-});
+      // 5. Cryptographically verify the signature
+      const isValid = verifyWalletSignature(walletAddress, signature, message);
+      if (!isValid) {
+        await store.delete(challengeKey);
+        return socket.emit("lobby:joinFailed", "Invalid wallet signature");
+      }
 
-  } else {
-  const winnerPayout = Math.floor(roundPot * 0.9);
+      // 6. Clean up the used challenge
+      await store.delete(challengeKey);
 
-  try {
-    await logTransaction({
-      round_id: roundId,
-      transaction_type: 'protocol_fee',
-      recipient_wallet: TREASURY_KEYPAIR.publicKey.toBase58(),
-      amount: protocolFee,
-      status: 'confirmed',
-      signature: 'N/A',
-      confirmed_at: new Date()
-    });
-  } catch (error) {
-  }
-
-  if (winner && winnerPayout > 0) {
-    let payoutTxId = null;
-    try {
-      payoutTxId = await logTransaction({
-        round_id: roundId,
-        transaction_type: 'payout',
-        recipient_wallet: winner.walletAddress,
-        amount: winnerPayout,
-        status: 'pending'
-      });
-
-      const VERCEL_API_URL = process.env.VERCEL_API_URL;
-      const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
-
-      const response = await fetch(`${VERCEL_API_URL}/api/payout`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${INTERNAL_API_SECRET}`
-        },
-        body: JSON.stringify({
-          walletAddress: winner.walletAddress,
-          amount: winnerPayout
-        })
-      });
-
-      if (payoutTxId) {
-        await updateTransaction(payoutTxId, {
-          status: 'confirmed',
-          signature: payoutSignature,
-          confirmed_at: new Date()
-        });
+      if (bans.has(walletAddress)) {
+        return socket.emit("lobby:joinFailed", "This wallet is banned");
       }
 
-    } catch (error) {
-      if (payoutTxId) {
-        await updateTransaction(payoutTxId, {
-          status: 'failed',
-          error_message: error.message
-        });
-      }
-    }
-  }
+      // 7. Signature verified! Now we can trust the wallet address
+      await seatSession(socket, await openSession(walletAddress, socket.id, presence));
 
-  if (winner) {
-    try {
-      incrementPlayerStat(winner.walletAddress, "wins", 1);
-      const netGain = winnerPayout - winner.betAmount;
-      incrementPlayerStat(winner.walletAddress, "net_winnings", netGain);
     } catch (error) {
-    }
-  }
-
-  const fighterIdsAtStart = new Set(activeFighterIds);
-  fighterIdsAtStart.forEach((fighterId) => {
-    const fighter = Object.values(players).find(p => p.id === fighterId);
-    if (fighter && (!winner || fighter.id !== winner.id)) {
-      try {
-        incrementPlayerStat(fighter.walletAddress, "deaths", 1);
-        incrementPlayerStat(fighter.walletAddress, "net_winnings", -fighter.betAmount);
-      } catch (error) {
-      }
+      console.error('Wallet authentication error:', error);
+      socket.emit("lobby:joinFailed", "Authentication failed");
     }
   });
 
-  io.emit("game:phaseChange", {
-    phase: "POST_ROUND",
-    winnerData: { name: winner ? winner.name : "DRAW", pot: winnerPayout },
-  });
-}
+  // A new socket (after a refresh or a dropped connection) picks its session
+  // back up with the token from `lobby:joined`, without signing again.
+  onClientEvent(socket, "session:resume", async ({ token }) => {
+    if (getSocketPlayerId(socket.id)) return;
 
-setTimeout(async () => {
-  gamePhase = "LOBBY";
-
-  for (const p of Object.values(players)) {
     try {
-      const latestStats = await getPlayerStats(p.walletAddress);
-      if (latestStats && players[p.id]) {
-        players[p.id].betAmount = 0;
-        players[p.id].lastBetTimestamp = null;
-        players[p.id].stats = {
-          kills: latestStats.kills,
-          deaths: latestStats.deaths,
-          wins: latestStats.wins,
-          totalGamesPlayed: latestStats.total_games_played,
-          netWinnings: latestStats.net_winnings
-        };
+      const session = await resumeSession(token, socket.id);
+      if (!session) {
+        return socket.emit("session:invalid");
       }
+
+      await seatSession(socket, session);
     } catch (error) {
+      console.error('Session resume error:', error);
+      socket.emit("lobby:joinFailed", "Authentication failed");
     }
-  }
-
-  activeFighterIds.clear();
-  duelData = {};
-  io.emit("game:phaseChange", { phase: "LOBBY" });
-  broadcastLobbyState();
-  checkAndManageCountdown();
-}, 10000);
-};
-
-const betRequestTimestamps = new Map();
-const BET_REQUEST_COOLDOWN = 3000;
-const MIN_BET = 1000;
-const MAX_BET = 1000000000;
-
-io.on("connection", (socket) => {
-  betRequestTimestamps.set(socket.id, {
-    lastAuthAttempt: 0,
-    authAttemptCount: 0
   });
 
-  socket.emit("game:phaseChange", { phase: gamePhase });
-  socket.emit("lobby:state", players);
-  socket.emit("lobby:countdown", lobbyCountdown);
-
-<<<<<<< HEAD
-  socket.on("player:requestChallenge", () => {
-    const now = Date.now();
-    const socketLimits = betRequestTimestamps.get(socket.id);
-
-    if (socketLimits) {
-      const timeSinceLastAttempt = now - socketLimits.lastAuthAttempt;
+  onClientEvent(socket, "player:setName", (playerName) => {
+    const playerId = getSocketPlayerId(socket.id);
+    if (playerId) callSocketArena(socket.id, "setPlayerName", playerId, playerName);
+  });
 
-      if (timeSinceLastAttempt < BET_REQUEST_COOLDOWN) {
-        socket.emit("auth:rateLimited", {
-          message: `Wait ${Math.ceil((BET_REQUEST_COOLDOWN - timeSinceLastAttempt) / 1000)}s`
-        });
-        return;
-      }
+  onClientEvent(socket, "duel:shoot", () => {
+    const playerId = getSocketPlayerId(socket.id);
+    if (playerId) callSocketArena(socket.id, "shoot", playerId, { latencyMs: latency.getOneWayLatency(socket.id) });
+  });
 
-      socketLimits.lastAuthAttempt = now;
-      socketLimits.authAttemptCount += 1;
+  onClientEvent(socket, "duel:playerReady", (payload) => {
+    const playerId = getSocketPlayerId(socket.id);
+    if (playerId) callSocketArena(socket.id, "playerReady", playerId, { entropy: payload?.entropy });
+  });
 
-      if (socketLimits.authAttemptCount > 10) {
-        socket.disconnect(true);
-        return;
-      }
+  socket.on("disconnect", () => {
+    const authKeys = [getChallengeKey(socket.id), getAuthCooldownKey(socket.id), getAuthAttemptsKey(socket.id)];
+    Promise.all(authKeys.map((key) => store.delete(key))).catch(logStoreError);
+    clearInterval(pingIntervalId);
+    latency.remove(socket.id);
+
+    // Sockets closed by a shutdown keep the presence the drain saved for them
+    if (shuttingDown) return;
+
+    // The player stays in play until their session expires
+    const session = sessions.detach(socket.id);
+    if (session) {
+      savePresence(session).catch(logStoreError);
+      callPlayerArena(session.walletAddress, "detachPlayer")
+        .catch((error) => console.error('Detaching player failed:', error));
     }
+    socketArenas.delete(socket.id);
+  });
 
-    const message = generateChallengeMessage(socket.id);
-    socketChallenges.set(socket.id, {
-      message,
-      timestamp: Date.now()
-=======
-  socket.on("player:requestChallenge", () => {
-    const message = generateChallengeMessage(socket.id);
-    socketChallenges.set(socket.id, {
-      message,
-      timestamp: Date.now()
-    });
-
-    socket.emit("player:authChallenge", { message });
->>>>>>> 5f4bc9f (Include server security fixes)
-    });
-
-    socket.on("player:joinWithWallet", async ({ walletAddress, signature, message }) => {
-      try {
-        // 1. Verify all required fields are present
-        if (!walletAddress || !signature || !message) {
-          return socket.emit("lobby:joinFailed", "Missing authentication data");
-        }
-
-        // 2. Check if this wallet is already connected
-        if (Object.values(players).find(p => p.walletAddress === walletAddress)) {
-          return socket.emit("lobby:joinFailed", "This wallet is already connected");
-        }
-
-        // 3. Verify the challenge exists and matches
-        const challenge = socketChallenges.get(socket.id);
-        if (!challenge || challenge.message !== message) {
-          return socket.emit("lobby:joinFailed", "Invalid challenge");
-        }
-
-        // 4. Verify the challenge is fresh (not a replay attack)
-        if (!isChallengeFresh(message)) {
-          socketChallenges.delete(socket.id);
-          return socket.emit("lobby:joinFailed", "Challenge expired");
-        }
-
-        // 5. Cryptographically verify the signature
-        const isValid = verifyWalletSignature(walletAddress, signature, message);
-        if (!isValid) {
-          socketChallenges.delete(socket.id);
-          return socket.emit("lobby:joinFailed", "Invalid wallet signature");
-        }
-
-        // 6. Clean up the used challenge
-        socketChallenges.delete(socket.id);
-
-        // 7. Signature verified! Now we can trust the wallet address
-        const playerData = await getPlayerStats(walletAddress);
-        if (!playerData) {
-          return socket.emit("lobby:joinFailed", "Failed to fetch player data");
-        }
-
-        let playerName = playerData.username || "unknown player";
-
-        players[socket.id] = {
-          id: socket.id,
-          walletAddress: walletAddress,
-          name: playerName,
-          role: "CONTENDER",
-          betAmount: 0,
-          lastBetTimestamp: null,
-          position: [0, 0, 0],
-          rotation: 0,
-          stats: {
-            kills: playerData.kills,
-            deaths: playerData.deaths,
-            wins: playerData.wins,
-            totalGamesPlayed: playerData.total_games_played,
-            netWinnings: playerData.net_winnings
-          }
-        };
-
-        socket.emit("lobby:joined", { name: players[socket.id].name });
-        broadcastLobbyState();
-
-      } catch (error) {
-        console.error('Wallet authentication error:', error);
-        socket.emit("lobby:joinFailed", "Authentication failed");
-      }
-    });
-
-    socket.on("player:setName", (playerName) => {
-      const player = players[socket.id];
-      if (player) {
-        try {
-          player.name = playerName;
-          updatePlayerStats(player.walletAddress, { username: playerName });
-          broadcastLobbyState();
-        } catch (error) {
-        }
-      }
-    });
-
-
-
-    socket.on("duel:shoot", () => {
-      handleShoot(socket.id);
-    });
-
-    socket.on("duel:playerReady", () => {
-      const playerId = socket.id;
-      if (duelData[playerId]) {
-        duelData[playerId].isReady = true;
-
-        const fighterIds = Array.from(activeFighterIds);
-        const allReady = fighterIds.every(id => duelData[id]?.isReady);
+  onClientEvent(socket, "duel:requestAIMode", async () => {
+    const playerId = getSocketPlayerId(socket.id);
+    if (playerId && (await callSocketArena(socket.id, "requestAIMode", playerId))) {
+      socket.emit("duel:aiModeConfirmed", { aiPlayerId: playerId });
+    }
+  });
+});
 
-        if (allReady && duelState === 'WAITING') {
-          duelState = 'CINEMATIC';
+// ============================================
+// ADMIN NAMESPACE
+// ============================================
+// Operators sign the same kind of challenge as players, with a wallet from
+// ADMIN_WALLETS, then get `admin:state` every ADMIN_STATE_INTERVAL and can
+// send `admin:action { action, params }` (answered through the ack).
+const adminNamespace = io.of("/admin");
+
+adminNamespace.on("connection", (socket) => {
+  let challenge = null;
+  let operator = null;
+  const onAdminEvent = (event, handler) =>
+    listen(socket, ADMIN_CLIENT_EVENTS, event, handler, rejectInvalid(socket));
+
+  onAdminEvent("admin:requestChallenge", () => {
+    challenge = generateChallengeMessage(socket.id);
+    socket.emit("admin:authChallenge", { message: challenge });
+  });
 
-          io.emit("duel:bothReady");
+  onAdminEvent("admin:auth", async ({ walletAddress, signature, message }) => {
+    const isValid = challenge !== null
+      && message === challenge
+      && isChallengeFresh(message)
+      && verifyWalletSignature(walletAddress, signature, message);
+    challenge = null;
 
-          const gongDelay = 27000 + Math.random() * 5000;
-          setTimeout(() => {
-            sendGong();
-          }, gongDelay);
-        }
-      }
-    });
+    if (!isValid || !ADMIN_WALLETS.has(walletAddress)) {
+      console.warn(`[SECURITY] Rejected operator sign-in from ${walletAddress}`);
+      return socket.emit("admin:authFailed", "This wallet is not an operator");
+    }
 
-    socket.on("disconnect", () => {
-<<<<<<< HEAD
+    operator = walletAddress;
+    socket.join(ADMIN_ROOM);
+    socket.emit("admin:authenticated", { walletAddress });
+    socket.emit("admin:state", await adminConsole.getState());
+  });
 
-      betRequestTimestamps.delete(socket.id);
-=======
+  onAdminEvent("admin:action", async ({ action, params }, ack) => {
+    const result = operator
+      ? await adminConsole.perform(operator, action, params)
+      : { ok: false, error: "Not signed in" };
+    if (typeof ack === "function") ack(result);
+    if (operator) adminNamespace.to(ADMIN_ROOM).emit("admin:state", await adminConsole.getState());
+  });
 
->>>>>>> 5f4bc9f (Include server security fixes)
-      socketChallenges.delete(socket.id);
+  onAdminEvent("admin:audit", async (filter, ack) => {
+    if (typeof ack !== "function") return;
+    if (!operator) return ack({ ok: false, error: "Not signed in" });
+    ack({ ok: true, events: await adminConsole.queryAudit(filter) });
+  });
+});
 
-      if (players[socket.id]) {
+// Each instance sends the state to the operators connected to it, if any
+setInterval(async () => {
+  if (!adminNamespace.adapter.rooms.get(ADMIN_ROOM)?.size) return;
+  adminNamespace.local.to(ADMIN_ROOM).emit("admin:state", await adminConsole.getState());
+}, ADMIN_STATE_INTERVAL);
 
-        if (
-          (duelState === "DRAW_PHASE" || duelState === "AIM_PHASE") &&
-          activeFighterIds.has(socket.id)
-        ) {
-          players[socket.id].health = 0;
+// Players whose session has had no socket for SESSION_TTL leave the game. The
+// sweep also keeps this instance's session presence alive, and lets each arena
+// owner drop the players whose session died with another instance.
+setInterval(async () => {
+  try {
+    for (const session of sessions.expire()) {
+      const presence = await getPresence(session.walletAddress);
+      if (presence && presence.instanceId !== cluster.instanceId) continue; // Taken over elsewhere
 
-          const remainingFighters = Array.from(activeFighterIds).filter(id =>
-            id !== socket.id && players[id]
-          );
+      await store.delete(getSessionKey(session.walletAddress));
+      await callPlayerArena(session.walletAddress, "removePlayer");
+    }
 
-          if (remainingFighters.length === 1) {
-            endDuel("WINNER", players[remainingFighters[0]]);
-          }
-        }
+    await Promise.all(sessions.list().map((session) => savePresence(session)));
 
-        delete players[socket.id];
-        broadcastLobbyState();
-        checkAndManageCountdown(getTopFighterIds());
+    for (const arena of getOwnedArenas()) {
+      for (const playerId of Object.keys(arena.players)) {
+        if (!(await getPresence(playerId))) arena.removePlayer(playerId);
       }
-    });
-
-    socket.on("duel:requestAIMode", () => {
-      const requesterId = socket.id;
+    }
+  } catch (error) {
+    console.error('[SESSION] Sweep failed:', error);
+  }
+}, SESSION_SWEEP_INTERVAL);
 
-      if (duelData[requesterId]) {
-        duelData[requesterId].isAI = true;
+// Payouts of instances that stop while this one leads go stale meanwhile
+if (cluster.clustered) {
+  setInterval(() => {
+    if (!cluster.isLeader()) return;
+    payouts.recover({ staleAfter: PAYOUT_STALE_AFTER }).catch((error) => console.error('[PAYOUT] Recovery failed:', error));
+  }, PAYOUT_STALE_AFTER);
+}
 
-        const requesterSocket = io.sockets.sockets.get(requesterId);
-        if (requesterSocket) {
-          requesterSocket.emit("duel:aiModeConfirmed", { aiPlayerId: requesterId });
-        }
-      }
-    });
-  });
+// ============================================
+// SHUTDOWN
+// ============================================
+// Deploys stop the machine with SIGINT (fly.toml) and wait kill_timeout for it
+const DRAIN_TIMEOUT = 25 * 1000;
+// Kept for saving presence and freeing the leases: waiting on slow writes or
+// payout attempts (up to PAYOUT_REQUEST_TIMEOUT, 30 s) stops this long before
+const DRAIN_RESERVE = 5 * 1000;
+let shuttingDown = false;
 
-  setInterval(() => {
-    const now = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
+/**
+ * @function shutDown
+ * @description Drains this instance before it exits: its arenas stop closing
+ * auctions and call off the rounds being fought, their last snapshots and the
+ * payouts due are saved, the sessions connected here are kept for
+ * `SESSION_TTL` so their players can sign back in, and the leases are freed
+ * for the next owner.
+ * @param {string} signal
+ */
+const shutDown = async (signal) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[SHUTDOWN] ${signal} received, draining`);
+  setTimeout(() => {
+    console.error(`[SHUTDOWN] Drain did not finish within ${DRAIN_TIMEOUT / 1000}s`);
+    process.exit(1);
+  }, DRAIN_TIMEOUT).unref();
 
-    for (const [socketId, challenge] of socketChallenges.entries()) {
-      if (now - challenge.timestamp > fiveMinutes) {
-        socketChallenges.delete(socketId);
-      }
+  try {
+    const deadline = Date.now() + DRAIN_TIMEOUT - DRAIN_RESERVE;
+    const saveState = async () => {
+      await Promise.all(getOwnedArenas().map((arena) => arena.drain()));
+      await snapshots.flush();
+      return payouts.flush({ timeout: deadline - Date.now() });
+    };
+    const outOfTime = new Promise((resolve) => setTimeout(resolve, deadline - Date.now(), false).unref());
+    if (!(await Promise.race([saveState(), outOfTime]))) {
+      console.warn('[SHUTDOWN] Out of time; payouts still being sent are left to the next run');
     }
-  }, 5 * 60 * 1000);
+    await Promise.all(sessions.list().map((session) =>
+      savePresence({ ...session, socketId: null }, { ttl: SESSION_TTL })));
+    await cluster.stop();
+    io.close();
+    await store.close();
+    await audit.close();
+  } catch (error) {
+    console.error('[SHUTDOWN] Drain failed:', error);
+    process.exit(1);
+  }
+  console.log('[SHUTDOWN] Drained');
+  process.exit(0);
+};
 
-  setInterval(() => {
-    const now = Date.now();
-    const tenMinutes = 10 * 60 * 1000;
+process.on('SIGINT', () => shutDown('SIGINT'));
+process.on('SIGTERM', () => shutDown('SIGTERM'));
 
-    for (const [socketId, limits] of betRequestTimestamps.entries()) {
-      if (now - limits.lastAuthAttempt > tenMinutes) {
-        betRequestTimestamps.delete(socketId);
-      }
-    }
-  }, 10 * 60 * 1000);
+// Takes the arenas and the leadership nobody holds, recovering what their
+// previous holders left behind, before accepting connections
+await cluster.start();
 
-  server.listen(PORT, "0.0.0.0", () =>
-    console.log(`🚀 Server listening on port ${PORT}`),
-  );
+server.listen(PORT, "0.0.0.0", () =>
+  console.log(`🚀 Server listening on port ${PORT}`),
+);
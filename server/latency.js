@@ -0,0 +1,105 @@
+/**
+ * @file latency.js
+ * @description Per-socket round-trip time tracking for PotShot.gg.
+ * The server pings each socket with `latency:ping { seq }` and the client
+ * echoes it back as `latency:pong { seq }`; the median of the recent samples
+ * is used to estimate when a fighter actually pressed the trigger.
+ */
+
+import { systemClock } from './duelEngine.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const PING_INTERVAL = 2000;
+export const RTT_SAMPLE_SIZE = 8;
+const MAX_PENDING_PINGS = 4;
+
+/**
+ * @function createLatencyTracker
+ * @description Creates a tracker that keeps the last few RTT samples per socket.
+ * @param {object} [options]
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ * @param {number} [options.sampleSize] - How many samples the estimate is based on.
+ */
+export const createLatencyTracker = ({ clock = systemClock, sampleSize = RTT_SAMPLE_SIZE } = {}) => {
+  const sockets = new Map(); // Map<socketId, { nextSeq, pending: Map<seq, sentAt>, samples: number[] }>
+
+  const getEntry = (socketId) => {
+    if (!sockets.has(socketId)) {
+      sockets.set(socketId, { nextSeq: 1, pending: new Map(), samples: [] });
+    }
+    return sockets.get(socketId);
+  };
+
+  /**
+   * @param {string} socketId
+   * @returns {number|null} Median RTT of the recent samples, or null before the first pong.
+   */
+  const getRtt = (socketId) => {
+    const samples = sockets.get(socketId)?.samples;
+    if (!samples?.length) return null;
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  };
+
+  return {
+    /**
+     * Registers an outgoing ping.
+     * @param {string} socketId
+     * @returns {number} The sequence number to send with `latency:ping`.
+     */
+    recordPing(socketId) {
+      const entry = getEntry(socketId);
+      const seq = entry.nextSeq++;
+      entry.pending.set(seq, clock.now());
+
+      // Pings that never came back are dropped rather than kept forever.
+      if (entry.pending.size > MAX_PENDING_PINGS) {
+        entry.pending.delete(entry.pending.keys().next().value);
+      }
+      return seq;
+    },
+
+    /**
+     * Matches a pong to its ping and stores the round trip.
+     * @param {string} socketId
+     * @param {number} seq
+     * @returns {number|null} The measured RTT, or null for an unknown sequence number.
+     */
+    recordPong(socketId, seq) {
+      const entry = sockets.get(socketId);
+      const sentAt = entry?.pending.get(seq);
+      if (sentAt === undefined) return null;
+
+      entry.pending.delete(seq);
+      const rtt = clock.now() - sentAt;
+      entry.samples.push(rtt);
+      if (entry.samples.length > sampleSize) {
+        entry.samples.shift();
+      }
+      return rtt;
+    },
+
+    getRtt,
+
+    /**
+     * @param {string} socketId
+     * @returns {number} Estimated client-to-server delay in milliseconds (half the RTT), 0 if unknown.
+     */
+    getOneWayLatency(socketId) {
+      const rtt = getRtt(socketId);
+      return rtt === null ? 0 : Math.round(rtt / 2);
+    },
+
+    /**
+     * Forgets a disconnected socket.
+     * @param {string} socketId
+     */
+    remove(socketId) {
+      sockets.delete(socketId);
+    },
+  };
+};
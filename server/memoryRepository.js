@@ -0,0 +1,242 @@
+/**
+ * @file memoryRepository.js
+ * @description A data repository that keeps every table in process memory, so
+ * the game server runs without a Supabase project: local development, demos
+ * and tests. Rows have the same columns and the same defaults the Supabase
+ * tables give them (timestamps come back as ISO strings), so the rest of the
+ * server cannot tell the two apart. Everything is lost when the process exits.
+ */
+
+import { systemClock } from './duelEngine.js';
+import { fromReplayRow } from './replay.js';
+
+// Columns `increment_stat` may touch
+const PLAYER_STATS = ['kills', 'deaths', 'wins', 'total_games_played', 'net_winnings'];
+const REFUND_STATUSES = ['refunding', 'refunded', 'refund_failed'];
+
+// Dates are stored the way Postgres hands them back
+const toRow = (values) => Object.fromEntries(
+  Object.entries(values).map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value]),
+);
+
+// Callers get copies, so mutating a returned row cannot change the table
+const copy = (row) => (row ? structuredClone(row) : null);
+
+const byNewest = (a, b) => Date.parse(b.created_at) - Date.parse(a.created_at);
+
+/**
+ * @function createMemoryRepository
+ * @description Creates an empty in-memory repository.
+ * @param {object} [options]
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source for default timestamps, defaults to `Date.now`.
+ * @returns {import('./database.js').Repository}
+ */
+export const createMemoryRepository = ({ clock = systemClock } = {}) => {
+  const now = () => new Date(clock.now()).toISOString();
+
+  const tables = {
+    players: new Map(), // Map<wallet_address, row>
+    betTransactions: new Map(), // Map<signature, row>
+    payoutTransactions: new Map(), // Map<id, row>
+    betEscrow: new Map(), // Map<signature, row>
+    duelReplays: new Map(), // Map<id, row>
+    arenaSnapshots: new Map(), // Map<arena_id, row>
+    bannedWallets: new Map(), // Map<wallet_address, row>
+    adminAuditLog: [],
+    auditLog: [],
+  };
+  let nextPayoutId = 1;
+
+  const players = {
+    async getOrCreate(walletAddress) {
+      if (!tables.players.has(walletAddress)) {
+        tables.players.set(walletAddress, {
+          wallet_address: walletAddress,
+          // Default username is shortened wallet address
+          username: `${walletAddress.substring(0, 4)}...${walletAddress.substring(walletAddress.length - 4)}`,
+          ...Object.fromEntries(PLAYER_STATS.map((stat) => [stat, 0])),
+          created_at: now(),
+        });
+      }
+      return copy(tables.players.get(walletAddress));
+    },
+
+    async update(walletAddress, updates) {
+      const player = tables.players.get(walletAddress);
+      if (!player) return null;
+      Object.assign(player, toRow(updates));
+      return copy(player);
+    },
+
+    async incrementStat(walletAddress, field, value) {
+      const player = tables.players.get(walletAddress);
+      if (!player || !PLAYER_STATS.includes(field)) {
+        console.error(`Error incrementing ${field} for ${walletAddress}: no such player or stat`);
+        return false;
+      }
+      player[field] += value;
+      return true;
+    },
+  };
+
+  const bets = {
+    async exists(signature) {
+      return tables.betTransactions.has(signature);
+    },
+
+    async log(signature, walletAddress, amount) {
+      if (tables.betTransactions.has(signature)) {
+        console.error(`Failed to log bet transaction: ${signature} is already recorded`);
+        throw new Error('Failed to log bet transaction');
+      }
+      tables.betTransactions.set(signature, { signature, wallet_address: walletAddress, amount, created_at: now() });
+    },
+  };
+
+  const payouts = {
+    async insert(transactionData) {
+      const id = nextPayoutId++;
+      tables.payoutTransactions.set(id, { created_at: now(), ...toRow(transactionData), id });
+      return id;
+    },
+
+    async update(txId, updates) {
+      const row = tables.payoutTransactions.get(txId);
+      if (row) Object.assign(row, toRow(updates));
+    },
+
+    async getByKey(idempotencyKey) {
+      const row = Array.from(tables.payoutTransactions.values()).find((r) => r.idempotency_key === idempotencyKey);
+      return copy(row);
+    },
+
+    async listQueued(statuses) {
+      return Array.from(tables.payoutTransactions.values())
+        .filter((row) => row.idempotency_key && statuses.includes(row.status))
+        .sort((a, b) => Date.parse(a.next_attempt_at) - Date.parse(b.next_attempt_at))
+        .map(copy);
+    },
+  };
+
+  const escrow = {
+    async save(entry) {
+      if (tables.betEscrow.has(entry.signature)) {
+        console.error(`Failed to escrow bet ${entry.signature}: already escrowed`);
+        return false;
+      }
+      tables.betEscrow.set(entry.signature, toRow({
+        signature: entry.signature,
+        wallet_address: entry.walletAddress,
+        arena_id: entry.arenaId,
+        amount: entry.amount,
+        status: entry.status,
+        reason: null,
+        refund_signature: null,
+        created_at: new Date(entry.createdAt),
+      }));
+      return true;
+    },
+
+    async update(signature, updates) {
+      const row = tables.betEscrow.get(signature);
+      if (row) Object.assign(row, toRow({ ...updates, updated_at: new Date(clock.now()) }));
+    },
+
+    async listByStatus(statuses) {
+      return Array.from(tables.betEscrow.values()).filter((row) => statuses.includes(row.status)).map(copy);
+    },
+
+    async listRefunds(walletAddress, limit) {
+      return Array.from(tables.betEscrow.values())
+        .filter((row) => row.wallet_address === walletAddress && REFUND_STATUSES.includes(row.status))
+        .sort(byNewest)
+        .slice(0, limit)
+        .map(copy);
+    },
+  };
+
+  const replays = {
+    async save(replay) {
+      tables.duelReplays.set(replay.id, structuredClone({
+        id: replay.id,
+        arena_id: replay.arenaId,
+        started_at: replay.startedAt,
+        ended_at: replay.endedAt,
+        best_of: replay.bestOf,
+        ruleset: replay.ruleset,
+        fighters: replay.fighters,
+        events: replay.events,
+        result: replay.result,
+      }));
+      return true;
+    },
+
+    async get(id) {
+      const row = copy(tables.duelReplays.get(id));
+      return row && fromReplayRow(row);
+    },
+  };
+
+  const snapshots = {
+    async save(snapshot) {
+      tables.arenaSnapshots.set(snapshot.arenaId, toRow({
+        arena_id: snapshot.arenaId,
+        taken_at: new Date(snapshot.takenAt),
+        snapshot: structuredClone(snapshot),
+      }));
+      return true;
+    },
+
+    async get(arenaId) {
+      return copy(tables.arenaSnapshots.get(arenaId)?.snapshot);
+    },
+  };
+
+  const bans = {
+    async list() {
+      return Array.from(tables.bannedWallets.keys());
+    },
+
+    async save(walletAddress, bannedBy, reason) {
+      tables.bannedWallets.set(walletAddress, { wallet_address: walletAddress, banned_by: bannedBy, reason, created_at: now() });
+    },
+
+    async remove(walletAddress) {
+      tables.bannedWallets.delete(walletAddress);
+    },
+  };
+
+  const adminActions = {
+    async log({ actor, action, params, ok, error = null }) {
+      tables.adminAuditLog.push(structuredClone({ actor, action, params, ok, error, created_at: now() }));
+    },
+  };
+
+  const audit = {
+    async save(event) {
+      tables.auditLog.push(structuredClone({
+        id: event.id,
+        created_at: event.at,
+        type: event.type,
+        round_id: event.roundId,
+        arena_id: event.arenaId,
+        wallet_address: event.walletAddress,
+        amount: event.amount,
+        ok: event.ok,
+        error: event.error,
+        details: event.details,
+      }));
+      return true;
+    },
+
+    async query({ roundId, walletAddress, limit }) {
+      return tables.auditLog
+        .filter((row) => (!roundId || row.round_id === roundId) && (!walletAddress || row.wallet_address === walletAddress))
+        .sort(byNewest)
+        .slice(0, limit)
+        .map(copy);
+    },
+  };
+
+  return { players, bets, payouts, escrow, replays, snapshots, bans, adminActions, audit };
+};
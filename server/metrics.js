@@ -0,0 +1,314 @@
+/**
+ * @file metrics.js
+ * @description Prometheus metrics for the PotShot.gg game server, served as
+ * text exposition format (0.0.4) on `GET /metrics`. Counters and histograms
+ * are updated where things happen (arenas, the payout queue, database calls);
+ * gauges describing live state are filled in by collectors at scrape time.
+ */
+
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+const ROUND_DURATION_BUCKETS = [0.5, 1, 2, 3, 5, 8, 13, 21, 34, 60];
+const DUEL_DURATION_BUCKETS = [5, 10, 20, 30, 45, 60, 90, 120, 180, 300];
+const PAYOUT_LATENCY_BUCKETS = [1, 2, 5, 10, 30, 60, 120, 300, 900, 3600];
+const EVENT_LOOP_DELAY_QUANTILES = [0.5, 0.99, 1];
+
+const escapeLabelValue = (value) =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const escapeHelp = (help) => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+const formatLabels = (pairs) =>
+  pairs.length === 0 ? '' : `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+
+const formatValue = (value) => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+/**
+ * @function createRegistry
+ * @description Creates a set of metrics rendered together on one scrape.
+ * Every metric takes its label values as an object keyed by `labelNames`;
+ * missing labels are rendered empty.
+ */
+export const createRegistry = () => {
+  const metrics = [];
+
+  const define = (type, { name, help, labelNames = [] }, extra = {}) => {
+    const series = new Map(); // Map<label values key, { labels, ... }>
+    const getSeries = (labels, create) => {
+      const values = labelNames.map((labelName) => String(labels[labelName] ?? ''));
+      const key = values.join('\u0000');
+      if (!series.has(key)) {
+        series.set(key, { labels: labelNames.map((labelName, i) => [labelName, values[i]]), ...create() });
+      }
+      return series.get(key);
+    };
+
+    const metric = { type, name, help, series, getSeries, ...extra };
+    metrics.push(metric);
+    return metric;
+  };
+
+  const renderMetric = (metric) => {
+    const lines = [`# HELP ${metric.name} ${escapeHelp(metric.help)}`, `# TYPE ${metric.name} ${metric.type}`];
+
+    for (const entry of metric.series.values()) {
+      if (metric.type !== 'histogram') {
+        lines.push(`${metric.name}${formatLabels(entry.labels)} ${formatValue(entry.value)}`);
+        continue;
+      }
+
+      metric.buckets.forEach((bound, i) => {
+        lines.push(`${metric.name}_bucket${formatLabels([...entry.labels, ['le', formatValue(bound)]])} ${entry.counts[i]}`);
+      });
+      lines.push(`${metric.name}_bucket${formatLabels([...entry.labels, ['le', '+Inf']])} ${entry.count}`);
+      lines.push(`${metric.name}_sum${formatLabels(entry.labels)} ${formatValue(entry.sum)}`);
+      lines.push(`${metric.name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+    return lines.join('\n');
+  };
+
+  return {
+    /**
+     * A value that only goes up.
+     * @param {{ name: string, help: string, labelNames?: string[] }} options
+     */
+    counter(options) {
+      const metric = define('counter', options);
+      return {
+        /**
+         * @param {object} [labels]
+         * @param {number} [value]
+         */
+        inc(labels = {}, value = 1) {
+          metric.getSeries(labels, () => ({ value: 0 })).value += value;
+        },
+      };
+    },
+
+    /**
+     * A value read at scrape time. `collect(gauge)` is called before every
+     * render; it should `reset()` the gauge and `set()` the current values, so
+     * series that no longer exist (e.g. a removed arena) disappear.
+     * @param {{ name: string, help: string, labelNames?: string[], collect?: Function }} options
+     */
+    gauge(options) {
+      const gauge = {
+        /**
+         * @param {object} labels
+         * @param {number} value
+         */
+        set(labels, value) {
+          metric.getSeries(labels, () => ({ value: 0 })).value = value;
+        },
+
+        reset() {
+          metric.series.clear();
+        },
+
+        /**
+         * Replaces the gauge's collector, e.g. once the state it reads exists.
+         * @param {(gauge: object) => void} collect
+         */
+        setCollector(collect) {
+          metric.collect = () => collect(gauge);
+        },
+      };
+      const metric = define('gauge', options);
+      if (options.collect) gauge.setCollector(options.collect);
+      return gauge;
+    },
+
+    /**
+     * Observations counted into cumulative buckets, e.g. durations in seconds.
+     * @param {{ name: string, help: string, labelNames?: string[], buckets: number[] }} options
+     */
+    histogram(options) {
+      const buckets = [...options.buckets].sort((a, b) => a - b);
+      const metric = define('histogram', options, { buckets });
+      return {
+        /**
+         * @param {object} labels
+         * @param {number} value
+         */
+        observe(labels, value) {
+          const entry = metric.getSeries(labels, () => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+          buckets.forEach((bound, i) => {
+            if (value <= bound) entry.counts[i]++;
+          });
+          entry.sum += value;
+          entry.count++;
+        },
+      };
+    },
+
+    /**
+     * Runs the gauge collectors and renders every metric.
+     * @returns {string} The scrape body.
+     */
+    render() {
+      for (const metric of metrics) {
+        try {
+          metric.collect?.();
+        } catch (error) {
+          console.error(`[METRICS] Collecting ${metric.name} failed:`, error);
+        }
+      }
+      return `${metrics.map(renderMetric).join('\n')}\n`;
+    },
+  };
+};
+
+// ============================================
+// GAME SERVER METRICS
+// ============================================
+export const registry = createRegistry();
+
+// Live state; the collectors are set up by index.js
+export const socketsConnected = registry.gauge({
+  name: 'potshot_sockets_connected',
+  help: 'Socket.IO connections currently open.',
+});
+export const playerSessions = registry.gauge({
+  name: 'potshot_player_sessions',
+  help: 'Authenticated wallet sessions, by whether a socket is attached.',
+  labelNames: ['state'],
+});
+export const arenaPlayers = registry.gauge({
+  name: 'potshot_arena_players',
+  help: 'Players seated in each arena.',
+  labelNames: ['arena'],
+});
+export const lobbyBets = registry.gauge({
+  name: 'potshot_lobby_bets',
+  help: 'Players with a confirmed bet in each arena.',
+  labelNames: ['arena'],
+});
+export const potTokens = registry.gauge({
+  name: 'potshot_pot_tokens',
+  help: 'Tokens in each arena\'s pot: the lobby bets before the auction closes, the round pot after.',
+  labelNames: ['arena'],
+});
+export const arenaPhaseSeconds = registry.gauge({
+  name: 'potshot_arena_phase_seconds',
+  help: 'Seconds each arena has spent in its current phase.',
+  labelNames: ['arena', 'phase'],
+});
+export const duelIdleSeconds = registry.gauge({
+  name: 'potshot_duel_idle_seconds',
+  help: 'Seconds since each arena\'s running duel last sent an event; a stuck duel keeps growing.',
+  labelNames: ['arena', 'state'],
+});
+export const payoutsPending = registry.gauge({
+  name: 'potshot_payouts_pending',
+  help: 'Payouts and refunds queued and not yet confirmed or dead-lettered.',
+});
+
+// Duels
+export const duelRounds = registry.counter({
+  name: 'potshot_duel_rounds_total',
+  help: 'Duel rounds played, by outcome (hit, dodge, miss).',
+  labelNames: ['arena', 'outcome'],
+});
+export const duelRoundDuration = registry.histogram({
+  name: 'potshot_duel_round_duration_seconds',
+  help: 'Time from a round\'s bar start to its result.',
+  labelNames: ['arena'],
+  buckets: ROUND_DURATION_BUCKETS,
+});
+export const duelsFinished = registry.counter({
+  name: 'potshot_duels_total',
+  help: 'Duels finished, by result (WINNER, TIMEOUT, FORFEIT, NO_CONTEST, FORCED, CANCELLED).',
+  labelNames: ['arena', 'reason'],
+});
+export const duelDuration = registry.histogram({
+  name: 'potshot_duel_duration_seconds',
+  help: 'Time from a duel\'s start to its result.',
+  labelNames: ['arena'],
+  buckets: DUEL_DURATION_BUCKETS,
+});
+export const shots = registry.counter({
+  name: 'potshot_shots_total',
+  help: 'Shots judged, by result (hit, miss, auto_miss); the hit rate is hit over the total.',
+  labelNames: ['arena', 'result'],
+});
+
+// Payouts
+export const payoutsSettled = registry.counter({
+  name: 'potshot_payouts_total',
+  help: 'Payouts and refunds settled, by type and final status (confirmed, dead_letter).',
+  labelNames: ['type', 'status'],
+});
+export const payoutAttemptFailures = registry.counter({
+  name: 'potshot_payout_attempt_failures_total',
+  help: 'Transfer attempts that failed, whether or not they were retried.',
+  labelNames: ['type'],
+});
+export const payoutLatency = registry.histogram({
+  name: 'potshot_payout_latency_seconds',
+  help: 'Time from queuing a payout to its confirmation, retries included.',
+  labelNames: ['type'],
+  buckets: PAYOUT_LATENCY_BUCKETS,
+});
+
+// Sockets
+export const invalidPayloads = registry.counter({
+  name: 'potshot_invalid_payloads_total',
+  help: 'Client events dropped because their payload broke the event contract.',
+  labelNames: ['event'],
+});
+
+// Database
+export const supabaseErrors = registry.counter({
+  name: 'potshot_supabase_errors_total',
+  help: 'Supabase calls that returned an error, by database.js function.',
+  labelNames: ['operation'],
+});
+
+// Process
+export const processCpuSeconds = registry.gauge({
+  name: 'potshot_process_cpu_seconds',
+  help: 'User plus system CPU time the server process has used since it started, in seconds.',
+  collect: (gauge) => {
+    const { user, system } = process.cpuUsage();
+    gauge.set({}, (user + system) / 1e6);
+  },
+});
+export const processMemoryBytes = registry.gauge({
+  name: 'potshot_process_memory_bytes',
+  help: 'Memory held by the server process: resident set size and V8 heap used.',
+  labelNames: ['type'],
+  collect: (gauge) => {
+    const { rss, heapUsed } = process.memoryUsage();
+    gauge.set({ type: 'rss' }, rss);
+    gauge.set({ type: 'heap_used' }, heapUsed);
+  },
+});
+
+// Sampled by a 10 ms timer (the samples are its full interval, so the
+// resolution is taken off) and reset on each scrape, so the quantiles cover the
+// time since the previous one. The 60 Hz duel tick falls behind whenever the
+// delay goes past a frame (16.7 ms).
+const EVENT_LOOP_RESOLUTION_MS = 10;
+const eventLoopDelay = monitorEventLoopDelay({ resolution: EVENT_LOOP_RESOLUTION_MS });
+eventLoopDelay.enable();
+export const eventLoopDelaySeconds = registry.gauge({
+  name: 'potshot_event_loop_delay_seconds',
+  help: 'Event loop delay since the previous scrape, by quantile (1 is the maximum).',
+  labelNames: ['quantile'],
+  collect: (gauge) => {
+    EVENT_LOOP_DELAY_QUANTILES.forEach((quantile) => {
+      const nanoseconds = quantile === 1 ? eventLoopDelay.max : eventLoopDelay.percentile(quantile * 100);
+      const seconds = nanoseconds / 1e9 - EVENT_LOOP_RESOLUTION_MS / 1000;
+      gauge.set({ quantile }, eventLoopDelay.count > 0 ? Math.max(0, seconds) : 0);
+    });
+    eventLoopDelay.reset();
+  },
+});
@@ -0,0 +1,363 @@
+/**
+ * @file payouts.js
+ * @description Durable payout queue for PotShot.gg. Every token transfer out
+ * of the treasury (prizes and refunds alike) is a job persisted in
+ * `payout_transactions` and sent through the client's `/api/payout` route,
+ * which holds the treasury key. A job moves through these states:
+ *
+ *   pending ──► confirmed
+ *      │ ▲
+ *      └─┘ failed attempt, retried with exponential backoff
+ *      └──► dead_letter   (out of attempts, or rejected outright; needs an operator)
+ *
+ * Each job carries an idempotency key that the route writes into the transfer's
+ * memo. Before sending, the route looks for a treasury transfer with that memo,
+ * so a retry of a payout that landed despite a timeout returns the existing
+ * signature instead of paying twice.
+ */
+
+import { logTransaction, updateTransaction, getPayoutJob, getPayoutJobs } from "./database.js";
+import { systemClock, systemScheduler } from "./duelEngine.js";
+import { payoutsSettled, payoutAttemptFailures, payoutLatency } from "./metrics.js";
+import { AUDIT_EVENTS } from "./auditLog.js";
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const PAYOUT_MAX_ATTEMPTS = 6;
+// The first retry waits out the lifetime of a blockhash (about 90 s) and the
+// route's own timeout, so a transfer from the previous attempt has either
+// landed, and is found by its memo, or can no longer land.
+export const PAYOUT_RETRY_BASE_DELAY = 2 * 60 * 1000;
+
+// A pending payout this far past its next attempt has no instance retrying it
+export const PAYOUT_STALE_AFTER = 5 * 60 * 1000;
+const PAYOUT_REQUEST_TIMEOUT = 30 * 1000;
+
+/**
+ * @typedef {'pending'|'confirmed'|'dead_letter'} PayoutStatus
+ */
+
+/**
+ * @typedef {object} PayoutJob
+ * @property {string|null} id - The `payout_transactions` row, or null if it could not be saved.
+ * @property {string} idempotencyKey - Unique per payout; see `getPayoutKey`.
+ * @property {string} roundId
+ * @property {string} walletAddress - Recipient wallet.
+ * @property {number} amount - Whole tokens.
+ * @property {string} transactionType - e.g. 'payout', 'payout_split', 'payout_finalist', 'refund'.
+ * @property {PayoutStatus} status
+ * @property {number} attempts - Transfers tried so far.
+ * @property {number} nextAttemptAt - When the next attempt is due.
+ * @property {string|null} signature - The transfer, once confirmed.
+ * @property {string|null} lastError - Why the last attempt failed.
+ * @property {number|null} queuedAt - When the payout was queued (or requeued), if known.
+ */
+
+/**
+ * @function getPayoutKey
+ * @param {string} roundId
+ * @param {string} transactionType
+ * @param {string} walletAddress
+ * @returns {string} The idempotency key of a payout; a wallet is paid at most once per round and type.
+ */
+export const getPayoutKey = (roundId, transactionType, walletAddress) =>
+  `${roundId}:${transactionType}:${walletAddress}`;
+
+/**
+ * @function getRetryDelay
+ * @param {number} attempts - Attempts made so far.
+ * @returns {number} How long to wait before the next attempt.
+ */
+const getRetryDelay = (attempts) => PAYOUT_RETRY_BASE_DELAY * 2 ** (attempts - 1);
+
+const fromRow = (row) => ({
+  id: row.id,
+  idempotencyKey: row.idempotency_key,
+  roundId: row.round_id,
+  walletAddress: row.recipient_wallet,
+  amount: row.amount,
+  transactionType: row.transaction_type,
+  status: row.status,
+  attempts: row.attempts ?? 0,
+  nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at).getTime() : 0,
+  signature: row.signature ?? null,
+  lastError: row.error_message ?? null,
+  queuedAt: row.created_at ? new Date(row.created_at).getTime() : null,
+});
+
+/**
+ * @function requestTransfer
+ * @description Asks the payout route to send a job's tokens.
+ * @param {PayoutJob} job
+ * @returns {Promise<{ signature: string, alreadySent?: boolean }>}
+ * @throws {Error} If the transfer failed; `retryable` is false when the route rejected the request itself.
+ */
+async function requestTransfer({ walletAddress, amount, idempotencyKey }) {
+  const VERCEL_API_URL = process.env.VERCEL_API_URL;
+  const INTERNAL_API_SECRET = process.env.INTERNAL_API_SECRET;
+
+  const response = await fetch(`${VERCEL_API_URL}/api/payout`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${INTERNAL_API_SECRET}`
+    },
+    body: JSON.stringify({ walletAddress, amount, idempotencyKey }),
+    signal: AbortSignal.timeout(PAYOUT_REQUEST_TIMEOUT),
+  });
+
+  if (!response.ok) {
+    const error = new Error(`Payout API failed: ${await response.text()}`);
+    error.retryable = response.status !== 400;
+    throw error;
+  }
+
+  return response.json();
+}
+
+/**
+ * @function createPayoutQueue
+ * @description Creates the payout queue shared by every arena and the escrow.
+ * @param {object} options
+ * @param {ReturnType<typeof import('./auditLog.js').createAuditLog>} options.audit - Records every job's progress.
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ * @param {import('./duelEngine.js').Scheduler} [options.scheduler] - Timer source for retries.
+ * @param {typeof requestTransfer} [options.transfer] - Sends a job's tokens; defaults to the payout route.
+ */
+export const createPayoutQueue = ({ audit, clock = systemClock, scheduler = systemScheduler, transfer = requestTransfer }) => {
+  const jobs = new Map(); // Map<idempotencyKey, PayoutJob>, pending jobs only
+  const listeners = [];
+  const running = new Set(); // Promise<void> of every enqueue and attempt in progress
+
+  const track = (promise) => {
+    running.add(promise);
+    promise.finally(() => running.delete(promise)).catch(() => {});
+    return promise;
+  };
+
+  const persist = (job, updates) => job.id && updateTransaction(job.id, updates);
+
+  const recordJob = (type, job, fields = {}) => audit.record(type, {
+    roundId: job.roundId,
+    walletAddress: job.walletAddress,
+    amount: job.amount,
+    ...fields,
+    details: { idempotencyKey: job.idempotencyKey, transactionType: job.transactionType, attempts: job.attempts, ...fields.details },
+  });
+
+  const settle = (job) => {
+    jobs.delete(job.idempotencyKey);
+    listeners.forEach((listener) => listener(job));
+  };
+
+  const attempt = async (job) => {
+    job.attempts += 1;
+
+    let result = null;
+    try {
+      result = await transfer(job);
+    } catch (error) {
+      job.lastError = error.message;
+      payoutAttemptFailures.inc({ type: job.transactionType });
+
+      if (error.retryable === false || job.attempts >= PAYOUT_MAX_ATTEMPTS) {
+        job.status = 'dead_letter';
+        payoutsSettled.inc({ type: job.transactionType, status: 'dead_letter' });
+        console.error(`[PAYOUT] ${job.idempotencyKey} dead-lettered after ${job.attempts} attempts: ${error.message}`);
+        recordJob(AUDIT_EVENTS.PAYOUT_DEAD_LETTERED, job, { ok: false, error: error.message });
+        await persist(job, { status: 'dead_letter', attempts: job.attempts, error_message: job.lastError });
+        settle(job);
+        return;
+      }
+
+      job.nextAttemptAt = clock.now() + getRetryDelay(job.attempts);
+      console.warn(`[PAYOUT] ${job.idempotencyKey} attempt ${job.attempts} failed, retrying in ${getRetryDelay(job.attempts) / 1000}s: ${error.message}`);
+      recordJob(AUDIT_EVENTS.PAYOUT_FAILED, job, {
+        ok: false,
+        error: error.message,
+        details: { nextAttemptAt: new Date(job.nextAttemptAt).toISOString() },
+      });
+      await persist(job, {
+        attempts: job.attempts,
+        next_attempt_at: new Date(job.nextAttemptAt),
+        error_message: job.lastError,
+      });
+      schedule(job);
+      return;
+    }
+
+    if (result.alreadySent) {
+      console.log(`[PAYOUT] ${job.idempotencyKey} had already landed as ${result.signature}`);
+    }
+    job.status = 'confirmed';
+    job.signature = result.signature;
+    recordJob(AUDIT_EVENTS.PAYOUT_CONFIRMED, job, {
+      details: { signature: job.signature, alreadySent: Boolean(result.alreadySent) },
+    });
+    payoutsSettled.inc({ type: job.transactionType, status: 'confirmed' });
+    if (job.queuedAt !== null) {
+      payoutLatency.observe({ type: job.transactionType }, (clock.now() - job.queuedAt) / 1000);
+    }
+    await persist(job, {
+      status: 'confirmed',
+      signature: job.signature,
+      attempts: job.attempts,
+      confirmed_at: new Date(clock.now()),
+    });
+    settle(job);
+  };
+
+  // A job already due is attempted right away, so `flush` waits for it
+  const schedule = (job) => {
+    jobs.set(job.idempotencyKey, job);
+    const delay = job.nextAttemptAt - clock.now();
+    if (delay <= 0) {
+      track(attempt(job));
+    } else {
+      scheduler.setTimeout(() => track(attempt(job)), delay);
+    }
+  };
+
+  const queue = async ({ roundId, walletAddress, amount, transactionType }) => {
+    const idempotencyKey = getPayoutKey(roundId, transactionType, walletAddress);
+    if (jobs.has(idempotencyKey)) return jobs.get(idempotencyKey);
+
+    const job = {
+      id: null,
+      idempotencyKey,
+      roundId,
+      walletAddress,
+      amount,
+      transactionType,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: clock.now(),
+      signature: null,
+      lastError: null,
+      queuedAt: clock.now(),
+    };
+    jobs.set(idempotencyKey, job);
+
+    const existing = await getPayoutJob(idempotencyKey);
+    if (existing) {
+      Object.assign(job, fromRow(existing));
+    } else {
+      job.id = await logTransaction({
+        round_id: roundId,
+        transaction_type: transactionType,
+        recipient_wallet: walletAddress,
+        amount,
+        status: 'pending',
+        idempotency_key: idempotencyKey,
+        attempts: 0,
+        next_attempt_at: new Date(job.nextAttemptAt),
+      });
+      if (!job.id) {
+        console.error(`[PAYOUT] ${idempotencyKey} could not be saved; it will not survive a restart`);
+      }
+      recordJob(AUDIT_EVENTS.PAYOUT_QUEUED, job, job.id ? {} : { ok: false, error: 'payout_transactions insert failed' });
+    }
+
+    if (job.status === 'pending') {
+      schedule(job);
+    } else {
+      settle(job);
+    }
+    return job;
+  };
+
+  return {
+    /**
+     * Queues a payout and makes its first attempt right away. Queuing a payout
+     * that already exists (same round, type and wallet) returns the existing job.
+     * @param {{ roundId: string, walletAddress: string, amount: number, transactionType: string }} payout
+     * @returns {Promise<PayoutJob>}
+     */
+    enqueue(payout) {
+      return track(queue(payout));
+    },
+
+    /**
+     * Registers a listener called once a job is confirmed or dead-lettered.
+     * @param {(job: PayoutJob) => void} listener
+     */
+    onSettled(listener) {
+      listeners.push(listener);
+    },
+
+    /**
+     * Picks up the pending jobs a previous run left behind. Their idempotency
+     * keys make it safe to retry jobs that were mid-attempt.
+     * @param {object} [options]
+     * @param {number} [options.staleAfter] - Only take jobs this far past their next attempt,
+     *   e.g. `PAYOUT_STALE_AFTER` while other instances may still be retrying theirs.
+     */
+    async recover({ staleAfter = 0 } = {}) {
+      const cutoff = staleAfter ? clock.now() - staleAfter : Infinity;
+      const orphaned = (await getPayoutJobs(['pending']))
+        .map(fromRow)
+        .filter((job) => !jobs.has(job.idempotencyKey) && job.nextAttemptAt <= cutoff);
+
+      orphaned.forEach(schedule);
+      if (orphaned.length > 0) {
+        console.log(`[PAYOUT] Resuming ${orphaned.length} payouts left pending by a previous run`);
+      }
+    },
+
+    /**
+     * Waits until every payout queued so far is saved and every attempt that
+     * is due has finished, e.g. before shutting down. Jobs waiting for a
+     * retry, and attempts still running after `timeout`, are left to
+     * whichever instance recovers them; their idempotency keys make that safe.
+     * @param {object} [options]
+     * @param {number} [options.timeout] - Gives up after this long; an attempt can take `PAYOUT_REQUEST_TIMEOUT`.
+     * @returns {Promise<boolean>} False if it gave up with attempts still running.
+     */
+    async flush({ timeout = Infinity } = {}) {
+      const deadline = clock.now() + timeout;
+      while (running.size > 0) {
+        const left = deadline - clock.now();
+        if (left <= 0) return false;
+
+        let timeoutId = null;
+        const expired = new Promise((resolve) => {
+          if (left !== Infinity) timeoutId = scheduler.setTimeout(resolve, left);
+        });
+        await Promise.race([Promise.allSettled(Array.from(running)), expired]);
+        scheduler.clearTimeout(timeoutId);
+      }
+      return true;
+    },
+
+    /**
+     * @returns {number} Payouts queued and not yet settled.
+     */
+    getPendingCount() {
+      return jobs.size;
+    },
+
+    /**
+     * @returns {Promise<PayoutJob[]>} Payouts that ran out of attempts and need an operator.
+     */
+    async getDeadLetters() {
+      return (await getPayoutJobs(['dead_letter'])).map(fromRow);
+    },
+
+    /**
+     * Gives a dead-lettered payout a fresh set of attempts.
+     * @param {string} idempotencyKey
+     * @returns {Promise<PayoutJob|null>} The requeued job, or null if no such payout is dead-lettered.
+     */
+    async requeue(idempotencyKey) {
+      const row = await getPayoutJob(idempotencyKey);
+      if (!row || row.status !== 'dead_letter' || jobs.has(idempotencyKey)) return null;
+
+      const job = { ...fromRow(row), status: 'pending', attempts: 0, nextAttemptAt: clock.now(), queuedAt: clock.now() };
+      await persist(job, { status: 'pending', attempts: 0, next_attempt_at: new Date(job.nextAttemptAt) });
+      recordJob(AUDIT_EVENTS.PAYOUT_REQUEUED, job);
+      schedule(job);
+      return job;
+    },
+  };
+};
@@ -0,0 +1,104 @@
+/**
+ * @file replay.js
+ * @description Duel replays for PotShot.gg. A recorder captures every event a
+ * duel sends to its room, stamped with the server time, so a finished duel can
+ * be stored and played back later (phase changes, gong, cycle durations and
+ * every shot with its bar position).
+ */
+
+import { randomUUID } from 'crypto';
+import { systemClock } from './duelEngine.js';
+
+/**
+ * @typedef {object} ReplayEvent
+ * @property {string} event - The Socket.IO event name, e.g. "duel:shot".
+ * @property {number} serverTime - Server clock when the event was sent, in milliseconds.
+ * @property {object|null} payload - The event payload, as clients received it.
+ */
+
+/**
+ * @typedef {object} Replay
+ * @property {string} id - Replay ID, shared with clients in `winnerData.replayId`.
+ * @property {string} arenaId
+ * @property {number} startedAt - Server clock when the duel was announced.
+ * @property {number|null} endedAt - Server clock when the duel was decided.
+ * @property {number} bestOf
+ * @property {string} ruleset - Ruleset ID.
+ * @property {{ id: string, name: string, position: number[], rotation: number }[]} fighters - In seat order.
+ * @property {ReplayEvent[]} events
+ * @property {import('./duelEngine.js').DuelResult|null} result
+ */
+
+/**
+ * @function fromReplayRow
+ * @param {object} row - A `duel_replays` row.
+ * @returns {Replay}
+ */
+export const fromReplayRow = (row) => ({
+  id: row.id,
+  arenaId: row.arena_id,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  bestOf: row.best_of,
+  ruleset: row.ruleset,
+  fighters: row.fighters,
+  events: row.events,
+  result: row.result,
+});
+
+/**
+ * @function createReplayRecorder
+ * @description Starts recording a duel.
+ * @param {object} options
+ * @param {string} options.arenaId
+ * @param {object[]} options.fighters - The seated fighters; only public fields are kept.
+ * @param {number} options.bestOf
+ * @param {string} options.ruleset - Ruleset ID.
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ */
+export const createReplayRecorder = ({ arenaId, fighters, bestOf, ruleset, clock = systemClock }) => {
+  /** @type {Replay} */
+  const replay = {
+    id: randomUUID(),
+    arenaId,
+    startedAt: clock.now(),
+    endedAt: null,
+    bestOf,
+    ruleset,
+    fighters: fighters.map(({ id, name, position, rotation }) => ({ id, name, position, rotation })),
+    events: [],
+    result: null,
+  };
+
+  const record = (event, payload = null) => {
+    if (replay.result) return;
+    replay.events.push({ event, serverTime: clock.now(), payload });
+  };
+
+  record("game:phaseChange", { phase: "IN_ROUND" });
+
+  return {
+    id: replay.id,
+
+    /**
+     * Appends an event sent to the duel's room.
+     * @param {string} event
+     * @param {object} [payload]
+     */
+    record,
+
+    /**
+     * Stops recording and returns the finished replay.
+     * @param {import('./duelEngine.js').DuelResult} result
+     * @returns {Replay}
+     */
+    finish(result) {
+      if (!replay.result) {
+        record("duel:finish", result);
+        replay.result = result;
+        replay.endedAt = clock.now();
+      }
+      return replay;
+    },
+  };
+};
@@ -0,0 +1,192 @@
+/**
+ * @file rulesets.js
+ * @description Difficulty rulesets for the shooting bar. A ruleset decides how
+ * fast the bar cycles each round, where the target zone sits, how it shrinks
+ * and moves from round to round, whether it slides along the bar during a
+ * round, and how many rounds a game may last.
+ * Each arena picks one; the duel engine only reads it through these helpers.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * @typedef {object} CycleCurve
+ * @property {number} baseDuration - Bar cycle duration in round one, in milliseconds.
+ * @property {number} speedFactor - Multiplier applied to the duration every round.
+ * @property {number} minDuration - The cycle never gets faster than this.
+ */
+
+/**
+ * @typedef {object} ZoneRules
+ * @property {number} start - Lower edge of the target zone in round one, from 0 to 1.
+ * @property {number} width - Width of the target zone in round one.
+ * @property {number} shrinkPerRound - Width lost every round.
+ * @property {number} minWidth - The zone never gets narrower than this.
+ * @property {number} shiftPerRound - How far the zone moves every round; it
+ * bounces back off either end of the bar. 0 keeps it in place.
+ * @property {number} driftPerSecond - How far the zone slides along the bar
+ * every second during a round, bouncing off either end. 0 keeps it still.
+ * The bar must outrun it, so it is below one bar length per round-one cycle.
+ */
+
+/**
+ * @typedef {object} Ruleset
+ * @property {string} id - Stable ruleset ID.
+ * @property {string} name - Display name.
+ * @property {CycleCurve} cycle
+ * @property {ZoneRules} zone
+ * @property {number|null} maxRounds - Rounds per game before it is called on time; null for no limit.
+ */
+
+/**
+ * @typedef {object} TargetZone
+ * @property {number} min - Lower edge, from 0 to 1.
+ * @property {number} max - Upper edge, from 0 to 1.
+ */
+
+// ============================================
+// PRESETS
+// ============================================
+
+/** @type {Ruleset} */
+export const CLASSIC_RULESET = {
+  id: "classic",
+  name: "CLASSIC",
+  cycle: { baseDuration: 2200, speedFactor: 0.65, minDuration: 500 },
+  zone: { start: 0.60, width: 0.20, shrinkPerRound: 0, minWidth: 0.20, shiftPerRound: 0, driftPerSecond: 0 },
+  maxRounds: null,
+};
+
+/** @type {Record<string, Ruleset>} */
+export const RULESETS = {
+  classic: CLASSIC_RULESET,
+  easy: {
+    id: "easy",
+    name: "EASY",
+    cycle: { baseDuration: 2600, speedFactor: 0.8, minDuration: 900 },
+    zone: { start: 0.55, width: 0.30, shrinkPerRound: 0.02, minWidth: 0.20, shiftPerRound: 0, driftPerSecond: 0 },
+    maxRounds: null,
+  },
+  hardcore: {
+    id: "hardcore",
+    name: "HARDCORE",
+    cycle: { baseDuration: 1800, speedFactor: 0.6, minDuration: 350 },
+    zone: { start: 0.65, width: 0.12, shrinkPerRound: 0.02, minWidth: 0.05, shiftPerRound: 0.17, driftPerSecond: 0.15 },
+    maxRounds: 8,
+  },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * @function resolveRuleset
+ * @description Turns a preset ID or a partial ruleset into a complete one.
+ * Missing fields fall back to the classic rules.
+ * @param {string|Partial<Ruleset>} [ruleset] - A preset ID or overrides.
+ * @returns {Ruleset}
+ */
+export const resolveRuleset = (ruleset = CLASSIC_RULESET) => {
+  if (typeof ruleset === "string") {
+    if (!RULESETS[ruleset]) {
+      throw new Error(`Unknown ruleset "${ruleset}"; expected one of ${Object.keys(RULESETS).join('/')}`);
+    }
+    return RULESETS[ruleset];
+  }
+
+  const resolved = {
+    ...CLASSIC_RULESET,
+    ...ruleset,
+    cycle: { ...CLASSIC_RULESET.cycle, ...ruleset.cycle },
+    zone: { ...CLASSIC_RULESET.zone, ...ruleset.zone },
+  };
+
+  const { start, width, minWidth } = resolved.zone;
+  if (width <= 0 || minWidth <= 0 || start < 0 || start + width > 1) {
+    throw new Error(`Ruleset "${resolved.id}": target zone must fit inside the bar`);
+  }
+  if (resolved.cycle.baseDuration <= 0 || resolved.cycle.minDuration <= 0) {
+    throw new Error(`Ruleset "${resolved.id}": cycle durations must be positive`);
+  }
+  const { driftPerSecond } = resolved.zone;
+  if (driftPerSecond < 0 || (driftPerSecond * Math.max(resolved.cycle.baseDuration, resolved.cycle.minDuration)) / 1000 >= 1) {
+    throw new Error(`Ruleset "${resolved.id}": the bar must outrun a drifting zone`);
+  }
+
+  return resolved;
+};
+
+const round3 = (value) => Math.round(value * 1000) / 1000;
+
+/**
+ * @function bounceAlongBar
+ * @description Folds a zone's lower edge back onto the bar, as if the zone
+ * had bounced off either end on its way there.
+ * @param {number} offset - Unbounded lower edge.
+ * @param {number} zoneWidth
+ * @returns {number} The lower edge, from 0 to `1 - zoneWidth`.
+ */
+const bounceAlongBar = (offset, zoneWidth) => {
+  const travel = 1 - zoneWidth;
+  if (travel <= 0) return 0;
+  return travel - Math.abs((((offset % (2 * travel)) + 2 * travel) % (2 * travel)) - travel);
+};
+
+/**
+ * @function getCycleDuration
+ * @description Duration of one bar cycle in a given round.
+ * @param {Ruleset} ruleset
+ * @param {number} round - 1-based round number.
+ * @returns {number} Milliseconds.
+ */
+export const getCycleDuration = (ruleset, round) => {
+  const { baseDuration, speedFactor, minDuration } = ruleset.cycle;
+  return Math.max(baseDuration * Math.pow(speedFactor, round - 1), minDuration);
+};
+
+/**
+ * @function getTargetZone
+ * @description Where the target zone sits in a given round.
+ * @param {Ruleset} ruleset
+ * @param {number} round - 1-based round number.
+ * @returns {TargetZone}
+ */
+export const getTargetZone = (ruleset, round) => {
+  const { start, width, shrinkPerRound, minWidth, shiftPerRound } = ruleset.zone;
+  const zoneWidth = Math.max(width - shrinkPerRound * (round - 1), Math.min(minWidth, width));
+  const centre = start + width / 2;
+
+  const offset = bounceAlongBar(centre - zoneWidth / 2 + shiftPerRound * (round - 1), zoneWidth);
+  return { min: round3(offset), max: round3(offset + zoneWidth) };
+};
+
+/**
+ * @function getDriftedZone
+ * @description Where a round's target zone sits a given time into the round,
+ * once it has slid `driftPerSecond` along the bar every second. Clients mirror
+ * this from the round's zone and drift.
+ * @param {TargetZone} zone - The round's zone when the bar started.
+ * @param {number} driftPerSecond
+ * @param {number} elapsed - Time since the bar started, in milliseconds.
+ * @returns {TargetZone}
+ */
+export const getDriftedZone = (zone, driftPerSecond, elapsed) => {
+  if (!driftPerSecond || elapsed <= 0) return zone;
+  const zoneWidth = zone.max - zone.min;
+  const offset = bounceAlongBar(zone.min + (driftPerSecond * elapsed) / 1000, zoneWidth);
+  return { min: round3(offset), max: round3(offset + zoneWidth) };
+};
+
+/**
+ * @function toPublicRuleset
+ * @description The parts of a ruleset clients show in the arena browser.
+ * @param {Ruleset} ruleset
+ */
+export const toPublicRuleset = (ruleset) => ({
+  id: ruleset.id,
+  name: ruleset.name,
+  maxRounds: ruleset.maxRounds,
+});
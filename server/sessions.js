@@ -0,0 +1,159 @@
+/**
+ * @file sessions.js
+ * @description Wallet-keyed player sessions for PotShot.gg.
+ * A session is opened when a wallet signs in with `player:joinWithWallet` and
+ * outlives the socket that opened it: sockets attach to and detach from it,
+ * and a new socket (after a refresh or a dropped connection) picks it back up
+ * with the session token instead of signing again. Players, duel seats and
+ * confirmed bets are keyed by the session's wallet address, never by a socket ID.
+ */
+
+import { randomBytes } from 'crypto';
+import { systemClock } from './duelEngine.js';
+
+// ============================================
+// CONSTANTS
+// ============================================
+export const SESSION_TTL = 2 * 60 * 1000; // How long a session without a socket is kept
+export const SESSION_SWEEP_INTERVAL = 30 * 1000;
+
+/**
+ * @typedef {object} Session
+ * @property {string} walletAddress - The verified wallet; also the player's ID.
+ * @property {string} token - Secret that lets a new socket resume the session.
+ * @property {string|null} socketId - The attached socket, if any.
+ * @property {number|null} detachedAt - When the last socket went away.
+ */
+
+/**
+ * @function getPlayerRoom
+ * @param {string} walletAddress
+ * @returns {string} The Socket.IO room of the sockets attached to a player's session.
+ */
+export const getPlayerRoom = (walletAddress) => `player:${walletAddress}`;
+
+/**
+ * @function createSessionRegistry
+ * @description Creates the registry of open sessions.
+ * @param {object} [options]
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source, defaults to `Date.now`.
+ * @param {number} [options.ttl] - How long a detached session survives.
+ */
+export const createSessionRegistry = ({ clock = systemClock, ttl = SESSION_TTL } = {}) => {
+  const sessions = new Map(); // Map<walletAddress, Session>
+  const socketSessions = new Map(); // Map<socketId, walletAddress>
+
+  const attach = (session, socketId) => {
+    if (session.socketId) {
+      socketSessions.delete(session.socketId);
+    }
+    session.socketId = socketId;
+    session.detachedAt = null;
+    socketSessions.set(socketId, session.walletAddress);
+    return session;
+  };
+
+  return {
+    /**
+     * Opens a session for a wallet that just proved ownership, or takes over
+     * its existing one. A fresh token is issued either way, so older tokens stop working.
+     * @param {string} walletAddress
+     * @param {string} socketId
+     * @param {string} [token] - Keeps the token of a session moved from another instance instead.
+     * @returns {Session}
+     */
+    open(walletAddress, socketId, token = randomBytes(32).toString('hex')) {
+      const session = sessions.get(walletAddress) ?? { walletAddress, socketId: null, detachedAt: null };
+      session.token = token;
+      sessions.set(walletAddress, session);
+      return attach(session, socketId);
+    },
+
+    /**
+     * Attaches a socket to the session its token belongs to.
+     * @param {string} token
+     * @param {string} socketId
+     * @returns {Session|null} The session, or null if the token is unknown or another socket holds it.
+     */
+    resume(token, socketId) {
+      if (typeof token !== 'string') return null;
+      const session = Array.from(sessions.values()).find((s) => s.token === token);
+      if (!session || (session.socketId && session.socketId !== socketId)) return null;
+      return attach(session, socketId);
+    },
+
+    /**
+     * @param {string} walletAddress
+     * @returns {Session|null}
+     */
+    get(walletAddress) {
+      return sessions.get(walletAddress) ?? null;
+    },
+
+    /**
+     * @param {string} socketId
+     * @returns {Session|null} The session this socket is attached to.
+     */
+    getBySocket(socketId) {
+      return sessions.get(socketSessions.get(socketId)) ?? null;
+    },
+
+    /**
+     * Detaches a socket that went away; its session stays open for `ttl`.
+     * @param {string} socketId
+     * @returns {Session|null} The session the socket was attached to.
+     */
+    detach(socketId) {
+      const session = sessions.get(socketSessions.get(socketId));
+      socketSessions.delete(socketId);
+      if (!session || session.socketId !== socketId) return null;
+
+      session.socketId = null;
+      session.detachedAt = clock.now();
+      return session;
+    },
+
+    /**
+     * Closes a session right away, e.g. when an operator kicks its wallet; its
+     * token stops working.
+     * @param {string} walletAddress
+     * @returns {Session|null} The closed session.
+     */
+    close(walletAddress) {
+      const session = sessions.get(walletAddress);
+      if (!session) return null;
+
+      socketSessions.delete(session.socketId);
+      sessions.delete(walletAddress);
+      return session;
+    },
+
+    /**
+     * @returns {Session[]} Every open session.
+     */
+    list() {
+      return Array.from(sessions.values());
+    },
+
+    /**
+     * @returns {{ attached: number, detached: number }} Open sessions, by whether a socket is attached.
+     */
+    getCounts() {
+      const attached = Array.from(sessions.values()).filter((session) => session.socketId).length;
+      return { attached, detached: sessions.size - attached };
+    },
+
+    /**
+     * Closes every session that has been detached for longer than `ttl`.
+     * @returns {Session[]} The closed sessions.
+     */
+    expire() {
+      const now = clock.now();
+      const expired = Array.from(sessions.values()).filter(
+        (session) => !session.socketId && now - session.detachedAt > ttl,
+      );
+      expired.forEach((session) => sessions.delete(session.walletAddress));
+      return expired;
+    },
+  };
+};
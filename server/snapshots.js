@@ -0,0 +1,90 @@
+/**
+ * @file snapshots.js
+ * @description Crash-safe arena state. Every arena hands over a snapshot of
+ * its lobby and round on each transition (a player arriving or leaving, a bet,
+ * a phase change), and the latest one per arena is saved to the
+ * `arena_snapshots` table. The instance that takes an arena over, at startup
+ * or after its owner stopped, reloads it: the lobby is resumed, and a round
+ * that was being fought is voided and its pot refunded. Snapshots never carry
+ * money: which bets are still held is read from the escrow ledger.
+ */
+
+import { saveArenaSnapshot, getArenaSnapshot } from './database.js';
+
+/**
+ * @typedef {object} SnapshotPlayer
+ * @property {string} id - The player's wallet address.
+ * @property {string} walletAddress
+ * @property {string} name
+ * @property {number|null} lastBetTimestamp - Breaks ties between equal bids.
+ * @property {object} stats
+ */
+
+/**
+ * @typedef {object} ArenaSnapshot
+ * @property {string} arenaId
+ * @property {number} takenAt
+ * @property {'LOBBY'|'IN_ROUND'|'POST_ROUND'} phase
+ * @property {string|null} roundId - The round being fought or paid out, if any.
+ * @property {number} roundPot
+ * @property {boolean} bettingPaused - Paused by an operator.
+ * @property {string[]} fighterIds - Who fights for the pot: the duel's fighters, or every tournament entrant.
+ * @property {SnapshotPlayer[]} players
+ * @property {Record<string, number>} entryTimes - Tournament only: when each entrant completed the buy-in.
+ */
+
+/**
+ * @function createSnapshotWriter
+ * @description Creates the writer arenas hand their snapshots to. Only one
+ * save per arena is in flight at a time; snapshots taken meanwhile replace
+ * each other, so a burst of bets costs two writes, not one per bet.
+ * @param {object} [options]
+ * @param {typeof saveArenaSnapshot} [options.save]
+ * @param {typeof getArenaSnapshot} [options.load]
+ */
+export const createSnapshotWriter = ({ save = saveArenaSnapshot, load = getArenaSnapshot } = {}) => {
+  const waiting = new Map(); // Map<arenaId, ArenaSnapshot>, taken while a save was in flight
+  const saving = new Map(); // Map<arenaId, Promise<void>>
+
+  const saveLatest = async (arenaId) => {
+    while (waiting.has(arenaId)) {
+      const snapshot = waiting.get(arenaId);
+      waiting.delete(arenaId);
+      try {
+        await save(snapshot);
+      } catch (error) {
+        console.error(`[SNAPSHOT] Saving arena ${arenaId} failed:`, error);
+      }
+    }
+    saving.delete(arenaId);
+  };
+
+  return {
+    /**
+     * Queues an arena's latest snapshot.
+     * @param {ArenaSnapshot} snapshot
+     */
+    write(snapshot) {
+      waiting.set(snapshot.arenaId, snapshot);
+      if (!saving.has(snapshot.arenaId)) {
+        saving.set(snapshot.arenaId, saveLatest(snapshot.arenaId));
+      }
+    },
+
+    /**
+     * Waits until every snapshot queued so far is saved, e.g. before shutting down.
+     * @returns {Promise<void>}
+     */
+    async flush() {
+      await Promise.all(saving.values());
+    },
+
+    /**
+     * @param {string} arenaId
+     * @returns {Promise<ArenaSnapshot|null>} The arena's last saved snapshot.
+     */
+    load(arenaId) {
+      return load(arenaId);
+    },
+  };
+};
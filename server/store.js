@@ -0,0 +1,287 @@
+/**
+ * @file store.js
+ * @description Shared state for running the game server on more than one
+ * instance. What every instance has to agree on goes through this store:
+ * sign-in challenges and auth rate limits, which arena each player is seated
+ * in, the arena summaries, and which instance owns each arena (cluster.js).
+ * STORE_BACKEND picks the implementation:
+ * - `memory` (default): in-process Maps, for a single instance, development
+ *   and the tests
+ * - `redis`: any Redis-compatible server at REDIS_URL (Redis, Valkey, Upstash),
+ *   which also carries Socket.IO broadcasts between instances
+ * Values are stored as JSON, so both backends hand back copies.
+ */
+
+import { systemClock } from './duelEngine.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * @typedef {object} Store
+ * @property {'memory'|'redis'} backend
+ * @property {(key: string) => Promise<any>} get - The value, or null if the key is missing or expired.
+ * @property {(key: string, value: any, options?: { ttl?: number }) => Promise<void>} set - `ttl` in ms.
+ * @property {(key: string, value: any, options?: { ttl?: number }) => Promise<boolean>} setIfAbsent - False,
+ *   and nothing written, if the key already exists.
+ * @property {(key: string, options?: { ttl?: number }) => Promise<number>} increment - Adds one to a
+ *   counter (missing counts as 0) and returns it; `ttl` restarts with every increment.
+ * @property {(key: string) => Promise<void>} delete - Removes a value or a hash.
+ * @property {(key: string, field: string) => Promise<any>} hashGet
+ * @property {(key: string, field: string, value: any) => Promise<void>} hashSet
+ * @property {(key: string, field: string) => Promise<void>} hashDelete
+ * @property {(key: string) => Promise<Record<string, any>>} hashGetAll
+ * @property {(key: string, owner: string, ttl: number) => Promise<boolean>} acquireLease - Takes the
+ *   lease if it is free, or extends it if `owner` already holds it; false if someone else does.
+ * @property {(key: string, owner: string) => Promise<void>} releaseLease - Frees the lease if `owner` holds it.
+ * @property {() => Promise<Function|null>} createAdapter - The Socket.IO adapter broadcasting
+ *   through this store, or null when one instance is all there is.
+ * @property {() => Promise<void>} close
+ */
+
+// ============================================
+// IN-MEMORY BACKEND
+// ============================================
+const MEMORY_SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * @function createMemoryStore
+ * @description A store held in process memory. Expired keys are dropped when
+ * read and swept every minute.
+ * @param {object} [options]
+ * @param {import('./duelEngine.js').Clock} [options.clock] - Time source for expiry.
+ * @returns {Store}
+ */
+export const createMemoryStore = ({ clock = systemClock } = {}) => {
+  const entries = new Map(); // Map<key, { value: string, expiresAt: number|null }>
+  const hashes = new Map(); // Map<key, Map<field, string>>
+
+  const isExpired = (entry) => entry.expiresAt !== null && entry.expiresAt <= clock.now();
+  const read = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.value);
+  };
+  const write = (key, value, ttl) => {
+    entries.set(key, { value: JSON.stringify(value), expiresAt: ttl ? clock.now() + ttl : null });
+  };
+
+  const sweepIntervalId = setInterval(() => {
+    entries.forEach((entry, key) => isExpired(entry) && entries.delete(key));
+  }, MEMORY_SWEEP_INTERVAL);
+  sweepIntervalId.unref();
+
+  return {
+    backend: 'memory',
+
+    async get(key) {
+      return read(key);
+    },
+
+    async set(key, value, { ttl } = {}) {
+      write(key, value, ttl);
+    },
+
+    async setIfAbsent(key, value, { ttl } = {}) {
+      if (read(key) !== null) return false;
+      write(key, value, ttl);
+      return true;
+    },
+
+    async increment(key, { ttl } = {}) {
+      const count = (read(key) ?? 0) + 1;
+      write(key, count, ttl);
+      return count;
+    },
+
+    async delete(key) {
+      entries.delete(key);
+      hashes.delete(key);
+    },
+
+    async hashGet(key, field) {
+      const value = hashes.get(key)?.get(field);
+      return value === undefined ? null : JSON.parse(value);
+    },
+
+    async hashSet(key, field, value) {
+      if (!hashes.has(key)) hashes.set(key, new Map());
+      hashes.get(key).set(field, JSON.stringify(value));
+    },
+
+    async hashDelete(key, field) {
+      hashes.get(key)?.delete(field);
+    },
+
+    async hashGetAll(key) {
+      const hash = hashes.get(key) ?? new Map();
+      return Object.fromEntries(Array.from(hash, ([field, value]) => [field, JSON.parse(value)]));
+    },
+
+    async acquireLease(key, owner, ttl) {
+      const holder = read(key);
+      if (holder !== null && holder !== owner) return false;
+      write(key, owner, ttl);
+      return true;
+    },
+
+    async releaseLease(key, owner) {
+      if (read(key) === owner) entries.delete(key);
+    },
+
+    async createAdapter() {
+      return null;
+    },
+
+    async close() {
+      clearInterval(sweepIntervalId);
+    },
+  };
+};
+
+// ============================================
+// REDIS BACKEND
+// ============================================
+
+// Both run atomically on the Redis server, so two instances cannot take the
+// same lease. Lease values are JSON strings, like everything else.
+const ACQUIRE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return 1
+end
+return 0
+`;
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const parse = (raw) => (raw === null ? null : JSON.parse(raw));
+
+/**
+ * @function createRedisStore
+ * @description A store on a Redis-compatible server. `ioredis` and the
+ * Socket.IO Redis adapter are only loaded when this backend is picked.
+ * @param {{ url: string }} options
+ * @returns {Promise<Store>}
+ */
+export const createRedisStore = async ({ url }) => {
+  const { Redis } = await import('ioredis');
+  const client = new Redis(url, { maxRetriesPerRequest: 3 });
+  client.on('error', (error) => console.error('[STORE] Redis error:', error.message));
+  client.defineCommand('acquireLease', { numberOfKeys: 1, lua: ACQUIRE_LEASE_SCRIPT });
+  client.defineCommand('releaseLease', { numberOfKeys: 1, lua: RELEASE_LEASE_SCRIPT });
+
+  const adapterClients = [];
+
+  return {
+    backend: 'redis',
+
+    async get(key) {
+      return parse(await client.get(key));
+    },
+
+    async set(key, value, { ttl } = {}) {
+      if (ttl) {
+        await client.set(key, JSON.stringify(value), 'PX', ttl);
+      } else {
+        await client.set(key, JSON.stringify(value));
+      }
+    },
+
+    async setIfAbsent(key, value, { ttl } = {}) {
+      const result = ttl
+        ? await client.set(key, JSON.stringify(value), 'PX', ttl, 'NX')
+        : await client.set(key, JSON.stringify(value), 'NX');
+      return result === 'OK';
+    },
+
+    async increment(key, { ttl } = {}) {
+      if (!ttl) return client.incr(key);
+      const [[, count]] = await client.multi().incr(key).pexpire(key, ttl).exec();
+      return count;
+    },
+
+    async delete(key) {
+      await client.del(key);
+    },
+
+    async hashGet(key, field) {
+      return parse(await client.hget(key, field));
+    },
+
+    async hashSet(key, field, value) {
+      await client.hset(key, field, JSON.stringify(value));
+    },
+
+    async hashDelete(key, field) {
+      await client.hdel(key, field);
+    },
+
+    async hashGetAll(key) {
+      const hash = await client.hgetall(key);
+      return Object.fromEntries(Object.entries(hash).map(([field, value]) => [field, JSON.parse(value)]));
+    },
+
+    async acquireLease(key, owner, ttl) {
+      return (await client.acquireLease(key, JSON.stringify(owner), ttl)) === 1;
+    },
+
+    async releaseLease(key, owner) {
+      await client.releaseLease(key, JSON.stringify(owner));
+    },
+
+    // Publishes every broadcast and serverSideEmit on Redis; each instance
+    // delivers it to the sockets connected to it
+    async createAdapter() {
+      const { createAdapter } = await import('@socket.io/redis-adapter');
+      const pubClient = client.duplicate();
+      const subClient = client.duplicate();
+      adapterClients.push(pubClient, subClient);
+      return createAdapter(pubClient, subClient);
+    },
+
+    async close() {
+      await Promise.all([client, ...adapterClients].map((connection) => connection.quit()));
+    },
+  };
+};
+
+// ============================================
+// BACKEND SELECTION
+// ============================================
+export const STORE_BACKENDS = ['memory', 'redis'];
+
+/**
+ * @function createStore
+ * @description Creates the store for a backend.
+ * @param {string} backend - One of `STORE_BACKENDS`.
+ * @returns {Promise<Store>}
+ */
+export const createStore = async (backend) => {
+  if (backend === 'memory') {
+    return createMemoryStore();
+  }
+  if (backend !== 'redis') {
+    console.error(`FATAL: Unknown STORE_BACKEND "${backend}" (expected ${STORE_BACKENDS.join(' or ')})`);
+    process.exit(1);
+  }
+
+  if (!process.env.REDIS_URL) {
+    console.error('FATAL: REDIS_URL not found in environment variables');
+    process.exit(1);
+  }
+  return createRedisStore({ url: process.env.REDIS_URL });
+};
+
+export const store = await createStore(process.env.STORE_BACKEND || 'memory');
@@ -0,0 +1,455 @@
+/**
+ * @file supabaseRepository.js
+ * @description The production data repository: every table lives in Supabase.
+ * Calls log their errors, count them in `potshot_supabase_errors_total` and
+ * return null, false or an empty list instead of throwing, except for
+ * recording a bet, which throws so the bet is not credited unrecorded.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { supabaseErrors } from './metrics.js';
+import { fromReplayRow } from './replay.js';
+
+/**
+ * @function createSupabaseRepository
+ * @description Creates a repository backed by a Supabase project.
+ * @param {object} options
+ * @param {string} options.url - The project URL.
+ * @param {string} options.serviceKey - The service role key; it bypasses RLS, so it must never reach a browser.
+ * @returns {import('./database.js').Repository}
+ */
+export const createSupabaseRepository = ({ url, serviceKey }) => {
+  const supabase = createClient(url, serviceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+
+  // Counted per operation, so failing Supabase calls show up in /metrics
+  const countError = (operation) => supabaseErrors.inc({ operation });
+
+  // ============================================
+  // PLAYERS
+  // ============================================
+  const players = {
+    async getOrCreate(walletAddress) {
+      let { data: player, error } = await supabase
+        .from('players')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .single();
+
+      if (error && error.code === 'PGRST116') {
+        console.log(`Player not found for ${walletAddress}. Creating new entry.`);
+
+        // Default username is shortened wallet address
+        const defaultUsername = `${walletAddress.substring(0, 4)}...${walletAddress.substring(walletAddress.length - 4)}`;
+
+        const { data: newPlayer, error: insertError } = await supabase
+          .from('players')
+          .insert({ wallet_address: walletAddress, username: defaultUsername })
+          .select()
+          .single();
+
+        if (insertError) {
+          countError('getPlayerStats');
+          console.error('Error creating new player:', insertError);
+          return null;
+        }
+        return newPlayer;
+      } else if (error) {
+        countError('getPlayerStats');
+        console.error('Error fetching player stats:', error);
+        return null;
+      }
+
+      return player;
+    },
+
+    async update(walletAddress, updates) {
+      const { data, error } = await supabase
+        .from('players')
+        .update(updates)
+        .eq('wallet_address', walletAddress)
+        .select()
+        .single();
+
+      if (error) {
+        countError('updatePlayerStats');
+        console.error(`Error updating stats for ${walletAddress}:`, error);
+        return null;
+      }
+      return data;
+    },
+
+    async incrementStat(walletAddress, field, value) {
+      const { error } = await supabase.rpc('increment_stat', {
+        p_wallet_address: walletAddress,
+        p_field: field,
+        p_value: value,
+      });
+
+      if (error) {
+        countError('incrementPlayerStat');
+        console.error(
+          `Error incrementing ${field} for ${walletAddress}:`,
+          error,
+        );
+        return false;
+      }
+      return true;
+    },
+  };
+
+  // ============================================
+  // BET TRANSACTIONS
+  // ============================================
+  const bets = {
+    async exists(signature) {
+      const { data, error } = await supabase
+        .from('bet_transactions')
+        .select('signature')
+        .eq('signature', signature)
+        .single();
+
+      if (error && error.code !== 'PGRST116') { // PGRST116 is "Row not found"
+        countError('checkSignatureExists');
+        console.error('Error checking signature:', error);
+        // Fail closed: if DB error, assume it exists to prevent replay
+        return true;
+      }
+
+      return !!data;
+    },
+
+    async log(signature, walletAddress, amount) {
+      const { error } = await supabase
+        .from('bet_transactions')
+        .insert([{ signature, wallet_address: walletAddress, amount }]);
+
+      if (error) {
+        countError('logBetTransaction');
+        console.error('Failed to log bet transaction:', error);
+        throw new Error('Failed to log bet transaction');
+      }
+    },
+  };
+
+  // ============================================
+  // PAYOUT TRANSACTIONS
+  // ============================================
+  const payouts = {
+    async insert(transactionData) {
+      const { data, error } = await supabase
+        .from('payout_transactions')
+        .insert([transactionData])
+        .select()
+        .single();
+
+      if (error) {
+        countError('logTransaction');
+        console.error('Failed to log transaction:', error);
+        return null;
+      }
+
+      return data.id;
+    },
+
+    async update(txId, updates) {
+      const { error } = await supabase
+        .from('payout_transactions')
+        .update(updates)
+        .eq('id', txId);
+
+      if (error) {
+        countError('updateTransaction');
+        console.error('Failed to update transaction:', error);
+      }
+    },
+
+    async getByKey(idempotencyKey) {
+      const { data, error } = await supabase
+        .from('payout_transactions')
+        .select('*')
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+
+      if (error) {
+        countError('getPayoutJob');
+        console.error(`Failed to load payout ${idempotencyKey}:`, error);
+        return null;
+      }
+      return data;
+    },
+
+    async listQueued(statuses) {
+      const { data, error } = await supabase
+        .from('payout_transactions')
+        .select('*')
+        .not('idempotency_key', 'is', null)
+        .in('status', statuses)
+        .order('next_attempt_at', { ascending: true });
+
+      if (error) {
+        countError('getPayoutJobs');
+        console.error('Failed to load queued payouts:', error);
+        return [];
+      }
+      return data;
+    },
+  };
+
+  // ============================================
+  // ESCROW
+  // ============================================
+  const escrow = {
+    async save(entry) {
+      const { error } = await supabase
+        .from('bet_escrow')
+        .insert([{
+          signature: entry.signature,
+          wallet_address: entry.walletAddress,
+          arena_id: entry.arenaId,
+          amount: entry.amount,
+          status: entry.status,
+          created_at: new Date(entry.createdAt),
+        }]);
+
+      if (error) {
+        countError('saveEscrowEntry');
+        console.error(`Failed to escrow bet ${entry.signature}:`, error);
+        return false;
+      }
+      return true;
+    },
+
+    async update(signature, updates) {
+      const { error } = await supabase
+        .from('bet_escrow')
+        .update({ ...updates, updated_at: new Date() })
+        .eq('signature', signature);
+
+      if (error) {
+        countError('updateEscrowEntry');
+        console.error(`Failed to update escrowed bet ${signature}:`, error);
+      }
+    },
+
+    async listByStatus(statuses) {
+      const { data, error } = await supabase
+        .from('bet_escrow')
+        .select('*')
+        .in('status', statuses);
+
+      if (error) {
+        countError('getEscrowEntries');
+        console.error('Failed to load escrowed bets:', error);
+        return [];
+      }
+      return data;
+    },
+
+    async listRefunds(walletAddress, limit) {
+      const { data, error } = await supabase
+        .from('bet_escrow')
+        .select('*')
+        .eq('wallet_address', walletAddress)
+        .in('status', ['refunding', 'refunded', 'refund_failed'])
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        countError('getRefunds');
+        console.error(`Failed to load refunds for ${walletAddress}:`, error);
+        return [];
+      }
+      return data;
+    },
+  };
+
+  // ============================================
+  // REPLAYS
+  // ============================================
+  const replays = {
+    async save(replay) {
+      const { error } = await supabase
+        .from('duel_replays')
+        .insert([{
+          id: replay.id,
+          arena_id: replay.arenaId,
+          started_at: replay.startedAt,
+          ended_at: replay.endedAt,
+          best_of: replay.bestOf,
+          ruleset: replay.ruleset,
+          fighters: replay.fighters,
+          events: replay.events,
+          result: replay.result,
+        }]);
+
+      if (error) {
+        countError('saveReplay');
+        console.error(`Failed to save replay ${replay.id}:`, error);
+        return false;
+      }
+      return true;
+    },
+
+    async get(id) {
+      const { data, error } = await supabase
+        .from('duel_replays')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        countError('getReplay');
+        console.error(`Failed to load replay ${id}:`, error);
+        return null;
+      }
+      return data && fromReplayRow(data);
+    },
+  };
+
+  // ============================================
+  // ARENA SNAPSHOTS
+  // ============================================
+  const snapshots = {
+    async save(snapshot) {
+      const { error } = await supabase
+        .from('arena_snapshots')
+        .upsert([{
+          arena_id: snapshot.arenaId,
+          taken_at: new Date(snapshot.takenAt),
+          snapshot,
+        }]);
+
+      if (error) {
+        countError('saveArenaSnapshot');
+        console.error(`Failed to save the snapshot of arena ${snapshot.arenaId}:`, error);
+        return false;
+      }
+      return true;
+    },
+
+    async get(arenaId) {
+      const { data, error } = await supabase
+        .from('arena_snapshots')
+        .select('snapshot')
+        .eq('arena_id', arenaId)
+        .maybeSingle();
+
+      if (error) {
+        countError('getArenaSnapshot');
+        console.error(`Failed to load the snapshot of arena ${arenaId}:`, error);
+        return null;
+      }
+      return data?.snapshot ?? null;
+    },
+  };
+
+  // ============================================
+  // OPERATORS
+  // ============================================
+  const bans = {
+    async list() {
+      const { data, error } = await supabase
+        .from('banned_wallets')
+        .select('wallet_address');
+
+      if (error) {
+        countError('getBannedWallets');
+        console.error('Failed to load banned wallets:', error);
+        return [];
+      }
+      return data.map((row) => row.wallet_address);
+    },
+
+    async save(walletAddress, bannedBy, reason) {
+      const { error } = await supabase
+        .from('banned_wallets')
+        .upsert([{ wallet_address: walletAddress, banned_by: bannedBy, reason, created_at: new Date() }]);
+
+      if (error) {
+        countError('saveBan');
+        console.error(`Failed to ban ${walletAddress}:`, error);
+      }
+    },
+
+    async remove(walletAddress) {
+      const { error } = await supabase
+        .from('banned_wallets')
+        .delete()
+        .eq('wallet_address', walletAddress);
+
+      if (error) {
+        countError('deleteBan');
+        console.error(`Failed to unban ${walletAddress}:`, error);
+      }
+    },
+  };
+
+  const adminActions = {
+    async log({ actor, action, params, ok, error: actionError = null }) {
+      const { error } = await supabase
+        .from('admin_audit_log')
+        .insert([{ actor, action, params, ok, error: actionError, created_at: new Date() }]);
+
+      if (error) {
+        countError('logAdminAction');
+        console.error(`Failed to audit-log ${action} by ${actor}:`, error);
+      }
+    },
+  };
+
+  // ============================================
+  // MONEY AUDIT LOG
+  // ============================================
+  const audit = {
+    async save(event) {
+      const { error } = await supabase
+        .from('audit_log')
+        .insert([{
+          id: event.id,
+          created_at: event.at,
+          type: event.type,
+          round_id: event.roundId,
+          arena_id: event.arenaId,
+          wallet_address: event.walletAddress,
+          amount: event.amount,
+          ok: event.ok,
+          error: event.error,
+          details: event.details,
+        }]);
+
+      if (error) {
+        countError('saveAuditEvent');
+        console.error(`Failed to save audit event ${event.type}:`, error);
+        return false;
+      }
+      return true;
+    },
+
+    async query({ roundId, walletAddress, limit }) {
+      let query = supabase
+        .from('audit_log')
+        .select('*');
+
+      if (roundId) query = query.eq('round_id', roundId);
+      if (walletAddress) query = query.eq('wallet_address', walletAddress);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        countError('getAuditEvents');
+        console.error('Failed to load audit events:', error);
+        return [];
+      }
+      return data;
+    },
+  };
+
+  return { players, bets, payouts, escrow, replays, snapshots, bans, adminActions, audit };
+};
@@ -0,0 +1,264 @@
+/**
+ * @file duelEngine.test.js
+ * @description Unit tests for the duel state machine on a fake clock: two
+ * fighters under the classic rules (2.2 s first sweep, zone 0.6-0.8) shoot at
+ * chosen moments of the bar, with no sockets or real timers involved.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeTime } from './fakeTime.js';
+import {
+  createDuelEngine,
+  GONG_DELAY_MIN,
+  DUEL_MAX_DURATION,
+  READY_CHECK_TIMEOUT,
+  WINNER_REVEAL_DELAY,
+  NEXT_ROUND_DELAY,
+  MAX_SHOT_COMPENSATION,
+} from '../duelEngine.js';
+
+const CYCLE = 2200;
+const IN_ZONE = 0.7 * CYCLE;
+const BEFORE_ZONE = 0.3 * CYCLE;
+// The first tick after the bar left the zone and the compensation window passed
+const AUTO_MISS_AFTER = 0.8 * CYCLE + MAX_SHOT_COMPENSATION + 20;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * @function createDuel
+ * @description Creates a duel between Alice and Bob on fake time. The random
+ * source always returns 0, so the gong rings exactly `GONG_DELAY_MIN` after
+ * both are ready.
+ * @param {object} [options] - Extra engine options, e.g. a ruleset.
+ */
+const createDuel = (options = {}) => {
+  const time = createFakeTime(1000000);
+  const events = [];
+  const results = [];
+  const engine = createDuelEngine({
+    fighters: [{ id: 'alice', name: 'Alice' }, { id: 'bob', name: 'Bob' }],
+    emit: (event, payload) => events.push({ event, payload }),
+    onFinish: (result) => results.push(result),
+    clock: time.clock,
+    scheduler: time.scheduler,
+    random: () => 0,
+    ...options,
+  });
+
+  const ofType = (name) => events.filter(({ event }) => event === name).map(({ payload }) => payload);
+
+  return { time, engine, events, results, ofType };
+};
+
+/**
+ * @function startAiming
+ * @description Readies both fighters and waits for the gong; the bar starts at the returned time.
+ */
+const startAiming = (duel) => {
+  duel.engine.start();
+  duel.engine.ready('alice');
+  duel.engine.ready('bob');
+  duel.time.advance(GONG_DELAY_MIN);
+  assert.equal(duel.engine.getState().state, 'AIM_PHASE');
+  return duel.time.clock.now();
+};
+
+// ============================================
+// ROUNDS
+// ============================================
+describe('duel rounds', () => {
+  test('a hit against a miss takes the last life and wins the duel', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(BEFORE_ZONE);
+    duel.engine.shoot('bob');
+    duel.time.advance(IN_ZONE - BEFORE_ZONE);
+    duel.engine.shoot('alice');
+
+    assert.deepEqual(duel.ofType('duel:shot').map(({ shooterId, hit }) => ({ shooterId, hit })), [
+      { shooterId: 'bob', hit: false },
+      { shooterId: 'alice', hit: true },
+    ]);
+    const [roundEnd] = duel.ofType('duel:roundEnd');
+    assert.equal(roundEnd.outcome, 'hit');
+    assert.equal(roundEnd.winnerId, 'alice');
+    assert.deepEqual(roundEnd.eliminatedIds, ['bob']);
+
+    assert.deepEqual(duel.results, []);
+    duel.time.advance(WINNER_REVEAL_DELAY);
+    assert.deepEqual(duel.results, [{ reason: 'WINNER', winnerId: 'alice', survivorIds: ['alice'] }]);
+    assert.equal(duel.time.getTimerCount(), 0);
+  });
+
+  test('when both miss, the next round starts with a faster bar', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(BEFORE_ZONE);
+    duel.engine.shoot('alice');
+    duel.engine.shoot('bob');
+    assert.equal(duel.ofType('duel:roundEnd')[0].outcome, 'miss');
+
+    duel.time.advance(NEXT_ROUND_DELAY);
+    const [newRound] = duel.ofType('duel:newRound');
+    assert.equal(newRound.round, 2);
+    assert.equal(newRound.startTime, duel.time.clock.now());
+    assert.ok(newRound.barCycleDuration < CYCLE);
+    assert.equal(duel.engine.getState().fighters.every(({ hasFired }) => !hasFired), true);
+  });
+
+  test('when both hit it is a dodge and nobody loses a life', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(IN_ZONE);
+    duel.engine.shoot('alice');
+    duel.engine.shoot('bob');
+
+    assert.equal(duel.ofType('duel:roundEnd')[0].outcome, 'dodge');
+    assert.deepEqual(duel.engine.getState().fighters.map(({ health }) => health), [1, 1]);
+    assert.deepEqual(duel.results, []);
+  });
+
+  test('fighters who never shoot are auto-missed once the bar has left the zone', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(0.8 * CYCLE + MAX_SHOT_COMPENSATION - 20);
+    assert.deepEqual(duel.ofType('duel:shot'), []);
+
+    duel.time.advance(AUTO_MISS_AFTER - (0.8 * CYCLE + MAX_SHOT_COMPENSATION - 20));
+    assert.deepEqual(duel.ofType('duel:shot'), [
+      { shooterId: 'alice', hit: false, autoMiss: true },
+      { shooterId: 'bob', hit: false, autoMiss: true },
+    ]);
+    assert.equal(duel.ofType('duel:roundEnd')[0].outcome, 'miss');
+  });
+
+  test('a zone reaching the end of the bar still auto-misses after the first sweep', () => {
+    const duel = createDuel({ ruleset: { id: 'edge', zone: { start: 0.8, width: 0.2 } } });
+    startAiming(duel);
+
+    duel.time.advance(CYCLE + MAX_SHOT_COMPENSATION + 20);
+    assert.equal(duel.ofType('duel:shot').filter(({ autoMiss }) => autoMiss).length, 2);
+  });
+
+  test('a drifting zone is judged where it stands when the fighter presses', () => {
+    const duel = createDuel({ ruleset: { id: 'drift', zone: { start: 0.2, width: 0.1, driftPerSecond: 0.2 } } });
+    startAiming(duel);
+
+    // After 1.1 s the zone has slid from 0.2-0.3 to 0.42-0.52 and the bar is at 0.5
+    duel.time.advance(CYCLE / 2);
+    duel.engine.shoot('alice');
+    const [shot] = duel.ofType('duel:shot');
+    assert.equal(shot.hit, true);
+    assert.deepEqual(duel.engine.getState().zone, { min: 0.42, max: 0.52 });
+  });
+});
+
+// ============================================
+// FORFEITS AND TIMEOUTS
+// ============================================
+describe('duel forfeits and timeouts', () => {
+  test('a fighter who disconnects mid-round forfeits to the other', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(BEFORE_ZONE);
+    duel.engine.disconnect('bob');
+
+    assert.deepEqual(duel.results, [{ reason: 'WINNER', winnerId: 'alice', survivorIds: ['alice'] }]);
+    assert.equal(duel.time.getTimerCount(), 0);
+  });
+
+  test('a fighter who disconnects before the gong forfeits too', () => {
+    const duel = createDuel();
+    duel.engine.start();
+    duel.engine.ready('alice');
+    duel.engine.disconnect('bob');
+
+    assert.deepEqual(duel.results, [{ reason: 'WINNER', winnerId: 'alice', survivorIds: ['alice'] }]);
+  });
+
+  test('a duel whose fighters are not all ready in time is a no-contest', () => {
+    const duel = createDuel();
+    duel.engine.start();
+    duel.engine.ready('alice');
+
+    duel.time.advance(READY_CHECK_TIMEOUT - 1);
+    assert.deepEqual(duel.results, []);
+    duel.time.advance(1);
+    assert.deepEqual(duel.results, [{ reason: 'NO_CONTEST', winnerId: null, survivorIds: [] }]);
+  });
+
+  test('the ready check does not end a duel that has started', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(READY_CHECK_TIMEOUT - GONG_DELAY_MIN);
+    assert.deepEqual(duel.results, []);
+  });
+
+  test('time is called after DUEL_MAX_DURATION and level fighters share the pot', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(DUEL_MAX_DURATION - 1);
+    assert.deepEqual(duel.results, []);
+    assert.ok(duel.ofType('duel:newRound').length > 1);
+
+    duel.time.advance(1);
+    assert.deepEqual(duel.results, [{ reason: 'TIMEOUT', winnerId: null, survivorIds: ['alice', 'bob'] }]);
+    assert.equal(duel.time.getTimerCount(), 0);
+  });
+
+  test('with a tiebreak, the next draw after the gong picks one of the level fighters', () => {
+    const draws = [0, 0.75];
+    const duel = createDuel({ tiebreak: true, random: () => draws.shift() });
+    startAiming(duel);
+
+    duel.time.advance(DUEL_MAX_DURATION);
+    assert.deepEqual(duel.results, [
+      { reason: 'TIMEOUT', winnerId: null, survivorIds: ['alice', 'bob'], tiebreakId: 'bob' },
+    ]);
+    assert.deepEqual(draws, []);
+  });
+});
+
+// ============================================
+// LATENCY COMPENSATION
+// ============================================
+describe('shot latency compensation', () => {
+  test('a shot is judged at its press time, with the latency capped at MAX_SHOT_COMPENSATION', () => {
+    const duel = createDuel();
+    const barStart = startAiming(duel);
+
+    // Received at 0.68 of the sweep: 300 ms back would be before the zone, 150 ms back is inside it
+    duel.time.advance(1500);
+    duel.engine.shoot('alice', { latencyMs: 300 });
+
+    const [shot] = duel.ofType('duel:shot');
+    assert.equal(shot.compensationMs, MAX_SHOT_COMPENSATION);
+    assert.equal(shot.latencyMs, 300);
+    assert.equal(shot.barPosition, (1500 - MAX_SHOT_COMPENSATION) / CYCLE);
+    assert.equal(shot.hit, true);
+    assert.equal(duel.time.clock.now() - barStart, 1500);
+  });
+
+  test('a press is never placed before the bar started', () => {
+    const duel = createDuel();
+    startAiming(duel);
+
+    duel.time.advance(100);
+    duel.engine.shoot('alice', { latencyMs: MAX_SHOT_COMPENSATION });
+
+    const [shot] = duel.ofType('duel:shot');
+    assert.equal(shot.compensationMs, 100);
+    assert.equal(shot.barPosition, 0);
+  });
+});
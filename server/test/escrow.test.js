@@ -0,0 +1,233 @@
+/**
+ * @file escrow.test.js
+ * @description Unit tests for the refund escrow on the in-memory database
+ * backend: each bet's path through held, in_pot and settled, or through
+ * refunding to refunded or refund_failed, with refunds sent by a payout queue
+ * on a fake clock and the mock chain (`test/mockChain.js`).
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeTime } from './fakeTime.js';
+import { createMockChain } from './mockChain.js';
+import { getPlayerRoom } from '../sessions.js';
+
+// database.js picks its backend when it is first imported
+process.env.DATABASE_BACKEND = 'memory';
+const { createEscrow, REFUND_REASONS } = await import('../escrow.js');
+const { createPayoutQueue, PAYOUT_MAX_ATTEMPTS, PAYOUT_RETRY_BASE_DELAY } = await import('../payouts.js');
+const { getEscrowEntries } = await import('../database.js');
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+const ALICE = 'A11ce11111111111111111111111111111111111111';
+const BOB = 'Bob1111111111111111111111111111111111111111';
+const ESCROW_STATUSES = ['held', 'in_pot', 'settled', 'refunding', 'refunded', 'refund_failed'];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * @function createLedger
+ * @description Creates an escrow and the payout queue its refunds go through,
+ * on fake time, recording the `escrow:refund` notices sent to each wallet.
+ * @param {object} [options]
+ * @param {ReturnType<typeof createMockChain>} [options.chain] - A fresh mock chain by default.
+ * @param {number} [options.start] - When the run starts.
+ */
+const createLedger = ({ chain = createMockChain(), start = START } = {}) => {
+  const time = createFakeTime(start);
+  const notices = [];
+  const io = { to: (room) => ({ emit: (event, payload) => notices.push({ room, event, ...payload }) }) };
+  const payouts = createPayoutQueue({
+    audit: { record: () => {} },
+    clock: time.clock,
+    scheduler: time.scheduler,
+    transfer: chain.transfer,
+  });
+  const escrow = createEscrow({ io, payouts, clock: time.clock });
+
+  const advance = async (ms) => {
+    time.advance(ms);
+    await payouts.flush();
+  };
+
+  // Notices a wallet was sent, as `status` or `status:reason`
+  const noticesFor = (walletAddress) => notices
+    .filter(({ room }) => room === getPlayerRoom(walletAddress))
+    .map(({ status, reason }) => (reason ? `${status}:${reason}` : status));
+
+  return { time, chain, payouts, escrow, advance, noticesFor };
+};
+
+const statusOf = async (signature) =>
+  (await getEscrowEntries(ESCROW_STATUSES)).find((row) => row.signature === signature)?.status;
+
+const bet = (signature, walletAddress, arenaId, amount = 1000) => ({ signature, walletAddress, arenaId, amount });
+
+// ============================================
+// BETS THAT PLAY
+// ============================================
+describe('escrow of bets that play', () => {
+  test('a bet is held, moves into the pot and is settled after the payout', async () => {
+    const { escrow, payouts, noticesFor } = createLedger();
+    escrow.hold(bet('sig_play_a', ALICE, 'play'));
+    escrow.hold(bet('sig_play_b', BOB, 'play', 2000));
+    escrow.hold(bet('sig_play_other', ALICE, 'elsewhere'));
+
+    assert.equal(await statusOf('sig_play_a'), 'held');
+    assert.equal(escrow.getHeldAmount('play', ALICE), 1000);
+
+    escrow.commit('play');
+    assert.equal(await statusOf('sig_play_a'), 'in_pot');
+    assert.equal(await statusOf('sig_play_b'), 'in_pot');
+    assert.equal(escrow.getHeldAmount('play', ALICE), 0);
+
+    escrow.settle('play');
+    assert.equal(await statusOf('sig_play_a'), 'settled');
+    assert.equal(await statusOf('sig_play_b'), 'settled');
+    assert.equal(await statusOf('sig_play_other'), 'held');
+
+    // A settled pot cannot be refunded
+    assert.equal(escrow.refundPot('play', REFUND_REASONS.CANCELLED), 0);
+    assert.equal(payouts.getPendingCount(), 0);
+    assert.deepEqual(noticesFor(ALICE), []);
+  });
+
+  test('a commit limited to some bettors leaves the others held', async () => {
+    const { escrow } = createLedger();
+    escrow.hold(bet('sig_entrant', ALICE, 'bracket'));
+    escrow.hold(bet('sig_late', BOB, 'bracket'));
+
+    escrow.commit('bracket', [ALICE]);
+    assert.equal(await statusOf('sig_entrant'), 'in_pot');
+    assert.equal(await statusOf('sig_late'), 'held');
+    assert.equal(escrow.getHeldAmount('bracket', BOB), 1000);
+  });
+});
+
+// ============================================
+// REFUNDS
+// ============================================
+describe('escrow refunds', () => {
+  test('a held bet is refunded when its player leaves the arena', async () => {
+    const { escrow, chain, payouts, noticesFor } = createLedger();
+    escrow.hold(bet('sig_leave', ALICE, 'leave'));
+
+    assert.equal(escrow.refundHeld('leave', ALICE, REFUND_REASONS.LEFT_ARENA), 1000);
+    assert.equal(await statusOf('sig_leave'), 'refunding');
+    await payouts.flush();
+
+    assert.equal(await statusOf('sig_leave'), 'refunded');
+    assert.deepEqual(noticesFor(ALICE), ['refunding:left_arena', 'refunded:left_arena']);
+    assert.deepEqual(chain.getTransfers(), [
+      { signature: 'mock_payout_1', to: ALICE, amount: 1000, memo: `refund_sig_leave:refund:${ALICE}` },
+    ]);
+
+    const [refund] = await escrow.getRefunds(ALICE);
+    assert.equal(refund.refundSignature, 'mock_payout_1');
+    assert.equal(escrow.refundHeld('leave', ALICE, REFUND_REASONS.LEFT_ARENA), 0);
+  });
+
+  test('a single bet is refunded on its own and the other bets stay held', async () => {
+    const { escrow, payouts, noticesFor } = createLedger();
+    escrow.hold(bet('sig_buy_in', ALICE, 'turned_away'));
+    escrow.hold(bet('sig_extra', ALICE, 'turned_away', 500));
+
+    assert.equal(escrow.refundBet('sig_extra', REFUND_REASONS.INVALID_BUY_IN), 500);
+    assert.equal(escrow.refundBet('sig_extra', REFUND_REASONS.INVALID_BUY_IN), 0);
+    await payouts.flush();
+
+    assert.equal(await statusOf('sig_extra'), 'refunded');
+    assert.equal(await statusOf('sig_buy_in'), 'held');
+    assert.equal(escrow.getHeldAmount('turned_away', ALICE), 1000);
+    assert.deepEqual(noticesFor(ALICE), ['refunding:invalid_buy_in', 'refunded:invalid_buy_in']);
+  });
+
+  test('a pot is refunded when its duel is called off', async () => {
+    const { escrow, chain, payouts } = createLedger();
+    escrow.hold(bet('sig_void_a', ALICE, 'void'));
+    escrow.hold(bet('sig_void_b', BOB, 'void', 2000));
+    escrow.commit('void');
+
+    assert.equal(escrow.refundPot('void', REFUND_REASONS.NO_CONTEST), 3000);
+    await payouts.flush();
+
+    assert.equal(await statusOf('sig_void_a'), 'refunded');
+    assert.equal(await statusOf('sig_void_b'), 'refunded');
+    assert.equal(chain.balanceOf(BOB), 2000);
+  });
+
+  test('a refund stays refunding while it is retried and fails once it is dead-lettered', async () => {
+    const { escrow, chain, advance, noticesFor } = createLedger();
+    chain.failNext('rpc_error', PAYOUT_MAX_ATTEMPTS);
+    escrow.hold(bet('sig_fail', ALICE, 'fail'));
+    escrow.refundHeld('fail', ALICE, REFUND_REASONS.LEFT_ARENA);
+    await advance(0);
+
+    for (let attempt = 2; attempt <= PAYOUT_MAX_ATTEMPTS; attempt++) {
+      assert.equal(await statusOf('sig_fail'), 'refunding');
+      await advance(PAYOUT_RETRY_BASE_DELAY * 2 ** (attempt - 2));
+    }
+
+    assert.equal(chain.getCalls(), PAYOUT_MAX_ATTEMPTS);
+    assert.equal(await statusOf('sig_fail'), 'refund_failed');
+    assert.deepEqual(noticesFor(ALICE), ['refunding:left_arena', 'refund_failed:left_arena']);
+  });
+
+  test('a refund retried after a lost confirmation is paid once', async () => {
+    const { escrow, chain, advance } = createLedger();
+    chain.failNext('lost_confirmation');
+    escrow.hold(bet('sig_lost', ALICE, 'lost'));
+    escrow.refundHeld('lost', ALICE, REFUND_REASONS.LEFT_ARENA);
+    await advance(0);
+    assert.equal(await statusOf('sig_lost'), 'refunding');
+
+    await advance(PAYOUT_RETRY_BASE_DELAY);
+    assert.equal(await statusOf('sig_lost'), 'refunded');
+    assert.equal(chain.getTransfers().length, 1);
+  });
+});
+
+// ============================================
+// RESTARTS
+// ============================================
+describe('escrow after a restart', () => {
+  test('open bets are resumed or refunded, and refunds in flight are sent once', async () => {
+    const chain = createMockChain();
+    const previous = createLedger({ chain });
+    previous.escrow.hold(bet('sig_restart_held', ALICE, 'restart'));
+    previous.escrow.hold(bet('sig_restart_pot', BOB, 'restart_pot'));
+    previous.escrow.commit('restart_pot');
+    previous.escrow.hold(bet('sig_restart_flight', BOB, 'restart'));
+    chain.failNext('lost_confirmation');
+    previous.escrow.refundHeld('restart', BOB, REFUND_REASONS.LEFT_ARENA);
+    await previous.advance(0);
+    assert.equal(await statusOf('sig_restart_flight'), 'refunding');
+
+    // The next run takes the arenas over once the in-flight refund is due again
+    const next = createLedger({ chain, start: START + PAYOUT_RETRY_BASE_DELAY });
+    const { resumed, voided } = await next.escrow.recover(
+      (entry) => entry.arenaId.startsWith('restart'),
+      { resume: (entry) => entry.arenaId === 'restart' },
+    );
+    await next.payouts.flush();
+
+    assert.deepEqual(resumed.map(({ signature }) => signature), ['sig_restart_held']);
+    assert.deepEqual(voided.map(({ signature }) => signature), ['sig_restart_pot']);
+    assert.equal(await statusOf('sig_restart_held'), 'held');
+    assert.equal(next.escrow.getHeldAmount('restart', ALICE), 1000);
+    assert.equal(await statusOf('sig_restart_pot'), 'refunded');
+    assert.equal(await statusOf('sig_restart_flight'), 'refunded');
+    // The two refunds settle in either order
+    assert.deepEqual(next.noticesFor(BOB).sort(), [
+      'refunded:left_arena',
+      'refunded:server_restart',
+      'refunding:server_restart',
+    ]);
+    assert.deepEqual(chain.getTransfers().map(({ memo }) => memo).sort(), [
+      `refund_sig_restart_flight:refund:${BOB}`,
+      `refund_sig_restart_pot:refund:${BOB}`,
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @file fakeTime.js
+ * @description Manual clock and scheduler for unit tests. Modules that take an
+ * injectable `clock` and `scheduler` (duelEngine.js, payouts.js) run on it
+ * without real timers: time only moves when a test calls `advance`, which
+ * fires every timer that falls due on the way, in order.
+ */
+
+// ============================================
+// FAKE TIME
+// ============================================
+
+/**
+ * @function createFakeTime
+ * @param {number} [start] - The initial time, in ms.
+ * @returns {{
+ *   clock: import('../duelEngine.js').Clock,
+ *   scheduler: import('../duelEngine.js').Scheduler,
+ *   advance: (ms: number) => void,
+ *   getTimerCount: () => number,
+ * }}
+ */
+export const createFakeTime = (start = 0) => {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map(); // Map<id, { at: number, callback: () => void, interval: number|null }>
+
+  const add = (callback, delay, interval = null) => {
+    const id = nextId++;
+    timers.set(id, { at: now + Math.max(delay, 0), callback, interval });
+    return id;
+  };
+
+  const remove = (id) => timers.delete(id);
+
+  const getNextDue = (until) => {
+    let next = null;
+    for (const [id, timer] of timers) {
+      if (timer.at <= until && (!next || timer.at < next.timer.at)) next = { id, timer };
+    }
+    return next;
+  };
+
+  return {
+    clock: { now: () => now },
+
+    scheduler: {
+      setTimeout: (callback, delay) => add(callback, delay),
+      clearTimeout: remove,
+      setInterval: (callback, interval) => add(callback, interval, interval),
+      clearInterval: remove,
+    },
+
+    /**
+     * Moves time forward, firing timers as they fall due. Timers set by a
+     * callback fire too if they are due before the end.
+     * @param {number} ms
+     */
+    advance(ms) {
+      const until = now + ms;
+      for (let next = getNextDue(until); next; next = getNextDue(until)) {
+        const { id, timer } = next;
+        now = timer.at;
+        if (timer.interval === null) {
+          timers.delete(id);
+        } else {
+          timer.at += timer.interval;
+        }
+        timer.callback();
+      }
+      now = until;
+    },
+
+    /**
+     * @returns {number} Timers and intervals still scheduled.
+     */
+    getTimerCount() {
+      return timers.size;
+    },
+  };
+};
@@ -0,0 +1,464 @@
+/**
+ * @file harness.js
+ * @description End-to-end test harness. Boots the real game server (`index.js`)
+ * in a child process on the in-memory database backend, with a stub payout
+ * route standing in for the chain, and drives it through Socket.IO clients
+ * that sign in with generated keypairs, bet through `/internal/confirm-bet`
+ * and shoot on a script. Everything runs on real timers; `FAST_TIMINGS`
+ * shortens the waits around the shooting (gong, time limit, post-round pause)
+ * so a round takes seconds, while the bar itself keeps its production speed.
+ */
+
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { io } from 'socket.io-client';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+
+const SERVER_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+const INTERNAL_API_SECRET = 'test-internal-secret';
+const ADMIN_API_SECRET = 'test-admin-secret';
+
+export const DEFAULT_WAIT_TIMEOUT = 60000;
+const SERVER_START_TIMEOUT = 10000;
+
+// Timing overrides read by duelEngine.js and arena.js, in ms. The time limit
+// still leaves room for two rounds of the classic bar.
+export const FAST_TIMINGS = {
+  GONG_DELAY_MIN: 1000,
+  GONG_DELAY_SPREAD: 0,
+  DUEL_MAX_DURATION: 8000,
+  POST_ROUND_DURATION: 1000,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * @typedef {object} RecordedEvent
+ * @property {string} event - The Socket.IO event name.
+ * @property {any} payload - Its first argument.
+ * @property {number} at - When it arrived, in ms.
+ */
+
+/**
+ * @typedef {object} PayoutRequest
+ * @property {string} walletAddress
+ * @property {number} amount - Whole tokens.
+ * @property {string} idempotencyKey
+ */
+
+/**
+ * @typedef {'hit'|'miss'|'hold'} ShotAction - Shoot inside the target zone,
+ *   shoot before it, or never shoot and take the automatic miss.
+ */
+
+// ============================================
+// HELPERS
+// ============================================
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @function getFreePort
+ * @description Asks the OS for a port nobody is listening on.
+ * @returns {Promise<number>}
+ */
+const getFreePort = async () => {
+  const probe = createServer();
+  probe.listen(0, '127.0.0.1');
+  await once(probe, 'listening');
+  const { port } = probe.address();
+  probe.close();
+  await once(probe, 'close');
+  return port;
+};
+
+/**
+ * @function readBody
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<any>} The parsed JSON body.
+ */
+const readBody = async (req) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body || '{}');
+};
+
+// ============================================
+// CHAIN STUB
+// ============================================
+
+/**
+ * @function startChainStub
+ * @description Serves `POST /api/payout` the way the client's route does,
+ * without a chain: every request is recorded and answered with a made-up
+ * signature, and a key that was already paid is answered with `alreadySent`.
+ * @returns {Promise<{ url: string, payouts: PayoutRequest[], close: () => Promise<void> }>}
+ */
+const startChainStub = async () => {
+  /** @type {PayoutRequest[]} */
+  const payouts = [];
+  const signatures = new Map(); // Map<idempotencyKey, signature>
+
+  const server = createServer(async (req, res) => {
+    const reply = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || req.url !== '/api/payout') return reply(404, { error: 'Not found' });
+    if (req.headers.authorization !== `Bearer ${INTERNAL_API_SECRET}`) return reply(401, { error: 'Unauthorized' });
+
+    const { walletAddress, amount, idempotencyKey } = await readBody(req);
+    if (signatures.has(idempotencyKey)) {
+      return reply(200, { success: true, signature: signatures.get(idempotencyKey), amount, alreadySent: true });
+    }
+
+    const signature = `stub_payout_${payouts.length + 1}`;
+    signatures.set(idempotencyKey, signature);
+    payouts.push({ walletAddress, amount, idempotencyKey });
+    reply(200, { success: true, signature, amount });
+  });
+
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    payouts,
+    close: async () => {
+      server.closeAllConnections();
+      server.close();
+      await once(server, 'close');
+    },
+  };
+};
+
+// ============================================
+// GAME SERVER
+// ============================================
+
+/**
+ * @function startGame
+ * @description Boots a game server of its own: in-memory database, the chain
+ * stub for payouts and a temporary audit log. Call `stop()` when done.
+ * @param {object} [options]
+ * @param {Partial<typeof FAST_TIMINGS>} [options.timings] - Delays to override, e.g.
+ *   `FAST_TIMINGS`; the production ones by default.
+ * @returns {Promise<{
+ *   url: string,
+ *   payouts: PayoutRequest[],
+ *   getOutput: () => string,
+ *   confirmBet: (walletAddress: string, amount: number, txSignature?: string) => Promise<number>,
+ *   getAudit: (filter: { roundId?: string, walletAddress?: string }) => Promise<object[]>,
+ *   stop: () => Promise<void>,
+ * }>}
+ */
+export const startGame = async ({ timings = {} } = {}) => {
+  const chain = await startChainStub();
+  const logDir = await mkdtemp(join(tmpdir(), 'potshot-e2e-'));
+  const port = await getFreePort();
+  const url = `http://127.0.0.1:${port}`;
+
+  const child = spawn(process.execPath, ['index.js'], {
+    cwd: SERVER_DIR,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      DATABASE_BACKEND: 'memory',
+      VERCEL_API_URL: chain.url,
+      INTERNAL_API_SECRET,
+      ADMIN_API_SECRET,
+      AUDIT_LOG_PATH: join(logDir, 'audit.jsonl'),
+      ADMIN_WALLETS: '',
+      METRICS_TOKEN: '',
+      ...Object.fromEntries(Object.entries(timings).map(([name, ms]) => [name, String(ms)])),
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  // Kept for failure messages
+  let output = '';
+  child.stdout.on('data', (chunk) => { output += chunk; });
+  child.stderr.on('data', (chunk) => { output += chunk; });
+  const exited = once(child, 'exit');
+
+  const stop = async () => {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill('SIGKILL');
+      await exited;
+    }
+    await chain.close();
+    await rm(logDir, { recursive: true, force: true });
+  };
+
+  // Ready once it answers HTTP
+  const startedAt = Date.now();
+  for (;;) {
+    if (child.exitCode !== null) {
+      await stop();
+      throw new Error(`Game server exited during startup:\n${output}`);
+    }
+    try {
+      await fetch(`${url}/metrics`);
+      break;
+    } catch {
+      if (Date.now() - startedAt > SERVER_START_TIMEOUT) {
+        await stop();
+        throw new Error(`Game server did not start:\n${output}`);
+      }
+      await delay(100);
+    }
+  }
+
+  return {
+    ...attachGame(url, { internalSecret: INTERNAL_API_SECRET, adminSecret: ADMIN_API_SECRET }),
+    payouts: chain.payouts,
+    getOutput: () => output,
+    stop,
+  };
+};
+
+/**
+ * @function attachGame
+ * @description Drives a game server that is already running through its
+ * internal and admin routes. Bets confirmed this way skip the chain, so only
+ * point it at a server on the memory backend.
+ * @param {string} url
+ * @param {{ internalSecret?: string, adminSecret?: string }} secrets - INTERNAL_API_SECRET and ADMIN_API_SECRET of that server.
+ */
+export const attachGame = (url, { internalSecret, adminSecret }) => {
+  let betCount = 0;
+
+  return {
+    url,
+
+    /**
+     * Confirms a bet as the client's `/api/bet` route does once the transfer
+     * is verified.
+     * @returns {Promise<number>} The response status.
+     */
+    async confirmBet(walletAddress, amount, txSignature = `test_bet_${++betCount}_${walletAddress}`) {
+      const response = await fetch(`${url}/internal/confirm-bet`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${internalSecret}` },
+        body: JSON.stringify({ walletAddress, amount, txSignature }),
+      });
+      return response.status;
+    },
+
+    async getReplay(replayId) {
+      const response = await fetch(`${url}/internal/replays/${replayId}`, {
+        headers: { Authorization: `Bearer ${internalSecret}` },
+      });
+      return response.ok ? response.json() : null;
+    },
+
+    async getAudit({ roundId, walletAddress }) {
+      const query = new URLSearchParams({ limit: '500' });
+      if (roundId) query.set('roundId', roundId);
+      if (walletAddress) query.set('walletAddress', walletAddress);
+      const response = await fetch(`${url}/admin/audit?${query}`, {
+        headers: { Authorization: `Bearer ${adminSecret}` },
+      });
+      return response.json();
+    },
+  };
+};
+
+// ============================================
+// PLAYERS
+// ============================================
+
+/**
+ * @function createWallet
+ * @description A fresh keypair standing in for a wallet adapter.
+ * @returns {{ walletAddress: string, sign: (message: string) => string }} The
+ *   base58 address, and a signer returning base58 signatures of challenge messages.
+ */
+export const createWallet = () => {
+  const keypair = nacl.sign.keyPair();
+  return {
+    walletAddress: bs58.encode(keypair.publicKey),
+    sign: (message) => bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey)),
+  };
+};
+
+/**
+ * @function connectPlayer
+ * @description Connects a client, signs the wallet challenge with a fresh
+ * keypair and waits for `lobby:joined`. Every event the client receives is
+ * recorded in `events`.
+ * @param {{ url: string }} game
+ * @param {object} [options]
+ * @param {string} [options.name] - Display name to set after signing in.
+ * @returns {Promise<ReturnType<typeof createPlayer>>}
+ */
+export const connectPlayer = async (game, { name } = {}) => {
+  const wallet = createWallet();
+  const player = createPlayer(game.url, wallet.walletAddress);
+
+  player.socket.on('player:authChallenge', ({ message }) => {
+    player.socket.emit('player:joinWithWallet', {
+      walletAddress: wallet.walletAddress,
+      signature: wallet.sign(message),
+      message,
+    });
+  });
+
+  await player.waitFor('arena:list');
+  player.socket.emit('player:requestChallenge');
+  const joined = await Promise.race([
+    player.waitFor('lobby:joined'),
+    player.waitFor('lobby:joinFailed').then((error) => { throw new Error(`Sign-in failed: ${error}`); }),
+  ]);
+  player.sessionToken = joined.sessionToken;
+
+  if (name) {
+    player.socket.emit('player:setName', name);
+    await player.waitFor('lobby:state', (players) => players[player.walletAddress]?.name === name);
+  }
+  return player;
+};
+
+/**
+ * @function createPlayer
+ * @description A Socket.IO client that records what it receives.
+ * @param {string} url
+ * @param {string} walletAddress
+ */
+const createPlayer = (url, walletAddress) => {
+  const socket = io(url, { transports: ['websocket'], reconnection: false });
+  /** @type {RecordedEvent[]} */
+  const events = [];
+  const waiters = new Set();
+
+  socket.onAny((event, payload) => {
+    const recorded = { event, payload, at: Date.now() };
+    events.push(recorded);
+    waiters.forEach((waiter) => waiter(recorded));
+  });
+
+  return {
+    walletAddress,
+    socket,
+    events,
+    sessionToken: null,
+
+    /**
+     * Resolves with the payload of the first matching event received after
+     * `since` (an index into `events`; 0 looks at everything received so far).
+     * @param {string} event
+     * @param {(payload: any) => boolean} [predicate]
+     * @param {{ since?: number, timeout?: number }} [options]
+     */
+    waitFor(event, predicate = () => true, { since = 0, timeout = DEFAULT_WAIT_TIMEOUT } = {}) {
+      const matches = (recorded) => recorded.event === event && predicate(recorded.payload);
+      const earlier = events.slice(since).find(matches);
+      if (earlier) return Promise.resolve(earlier.payload);
+
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiters.delete(waiter);
+          reject(new Error(`${walletAddress.slice(0, 8)} timed out waiting for ${event}`));
+        }, timeout);
+        // A wait nobody needs any more (e.g. the losing side of a race) must not keep the process alive
+        timer.unref();
+        const waiter = (recorded) => {
+          if (!matches(recorded)) return;
+          clearTimeout(timer);
+          waiters.delete(waiter);
+          resolve(recorded.payload);
+        };
+        waiters.add(waiter);
+      });
+    },
+
+    /** Readies up for every duel this player is picked for. */
+    readyForDuels() {
+      socket.on('game:phaseChange', ({ phase, fighters }) => {
+        if (phase === 'IN_ROUND' && fighters.some((f) => f.id === walletAddress)) {
+          socket.emit('duel:playerReady', { entropy: `${walletAddress}-entropy` });
+        }
+      });
+    },
+
+    /**
+     * Shoots each round according to `actions` (round 1 first); rounds past
+     * the end of the script are held.
+     * @param {ShotAction[]} actions
+     */
+    shootScript(actions) {
+      const onRound = (round) => {
+        const action = actions[round.round - 1] ?? 'hold';
+        if (action === 'hold') return;
+        setTimeout(() => socket.emit('duel:shoot'), Math.max(0, getShotTime(round, action) - Date.now()));
+      };
+      socket.on('duel:aimPhase', onRound);
+      socket.on('duel:newRound', onRound);
+    },
+
+    disconnect() {
+      socket.disconnect();
+    },
+  };
+};
+
+/**
+ * @function getShotTime
+ * @description When to press so the server sees the bar in the middle of the
+ * target zone (`hit`) or halfway to it (`miss`), during the bar's first
+ * sweep, before the automatic miss. Server and harness share a clock.
+ * @param {{ startTime: number, barCycleDuration: number, zone: { min: number, max: number } }} round
+ * @param {'hit'|'miss'} action
+ * @returns {number} The press time in ms.
+ */
+export const getShotTime = ({ startTime, barCycleDuration, zone }, action) => {
+  const position = action === 'hit' ? (zone.min + zone.max) / 2 : zone.min / 2;
+  return startTime + position * barCycleDuration;
+};
+
+// ============================================
+// ASSERTIONS
+// ============================================
+
+/**
+ * @function eventNames
+ * @description Names of recorded events, with the phase appended to
+ * `game:phaseChange` (e.g. `game:phaseChange:IN_ROUND`) and the outcome to
+ * `duel:roundEnd`, skipping latency, clock and lobby traffic.
+ * @param {RecordedEvent[]} events
+ * @param {string} [prefix] - Only events starting with this (e.g. `duel:`).
+ * @returns {string[]}
+ */
+export const eventNames = (events, prefix = '') => events
+  .filter(({ event }) => event.startsWith(prefix) && !/^(latency|time|lobby|arena):/.test(event))
+  .map(({ event, payload }) => {
+    if (event === 'game:phaseChange') return `${event}:${payload.phase}`;
+    if (event === 'duel:roundEnd') return `${event}:${payload.outcome}`;
+    return event;
+  });
+
+/**
+ * @function findSequence
+ * @description Whether `expected` occurs in `names` in order, not necessarily
+ * back to back.
+ * @param {string[]} names
+ * @param {string[]} expected
+ * @returns {boolean}
+ */
+export const findSequence = (names, expected) => {
+  let next = 0;
+  for (const name of names) {
+    if (name === expected[next]) next++;
+    if (next === expected.length) return true;
+  }
+  return expected.length === 0;
+};
@@ -0,0 +1,525 @@
+/**
+ * @file loadTest.js
+ * @description Load test for the lobby and broadcast path. Signs in a swarm
+ * of bots, has a few of them bet every lobby so duels keep running in the
+ * `main` arena (the fighters ready up and shoot at random), and reports:
+ * - bet fan-out: from confirming a bet to each bot seeing it in `lobby:state`
+ * - duel broadcast spread: from the first bot receiving a duel event to each
+ *   of the others receiving it, and broadcasts that never arrived
+ * - the server's CPU, memory and event loop delay, scraped from `/metrics`,
+ *   including how often the 60 Hz duel tick fell behind
+ *
+ * Without `--url` it boots a server of its own the way the end-to-end tests
+ * do. With `--url` it drives a running one, which must be on the memory
+ * backend since bets are confirmed through `/internal/confirm-bet` without a
+ * chain; set INTERNAL_API_SECRET (and METRICS_TOKEN if the server has one).
+ *
+ * Usage: npm run loadtest -- [--bots 200] [--ramp 50] [--duration 120]
+ *   [--bettors 2] [--url https://staging.example] [--json report.json]
+ */
+
+import { parseArgs } from 'node:util';
+import { writeFile } from 'node:fs/promises';
+import { io } from 'socket.io-client';
+import { startGame, attachGame, createWallet, getShotTime } from './harness.js';
+
+const FRAME_MS = 1000 / 60;
+const BET_AMOUNT = 1000;
+const SIGN_IN_TIMEOUT = 30000;
+const PROBE_TIMEOUT = 10000;
+const PHASE_TIMEOUT = 180000;
+const SAMPLE_INTERVAL = 1000;
+
+// Sent to the whole arena room. A copy arriving this long after the first
+// one counts as missed (and the same payload later on as a new broadcast).
+const DUEL_BROADCASTS = [
+  'game:phaseChange',
+  'duel:bothReady',
+  'duel:gong',
+  'duel:aimPhase',
+  'duel:newRound',
+  'duel:shot',
+  'duel:roundEnd',
+];
+const BROADCAST_WINDOW = 5000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @function summarize
+ * @param {number[]} values
+ * @returns {{ count: number, p50: number, p95: number, p99: number, max: number } | null}
+ */
+const summarize = (values) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (quantile) => sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))];
+  return { count: sorted.length, p50: at(0.5), p95: at(0.95), p99: at(0.99), max: sorted.at(-1) };
+};
+
+const formatSummary = (summary, unit = 'ms') => summary
+  ? `p50 ${summary.p50}${unit}  p95 ${summary.p95}${unit}  p99 ${summary.p99}${unit}  max ${summary.max}${unit}  (n=${summary.count})`
+  : 'no samples';
+
+const toMegabytes = (bytes) => Math.round(bytes / 1024 / 1024);
+
+// ============================================
+// SERVER METRICS
+// ============================================
+
+/**
+ * @function parseMetrics
+ * @param {string} text - A Prometheus scrape body.
+ * @returns {Map<string, number>} Value per series, keyed as written (e.g. `potshot_process_memory_bytes{type="rss"}`).
+ */
+const parseMetrics = (text) => {
+  const values = new Map();
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith('#')) continue;
+    const space = line.lastIndexOf(' ');
+    values.set(line.slice(0, space), Number(line.slice(space + 1)));
+  }
+  return values;
+};
+
+/**
+ * @function startSampler
+ * @description Scrapes `/metrics` every second until stopped.
+ * @param {string} url
+ */
+const startSampler = (url) => {
+  const headers = process.env.METRICS_TOKEN ? { Authorization: `Bearer ${process.env.METRICS_TOKEN}` } : {};
+  const samples = [];
+  let failures = 0;
+  let scraping = false;
+
+  const scrape = async () => {
+    if (scraping) return;
+    scraping = true;
+    try {
+      const response = await fetch(`${url}/metrics`, { headers });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const metrics = parseMetrics(await response.text());
+      samples.push({
+        at: Date.now(),
+        cpuSeconds: metrics.get('potshot_process_cpu_seconds'),
+        rss: metrics.get('potshot_process_memory_bytes{type="rss"}'),
+        heapUsed: metrics.get('potshot_process_memory_bytes{type="heap_used"}'),
+        delayP99: metrics.get('potshot_event_loop_delay_seconds{quantile="0.99"}') * 1000,
+        delayMax: metrics.get('potshot_event_loop_delay_seconds{quantile="1"}') * 1000,
+        sockets: metrics.get('potshot_sockets_connected'),
+      });
+    } catch {
+      failures++;
+    } finally {
+      scraping = false;
+    }
+  };
+
+  scrape();
+  const intervalId = setInterval(scrape, SAMPLE_INTERVAL);
+
+  return {
+    stop() {
+      clearInterval(intervalId);
+    },
+
+    /** CPU use per interval and the peaks of the other series */
+    summary() {
+      const cpuPercents = samples.slice(1).map((sample, i) => {
+        const previous = samples[i];
+        return ((sample.cpuSeconds - previous.cpuSeconds) / ((sample.at - previous.at) / 1000)) * 100;
+      });
+      const peak = (field) => Math.max(0, ...samples.map((sample) => sample[field]).filter(Number.isFinite));
+      return {
+        samples: samples.length,
+        failedScrapes: failures,
+        cpuPercentAverage: Math.round(cpuPercents.reduce((sum, value) => sum + value, 0) / (cpuPercents.length || 1)),
+        cpuPercentPeak: Math.round(Math.max(0, ...cpuPercents)),
+        rssPeakBytes: peak('rss'),
+        heapUsedPeakBytes: peak('heapUsed'),
+        socketsPeak: peak('sockets'),
+        eventLoopDelayP99PeakMs: Math.round(peak('delayP99')),
+        eventLoopDelayMaxMs: Math.round(peak('delayMax')),
+        // Scrape intervals in which the loop stalled for longer than a frame
+        intervalsBehindTick: samples.filter((sample) => sample.delayMax > FRAME_MS).length,
+      };
+    },
+  };
+};
+
+// ============================================
+// SWARM
+// ============================================
+
+/**
+ * @function createSwarm
+ * @description The bots and what they measure together.
+ * @param {string} url
+ */
+const createSwarm = (url) => {
+  const bots = [];
+  const signInMs = [];
+  let signInFailures = 0;
+  let connected = 0;
+  let disconnects = 0;
+
+  // Duel broadcasts, tracked once the ramp-up is over (joining sockets get
+  // their own copy of the current phase)
+  let tracking = false;
+  const broadcasts = new Map(); // Map<event and payload, { firstAt, expected, received }>
+  const spreadMs = [];
+  let broadcastsSent = 0;
+  let deliveriesExpected = 0;
+  let deliveriesReceived = 0;
+
+  const closeBroadcast = ({ expected, received }) => {
+    broadcastsSent++;
+    deliveriesExpected += expected;
+    deliveriesReceived += Math.min(received, expected);
+  };
+
+  const receiveBroadcast = (key) => {
+    if (!tracking) return;
+    const now = Date.now();
+    const entry = broadcasts.get(key);
+    if (entry && now - entry.firstAt <= BROADCAST_WINDOW) {
+      entry.received++;
+      spreadMs.push(now - entry.firstAt);
+      return;
+    }
+    if (entry) closeBroadcast(entry);
+    broadcasts.set(key, { firstAt: now, expected: connected, received: 1 });
+  };
+
+  // Bet fan-out: one bet in flight at a time
+  let probe = null; // { id, walletAddress, betAmount, sentAt, expected, latencies, done }
+  let probeCount = 0;
+  const fanOutMs = [];
+  let lobbyStatesExpected = 0;
+  let lobbyStatesReceived = 0;
+  let lobbyStateCount = 0;
+  let lobbyStateBytes = 0;
+
+  // The first bot follows the arena for the driver
+  let observer = null;
+  let phase = null;
+  let lastLobbyState = {};
+  const phaseWaiters = new Set();
+
+  const onLobbyState = (bot, players) => {
+    lobbyStateCount++;
+    if (bot === observer) {
+      lastLobbyState = players;
+      lobbyStateBytes = Math.max(lobbyStateBytes, Buffer.byteLength(JSON.stringify(players)));
+    }
+    if (probe && bot.probeSeen !== probe.id && players[probe.walletAddress]?.betAmount >= probe.betAmount) {
+      bot.probeSeen = probe.id;
+      probe.latencies.push(Date.now() - probe.sentAt);
+      if (probe.latencies.length >= probe.expected) probe.done();
+    }
+  };
+
+  /**
+   * @function connectBot
+   * @description Connects and signs in one bot. As a fighter it readies up
+   * and shoots at random, as a player would; the timing is taken from when
+   * the round arrives, so it does not depend on the server's clock.
+   */
+  const connectBot = async () => {
+    const wallet = createWallet();
+    const socket = io(url, { transports: ['websocket'], reconnection: false });
+    const bot = { walletAddress: wallet.walletAddress, socket, probeSeen: 0, fighting: false, signedIn: false };
+    const startedAt = Date.now();
+
+    socket.on('latency:ping', ({ seq }) => socket.emit('latency:pong', { seq }));
+    socket.on('player:authChallenge', ({ message }) => {
+      socket.emit('player:joinWithWallet', { walletAddress: wallet.walletAddress, signature: wallet.sign(message), message });
+    });
+    socket.on('lobby:state', (players) => onLobbyState(bot, players));
+    DUEL_BROADCASTS.forEach((event) => {
+      socket.on(event, (payload) => receiveBroadcast(`${event}:${JSON.stringify(payload)}`));
+    });
+
+    socket.on('game:phaseChange', ({ phase: nextPhase, fighters }) => {
+      bot.fighting = nextPhase === 'IN_ROUND' && fighters.some((fighter) => fighter.id === bot.walletAddress);
+      if (bot.fighting) socket.emit('duel:playerReady', { entropy: `${bot.walletAddress}-${Date.now()}` });
+      if (bot === observer) {
+        phase = nextPhase;
+        phaseWaiters.forEach((waiter) => waiter());
+      }
+    });
+    const shoot = (round) => {
+      if (!bot.fighting) return;
+      const action = Math.random() < 0.5 ? 'hit' : 'miss';
+      setTimeout(() => socket.emit('duel:shoot'), getShotTime(round, action) - round.startTime);
+    };
+    socket.on('duel:aimPhase', shoot);
+    socket.on('duel:newRound', shoot);
+
+    socket.on('disconnect', () => {
+      if (!bot.signedIn) return;
+      bot.signedIn = false;
+      connected--;
+      disconnects++;
+    });
+
+    try {
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('Sign-in timed out')), SIGN_IN_TIMEOUT);
+        const fail = (error) => {
+          clearTimeout(timer);
+          reject(error instanceof Error ? error : new Error(error));
+        };
+        socket.once('arena:list', () => socket.emit('player:requestChallenge'));
+        socket.once('lobby:joined', () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        socket.once('lobby:joinFailed', fail);
+        socket.once('connect_error', fail);
+      });
+    } catch (error) {
+      signInFailures++;
+      socket.disconnect();
+      return error;
+    }
+
+    bot.signedIn = true;
+    connected++;
+    signInMs.push(Date.now() - startedAt);
+    observer ??= bot;
+    if (bot === observer) phase ??= 'LOBBY';
+    bots.push(bot);
+    return null;
+  };
+
+  return {
+    bots,
+
+    /**
+     * Signs bots in, `rate` per second.
+     * @returns {Promise<string[]>} Distinct sign-in errors.
+     */
+    async rampUp(count, rate) {
+      const errors = new Set();
+      for (let started = 0; started < count; started += rate) {
+        const batchStartedAt = Date.now();
+        const batch = Array.from({ length: Math.min(rate, count - started) }, connectBot);
+        (await Promise.all(batch)).forEach((error) => error && errors.add(error.message));
+        await delay(1000 - (Date.now() - batchStartedAt));
+      }
+      tracking = true;
+      return Array.from(errors);
+    },
+
+    /** Resolves once the observer sees `target` (immediately if it already has). */
+    waitForPhase(target) {
+      if (phase === target) return Promise.resolve();
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          phaseWaiters.delete(waiter);
+          reject(new Error(`No ${target} phase within ${PHASE_TIMEOUT / 1000}s`));
+        }, PHASE_TIMEOUT);
+        const waiter = () => {
+          if (phase !== target) return;
+          clearTimeout(timer);
+          phaseWaiters.delete(waiter);
+          resolve();
+        };
+        phaseWaiters.add(waiter);
+      });
+    },
+
+    /**
+     * Confirms a bet for `bot` and waits until every connected bot has seen it
+     * in `lobby:state`, or for PROBE_TIMEOUT.
+     * @param {{ confirmBet: Function }} game
+     */
+    async placeBet(game, bot) {
+      const betAmount = (lastLobbyState[bot.walletAddress]?.betAmount ?? 0) + BET_AMOUNT;
+      let done;
+      const seenByAll = new Promise((resolve) => { done = resolve; });
+      probe = {
+        id: ++probeCount,
+        walletAddress: bot.walletAddress,
+        betAmount,
+        sentAt: Date.now(),
+        expected: connected,
+        latencies: [],
+        done,
+      };
+
+      const status = await game.confirmBet(bot.walletAddress, BET_AMOUNT);
+      if (status !== 200) {
+        probe = null;
+        throw new Error(`Bet confirmation failed with HTTP ${status}`);
+      }
+      await Promise.race([seenByAll, delay(PROBE_TIMEOUT)]);
+
+      fanOutMs.push(...probe.latencies);
+      lobbyStatesExpected += probe.expected;
+      lobbyStatesReceived += probe.latencies.length;
+      probe = null;
+    },
+
+    /** Lets the last broadcasts reach every bot, then disconnects them. */
+    async disconnectAll() {
+      if (tracking) await delay(BROADCAST_WINDOW);
+      tracking = false;
+      bots.forEach((bot) => {
+        bot.signedIn = false;
+        bot.socket.disconnect();
+      });
+    },
+
+    summary() {
+      broadcasts.forEach(closeBroadcast);
+      broadcasts.clear();
+      return {
+        botsSignedIn: bots.length,
+        signInFailures,
+        disconnects,
+        signInMs: summarize(signInMs),
+        betFanOutMs: summarize(fanOutMs),
+        betsMissedBy: lobbyStatesExpected - lobbyStatesReceived,
+        betsExpected: lobbyStatesExpected,
+        lobbyStatesReceived: lobbyStateCount,
+        lobbyStatePeakBytes: lobbyStateBytes,
+        duelBroadcasts: broadcastsSent,
+        duelSpreadMs: summarize(spreadMs),
+        duelDeliveriesMissed: deliveriesExpected - deliveriesReceived,
+        duelDeliveriesExpected: deliveriesExpected,
+      };
+    },
+  };
+};
+
+// ============================================
+// RUN
+// ============================================
+
+/**
+ * @function playRounds
+ * @description Each lobby, `bettors` random bots bet one after another, which
+ * starts the auction; then waits for the duel to finish and the lobby to
+ * reopen, until `durationMs` has passed.
+ * @returns {Promise<number>} Rounds started.
+ */
+const playRounds = async (swarm, game, bettors, durationMs) => {
+  const endAt = Date.now() + durationMs;
+  let rounds = 0;
+
+  while (Date.now() < endAt) {
+    await swarm.waitForPhase('LOBBY');
+    const candidates = swarm.bots.filter((bot) => bot.signedIn);
+    for (let i = 0; i < bettors && candidates.length > 0; i++) {
+      const [bot] = candidates.splice(Math.floor(Math.random() * candidates.length), 1);
+      await swarm.placeBet(game, bot);
+    }
+    await swarm.waitForPhase('IN_ROUND');
+    rounds++;
+    await swarm.waitForPhase('LOBBY');
+  }
+  return rounds;
+};
+
+/**
+ * @function printReport
+ */
+const printReport = ({ url, options, rounds, durationSeconds, clientCpuPercent, swarm, server, errors }) => {
+  const lines = [
+    '',
+    `Load test against ${url}: ${options.bots} bots, ${rounds} rounds in ${durationSeconds}s`,
+    '',
+    `  Signed in            ${swarm.botsSignedIn} (${swarm.signInFailures} failed, ${swarm.disconnects} dropped later)`,
+    `  Sign-in              ${formatSummary(swarm.signInMs)}`,
+    `  Bet fan-out          ${formatSummary(swarm.betFanOutMs)}`,
+    `  Bets not seen        ${swarm.betsMissedBy} of ${swarm.betsExpected} deliveries`,
+    `  lobby:state          ${swarm.lobbyStatesReceived} received, up to ${Math.round(swarm.lobbyStatePeakBytes / 1024)} KB each`,
+    `  Duel spread          ${formatSummary(swarm.duelSpreadMs)}`,
+    `  Duel broadcasts      ${swarm.duelBroadcasts}, ${swarm.duelDeliveriesMissed} of ${swarm.duelDeliveriesExpected} deliveries missed`,
+    '',
+    `  Server CPU           ${server.cpuPercentAverage}% average, ${server.cpuPercentPeak}% peak`,
+    `  Server memory        ${toMegabytes(server.rssPeakBytes)} MB RSS, ${toMegabytes(server.heapUsedPeakBytes)} MB heap at peak`,
+    `  Event loop delay     ${server.eventLoopDelayP99PeakMs} ms worst p99, ${server.eventLoopDelayMaxMs} ms max`,
+    `  60 Hz tick behind    in ${server.intervalsBehindTick} of ${server.samples} one-second samples`,
+    `  Load tool CPU        ${clientCpuPercent}% (near 100% the bots, not the server, are the bottleneck)`,
+  ];
+  if (server.failedScrapes > 0) lines.push(`  /metrics failed      ${server.failedScrapes} times`);
+  errors.forEach((error) => lines.push(`  Error                ${error}`));
+  console.log(lines.join('\n'));
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      url: { type: 'string' },
+      bots: { type: 'string', default: '200' },
+      ramp: { type: 'string', default: '50' },
+      duration: { type: 'string', default: '120' },
+      bettors: { type: 'string', default: '2' },
+      json: { type: 'string' },
+    },
+  });
+  const options = {
+    bots: Number(values.bots),
+    ramp: Number(values.ramp),
+    duration: Number(values.duration),
+    bettors: Number(values.bettors),
+  };
+  if (Object.values(options).some((value) => !Number.isInteger(value) || value < 1)) {
+    throw new Error('--bots, --ramp, --duration and --bettors must be positive integers');
+  }
+
+  const game = values.url
+    ? attachGame(values.url.replace(/\/$/, ''), { internalSecret: process.env.INTERNAL_API_SECRET })
+    : await startGame();
+  const swarm = createSwarm(game.url);
+  const sampler = startSampler(game.url);
+  const errors = [];
+  let rounds = 0;
+
+  const clientCpuStart = process.cpuUsage();
+  const startedAt = Date.now();
+  try {
+    console.log(`Signing in ${options.bots} bots at ${options.ramp}/s...`);
+    errors.push(...await swarm.rampUp(options.bots, options.ramp));
+    if (swarm.bots.length === 0) throw new Error('No bot could sign in');
+
+    console.log(`Playing rounds for ${options.duration}s, finishing the last one...`);
+    rounds = await playRounds(swarm, game, options.bettors, options.duration * 1000);
+  } catch (error) {
+    errors.push(error.message);
+  } finally {
+    sampler.stop();
+    await swarm.disconnectAll();
+    await game.stop?.();
+  }
+
+  const elapsedMs = Date.now() - startedAt;
+  const { user, system } = process.cpuUsage(clientCpuStart);
+  const report = {
+    url: game.url,
+    options,
+    rounds,
+    durationSeconds: Math.round(elapsedMs / 1000),
+    clientCpuPercent: Math.round(((user + system) / 1000 / elapsedMs) * 100),
+    swarm: swarm.summary(),
+    server: sampler.summary(),
+    errors,
+  };
+
+  printReport(report);
+  if (values.json) await writeFile(values.json, `${JSON.stringify(report, null, 2)}\n`);
+  process.exitCode = errors.length > 0 ? 1 : 0;
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
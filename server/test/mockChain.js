@@ -0,0 +1,92 @@
+/**
+ * @file mockChain.js
+ * @description Treasury ledger for payout unit tests, standing in for the
+ * client's `/api/payout` route on its mock chain (client/src/lib/mockChain.ts).
+ * `transfer` is what `createPayoutQueue` takes: like the route, it first looks
+ * for a treasury transfer whose memo is the job's idempotency key and returns
+ * it as `alreadySent`, and only sends otherwise. Failures are scripted with
+ * `failNext`.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * @typedef {'rpc_error'|'lost_confirmation'|'rejected'} MockFailure
+ * `rpc_error` throws and sends nothing; `lost_confirmation` sends but throws,
+ * as when confirmation times out; `rejected` is the route refusing the
+ * request (HTTP 400), which is not retried.
+ */
+
+/**
+ * @typedef {object} MockTransfer
+ * @property {string} signature
+ * @property {string} to - The recipient wallet.
+ * @property {number} amount - Whole tokens.
+ * @property {string} memo - The payout's idempotency key.
+ */
+
+// ============================================
+// MOCK CHAIN
+// ============================================
+
+/**
+ * @function createMockChain
+ * @returns {{
+ *   transfer: (job: import('../payouts.js').PayoutJob) => Promise<{ signature: string, alreadySent?: boolean }>,
+ *   failNext: (failure: MockFailure, times?: number) => void,
+ *   getTransfers: () => MockTransfer[],
+ *   getCalls: () => number,
+ *   balanceOf: (walletAddress: string) => number,
+ * }}
+ */
+export const createMockChain = () => {
+  const transfers = [];
+  const scripted = [];
+  let calls = 0;
+
+  const fail = (message, retryable = true) => Object.assign(new Error(`Mock chain: ${message}`), { retryable });
+
+  return {
+    async transfer({ walletAddress, amount, idempotencyKey }) {
+      calls += 1;
+      const failure = scripted.shift();
+      if (failure === 'rejected') throw fail('payout rejected', false);
+
+      const existing = transfers.find((tx) => tx.memo === idempotencyKey);
+      if (existing) return { signature: existing.signature, alreadySent: true };
+
+      if (failure === 'rpc_error') throw fail('send failed (rpc_error)');
+
+      const signature = `mock_payout_${transfers.length + 1}`;
+      transfers.push({ signature, to: walletAddress, amount, memo: idempotencyKey });
+      if (failure === 'lost_confirmation') throw fail(`sent as ${signature} but not confirmed`);
+      return { signature };
+    },
+
+    /**
+     * Makes the next calls fail.
+     * @param {MockFailure} failure
+     * @param {number} [times]
+     */
+    failNext(failure, times = 1) {
+      for (let i = 0; i < times; i++) scripted.push(failure);
+    },
+
+    getTransfers() {
+      return transfers.map((tx) => ({ ...tx }));
+    },
+
+    /**
+     * @returns {number} Transfer requests so far, failed ones included.
+     */
+    getCalls() {
+      return calls;
+    },
+
+    balanceOf(walletAddress) {
+      return transfers.filter((tx) => tx.to === walletAddress).reduce((sum, tx) => sum + tx.amount, 0);
+    },
+  };
+};
@@ -0,0 +1,219 @@
+/**
+ * @file payouts.test.js
+ * @description Unit tests for the durable payout queue on the in-memory
+ * database backend, a fake clock and the mock chain (`test/mockChain.js`):
+ * confirmation, idempotency keys, retry backoff, dead-lettering and requeues.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFakeTime } from './fakeTime.js';
+import { createMockChain } from './mockChain.js';
+
+// database.js picks its backend when it is first imported
+process.env.DATABASE_BACKEND = 'memory';
+const { createPayoutQueue, getPayoutKey, PAYOUT_MAX_ATTEMPTS, PAYOUT_RETRY_BASE_DELAY } = await import('../payouts.js');
+const { getPayoutJob } = await import('../database.js');
+const { AUDIT_EVENTS } = await import('../auditLog.js');
+
+const START = Date.parse('2026-01-01T00:00:00Z');
+const WALLET = 'Wa11et1111111111111111111111111111111111111';
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * @function createQueue
+ * @description Creates a payout queue on fake time, recording its audit
+ * events and settled jobs.
+ * @param {{ chain?: ReturnType<typeof createMockChain> }} [options] - A fresh mock chain by default.
+ */
+const createQueue = ({ chain = createMockChain() } = {}) => {
+  const time = createFakeTime(START);
+  const audited = [];
+  const settled = [];
+  const payouts = createPayoutQueue({
+    audit: { record: (type, fields) => audited.push({ type, ...fields }) },
+    clock: time.clock,
+    scheduler: time.scheduler,
+    transfer: chain.transfer,
+  });
+  payouts.onSettled((job) => settled.push(job));
+
+  // Moves time forward and waits for the attempts that fell due
+  const advance = async (ms) => {
+    time.advance(ms);
+    await payouts.flush();
+  };
+
+  return { time, chain, payouts, audited, settled, advance };
+};
+
+const payout = (roundId, overrides = {}) => ({
+  roundId,
+  walletAddress: WALLET,
+  amount: 2700,
+  transactionType: 'payout',
+  ...overrides,
+});
+
+// ============================================
+// IDEMPOTENCY
+// ============================================
+describe('payout idempotency', () => {
+  test('the key is round, type and wallet', () => {
+    assert.equal(getPayoutKey('round_1', 'payout', WALLET), `round_1:payout:${WALLET}`);
+  });
+
+  test('a payout is confirmed on its first attempt and saved under its key', async () => {
+    const { chain, payouts, audited, settled } = createQueue();
+
+    const job = await payouts.enqueue(payout('round_confirm'));
+    await payouts.flush();
+
+    assert.equal(job.idempotencyKey, `round_confirm:payout:${WALLET}`);
+    assert.equal(job.status, 'confirmed');
+    assert.deepEqual(chain.getTransfers(), [
+      { signature: 'mock_payout_1', to: WALLET, amount: 2700, memo: job.idempotencyKey },
+    ]);
+    assert.deepEqual(settled, [job]);
+    assert.equal(payouts.getPendingCount(), 0);
+    assert.deepEqual(audited.map(({ type }) => type), [AUDIT_EVENTS.PAYOUT_QUEUED, AUDIT_EVENTS.PAYOUT_CONFIRMED]);
+
+    const row = await getPayoutJob(job.idempotencyKey);
+    assert.equal(row.status, 'confirmed');
+    assert.equal(row.signature, 'mock_payout_1');
+    assert.equal(row.attempts, 1);
+  });
+
+  test('queuing the same payout twice sends it once', async () => {
+    const { chain, payouts } = createQueue();
+
+    const [first, second] = await Promise.all([
+      payouts.enqueue(payout('round_twice')),
+      payouts.enqueue(payout('round_twice')),
+    ]);
+    await payouts.flush();
+
+    assert.equal(first, second);
+    assert.equal(chain.getCalls(), 1);
+  });
+
+  test('other types and wallets of the same round are separate payouts', async () => {
+    const { chain, payouts } = createQueue();
+
+    await payouts.enqueue(payout('round_split', { transactionType: 'payout_split' }));
+    await payouts.enqueue(payout('round_split', { transactionType: 'payout_split', walletAddress: 'Other' }));
+    await payouts.enqueue(payout('round_split', { transactionType: 'refund' }));
+    await payouts.flush();
+
+    assert.deepEqual(chain.getTransfers().map(({ memo }) => memo), [
+      `round_split:payout_split:${WALLET}`,
+      'round_split:payout_split:Other',
+      `round_split:refund:${WALLET}`,
+    ]);
+  });
+
+  test('a retry of a transfer that landed without confirmation does not pay twice', async () => {
+    const { chain, payouts, advance } = createQueue();
+    chain.failNext('lost_confirmation');
+
+    const job = await payouts.enqueue(payout('round_lost'));
+    await payouts.flush();
+    assert.equal(job.status, 'pending');
+    assert.equal(chain.balanceOf(WALLET), 2700);
+
+    await advance(PAYOUT_RETRY_BASE_DELAY);
+    assert.equal(job.status, 'confirmed');
+    assert.equal(job.signature, 'mock_payout_1');
+    assert.equal(chain.getTransfers().length, 1);
+    assert.equal(chain.balanceOf(WALLET), 2700);
+  });
+});
+
+// ============================================
+// RETRIES
+// ============================================
+describe('payout retries', () => {
+  test('failed attempts back off exponentially and dead-letter after PAYOUT_MAX_ATTEMPTS', async () => {
+    const { chain, payouts, audited, settled, advance } = createQueue();
+    chain.failNext('rpc_error', PAYOUT_MAX_ATTEMPTS);
+
+    const job = await payouts.enqueue(payout('round_backoff'));
+    await payouts.flush();
+    assert.equal(chain.getCalls(), 1);
+
+    for (let attempt = 2; attempt <= PAYOUT_MAX_ATTEMPTS; attempt++) {
+      const delay = PAYOUT_RETRY_BASE_DELAY * 2 ** (attempt - 2);
+      await advance(delay - 1);
+      assert.equal(chain.getCalls(), attempt - 1, `attempt ${attempt} waits ${delay} ms`);
+      await advance(1);
+      assert.equal(chain.getCalls(), attempt);
+    }
+
+    assert.equal(job.status, 'dead_letter');
+    assert.equal(job.attempts, PAYOUT_MAX_ATTEMPTS);
+    assert.deepEqual(settled, [job]);
+    assert.equal(payouts.getPendingCount(), 0);
+    assert.equal(audited.filter(({ type }) => type === AUDIT_EVENTS.PAYOUT_FAILED).length, PAYOUT_MAX_ATTEMPTS - 1);
+    assert.equal(audited.at(-1).type, AUDIT_EVENTS.PAYOUT_DEAD_LETTERED);
+    assert.equal(chain.getTransfers().length, 0);
+
+    const row = await getPayoutJob(job.idempotencyKey);
+    assert.equal(row.status, 'dead_letter');
+    assert.equal(row.attempts, PAYOUT_MAX_ATTEMPTS);
+    assert.match(row.error_message, /rpc_error/);
+    assert.ok((await payouts.getDeadLetters()).some(({ idempotencyKey }) => idempotencyKey === job.idempotencyKey));
+
+    // Nothing is left scheduled
+    await advance(PAYOUT_RETRY_BASE_DELAY * 2 ** PAYOUT_MAX_ATTEMPTS);
+    assert.equal(chain.getCalls(), PAYOUT_MAX_ATTEMPTS);
+  });
+
+  test('a payout the route rejects is dead-lettered without retries', async () => {
+    const { chain, payouts } = createQueue();
+    chain.failNext('rejected');
+
+    const job = await payouts.enqueue(payout('round_rejected'));
+    await payouts.flush();
+
+    assert.equal(job.status, 'dead_letter');
+    assert.equal(job.attempts, 1);
+  });
+
+  test('a requeued dead letter gets a fresh set of attempts', async () => {
+    const { chain, payouts, settled } = createQueue();
+    chain.failNext('rejected');
+
+    const dead = await payouts.enqueue(payout('round_requeue'));
+    await payouts.flush();
+
+    const job = await payouts.requeue(dead.idempotencyKey);
+    await payouts.flush();
+
+    assert.equal(job.status, 'confirmed');
+    assert.equal(job.attempts, 1);
+    assert.deepEqual(settled.map(({ status }) => status), ['dead_letter', 'confirmed']);
+    assert.equal((await getPayoutJob(dead.idempotencyKey)).status, 'confirmed');
+    assert.equal(await payouts.requeue(dead.idempotencyKey), null);
+  });
+
+  test('a restarted queue recovers pending payouts once they are due', async () => {
+    const first = createQueue();
+    first.chain.failNext('rpc_error');
+    const job = await first.payouts.enqueue(payout('round_recover'));
+    await first.payouts.flush();
+
+    // The next run starts before the retry is due, on the same chain
+    const second = createQueue({ chain: first.chain });
+    await second.payouts.recover();
+    assert.equal(second.payouts.getPendingCount(), 1);
+    assert.equal(first.chain.getCalls(), 1);
+
+    await second.advance(PAYOUT_RETRY_BASE_DELAY);
+    assert.equal((await getPayoutJob(job.idempotencyKey)).status, 'confirmed');
+    assert.equal(first.chain.getTransfers().length, 1);
+    assert.equal(second.payouts.getPendingCount(), 0);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * @file round.test.js
+ * @description End-to-end rounds in the `main` arena (1v1, best of one,
+ * classic rules): two signed-in players bet 1,000 and 2,000 tokens, ready up,
+ * and shoot on a script. Each scenario boots its own server with
+ * `FAST_TIMINGS`, and they run concurrently.
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { startGame, connectPlayer, eventNames, findSequence, FAST_TIMINGS } from './harness.js';
+
+const ALICE_BET = 1000;
+const BOB_BET = 2000;
+const POT = ALICE_BET + BOB_BET;
+const WINNER_PAYOUT = Math.floor(POT * 0.9);
+const PROTOCOL_FEE = Math.floor(POT * 0.1);
+
+// Sign-in, the shortened gong, time limit and post-round pause, with room for a loaded machine
+const ROUND_TIMEOUT = 30000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * @function startDuel
+ * @description Boots a server, signs Alice and Bob in, gives them their
+ * shooting scripts and places their bets, which starts the auction countdown.
+ * @param {import('node:test').TestContext} t
+ * @param {{ alice: import('./harness.js').ShotAction[], bob: import('./harness.js').ShotAction[] }} scripts
+ */
+const startDuel = async (t, scripts) => {
+  const game = await startGame({ timings: FAST_TIMINGS });
+  t.after(async () => {
+    if (!t.passed) t.diagnostic(game.getOutput());
+    await game.stop();
+  });
+
+  const alice = await connectPlayer(game, { name: 'alice' });
+  const bob = await connectPlayer(game, { name: 'bob' });
+  for (const [player, script] of [[alice, scripts.alice], [bob, scripts.bob]]) {
+    player.readyForDuels();
+    player.shootScript(script);
+  }
+
+  assert.equal(await game.confirmBet(alice.walletAddress, ALICE_BET), 200);
+  assert.equal(await game.confirmBet(bob.walletAddress, BOB_BET), 200);
+
+  return { game, alice, bob };
+};
+
+/**
+ * @function finishRound
+ * @description Waits for the round's result and for the lobby to reopen.
+ * @param {Awaited<ReturnType<typeof connectPlayer>>} observer - A player still connected.
+ * @returns {Promise<{ winnerData: object, lobby: object }>} The POST_ROUND payload and the first lobby state after it, with refreshed stats.
+ */
+const finishRound = async (observer) => {
+  const isPhase = (phase) => (payload) => payload.phase === phase;
+  const { winnerData } = await observer.waitFor('game:phaseChange', isPhase('POST_ROUND'), { timeout: ROUND_TIMEOUT });
+  const since = observer.events.length;
+  await observer.waitFor('game:phaseChange', isPhase('LOBBY'), { since });
+  const lobby = await observer.waitFor('lobby:state', () => true, { since });
+  return { winnerData, lobby };
+};
+
+/**
+ * @function getStatDeltas
+ * @description Adds up a wallet's successful `stat_delta` audit events.
+ * @returns {Promise<Record<string, number>>} Increment per stat column.
+ */
+const getStatDeltas = async (game, walletAddress) => {
+  const events = await game.getAudit({ walletAddress });
+  const totals = { wins: 0, deaths: 0, total_games_played: 0, net_winnings: 0 };
+  for (const { type, ok, details } of events) {
+    if (type === 'stat_delta' && ok) totals[details.field] += details.delta;
+  }
+  return totals;
+};
+
+/**
+ * @function getRoundId
+ * @description The round ID the money events of the round were recorded under.
+ */
+const getRoundId = async (game, walletAddress) => {
+  const events = await game.getAudit({ walletAddress });
+  return events.find((event) => event.type === 'stat_delta')?.roundId;
+};
+
+/**
+ * @function assertSequence
+ * @description Asserts the duel events and phase changes `player` received
+ * contain `expected` in order.
+ */
+const assertSequence = (player, expected) => {
+  const names = eventNames(player.events).filter((name) => name.startsWith('duel:') || name.startsWith('game:'));
+  assert.ok(findSequence(names, expected), `expected ${expected.join(' → ')}\nreceived ${names.join(' → ')}`);
+};
+
+/**
+ * @function assertWinnerTakesPot
+ * @description Asserts one payout of 90% of the pot to the winner, the 10%
+ * protocol fee, and the winner's and loser's stat increments.
+ */
+const assertWinnerTakesPot = async (game, winner, winnerBet, loser, loserBet) => {
+  const roundId = await getRoundId(game, winner.walletAddress);
+  assert.deepEqual(game.payouts, [{
+    walletAddress: winner.walletAddress,
+    amount: WINNER_PAYOUT,
+    idempotencyKey: `${roundId}:payout:${winner.walletAddress}`,
+  }]);
+
+  const roundEvents = await game.getAudit({ roundId });
+  const fee = roundEvents.find((event) => event.type === 'protocol_fee');
+  assert.equal(fee?.amount, PROTOCOL_FEE);
+  assert.ok(roundEvents.some((event) => event.type === 'payout_confirmed' && event.walletAddress === winner.walletAddress));
+
+  assert.deepEqual(await getStatDeltas(game, winner.walletAddress), {
+    wins: 1, deaths: 0, total_games_played: 1, net_winnings: WINNER_PAYOUT - winnerBet,
+  });
+  assert.deepEqual(await getStatDeltas(game, loser.walletAddress), {
+    wins: 0, deaths: 1, total_games_played: 1, net_winnings: -loserBet,
+  });
+};
+
+// ============================================
+// SCENARIOS
+// ============================================
+
+describe('a full round in the main arena', { concurrency: true, timeout: ROUND_TIMEOUT + 30000 }, () => {
+  test('a hit against a miss wins the pot', async (t) => {
+    const { game, alice, bob } = await startDuel(t, { alice: ['hit'], bob: ['miss'] });
+    const { winnerData, lobby } = await finishRound(alice);
+
+    assertSequence(alice, [
+      'game:phaseChange:IN_ROUND',
+      'duel:state',
+      'duel:bothReady',
+      'duel:gong',
+      'duel:aimPhase',
+      'duel:shot',
+      'duel:shot',
+      'duel:roundEnd:hit',
+      'game:phaseChange:POST_ROUND',
+      'game:phaseChange:LOBBY',
+    ]);
+    const roundEnd = alice.events.find((e) => e.event === 'duel:roundEnd').payload;
+    assert.deepEqual(roundEnd.winnerIds, [alice.walletAddress]);
+    assert.deepEqual(roundEnd.loserIds, [bob.walletAddress]);
+    assert.equal(winnerData.name, 'alice');
+    assert.equal(winnerData.pot, WINNER_PAYOUT);
+
+    await assertWinnerTakesPot(game, alice, ALICE_BET, bob, BOB_BET);
+
+    // The lobby shows the stats read back from the repository
+    assert.deepEqual(lobby[alice.walletAddress].stats, {
+      kills: 0, deaths: 0, wins: 1, totalGamesPlayed: 1, netWinnings: WINNER_PAYOUT - ALICE_BET,
+    });
+    assert.deepEqual(lobby[bob.walletAddress].stats, {
+      kills: 0, deaths: 1, wins: 0, totalGamesPlayed: 1, netWinnings: -BOB_BET,
+    });
+    assert.equal(lobby[alice.walletAddress].betAmount, 0);
+
+    // The replay route of the client reads the duel back from the game server
+    const replay = await game.getReplay(winnerData.replayId);
+    assert.equal(replay.id, winnerData.replayId);
+    assert.equal(replay.result.winnerId, alice.walletAddress);
+    assert.equal(await game.getReplay('00000000-0000-0000-0000-000000000000'), null);
+  });
+
+  test('a dodge plays another round', async (t) => {
+    const { game, alice, bob } = await startDuel(t, { alice: ['hit', 'miss'], bob: ['hit', 'hit'] });
+    const { winnerData } = await finishRound(alice);
+
+    assertSequence(alice, [
+      'duel:aimPhase',
+      'duel:roundEnd:dodge',
+      'duel:newRound',
+      'duel:roundEnd:hit',
+      'game:phaseChange:POST_ROUND',
+    ]);
+    assert.equal(winnerData.name, 'bob');
+    await assertWinnerTakesPot(game, bob, BOB_BET, alice, ALICE_BET);
+  });
+
+  test('a double miss plays another round', async (t) => {
+    const { game, alice, bob } = await startDuel(t, { alice: ['miss', 'hit'], bob: ['miss', 'miss'] });
+    const { winnerData } = await finishRound(alice);
+
+    assertSequence(alice, [
+      'duel:aimPhase',
+      'duel:roundEnd:miss',
+      'duel:newRound',
+      'duel:roundEnd:hit',
+      'game:phaseChange:POST_ROUND',
+    ]);
+    const shots = alice.events.filter((e) => e.event === 'duel:shot').slice(0, 2).map((e) => e.payload);
+    assert.ok(shots.every((shot) => !shot.hit && !shot.autoMiss), 'both first-round shots are fired misses');
+    assert.equal(winnerData.name, 'alice');
+    await assertWinnerTakesPot(game, alice, ALICE_BET, bob, BOB_BET);
+  });
+
+  test('a fighter who disconnects mid-round auto-misses and loses', async (t) => {
+    const { game, alice, bob } = await startDuel(t, { alice: ['hit'], bob: ['hold'] });
+    bob.socket.on('duel:aimPhase', () => bob.disconnect());
+    const { winnerData } = await finishRound(alice);
+
+    assertSequence(alice, [
+      'duel:aimPhase',
+      'duel:fighterDisconnected',
+      'duel:roundEnd:hit',
+      'game:phaseChange:POST_ROUND',
+    ]);
+    const disconnected = alice.events.find((e) => e.event === 'duel:fighterDisconnected').payload;
+    assert.equal(disconnected.fighterId, bob.walletAddress);
+    const bobShot = alice.events.find((e) => e.event === 'duel:shot' && e.payload.shooterId === bob.walletAddress).payload;
+    assert.equal(bobShot.autoMiss, true);
+    assert.equal(winnerData.name, 'alice');
+    await assertWinnerTakesPot(game, alice, ALICE_BET, bob, BOB_BET);
+  });
+
+  test('running out of time splits the pot', async (t) => {
+    const { game, alice, bob } = await startDuel(t, { alice: [], bob: [] });
+    const { winnerData } = await finishRound(alice);
+
+    assertSequence(alice, [
+      'duel:aimPhase',
+      'duel:roundEnd:miss',
+      'duel:newRound',
+      'duel:roundEnd:miss',
+      'game:phaseChange:POST_ROUND',
+    ]);
+    const splitAmount = Math.floor(WINNER_PAYOUT / 2);
+    assert.deepEqual(winnerData, {
+      name: 'DRAW - POT SPLIT',
+      pot: splitAmount * 2,
+      isSplit: true,
+      splitCount: 2,
+      replayId: winnerData.replayId,
+    });
+
+    const roundId = await getRoundId(game, alice.walletAddress);
+    assert.deepEqual(
+      [...game.payouts].sort((a, b) => a.walletAddress.localeCompare(b.walletAddress)),
+      [alice, bob]
+        .map(({ walletAddress }) => ({ walletAddress, amount: splitAmount, idempotencyKey: `${roundId}:payout_split:${walletAddress}` }))
+        .sort((a, b) => a.walletAddress.localeCompare(b.walletAddress)),
+    );
+    assert.deepEqual(await getStatDeltas(game, alice.walletAddress), {
+      wins: 0, deaths: 0, total_games_played: 1, net_winnings: splitAmount - ALICE_BET,
+    });
+    assert.deepEqual(await getStatDeltas(game, bob.walletAddress), {
+      wins: 0, deaths: 0, total_games_played: 1, net_winnings: splitAmount - BOB_BET,
+    });
+  });
+});
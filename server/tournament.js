@@ -0,0 +1,186 @@
+/**
+ * @file tournament.js
+ * @description Single-elimination bracket bookkeeping for tournament arenas.
+ * These helpers only track who plays whom and who advanced; running the
+ * duels and paying out is left to the arena.
+ */
+
+export const BRACKET_SIZES = [4, 8, 16];
+
+/**
+ * @typedef {object} BracketEntrant
+ * @property {string} id - The entrant's player ID.
+ * @property {string} name - The entrant's display name.
+ * @property {string} walletAddress - Kept so the entrant can be paid even after leaving.
+ * @property {number} betAmount - What the entrant paid in.
+ * @property {number} seed - 1-based seed, in buy-in order.
+ */
+
+/**
+ * @typedef {object} BracketMatch
+ * @property {string} id - Stable match ID, e.g. "r1m0".
+ * @property {number} round - 1-based round number.
+ * @property {(string|null)[]} entrantIds - The two entrants; null while still undecided.
+ * @property {string|null} winnerId - The entrant who advanced.
+ * @property {'PENDING'|'LIVE'|'DONE'} status
+ * @property {string|null} replayId - Replay of the duel, once played; null for walkovers.
+ */
+
+/**
+ * @typedef {object} Bracket
+ * @property {number} size - Number of entrants (4, 8 or 16).
+ * @property {Record<string, BracketEntrant>} entrants
+ * @property {BracketMatch[][]} rounds - Matches grouped by round, first round first.
+ */
+
+/**
+ * @function createBracket
+ * @description Shuffles the entrants into a full first round and lays out
+ * empty matches for every later round.
+ * @param {Omit<BracketEntrant, 'seed'>[]} entrants - Entrants in seed order.
+ * @param {() => number} [random] - Random source used for the draw.
+ * @returns {Bracket}
+ */
+export const createBracket = (entrants, random = Math.random) => {
+  if (!BRACKET_SIZES.includes(entrants.length)) {
+    throw new Error(`Bracket size must be one of ${BRACKET_SIZES.join('/')}, got ${entrants.length}`);
+  }
+
+  const seeded = entrants.map((entrant, index) => ({ ...entrant, seed: index + 1 }));
+
+  // Fisher-Yates draw so seeds are not paired predictably.
+  const draw = [...seeded];
+  for (let i = draw.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [draw[i], draw[j]] = [draw[j], draw[i]];
+  }
+
+  const rounds = [];
+  let matchCount = entrants.length / 2;
+  for (let round = 1; matchCount >= 1; round++, matchCount /= 2) {
+    rounds.push(Array.from({ length: matchCount }, (_, index) => ({
+      id: `r${round}m${index}`,
+      round,
+      entrantIds: round === 1
+        ? [draw[index * 2].id, draw[index * 2 + 1].id]
+        : [null, null],
+      winnerId: null,
+      status: 'PENDING',
+      replayId: null,
+    })));
+  }
+
+  return {
+    size: entrants.length,
+    entrants: Object.fromEntries(seeded.map((entrant) => [entrant.id, entrant])),
+    rounds,
+  };
+};
+
+/**
+ * @function getNextMatch
+ * @description Finds the earliest match that is ready to be played.
+ * @param {Bracket} bracket
+ * @returns {BracketMatch|null}
+ */
+export const getNextMatch = (bracket) => {
+  for (const matches of bracket.rounds) {
+    for (const match of matches) {
+      if (match.status === 'PENDING' && match.entrantIds.every(Boolean)) {
+        return match;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * @function findMatch
+ * @param {Bracket} bracket
+ * @param {string} matchId
+ * @returns {BracketMatch|null}
+ */
+export const findMatch = (bracket, matchId) =>
+  bracket.rounds.flat().find((match) => match.id === matchId) ?? null;
+
+/**
+ * @function recordMatchWinner
+ * @description Closes a match and moves its winner into the next round.
+ * @param {Bracket} bracket
+ * @param {string} matchId
+ * @param {string} winnerId - Must be one of the match's entrants.
+ */
+export const recordMatchWinner = (bracket, matchId, winnerId) => {
+  const match = findMatch(bracket, matchId);
+  if (!match || match.status === 'DONE') return;
+  if (!match.entrantIds.includes(winnerId)) {
+    throw new Error(`${winnerId} is not playing in match ${matchId}`);
+  }
+
+  match.winnerId = winnerId;
+  match.status = 'DONE';
+
+  const nextRound = bracket.rounds[match.round];
+  if (!nextRound) return;
+
+  const index = Number(matchId.split('m')[1]);
+  nextRound[Math.floor(index / 2)].entrantIds[index % 2] = winnerId;
+};
+
+/**
+ * @function drawMatchWinner
+ * @description Picks either of a match's entrants by lot, for a match no duel
+ * decided. Seeds play no part, so buying in early gives no edge.
+ * @param {BracketMatch} match
+ * @param {() => number} [random] - Random source used for the draw.
+ * @returns {string}
+ */
+export const drawMatchWinner = (match, random = Math.random) =>
+  match.entrantIds[Math.floor(random() * match.entrantIds.length)];
+
+/**
+ * @function getFinalMatch
+ * @param {Bracket} bracket
+ * @returns {BracketMatch}
+ */
+export const getFinalMatch = (bracket) => bracket.rounds[bracket.rounds.length - 1][0];
+
+/**
+ * @function getChampionId
+ * @param {Bracket} bracket
+ * @returns {string|null} The tournament winner once the final is played.
+ */
+export const getChampionId = (bracket) => getFinalMatch(bracket).winnerId;
+
+/**
+ * @function getRunnerUpId
+ * @param {Bracket} bracket
+ * @returns {string|null} The losing finalist once the final is played.
+ */
+export const getRunnerUpId = (bracket) => {
+  const final = getFinalMatch(bracket);
+  if (!final.winnerId) return null;
+  return final.entrantIds.find((entrantId) => entrantId !== final.winnerId) ?? null;
+};
+
+/**
+ * @function toPublicBracket
+ * @description Strips private entrant data before the bracket is broadcast.
+ * @param {Bracket} bracket
+ */
+export const toPublicBracket = (bracket) => ({
+  size: bracket.size,
+  championId: getChampionId(bracket),
+  rounds: bracket.rounds.map((matches) => matches.map((match) => ({
+    id: match.id,
+    round: match.round,
+    status: match.status,
+    winnerId: match.winnerId,
+    replayId: match.replayId,
+    entrants: match.entrantIds.map((entrantId) => {
+      if (!entrantId) return null;
+      const { id, name, seed } = bracket.entrants[entrantId];
+      return { id, name, seed };
+    }),
+  }))),
+});
@@ -0,0 +1,65 @@
+/**
+ * @file schema.d.ts
+ * @description Types for schema.js. Every combinator returns a `Schema<T>`
+ * whose `T` is inferred from its arguments, so `Infer<typeof schema>` is the
+ * type of a payload that passed validation.
+ */
+
+export interface Schema<T> {
+  parse(value: unknown, path: string): T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type InferShape<S extends Shape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+export interface ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  shape: S;
+}
+
+type VariantUnion<K extends string, V extends Record<string, ObjectSchema<Shape>>> = {
+  [Tag in keyof V & string]: { [P in K]: Tag } & Infer<V[Tag]>;
+}[keyof V & string];
+
+export function string(options?: { min?: number; max?: number }): Schema<string>;
+export function number(options?: { integer?: boolean; min?: number; max?: number }): Schema<number>;
+export function boolean(): Schema<boolean>;
+export function literal<const V extends readonly (string | number | boolean)[]>(...values: V): Schema<V[number]>;
+export function nullable<T>(schema: Schema<T>): Schema<T | null>;
+export function optional<T>(schema: Schema<T>): OptionalSchema<T>;
+export function array<T>(schema: Schema<T>, options?: { max?: number }): Schema<T[]>;
+export function tuple<const S extends readonly Schema<unknown>[]>(...schemas: S): Schema<{ -readonly [I in keyof S]: Infer<S[I]> }>;
+export function object<S extends Shape>(shape: S): ObjectSchema<S>;
+export function record<T>(schema: Schema<T>, options?: { max?: number }): Schema<Record<string, T>>;
+export function variant<K extends string, V extends Record<string, ObjectSchema<Shape>>>(key: K, variants: V): Schema<VariantUnion<K, V>>;
+export function none(): Schema<void>;
+export function unknown(): Schema<unknown>;
+
+export function validate<T>(schema: Schema<T>, value: unknown): { ok: true; value: T } | { ok: false; error: string };
+
+/** The part of a Socket.IO socket (server or client side) that `listen` uses. */
+export interface Listenable {
+  on: Function;
+  off: Function;
+}
+
+export function listen<M extends Record<string, Schema<unknown>>, E extends keyof M & string>(
+  socket: Listenable,
+  events: M,
+  event: E,
+  handler: (payload: Infer<M[E]>, ...rest: unknown[]) => void,
+  onInvalid?: (event: E, error: string) => void,
+): () => void;
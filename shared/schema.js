@@ -0,0 +1,203 @@
+/**
+ * @file schema.js
+ * @description Minimal runtime schemas for the payloads the game server and
+ * its clients exchange. A schema's `parse(value, path)` returns a clean copy
+ * of the value (objects keep only their declared keys) or throws with the path
+ * of the first field that does not match. Types for TypeScript callers are in
+ * schema.d.ts and are inferred from the schemas, so a payload's type and its
+ * validation cannot drift apart.
+ */
+
+const describe = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value;
+};
+
+const fail = (path, expected, value) => {
+  throw new Error(`${path || 'payload'}: expected ${expected}, got ${describe(value)}`);
+};
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path, key) => (path ? `${path}.${key}` : String(key));
+
+/**
+ * @function string
+ * @param {{ min?: number, max?: number }} [options] - Allowed length.
+ */
+export const string = ({ min = 0, max = 10000 } = {}) => ({
+  parse(value, path) {
+    if (typeof value !== 'string') fail(path, 'a string', value);
+    if (value.length < min || value.length > max) {
+      throw new Error(`${path || 'payload'}: expected ${min} to ${max} characters, got ${value.length}`);
+    }
+    return value;
+  },
+});
+
+/**
+ * @function number
+ * @param {{ integer?: boolean, min?: number, max?: number }} [options]
+ */
+export const number = ({ integer = false, min = -Infinity, max = Infinity } = {}) => ({
+  parse(value, path) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a finite number', value);
+    if (integer && !Number.isInteger(value)) fail(path, 'an integer', value);
+    if (value < min || value > max) {
+      throw new Error(`${path || 'payload'}: expected a number from ${min} to ${max}, got ${value}`);
+    }
+    return value;
+  },
+});
+
+export const boolean = () => ({
+  parse(value, path) {
+    if (typeof value !== 'boolean') fail(path, 'a boolean', value);
+    return value;
+  },
+});
+
+/**
+ * @function literal
+ * @param {...(string|number|boolean)} values - The allowed values.
+ */
+export const literal = (...values) => ({
+  parse(value, path) {
+    if (!values.includes(value)) {
+      throw new Error(`${path || 'payload'}: expected one of ${values.map((v) => JSON.stringify(v)).join(', ')}`);
+    }
+    return value;
+  },
+});
+
+export const nullable = (schema) => ({
+  parse: (value, path) => (value === null ? null : schema.parse(value, path)),
+});
+
+// An object key that may be missing (or undefined).
+export const optional = (schema) => ({
+  optional: true,
+  parse: (value, path) => (value === undefined ? undefined : schema.parse(value, path)),
+});
+
+/**
+ * @function array
+ * @param {object} schema - Schema of every item.
+ * @param {{ max?: number }} [options] - Maximum number of items.
+ */
+export const array = (schema, { max = 10000 } = {}) => ({
+  parse(value, path) {
+    if (!Array.isArray(value)) fail(path, 'an array', value);
+    if (value.length > max) throw new Error(`${path || 'payload'}: expected at most ${max} items, got ${value.length}`);
+    return value.map((item, i) => schema.parse(item, `${path}[${i}]`));
+  },
+});
+
+export const tuple = (...schemas) => ({
+  parse(value, path) {
+    if (!Array.isArray(value) || value.length !== schemas.length) fail(path, `a ${schemas.length}-item array`, value);
+    return schemas.map((schema, i) => schema.parse(value[i], `${path}[${i}]`));
+  },
+});
+
+/**
+ * @function object
+ * @param {Record<string, object>} shape - Schema of every key; keys not in the shape are dropped.
+ */
+export const object = (shape) => ({
+  shape,
+  parse(value, path) {
+    if (!isPlainObject(value)) fail(path, 'an object', value);
+    const result = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const parsed = schema.parse(value[key], join(path, key));
+      if (parsed !== undefined || !schema.optional) result[key] = parsed;
+    }
+    return result;
+  },
+});
+
+/**
+ * @function record
+ * @param {object} schema - Schema of every value.
+ * @param {{ max?: number }} [options] - Maximum number of keys.
+ */
+export const record = (schema, { max = 10000 } = {}) => ({
+  parse(value, path) {
+    if (!isPlainObject(value)) fail(path, 'an object', value);
+    const entries = Object.entries(value);
+    if (entries.length > max) throw new Error(`${path || 'payload'}: expected at most ${max} keys, got ${entries.length}`);
+    return Object.fromEntries(entries.map(([key, item]) => [key, schema.parse(item, join(path, key))]));
+  },
+});
+
+/**
+ * @function variant
+ * @description An object whose `key` field picks which object schema applies.
+ * @param {string} key - The tag field, e.g. 'phase'.
+ * @param {Record<string, object>} variants - An `object()` schema per tag value.
+ */
+export const variant = (key, variants) => ({
+  parse(value, path) {
+    if (!isPlainObject(value)) fail(path, 'an object', value);
+    const tag = value[key];
+    if (typeof tag !== 'string' || !Object.hasOwn(variants, tag)) {
+      throw new Error(`${join(path, key)}: expected one of ${Object.keys(variants).map((v) => JSON.stringify(v)).join(', ')}`);
+    }
+    return { [key]: tag, ...variants[tag].parse(value, path) };
+  },
+});
+
+// An event without a payload; whatever was sent is ignored.
+export const none = () => ({
+  parse: () => undefined,
+});
+
+// Passed through unchecked, e.g. free-form operator parameters.
+export const unknown = () => ({
+  parse: (value) => value,
+});
+
+/**
+ * @function validate
+ * @param {object} schema
+ * @param {unknown} value
+ * @returns {{ ok: true, value: unknown } | { ok: false, error: string }}
+ */
+export const validate = (schema, value) => {
+  try {
+    return { ok: true, value: schema.parse(value, '') };
+  } catch (error) {
+    return { ok: false, error: error.message };
+  }
+};
+
+/**
+ * @function listen
+ * @description Subscribes to an event of a contract, calling `handler` only
+ * with payloads that match its schema. Anything after the payload (e.g. an
+ * acknowledgement callback) is passed through.
+ * @param {{ on: Function, off: Function }} socket - A Socket.IO socket (server or client).
+ * @param {Record<string, object>} events - The contract, e.g. `CLIENT_EVENTS`.
+ * @param {string} event
+ * @param {(payload: unknown, ...rest: unknown[]) => void} handler
+ * @param {(event: string, error: string) => void} [onInvalid] - Called with each rejected payload.
+ * @returns {() => void} Unsubscribes.
+ */
+export const listen = (socket, events, event, handler, onInvalid = () => {}) => {
+  const schema = events[event];
+  if (!schema) throw new Error(`${event} is not part of the event contract`);
+
+  const listener = (payload, ...rest) => {
+    const result = validate(schema, payload);
+    if (!result.ok) {
+      onInvalid(event, result.error);
+      return;
+    }
+    handler(result.value, ...rest);
+  };
+
+  socket.on(event, listener);
+  return () => socket.off(event, listener);
+};
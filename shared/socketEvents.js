@@ -0,0 +1,336 @@
+/**
+ * @file socketEvents.js
+ * @description The Socket.IO event contract between the game server and its
+ * clients: every event either side may send, with the schema of its payload.
+ * The server validates what clients send against `CLIENT_EVENTS` and the
+ * client validates what the server sends against `SERVER_EVENTS`, so a
+ * renamed event or a changed payload fails loudly on both ends instead of
+ * being read as `undefined`. The operator console's `/admin` namespace has its
+ * own pair of maps.
+ */
+
+import {
+  string,
+  number,
+  boolean,
+  literal,
+  nullable,
+  optional,
+  array,
+  tuple,
+  object,
+  record,
+  variant,
+  none,
+  unknown,
+} from './schema.js';
+
+// ============================================
+// SHARED PAYLOAD PARTS
+// ============================================
+const id = () => string({ min: 1, max: 128 });
+const timestamp = () => number({ min: 0 });
+const count = () => number({ integer: true, min: 0 });
+// Token amounts; net winnings can go negative
+const tokens = () => number();
+// Display names are checked when they are set (`player:setName`), not on the way out
+const name = () => string();
+
+const gamePhase = literal('LOBBY', 'IN_ROUND', 'POST_ROUND');
+
+const targetZone = object({
+  min: number(),
+  max: number(),
+});
+
+const playerStats = object({
+  kills: number(),
+  deaths: number(),
+  wins: number(),
+  totalGamesPlayed: number(),
+  netWinnings: number(),
+});
+
+const player = object({
+  id: id(),
+  walletAddress: id(),
+  name: name(),
+  role: literal('SPECTATOR', 'CONTENDER'),
+  betAmount: tokens(),
+  lastBetTimestamp: nullable(timestamp()),
+  position: tuple(number(), number(), number()),
+  rotation: number(),
+  health: optional(count()),
+  stats: optional(playerStats),
+});
+
+const arenaSummary = object({
+  id: id(),
+  name: name(),
+  mode: literal('auction', 'tournament'),
+  fighterCount: count(),
+  bestOf: count(),
+  ruleset: object({
+    id: id(),
+    name: name(),
+    maxRounds: nullable(count()),
+  }),
+  bracketSize: optional(count()),
+  buyIn: optional(tokens()),
+  entrantCount: optional(count()),
+  phase: gamePhase,
+  bettingPaused: boolean(),
+  playerCount: count(),
+  contenderCount: count(),
+  pot: tokens(),
+});
+
+const bracketMatch = object({
+  id: id(),
+  round: count(),
+  status: literal('PENDING', 'LIVE', 'DONE'),
+  winnerId: nullable(id()),
+  replayId: nullable(id()),
+  entrants: array(nullable(object({ id: id(), name: name(), seed: count() }))),
+});
+
+const bracket = object({
+  size: count(),
+  championId: nullable(id()),
+  rounds: array(array(bracketMatch)),
+});
+
+const seedReveal = object({
+  seedHash: string(),
+  serverSeed: string(),
+  entropy: array(object({ fighterId: id(), entropy: string({ max: 64 }) })),
+  drawCount: count(),
+  replayId: id(),
+});
+
+const seriesScore = object({
+  bestOf: count(),
+  game: count(),
+  fighters: array(object({ id: id(), name: name(), wins: count(), health: count() })),
+});
+
+const refund = object({
+  signature: id(),
+  arenaId: id(),
+  amount: tokens(),
+  status: literal('refunding', 'refunded', 'refund_failed'),
+  reason: literal('left_arena', 'no_contest', 'server_restart', 'cancelled', 'invalid_buy_in', 'bracket_full'),
+  refundSignature: nullable(id()),
+  createdAt: timestamp(),
+});
+
+const barTiming = {
+  startTime: timestamp(),
+  barCycleDuration: number({ min: 0 }),
+  zone: targetZone,
+  // How far the zone slides along the bar per second from `zone`, bouncing off the ends
+  zoneDrift: number({ min: 0 }),
+};
+
+const walletSignIn = object({
+  walletAddress: string({ min: 32, max: 44 }),
+  signature: string({ min: 1, max: 128 }),
+  message: string({ min: 1, max: 512 }),
+});
+
+const ackResult = {
+  ok: boolean(),
+  error: optional(string()),
+};
+
+// ============================================
+// SERVER -> CLIENT
+// ============================================
+export const SERVER_EVENTS = {
+  // Arenas
+  'arena:list': array(arenaSummary),
+  'arena:joined': object({ arenaId: id() }),
+  'arena:joinFailed': string(),
+
+  // Sign-in and sessions
+  'auth:rateLimited': object({ message: string() }),
+  'player:authChallenge': object({ message: string() }),
+  'lobby:joined': object({
+    name: name(),
+    playerId: id(),
+    sessionToken: id(),
+    resumed: optional(boolean()),
+  }),
+  'lobby:joinFailed': string(),
+  'session:invalid': none(),
+  'session:kicked': object({ banned: boolean() }),
+  // A client event was dropped because its payload broke this contract
+  'socket:rejected': object({ event: string(), error: string() }),
+
+  // Lobby
+  'lobby:state': record(player),
+  'lobby:countdown': nullable(number()),
+  'lobby:betVerified': object({ signature: id() }),
+  'tournament:bracket': nullable(bracket),
+  'escrow:refund': refund,
+  'escrow:refunds': array(refund),
+
+  // Round flow; POST_ROUND is sent without `winnerData` to late joiners
+  'game:phaseChange': variant('phase', {
+    LOBBY: object({}),
+    IN_ROUND: object({
+      fighters: array(player),
+      roundPot: tokens(),
+      bestOf: count(),
+      match: optional(object({ id: id(), round: count() })),
+    }),
+    POST_ROUND: object({
+      winnerData: optional(object({
+        name: name(),
+        pot: tokens(),
+        isSplit: optional(boolean()),
+        splitCount: optional(count()),
+        refunded: optional(tokens()),
+        cancelled: optional(boolean()),
+        restarting: optional(boolean()),
+        replayId: optional(nullable(id())),
+      })),
+      fairness: optional(array(seedReveal)),
+    }),
+  }),
+
+  // Duels
+  'duel:state': object({
+    state: string(),
+    seedHash: string(),
+    fighters: array(object({
+      id: id(),
+      name: name(),
+      position: tuple(number(), number(), number()),
+      rotation: number(),
+      health: count(),
+    })),
+  }),
+  'duel:series': seriesScore,
+  'duel:bothReady': none(),
+  'duel:gong': object({ barCycleDuration: number({ min: 0 }), zone: targetZone, zoneDrift: number({ min: 0 }) }),
+  'duel:aimPhase': object({ ...barTiming, round: count(), maxRounds: nullable(count()) }),
+  'duel:newRound': object({ ...barTiming, round: count(), game: count(), message: string() }),
+  'duel:shot': object({
+    shooterId: id(),
+    hit: boolean(),
+    autoMiss: optional(boolean()),
+    barPosition: optional(number()),
+    compensationMs: optional(number()),
+    latencyMs: optional(number()),
+  }),
+  // `hit`: some fighters hit and the rest lost a life; `dodge`: everyone hit; `miss`: nobody did
+  'duel:roundEnd': object({
+    outcome: literal('hit', 'dodge', 'miss'),
+    winnerId: optional(nullable(id())),
+    loserId: optional(nullable(id())),
+    winnerIds: optional(array(id())),
+    loserIds: optional(array(id())),
+    eliminatedIds: optional(array(id())),
+    round: count(),
+    game: count(),
+  }),
+  'duel:fighterDisconnected': object({ fighterId: id(), graceMs: number({ min: 0 }) }),
+  'duel:fighterReconnected': object({ fighterId: id() }),
+  'duel:aiModeConfirmed': object({ aiPlayerId: id() }),
+
+  // Latency and clock sync
+  'latency:ping': object({ seq: count() }),
+  'time:sync': object({ clientSentAt: timestamp(), serverReceivedAt: timestamp(), serverSentAt: timestamp() }),
+};
+
+// ============================================
+// CLIENT -> SERVER
+// ============================================
+export const CLIENT_EVENTS = {
+  'latency:pong': object({ seq: count() }),
+  'time:sync': object({ clientSentAt: timestamp() }),
+  'arena:join': id(),
+  'player:requestChallenge': none(),
+  'player:joinWithWallet': walletSignIn,
+  'session:resume': object({ token: id() }),
+  'player:setName': string({ min: 1, max: 16 }),
+  'duel:playerReady': optional(object({ entropy: optional(string({ max: 256 })) })),
+  'duel:shoot': none(),
+  'duel:requestAIMode': none(),
+};
+
+// ============================================
+// ADMIN NAMESPACE
+// ============================================
+const adminArena = object({
+  ...arenaSummary.shape,
+  countdown: nullable(number()),
+  players: array(object({
+    id: id(),
+    name: name(),
+    betAmount: tokens(),
+    isFighter: boolean(),
+    isDetached: boolean(),
+  })),
+  duel: nullable(object({
+    state: string(),
+    round: count(),
+    game: count(),
+    bestOf: count(),
+    ruleset: id(),
+    zone: targetZone,
+    fighters: array(object({
+      id: id(),
+      name: name(),
+      health: count(),
+      wins: count(),
+      connected: boolean(),
+      forfeited: boolean(),
+      isReady: boolean(),
+      hasFired: boolean(),
+      shotResult: nullable(string()),
+      isAI: boolean(),
+    })),
+  })),
+  bracket: nullable(bracket),
+});
+
+const auditEvent = object({
+  id: id(),
+  at: string(),
+  type: string(),
+  roundId: nullable(string()),
+  arenaId: nullable(string()),
+  walletAddress: nullable(string()),
+  amount: nullable(number()),
+  ok: boolean(),
+  error: nullable(string()),
+  details: record(unknown()),
+});
+
+export const ADMIN_SERVER_EVENTS = {
+  'admin:authChallenge': object({ message: string() }),
+  'admin:authFailed': string(),
+  'admin:authenticated': object({ walletAddress: id() }),
+  // The arenas and ban list are shaped by admin.js and only read by the operator console
+  'admin:state': object({ arenas: array(adminArena), bannedWallets: array(id()) }),
+  'socket:rejected': object({ event: string(), error: string() }),
+};
+
+export const ADMIN_CLIENT_EVENTS = {
+  'admin:requestChallenge': none(),
+  'admin:auth': walletSignIn,
+  'admin:action': object({ action: string({ min: 1, max: 64 }), params: optional(record(unknown())) }),
+  'admin:audit': object({
+    roundId: optional(string({ max: 128 })),
+    walletAddress: optional(string({ max: 44 })),
+    limit: optional(number({ integer: true, min: 1 })),
+  }),
+};
+
+// What the server answers through the acknowledgement of an admin event
+export const ADMIN_ACKS = {
+  'admin:action': object(ackResult),
+  'admin:audit': object({ ...ackResult, events: optional(array(auditEvent)) }),
+};